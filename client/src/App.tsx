@@ -20,6 +20,7 @@ import Insurance from "@/pages/insurance";
 
 import PriorAuthGenerator from "@/pages/prior-auth-generator";
 import ExternalConnections from "@/pages/external-connections";
+import StateFormTemplates from "@/pages/state-form-templates";
 import NotFound from "@/pages/not-found";
 import MainLayout from "@/components/layout/main-layout";
 import { useAuth } from "@/hooks/use-auth";
@@ -111,6 +112,12 @@ function Router() {
           <PriorAuthGenerator />
         </ProtectedRoute>
       </Route>
+
+      <Route path="/state-form-templates">
+        <ProtectedRoute>
+          <StateFormTemplates />
+        </ProtectedRoute>
+      </Route>
       <Route component={NotFound} />
     </Switch>
   );
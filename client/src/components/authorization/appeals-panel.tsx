@@ -0,0 +1,368 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  APPEAL_LEVELS,
+  APPEAL_LEVEL_LABELS,
+  APPEAL_OUTCOMES,
+  APPEAL_OUTCOME_LABELS,
+  isAppealOpen,
+  type AppealLevel,
+  type AppealOutcome,
+} from "@shared/appeals";
+import type { Appeal, Document } from "@shared/schema";
+
+interface AppealsPanelProps {
+  authorizationId: number;
+}
+
+interface AppealRequest {
+  path: string;
+  method?: "POST" | "PATCH";
+  body?: Record<string, unknown>;
+  success: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const deadlineBadge = (label: string, date: string | Date | null) => {
+  if (!date) return null;
+  const days = Math.ceil((new Date(date).getTime() - Date.now()) / DAY_MS);
+  const className = days < 0
+    ? "bg-red-100 text-red-800"
+    : days <= 7
+      ? "bg-orange-100 text-orange-800"
+      : "bg-gray-100 text-gray-800";
+  return (
+    <Badge className={className}>
+      <CalendarClock className="h-3 w-3 mr-1" />
+      {label} {new Date(date).toLocaleDateString()} ({days < 0 ? `${-days}d overdue` : `${days}d left`})
+    </Badge>
+  );
+};
+
+// Appeals of a denied or partially approved authorization: draft the letter, file it and record the payer's outcome
+export default function AppealsPanel({ authorizationId }: AppealsPanelProps) {
+  const { toast } = useToast();
+  const { token } = useAuth();
+  const queryClient = useQueryClient();
+  const [level, setLevel] = useState<AppealLevel>("first_level");
+  const [expedited, setExpedited] = useState(false);
+  const [letter, setLetter] = useState("");
+  const [selectedDocuments, setSelectedDocuments] = useState<number[]>([]);
+  const [outcome, setOutcome] = useState<{ outcome: AppealOutcome; notes: string; authorizationNumber: string; expirationDate: string }>({
+    outcome: "overturned",
+    notes: "",
+    authorizationNumber: "",
+    expirationDate: "",
+  });
+  const [withdrawReason, setWithdrawReason] = useState("");
+
+  const appealsKey = ["/api/appeals", "authorization", authorizationId];
+
+  const { data: appeals = [], isLoading } = useQuery<Appeal[]>({
+    queryKey: appealsKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/appeals?authorizationId=${authorizationId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error("Failed to fetch appeals");
+      return response.json();
+    },
+  });
+
+  const openAppeal = appeals.find((appeal) => isAppealOpen(appeal.status));
+
+  const { data: documents = [] } = useQuery<Document[]>({
+    queryKey: ["/api/documents", { authorizationId }],
+    queryFn: async () => {
+      const response = await fetch(`/api/documents?authorizationId=${authorizationId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error("Failed to fetch documents");
+      return response.json();
+    },
+    enabled: !!openAppeal,
+  });
+
+  useEffect(() => {
+    setLetter(openAppeal?.letter || "");
+  }, [openAppeal?.id, openAppeal?.letter]);
+
+  const appealMutation = useMutation({
+    mutationFn: async ({ path, method = "POST", body }: AppealRequest) => {
+      const response = await fetch(`/api/appeals${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body || {}),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Appeal update failed");
+      return data;
+    },
+    onSuccess: (_data, { success }) => {
+      queryClient.invalidateQueries({ queryKey: appealsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/authorizations"] });
+      setSelectedDocuments([]);
+      setWithdrawReason("");
+      toast({ title: success });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Appeal Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const attachable = documents.filter((doc) => doc.appealId !== openAppeal?.id);
+  const attached = documents.filter((doc) => doc.appealId === openAppeal?.id);
+  const pastAppeals = appeals.filter((appeal) => appeal.id !== openAppeal?.id);
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900">Appeals</h4>
+        {openAppeal && (
+          <Badge className="bg-purple-100 text-purple-800">
+            {APPEAL_LEVEL_LABELS[openAppeal.level as AppealLevel]} · {openAppeal.status}
+          </Badge>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading appeals...</p>
+      ) : !openAppeal ? (
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label>Appeal level</Label>
+            <Select value={level} onValueChange={(value) => setLevel(value as AppealLevel)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {APPEAL_LEVELS.map((option) => (
+                  <SelectItem key={option} value={option}>{APPEAL_LEVEL_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2 pb-2">
+            <Checkbox id="appeal-expedited" checked={expedited} onCheckedChange={(checked) => setExpedited(checked === true)} />
+            <Label htmlFor="appeal-expedited">Expedited</Label>
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            disabled={appealMutation.isPending}
+            onClick={() => appealMutation.mutate({
+              path: "",
+              body: { authorizationId, level, expedited },
+              success: "Appeal Drafted",
+            })}
+          >
+            Start Appeal
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {openAppeal.status === "draft" && deadlineBadge("File by", openAppeal.filingDeadline)}
+            {openAppeal.status === "submitted" && deadlineBadge("Decision due", openAppeal.responseDueDate)}
+            {openAppeal.expedited && <Badge variant="outline">Expedited</Badge>}
+            {openAppeal.stateFormTemplateId && <Badge variant="outline">State appeal form</Badge>}
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="appeal-letter">Appeal letter</Label>
+              {openAppeal.status === "draft" && (
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  disabled={appealMutation.isPending}
+                  onClick={() => appealMutation.mutate({ path: `/${openAppeal.id}/letter`, success: "Letter Regenerated" })}
+                >
+                  Regenerate
+                </Button>
+              )}
+            </div>
+            <Textarea
+              id="appeal-letter"
+              className="min-h-[220px] font-mono text-xs"
+              value={letter}
+              readOnly={openAppeal.status !== "draft"}
+              onChange={(event) => setLetter(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Supporting documents</Label>
+            {attached.map((doc) => (
+              <p key={doc.id} className="flex items-center text-sm">
+                <FileText className="h-4 w-4 mr-2 text-gray-500" />
+                {doc.fileName}
+              </p>
+            ))}
+            {attachable.map((doc) => (
+              <div key={doc.id} className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  id={`appeal-document-${doc.id}`}
+                  checked={selectedDocuments.includes(doc.id)}
+                  onCheckedChange={(checked) => setSelectedDocuments((ids) =>
+                    checked === true ? [...ids, doc.id] : ids.filter((id) => id !== doc.id))}
+                />
+                <Label htmlFor={`appeal-document-${doc.id}`} className="font-normal">{doc.fileName}</Label>
+              </div>
+            ))}
+            {selectedDocuments.length > 0 && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={appealMutation.isPending}
+                onClick={() => appealMutation.mutate({
+                  path: `/${openAppeal.id}/documents`,
+                  body: { documentIds: selectedDocuments },
+                  success: "Documents Attached",
+                })}
+              >
+                Attach {selectedDocuments.length} document{selectedDocuments.length === 1 ? "" : "s"}
+              </Button>
+            )}
+          </div>
+
+          {openAppeal.status === "draft" && (
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={appealMutation.isPending || letter === (openAppeal.letter || "")}
+                onClick={() => appealMutation.mutate({
+                  path: `/${openAppeal.id}`,
+                  method: "PATCH",
+                  body: { letter },
+                  success: "Letter Saved",
+                })}
+              >
+                Save Letter
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                disabled={appealMutation.isPending || letter !== (openAppeal.letter || "")}
+                onClick={() => appealMutation.mutate({ path: `/${openAppeal.id}/submit`, success: "Appeal Submitted" })}
+              >
+                Submit Appeal
+              </Button>
+            </div>
+          )}
+
+          {openAppeal.status === "submitted" && (
+            <div className="space-y-2 border-t pt-3">
+              <Label>Payer outcome</Label>
+              <Select value={outcome.outcome} onValueChange={(value) => setOutcome((current) => ({ ...current, outcome: value as AppealOutcome }))}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {APPEAL_OUTCOMES.map((option) => (
+                    <SelectItem key={option} value={option}>{APPEAL_OUTCOME_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {outcome.outcome !== "upheld" && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    placeholder="Authorization number"
+                    value={outcome.authorizationNumber}
+                    onChange={(event) => setOutcome((current) => ({ ...current, authorizationNumber: event.target.value }))}
+                  />
+                  <Input
+                    type="date"
+                    value={outcome.expirationDate}
+                    onChange={(event) => setOutcome((current) => ({ ...current, expirationDate: event.target.value }))}
+                  />
+                </div>
+              )}
+              <Textarea
+                placeholder="Outcome notes"
+                value={outcome.notes}
+                onChange={(event) => setOutcome((current) => ({ ...current, notes: event.target.value }))}
+              />
+              <Button
+                type="button"
+                size="sm"
+                disabled={appealMutation.isPending}
+                onClick={() => appealMutation.mutate({
+                  path: `/${openAppeal.id}/outcome`,
+                  body: {
+                    outcome: outcome.outcome,
+                    notes: outcome.notes || undefined,
+                    authorizationNumber: outcome.authorizationNumber || undefined,
+                    expirationDate: outcome.expirationDate || undefined,
+                  },
+                  success: "Appeal Outcome Recorded",
+                })}
+              >
+                Record Outcome
+              </Button>
+            </div>
+          )}
+
+          <div className="flex gap-2 border-t pt-3">
+            <Input
+              placeholder="Reason for withdrawing"
+              value={withdrawReason}
+              onChange={(event) => setWithdrawReason(event.target.value)}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={appealMutation.isPending || withdrawReason.trim().length < 5}
+              onClick={() => appealMutation.mutate({
+                path: `/${openAppeal.id}/withdraw`,
+                body: { reason: withdrawReason.trim() },
+                success: "Appeal Withdrawn",
+              })}
+            >
+              Withdraw
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {pastAppeals.length > 0 && (
+        <ul className="space-y-1 border-t pt-3 text-sm">
+          {pastAppeals.map((appeal) => (
+            <li key={appeal.id} className="flex justify-between">
+              <span>{APPEAL_LEVEL_LABELS[appeal.level as AppealLevel]}</span>
+              <span className="text-gray-600">
+                {appeal.outcome ? APPEAL_OUTCOME_LABELS[appeal.outcome as AppealOutcome] : appeal.status}
+                {appeal.outcomeDate && ` · ${new Date(appeal.outcomeDate).toLocaleDateString()}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
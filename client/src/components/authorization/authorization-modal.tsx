@@ -20,6 +20,7 @@ import {
 } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
@@ -45,6 +46,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { CloudUpload, Check, ChevronsUpDown } from "lucide-react";
 import { getCPTDescription, getTreatmentTypeFromCPT } from "@shared/cpt-codes-data";
+import type { AuthorizationServiceLine } from "@shared/schema";
+import CoverageRequirementsPanel from "./coverage-requirements-panel";
+import AuthorizationTimeline from "./authorization-timeline";
+import ServiceLinesPanel from "./service-lines-panel";
+import ServiceLineEditor, { draftsFromLines, toServiceLineInputs, withoutDiagnosis, type ServiceLineDrafts } from "./service-line-editor";
 
 const authorizationSchema = z.object({
   patientId: z.number().min(1, "Patient is required"),
@@ -80,6 +86,11 @@ export default function AuthorizationModal({
   const [patientSearch, setPatientSearch] = useState("");
   const [selectedCptCodes, setSelectedCptCodes] = useState<string[]>(editData?.cptCodes || []);
   const [selectedIcd10Codes, setSelectedIcd10Codes] = useState<string[]>(editData?.icd10Codes || []);
+  const [primaryIcd10Code, setPrimaryIcd10Code] = useState<string>(editData?.icd10Codes?.[0] || "");
+  const editLines: AuthorizationServiceLine[] = editData?.serviceLines || [];
+  const [lineDrafts, setLineDrafts] = useState<ServiceLineDrafts>(draftsFromLines(editLines));
+  // Lines the payer has already decided can no longer be edited
+  const linesLocked = mode === 'edit' && editLines.some((line) => line.status !== 'requested');
   const open = isOpen !== undefined ? isOpen : internalOpen;
   const setOpen = onOpenChange || setInternalOpen;
   const { toast } = useToast();
@@ -159,6 +170,8 @@ export default function AuthorizationModal({
 
   // Query for patient insurance information
   const selectedPatientId = form.watch("patientId");
+  const selectedInsuranceId = form.watch("insuranceId");
+  const requestedDate = form.watch("requestedDate");
   const { data: patientInsurance } = useQuery({
     queryKey: ["/api/patients", selectedPatientId, "insurance"],
     queryFn: async () => {
@@ -190,7 +203,17 @@ export default function AuthorizationModal({
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          patientId: data.patientId,
+          insuranceId: data.insuranceId,
+          treatmentType: data.treatmentType,
+          requestedDate: data.requestedDate,
+          clinicalJustification: data.clinicalJustification,
+          // Decided lines point at the diagnoses by position, so the list is left as it is
+          icd10Codes: linesLocked ? undefined : data.icd10Codes,
+          primaryIcd10Code: linesLocked ? undefined : primaryIcd10Code || undefined,
+          serviceLines: linesLocked ? undefined : toServiceLineInputs(data.cptCodes, data.icd10Codes, lineDrafts),
+        }),
       });
       
       if (!response.ok) {
@@ -211,10 +234,10 @@ export default function AuthorizationModal({
       form.reset();
       onSuccess?.();
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: `Failed to ${mode} authorization request`,
+        description: error.message || `Failed to ${mode} authorization request`,
         variant: "destructive",
       });
     },
@@ -246,6 +269,7 @@ export default function AuthorizationModal({
     if (!selectedIcd10Codes.includes(icd10Code)) {
       const newCodes = [...selectedIcd10Codes, icd10Code];
       setSelectedIcd10Codes(newCodes);
+      if (!primaryIcd10Code) setPrimaryIcd10Code(icd10Code);
       form.setValue("icd10Codes", newCodes);
     }
   };
@@ -253,6 +277,8 @@ export default function AuthorizationModal({
   const handleIcd10CodeRemove = (icd10Code: string) => {
     const newCodes = selectedIcd10Codes.filter(code => code !== icd10Code);
     setSelectedIcd10Codes(newCodes);
+    setLineDrafts(withoutDiagnosis(lineDrafts, selectedIcd10Codes.indexOf(icd10Code) + 1));
+    if (primaryIcd10Code === icd10Code) setPrimaryIcd10Code(newCodes[0] || "");
     form.setValue("icd10Codes", newCodes);
   };
 
@@ -490,13 +516,15 @@ export default function AuthorizationModal({
                                 className="bg-blue-100 text-blue-800 px-3 py-1 rounded-md text-sm flex items-center gap-2"
                               >
                                 <span className="font-medium">{code}</span>
-                                <button
-                                  type="button"
-                                  onClick={() => handleCptCodeRemove(code)}
-                                  className="text-blue-600 hover:text-blue-800 text-lg leading-none"
-                                >
-                                  ×
-                                </button>
+                                {!linesLocked && (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleCptCodeRemove(code)}
+                                    className="text-blue-600 hover:text-blue-800 text-lg leading-none"
+                                  >
+                                    ×
+                                  </button>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -508,6 +536,7 @@ export default function AuthorizationModal({
                                 variant="outline"
                                 role="combobox"
                                 className="w-full justify-between h-10"
+                                disabled={linesLocked}
                               >
                                 Add CPT code...
                                 <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
@@ -565,13 +594,15 @@ export default function AuthorizationModal({
                                       - {icd10.description.substring(0, 25)}...
                                     </span>
                                   )}
-                                  <button
-                                    type="button"
-                                    onClick={() => handleIcd10CodeRemove(code)}
-                                    className="text-green-600 hover:text-green-800 text-lg leading-none"
-                                  >
-                                    ×
-                                  </button>
+                                  {!linesLocked && (
+                                    <button
+                                      type="button"
+                                      onClick={() => handleIcd10CodeRemove(code)}
+                                      className="text-green-600 hover:text-green-800 text-lg leading-none"
+                                    >
+                                      ×
+                                    </button>
+                                  )}
                                 </div>
                               );
                             })}
@@ -584,6 +615,7 @@ export default function AuthorizationModal({
                                 variant="outline"
                                 role="combobox"
                                 className="w-full justify-between h-10"
+                                disabled={linesLocked}
                               >
                                 Select from database...
                                 <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
@@ -615,6 +647,7 @@ export default function AuthorizationModal({
                             <Input 
                               placeholder="Or enter ICD-10 code manually..." 
                               className="flex-1"
+                              disabled={linesLocked}
                               onKeyPress={(e) => {
                                 if (e.key === 'Enter') {
                                   e.preventDefault();
@@ -631,6 +664,7 @@ export default function AuthorizationModal({
                               type="button"
                               variant="outline"
                               size="sm"
+                              disabled={linesLocked}
                               onClick={(e) => {
                                 const input = (e.target as HTMLButtonElement).previousElementSibling as HTMLInputElement;
                                 const code = input.value.trim().toUpperCase();
@@ -650,6 +684,45 @@ export default function AuthorizationModal({
                   )}
                 />
                 
+                {selectedIcd10Codes.length > 1 && (
+                  <div className="space-y-2">
+                    <Label>Primary Diagnosis</Label>
+                    <Select value={primaryIcd10Code} onValueChange={setPrimaryIcd10Code} disabled={linesLocked}>
+                      <SelectTrigger className="h-10">
+                        <SelectValue placeholder="Select the primary diagnosis" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {selectedIcd10Codes.map((code) => (
+                          <SelectItem key={code} value={code}>{code}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {linesLocked && (
+                  <p className="text-sm text-amber-600">
+                    The payer has decided one or more service lines, so codes, units and pointers can no longer be changed.
+                  </p>
+                )}
+                <ServiceLineEditor
+                  cptCodes={selectedCptCodes}
+                  icd10Codes={selectedIcd10Codes}
+                  drafts={lineDrafts}
+                  onChange={setLineDrafts}
+                  disabled={linesLocked}
+                />
+
+                {/* Payer coverage requirements for the service lines as they will be submitted */}
+                <CoverageRequirementsPanel
+                  insuranceId={selectedInsuranceId}
+                  patientId={selectedPatientId}
+                  serviceLines={toServiceLineInputs(selectedCptCodes, selectedIcd10Codes, lineDrafts)}
+                  icd10Codes={selectedIcd10Codes}
+                  serviceDate={requestedDate}
+                  excludeAuthorizationId={mode === 'edit' ? editData?.id : undefined}
+                />
+                
                 {/* Clinical Justification - Full width */}
                 <FormField
                   control={form.control}
@@ -688,6 +761,30 @@ export default function AuthorizationModal({
               </CardContent>
             </Card>
 
+            {/* Payer decisions on each service line of an existing authorization */}
+            {mode === 'edit' && editData?.id && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Service Lines</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ServiceLinesPanel authorizationId={editData.id} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Activity timeline for an existing authorization */}
+            {mode === 'edit' && editData?.id && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Timeline</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AuthorizationTimeline authorizationId={editData.id} />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Form Actions */}
             <div className="flex justify-end space-x-3 pt-4 border-t">
               <Button
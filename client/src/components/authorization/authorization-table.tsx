@@ -26,13 +26,16 @@ import { User, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import StatusBadge from "./status-badge";
+import ServiceLineSummary from "./service-line-summary";
+import type { AuthorizationServiceLine } from "@shared/schema";
 
 interface Authorization {
   id: number;
   authorizationId: string;
   patientId: number;
   treatmentType: string;
-  cptCode: string;
+  cptCodes: string[];
+  serviceLines?: AuthorizationServiceLine[];
   status: string;
   submittedDate: string;
   patient?: {
@@ -163,9 +166,7 @@ export default function AuthorizationTable({
                     <div className="text-sm text-gray-900">
                       {auth.treatmentType}
                     </div>
-                    <div className="text-sm text-gray-500">
-                      CPT: {auth.cptCode}
-                    </div>
+                    <ServiceLineSummary lines={auth.serviceLines} cptCodes={auth.cptCodes} />
                   </TableCell>
                   <TableCell>
                     <div className="text-sm text-gray-900">
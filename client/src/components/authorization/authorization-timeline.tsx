@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { ArrowRightLeft, FileText, ListChecks, MessageSquare, PhoneCall } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { TimelineEvent, TimelineEventKind } from "@shared/authorization-timeline";
+
+interface AuthorizationTimelineProps {
+  authorizationId: number;
+}
+
+const KIND_STYLES: Record<TimelineEventKind, { icon: typeof FileText; className: string }> = {
+  status: { icon: ArrowRightLeft, className: "bg-blue-100 text-blue-700" },
+  workflow_step: { icon: ListChecks, className: "bg-green-100 text-green-700" },
+  document: { icon: FileText, className: "bg-purple-100 text-purple-700" },
+  payer_message: { icon: MessageSquare, className: "bg-orange-100 text-orange-700" },
+  peer_to_peer: { icon: PhoneCall, className: "bg-teal-100 text-teal-700" },
+};
+
+// Everything that happened to an authorization, oldest first
+export default function AuthorizationTimeline({ authorizationId }: AuthorizationTimelineProps) {
+  const { data: events = [], isLoading } = useQuery<TimelineEvent[]>({
+    queryKey: ["/api/authorizations", authorizationId, "timeline"],
+    queryFn: async () => {
+      const response = await fetch(`/api/authorizations/${authorizationId}/timeline`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+      });
+      if (!response.ok) throw new Error("Failed to fetch timeline");
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading timeline...</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No activity recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+      {events.map((event) => {
+        const { icon: Icon, className } = KIND_STYLES[event.kind];
+        return (
+          <li key={event.id} className="ml-6">
+            <span className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ${className}`}>
+              <Icon className="h-3 w-3" />
+            </span>
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="text-sm font-medium text-gray-900">{event.title}</p>
+              {event.source && <Badge variant="outline" className="text-xs">{event.source}</Badge>}
+            </div>
+            <p className="text-xs text-gray-500">
+              {new Date(event.at).toLocaleString()}
+              {event.actor && ` · ${event.actor.name}`}
+            </p>
+            {event.detail && <p className="text-sm text-gray-600 mt-1">{event.detail}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { ClaimStatusRecord } from "@shared/schema";
+
+interface ClaimStatusPanelProps {
+  authorizationId: number;
+}
+
+const categoryBadge = (categoryCode: string | null, category: string | null) => {
+  const label = category?.split("-")[0] || categoryCode || "Unknown";
+  switch (categoryCode) {
+    case "F1":
+      return <Badge className="bg-green-100 text-green-800">{label}</Badge>;
+    case "F2":
+    case "F4":
+      return <Badge className="bg-red-100 text-red-800">{label}</Badge>;
+    case "F0":
+    case "F3":
+      return <Badge className="bg-blue-100 text-blue-800">{label}</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800">{label}</Badge>;
+  }
+};
+
+// Claims billed under an approved authorization, looked up by member and date of service
+export default function ClaimStatusPanel({ authorizationId }: ClaimStatusPanelProps) {
+  const { toast } = useToast();
+  const { token } = useAuth();
+  const queryClient = useQueryClient();
+  const [criteria, setCriteria] = useState({ memberId: "", fromDate: "", toDate: "", claimNumber: "" });
+
+  const { data: records = [], isLoading } = useQuery<ClaimStatusRecord[]>({
+    queryKey: ["/api/authorizations", authorizationId, "claim-statuses"],
+    queryFn: async () => {
+      const response = await fetch(`/api/authorizations/${authorizationId}/claim-statuses`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      if (!response.ok) throw new Error("Failed to fetch claim statuses");
+      return response.json();
+    },
+  });
+
+  const lookupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/authorizations/${authorizationId}/claim-statuses/lookup`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          fromDate: criteria.fromDate,
+          toDate: criteria.toDate || undefined,
+          memberId: criteria.memberId || undefined,
+          claimNumber: criteria.claimNumber || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || data.message || "Claim status lookup failed");
+      return data;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/authorizations", authorizationId, "claim-statuses"] });
+      toast({
+        title: result.flaggedCount > 0 ? "No Authorization Denial Found" : "Claim Status Updated",
+        description: result.message,
+        variant: result.flaggedCount > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Lookup Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateCriteria = (field: keyof typeof criteria) => (event: React.ChangeEvent<HTMLInputElement>) =>
+    setCriteria(previous => ({ ...previous, [field]: event.target.value }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="claim-from-date">Date of Service</Label>
+          <Input id="claim-from-date" type="date" value={criteria.fromDate} onChange={updateCriteria("fromDate")} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="claim-to-date">Through (optional)</Label>
+          <Input id="claim-to-date" type="date" value={criteria.toDate} onChange={updateCriteria("toDate")} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="claim-member-id">Member ID</Label>
+          <Input id="claim-member-id" placeholder="From patient insurance" value={criteria.memberId} onChange={updateCriteria("memberId")} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="claim-number">Claim Number</Label>
+          <Input id="claim-number" placeholder="Optional" value={criteria.claimNumber} onChange={updateCriteria("claimNumber")} />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => lookupMutation.mutate()}
+          disabled={!criteria.fromDate || lookupMutation.isPending}
+        >
+          <Search className="w-4 h-4 mr-2" />
+          {lookupMutation.isPending ? "Looking up..." : "Look Up Claims"}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-sm text-gray-500">Loading claim statuses...</div>
+      ) : records.length === 0 ? (
+        <div className="text-sm text-gray-500">No claim statuses recorded for this authorization yet.</div>
+      ) : (
+        <div className="space-y-2">
+          {records.map((record) => (
+            <div
+              key={record.id}
+              className={`border rounded-lg p-3 space-y-1 ${record.noAuthorizationDenial ? "border-red-300 bg-red-50" : ""}`}
+            >
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium text-gray-900">
+                  Claim {record.claimNumber || record.patientControlNumber || "(no number)"}
+                </div>
+                {categoryBadge(record.categoryCode, record.category)}
+              </div>
+
+              {record.noAuthorizationDenial && (
+                <div className="flex items-center text-xs font-medium text-red-700">
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  Denied for no authorization although authorization {record.authorizationNumber} is on file
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2 text-xs text-gray-700">
+                <div><span className="text-gray-500">Status:</span> {record.status || "—"}{record.statusCode && ` (${record.statusCode})`}</div>
+                {record.serviceFromDate && (
+                  <div>
+                    <span className="text-gray-500">Service:</span>{" "}
+                    {new Date(record.serviceFromDate).toLocaleDateString()}
+                    {record.serviceToDate && ` - ${new Date(record.serviceToDate).toLocaleDateString()}`}
+                  </div>
+                )}
+                {record.claimAmount && (
+                  <div>
+                    <span className="text-gray-500">Billed / Paid:</span>{" "}
+                    ${record.claimAmount} / ${record.paymentAmount || "0.00"}
+                  </div>
+                )}
+                <div>
+                  <span className="text-gray-500">Checked:</span>{" "}
+                  {new Date(record.createdAt).toLocaleString()}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
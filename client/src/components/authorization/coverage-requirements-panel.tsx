@@ -0,0 +1,122 @@
+import { useQuery } from "@tanstack/react-query";
+import { ClipboardList } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import type { CoverageRequirement, CoverageRequirementsResult } from "@shared/coverage-rules";
+import { DEFAULT_PLACE_OF_SERVICE, type ServiceLineInput } from "@shared/service-lines";
+
+interface CoverageRequirementsPanelProps {
+  insuranceId: number;
+  patientId?: number;
+  // The lines as they will be submitted, so units and place of service match the request
+  serviceLines: ServiceLineInput[];
+  icd10Codes: string[];
+  serviceDate?: string;
+  excludeAuthorizationId?: number;
+}
+
+const requirementBadge = (requirement: CoverageRequirement) => {
+  switch (requirement) {
+    case "required":
+      return <Badge className="bg-red-100 text-red-800">Prior auth required</Badge>;
+    case "conditional":
+      return <Badge className="bg-yellow-100 text-yellow-800">Conditional</Badge>;
+    default:
+      return <Badge className="bg-green-100 text-green-800">Not required</Badge>;
+  }
+};
+
+// Re-checks the payer's coverage rules whenever the service lines, diagnoses or payer change
+export default function CoverageRequirementsPanel({
+  insuranceId,
+  patientId,
+  serviceLines,
+  icd10Codes,
+  serviceDate,
+  excludeAuthorizationId,
+}: CoverageRequirementsPanelProps) {
+  const { token } = useAuth();
+  const cptCodes = serviceLines.map((line) => line.cptCode);
+  const units = Object.fromEntries(serviceLines.map((line) => [line.cptCode, line.units]));
+  const placesOfService = Object.fromEntries(serviceLines.map((line) => [line.cptCode, line.placeOfService || DEFAULT_PLACE_OF_SERVICE]));
+
+  const { data: result, isFetching, error } = useQuery<CoverageRequirementsResult>({
+    queryKey: ["/api/coverage-requirements/check", insuranceId, patientId, cptCodes, icd10Codes, units, placesOfService, serviceDate],
+    queryFn: async () => {
+      const response = await fetch("/api/coverage-requirements/check", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          insuranceId,
+          patientId: patientId || undefined,
+          cptCodes,
+          icd10Codes,
+          units,
+          placesOfService,
+          serviceDate: serviceDate || undefined,
+          excludeAuthorizationId,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to check coverage requirements");
+      return data;
+    },
+    enabled: insuranceId > 0 && cptCodes.length > 0,
+  });
+
+  if (!insuranceId || cptCodes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <h4 className="font-semibold text-sm flex items-center">
+        <ClipboardList className="h-4 w-4 mr-2" />
+        Payer Requirements
+        {result?.payerName && <span className="ml-2 font-normal text-gray-500">{result.payerName}</span>}
+      </h4>
+
+      {error ? (
+        <p className="text-sm text-red-600">{(error as Error).message}</p>
+      ) : !result ? (
+        <p className="text-sm text-gray-500">{isFetching ? "Checking payer rules..." : "No result yet."}</p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {result.codes.map((code) => (
+              <div key={code.cptCode} className="text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{code.cptCode}</span>
+                  {requirementBadge(code.requirement)}
+                  <span className="text-gray-500 truncate">{code.description}</span>
+                </div>
+                <p className="text-xs text-gray-500 ml-1">{code.reasons.join(" · ")}</p>
+                {code.conditions.length > 0 && (
+                  <ul className="text-xs text-yellow-800 ml-4 list-disc">
+                    {code.conditions.map((condition) => (
+                      <li key={condition}>{condition}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {result.documentation.length > 0 && (
+            <div className="bg-blue-50 p-3 rounded-md">
+              <p className="text-xs font-medium text-blue-900 mb-1">Documentation the payer expects</p>
+              <ul className="text-xs text-blue-800 list-disc ml-4">
+                {result.documentation.map((item) => (
+                  <li key={item}>{item}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle, ShieldAlert, Upload, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { canOverrideDocumentation, type DocumentationChecklist, type DocumentationChecklistItem } from "@shared/payer-requirements";
+
+interface DocumentationChecklistPanelProps {
+  authorizationId: number;
+  patientId?: number;
+  // Completes the step despite missing items; only offered to supervisors
+  onOverride?: (reason: string) => void;
+  overridePending?: boolean;
+}
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+
+// What the payer expects attached before the request goes out, re-evaluated after every upload
+export default function DocumentationChecklistPanel({
+  authorizationId,
+  patientId,
+  onOverride,
+  overridePending,
+}: DocumentationChecklistPanelProps) {
+  const { toast } = useToast();
+  const { token, user } = useAuth();
+  const queryClient = useQueryClient();
+  const [overrideReason, setOverrideReason] = useState("");
+
+  const checklistKey = ["/api/prior-auth-workflow", authorizationId, "documentation-checklist"];
+
+  const { data: checklist, isLoading, error } = useQuery<DocumentationChecklist>({
+    queryKey: checklistKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/prior-auth-workflow/${authorizationId}/documentation-checklist`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to fetch documentation checklist");
+      return data;
+    },
+  });
+
+  const attachMutation = useMutation({
+    mutationFn: async ({ item, file }: { item: DocumentationChecklistItem; file: File }) => {
+      const response = await fetch("/api/documents/upload", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          fileName: file.name,
+          fileType: file.type || "application/octet-stream",
+          fileSize: file.size,
+          fileContent: await readAsDataUrl(file),
+          patientId: patientId || null,
+          authorizationId,
+          documentType: item.documentType,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || data.message || "Upload failed");
+      return data;
+    },
+    onSuccess: (_document, { item }) => {
+      queryClient.invalidateQueries({ queryKey: checklistKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({
+        title: "Document Attached",
+        description: `Attached to "${item.label}".`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canOverride = !!onOverride && canOverrideDocumentation(user?.role);
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900">Documentation Checklist</h4>
+        {checklist && (
+          checklist.passed
+            ? <Badge className="bg-green-100 text-green-800">Complete</Badge>
+            : <Badge className="bg-red-100 text-red-800">{checklist.missing.length} missing</Badge>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{(error as Error).message}</p>
+      ) : isLoading || !checklist ? (
+        <p className="text-sm text-gray-500">Checking payer requirements...</p>
+      ) : checklist.items.length === 0 ? (
+        <p className="text-sm text-gray-500">This payer has no documentation requirements on file.</p>
+      ) : (
+        <ul className="space-y-2">
+          {checklist.items.map((item) => (
+            <li key={item.id} className="flex items-start justify-between gap-3 text-sm">
+              <div className="flex items-start gap-2">
+                {item.satisfied
+                  ? <CheckCircle className="h-4 w-4 mt-0.5 text-green-600" />
+                  : <XCircle className={`h-4 w-4 mt-0.5 ${item.optional ? "text-gray-400" : "text-red-600"}`} />}
+                <div>
+                  <p className="font-medium">
+                    {item.label}
+                    {item.optional && <span className="ml-1 text-xs font-normal text-gray-500">(optional)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">{item.detail}</p>
+                </div>
+              </div>
+              {!item.satisfied && item.documentType && (
+                <Label className="cursor-pointer inline-flex items-center text-xs text-blue-700 whitespace-nowrap">
+                  <Upload className="h-3 w-3 mr-1" />
+                  Attach
+                  <input
+                    type="file"
+                    className="hidden"
+                    disabled={attachMutation.isPending}
+                    onChange={(event) => {
+                      const file = event.target.files?.[0];
+                      if (file) attachMutation.mutate({ item, file });
+                      event.target.value = "";
+                    }}
+                  />
+                </Label>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {checklist && !checklist.passed && canOverride && (
+        <div className="bg-yellow-50 p-3 rounded-md space-y-2">
+          <p className="text-xs font-medium text-yellow-900 flex items-center">
+            <ShieldAlert className="h-3 w-3 mr-1" />
+            Supervisor override
+          </p>
+          <Textarea
+            value={overrideReason}
+            onChange={(event) => setOverrideReason(event.target.value)}
+            placeholder="Why can this request go out without the missing documentation?"
+            rows={2}
+          />
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={overrideReason.trim().length < 10 || overridePending}
+            onClick={() => onOverride!(overrideReason.trim())}
+          >
+            {overridePending ? "Completing..." : "Override and Complete Step"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
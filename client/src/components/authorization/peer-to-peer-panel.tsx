@@ -0,0 +1,315 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, PhoneCall } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  OPEN_PEER_TO_PEER_STATUSES,
+  PEER_TO_PEER_NOTE_LABELS,
+  PEER_TO_PEER_OUTCOMES,
+  PEER_TO_PEER_OUTCOME_LABELS,
+  PEER_TO_PEER_STATUS_LABELS,
+  type PeerToPeerNotes,
+  type PeerToPeerOutcome,
+  type PeerToPeerStatus,
+} from "@shared/peer-to-peer";
+import type { PeerToPeerReview } from "@shared/schema";
+
+interface PeerToPeerPanelProps {
+  authorizationId: number;
+}
+
+interface Doctor {
+  id: number;
+  firstName: string;
+  lastName: string;
+}
+
+interface ReviewForm {
+  assignedDoctorId: string;
+  requestDeadline: string;
+  scheduledAt: string;
+  reviewerName: string;
+  reviewerCredentials: string;
+  reviewerPhone: string;
+  reviewerEmail: string;
+  notes: PeerToPeerNotes;
+}
+
+interface ReviewRequest {
+  path: string;
+  method?: "POST" | "PATCH";
+  body: Record<string, unknown>;
+  success: string;
+}
+
+const NOTE_FIELDS = Object.keys(PEER_TO_PEER_NOTE_LABELS) as (keyof PeerToPeerNotes)[];
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (date: string | Date | null) => {
+  if (!date) return "";
+  const value = new Date(date);
+  return new Date(value.getTime() - value.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const emptyForm = (review?: PeerToPeerReview): ReviewForm => ({
+  assignedDoctorId: review ? String(review.assignedDoctorId) : "",
+  requestDeadline: toLocalInput(review?.requestDeadline ?? null),
+  scheduledAt: toLocalInput(review?.scheduledAt ?? null),
+  reviewerName: review?.reviewerName || "",
+  reviewerCredentials: review?.reviewerCredentials || "",
+  reviewerPhone: review?.reviewerPhone || "",
+  reviewerEmail: review?.reviewerEmail || "",
+  notes: (review?.notes as PeerToPeerNotes | null) || {},
+});
+
+// Blank inputs are left out so they do not overwrite or fail validation
+const formBody = (form: ReviewForm) => {
+  const body: Record<string, unknown> = {};
+  if (form.assignedDoctorId) body.assignedDoctorId = parseInt(form.assignedDoctorId);
+  if (form.requestDeadline) body.requestDeadline = new Date(form.requestDeadline).toISOString();
+  if (form.scheduledAt) body.scheduledAt = new Date(form.scheduledAt).toISOString();
+  for (const field of ["reviewerName", "reviewerCredentials", "reviewerPhone", "reviewerEmail"] as const) {
+    if (form[field].trim()) body[field] = form[field].trim();
+  }
+  body.notes = form.notes;
+  return body;
+};
+
+// Peer-to-peer calls with the payer's medical reviewer after a pend or denial
+export default function PeerToPeerPanel({ authorizationId }: PeerToPeerPanelProps) {
+  const { toast } = useToast();
+  const { token } = useAuth();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ReviewForm>(emptyForm());
+  const [outcome, setOutcome] = useState<PeerToPeerOutcome>("overturned");
+  const [cancelReason, setCancelReason] = useState("");
+
+  const reviewsKey = ["/api/peer-to-peer-reviews", "authorization", authorizationId];
+
+  const { data: reviews = [], isLoading } = useQuery<PeerToPeerReview[]>({
+    queryKey: reviewsKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/peer-to-peer-reviews?authorizationId=${authorizationId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error("Failed to fetch peer-to-peer reviews");
+      return response.json();
+    },
+  });
+
+  const { data: doctors = [] } = useQuery<Doctor[]>({
+    queryKey: ["/api/peer-to-peer-reviews/doctors"],
+    queryFn: async () => {
+      const response = await fetch("/api/peer-to-peer-reviews/doctors", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error("Failed to fetch doctors");
+      return response.json();
+    },
+  });
+
+  const openReview = reviews.find((review) => OPEN_PEER_TO_PEER_STATUSES.includes(review.status as PeerToPeerStatus));
+  const pastReviews = reviews.filter((review) => review.id !== openReview?.id);
+
+  useEffect(() => {
+    setForm(emptyForm(openReview));
+  }, [openReview?.id, openReview?.updatedAt]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ path, method = "POST", body }: ReviewRequest) => {
+      const response = await fetch(`/api/peer-to-peer-reviews${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Peer-to-peer update failed");
+      return data;
+    },
+    onSuccess: (_data, { success }) => {
+      queryClient.invalidateQueries({ queryKey: reviewsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/peer-to-peer-reviews/reminders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/authorizations", authorizationId, "timeline"] });
+      setCancelReason("");
+      toast({ title: success });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Peer-to-Peer Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setField = (field: Exclude<keyof ReviewForm, "notes">, value: string) =>
+    setForm((current) => ({ ...current, [field]: value }));
+  const setNote = (field: keyof PeerToPeerNotes, value: string) =>
+    setForm((current) => ({ ...current, notes: { ...current.notes, [field]: value } }));
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900">Peer-to-Peer Review</h4>
+        {openReview && (
+          <Badge className="bg-teal-100 text-teal-800">
+            {PEER_TO_PEER_STATUS_LABELS[openReview.status as PeerToPeerStatus]}
+          </Badge>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading peer-to-peer reviews...</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>Assigned doctor</Label>
+              <Select value={form.assignedDoctorId} onValueChange={(value) => setField("assignedDoctorId", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select doctor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {doctors.map((doctor) => (
+                    <SelectItem key={doctor.id} value={String(doctor.id)}>
+                      Dr. {doctor.firstName} {doctor.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="p2p-deadline">Payer deadline</Label>
+              <Input id="p2p-deadline" type="datetime-local" value={form.requestDeadline} onChange={(event) => setField("requestDeadline", event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="p2p-scheduled">Call scheduled for</Label>
+              <Input id="p2p-scheduled" type="datetime-local" value={form.scheduledAt} onChange={(event) => setField("scheduledAt", event.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Input placeholder="Payer reviewer name" value={form.reviewerName} onChange={(event) => setField("reviewerName", event.target.value)} />
+            <Input placeholder="Reviewer credentials" value={form.reviewerCredentials} onChange={(event) => setField("reviewerCredentials", event.target.value)} />
+            <Input placeholder="Reviewer phone" value={form.reviewerPhone} onChange={(event) => setField("reviewerPhone", event.target.value)} />
+            <Input placeholder="Reviewer email" type="email" value={form.reviewerEmail} onChange={(event) => setField("reviewerEmail", event.target.value)} />
+          </div>
+
+          {NOTE_FIELDS.map((field) => (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`p2p-note-${field}`}>{PEER_TO_PEER_NOTE_LABELS[field]}</Label>
+              <Textarea
+                id={`p2p-note-${field}`}
+                rows={2}
+                value={form.notes[field] || ""}
+                onChange={(event) => setNote(field, event.target.value)}
+              />
+            </div>
+          ))}
+
+          {openReview ? (
+            <div className="space-y-3">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={reviewMutation.isPending}
+                onClick={() => reviewMutation.mutate({
+                  path: `/${openReview.id}`,
+                  method: "PATCH",
+                  body: formBody(form),
+                  success: "Peer-to-Peer Review Updated",
+                })}
+              >
+                <CalendarClock className="h-4 w-4 mr-1" />
+                Save
+              </Button>
+
+              <div className="flex flex-wrap items-center gap-2 border-t pt-3">
+                <Select value={outcome} onValueChange={(value) => setOutcome(value as PeerToPeerOutcome)}>
+                  <SelectTrigger className="w-60">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PEER_TO_PEER_OUTCOMES.map((option) => (
+                      <SelectItem key={option} value={option}>{PEER_TO_PEER_OUTCOME_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  size="sm"
+                  disabled={reviewMutation.isPending}
+                  onClick={() => reviewMutation.mutate({
+                    path: `/${openReview.id}/outcome`,
+                    body: { outcome, notes: form.notes },
+                    success: "Peer-to-Peer Outcome Recorded",
+                  })}
+                >
+                  Record Outcome
+                </Button>
+              </div>
+
+              <div className="flex gap-2 border-t pt-3">
+                <Input placeholder="Reason for cancelling" value={cancelReason} onChange={(event) => setCancelReason(event.target.value)} />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={reviewMutation.isPending || cancelReason.trim().length < 5}
+                  onClick={() => reviewMutation.mutate({
+                    path: `/${openReview.id}/cancel`,
+                    body: { reason: cancelReason.trim() },
+                    success: "Peer-to-Peer Review Cancelled",
+                  })}
+                >
+                  Cancel Review
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              type="button"
+              size="sm"
+              disabled={reviewMutation.isPending || !form.assignedDoctorId}
+              onClick={() => reviewMutation.mutate({
+                path: "",
+                body: { authorizationId, ...formBody(form) },
+                success: "Peer-to-Peer Review Requested",
+              })}
+            >
+              <PhoneCall className="h-4 w-4 mr-1" />
+              Request Peer-to-Peer
+            </Button>
+          )}
+        </div>
+      )}
+
+      {pastReviews.length > 0 && (
+        <ul className="space-y-1 border-t pt-3 text-sm">
+          {pastReviews.map((review) => (
+            <li key={review.id} className="flex justify-between">
+              <span>{review.reviewerName || "Payer reviewer"}</span>
+              <span className="text-gray-600">
+                {review.outcome
+                  ? PEER_TO_PEER_OUTCOME_LABELS[review.outcome as PeerToPeerOutcome]
+                  : PEER_TO_PEER_STATUS_LABELS[review.status as PeerToPeerStatus]}
+                {review.completedAt && ` · ${new Date(review.completedAt).toLocaleDateString()}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { normalizeAuthorizationStatus } from "@shared/authorization-status";
+import { RENEWABLE_STATUSES } from "@shared/renewals";
+import type { PriorAuthorization } from "@shared/schema";
+
+interface RenewalPanelProps {
+  authorization: PriorAuthorization;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Expiration status of an approved authorization and a one-click renewal draft
+export default function RenewalPanel({ authorization }: RenewalPanelProps) {
+  const { toast } = useToast();
+  const { token } = useAuth();
+  const queryClient = useQueryClient();
+
+  const status = normalizeAuthorizationStatus(authorization.status, authorization.submittedDate);
+  const expirationDate = authorization.expirationDate ? new Date(authorization.expirationDate) : null;
+  const daysLeft = expirationDate ? Math.ceil((expirationDate.getTime() - Date.now()) / DAY_MS) : null;
+
+  const renewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/renewals", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ authorizationId: authorization.id }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to create renewal");
+      return data as PriorAuthorization;
+    },
+    onSuccess: (renewal) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/authorizations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/renewals/expiring"] });
+      toast({
+        title: "Renewal Created",
+        description: `Draft ${renewal.authorizationId} was created from this authorization.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Renewal Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900">Expiration &amp; Renewal</h4>
+        {authorization.expirationAlertWindow && status !== "expired" && (
+          <Badge className={authorization.expirationAlertWindow <= 7 ? "bg-red-100 text-red-800" : "bg-orange-100 text-orange-800"}>
+            Within {authorization.expirationAlertWindow} days
+          </Badge>
+        )}
+      </div>
+
+      <p className="flex items-center text-sm text-gray-700">
+        <CalendarClock className="h-4 w-4 mr-2 text-gray-500" />
+        {expirationDate
+          ? `${status === "expired" ? "Expired" : "Expires"} ${expirationDate.toLocaleDateString()}${daysLeft !== null && daysLeft > 0 ? ` (${daysLeft} days left)` : ""}`
+          : "No expiration date recorded"}
+      </p>
+
+      {authorization.renewalOfId && (
+        <p className="text-xs text-gray-500">This authorization renews authorization #{authorization.renewalOfId}.</p>
+      )}
+
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        disabled={renewMutation.isPending || !RENEWABLE_STATUSES.includes(status)}
+        onClick={() => renewMutation.mutate()}
+      >
+        <RefreshCw className="h-4 w-4 mr-1" />
+        {renewMutation.isPending ? "Creating..." : "Create Renewal"}
+      </Button>
+    </div>
+  );
+}
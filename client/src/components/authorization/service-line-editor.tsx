@@ -0,0 +1,150 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  MAX_DIAGNOSIS_POINTERS,
+  MAX_MODIFIERS,
+  DEFAULT_PLACE_OF_SERVICE,
+  type ServiceLineInput,
+} from "@shared/service-lines";
+
+export interface ServiceLineDraft {
+  units: number;
+  modifiers: string;
+  diagnosisPointers: number[];
+  placeOfService: string;
+}
+
+export type ServiceLineDrafts = Record<string, ServiceLineDraft>;
+
+interface ServiceLineEditorProps {
+  cptCodes: string[];
+  icd10Codes: string[];
+  drafts: ServiceLineDrafts;
+  onChange: (drafts: ServiceLineDrafts) => void;
+  disabled?: boolean;
+}
+
+// One line per CPT code, pointing at the first diagnoses until the user picks others
+export function draftFor(cptCode: string, icd10Codes: string[], drafts: ServiceLineDrafts): ServiceLineDraft {
+  return drafts[cptCode] || {
+    units: 1,
+    modifiers: "",
+    diagnosisPointers: icd10Codes.slice(0, MAX_DIAGNOSIS_POINTERS).map((_, index) => index + 1),
+    placeOfService: DEFAULT_PLACE_OF_SERVICE,
+  };
+}
+
+// Drafts for an authorization's saved lines, keyed by CPT code
+export function draftsFromLines(lines: { cptCode: string; units: number; modifiers: string[]; diagnosisPointers: number[]; placeOfService: string | null }[] = []): ServiceLineDrafts {
+  return Object.fromEntries(lines.map((line) => [line.cptCode, {
+    units: line.units,
+    modifiers: line.modifiers.join(", "),
+    diagnosisPointers: line.diagnosisPointers,
+    placeOfService: line.placeOfService || DEFAULT_PLACE_OF_SERVICE,
+  }]));
+}
+
+// Renumber the pointers after the diagnosis at `position` (1-based) is removed
+export function withoutDiagnosis(drafts: ServiceLineDrafts, position: number): ServiceLineDrafts {
+  return Object.fromEntries(Object.entries(drafts).map(([cptCode, draft]) => {
+    const pointers = draft.diagnosisPointers
+      .filter((pointer) => pointer !== position)
+      .map((pointer) => (pointer > position ? pointer - 1 : pointer));
+    return [cptCode, { ...draft, diagnosisPointers: pointers.length > 0 ? pointers : [1] }];
+  }));
+}
+
+export function toServiceLineInputs(cptCodes: string[], icd10Codes: string[], drafts: ServiceLineDrafts): ServiceLineInput[] {
+  return cptCodes.map((cptCode) => {
+    const draft = draftFor(cptCode, icd10Codes, drafts);
+    return {
+      cptCode,
+      units: draft.units,
+      modifiers: draft.modifiers.split(",").map((modifier) => modifier.trim().toUpperCase()).filter(Boolean),
+      diagnosisPointers: draft.diagnosisPointers,
+      placeOfService: draft.placeOfService.trim() || undefined,
+    };
+  });
+}
+
+// Units, modifiers, place of service and diagnosis pointers for each requested CPT code
+export default function ServiceLineEditor({ cptCodes, icd10Codes, drafts, onChange, disabled }: ServiceLineEditorProps) {
+  if (cptCodes.length === 0) return null;
+
+  const update = (cptCode: string, changes: Partial<ServiceLineDraft>) =>
+    onChange({ ...drafts, [cptCode]: { ...draftFor(cptCode, icd10Codes, drafts), ...changes } });
+
+  const togglePointer = (cptCode: string, pointer: number) => {
+    const current = draftFor(cptCode, icd10Codes, drafts).diagnosisPointers;
+    if (current.includes(pointer)) {
+      if (current.length > 1) update(cptCode, { diagnosisPointers: current.filter((value) => value !== pointer) });
+    } else if (current.length < MAX_DIAGNOSIS_POINTERS) {
+      update(cptCode, { diagnosisPointers: [...current, pointer].sort((a, b) => a - b) });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Service Lines</Label>
+      {cptCodes.map((cptCode, index) => {
+        const draft = draftFor(cptCode, icd10Codes, drafts);
+        return (
+          <div key={cptCode} className="border rounded-lg p-3 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Line {index + 1}</Label>
+              <p className="font-medium text-sm">{cptCode}</p>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Units</Label>
+              <Input
+                type="number"
+                min={1}
+                value={draft.units}
+                disabled={disabled}
+                onChange={(event) => update(cptCode, { units: Math.max(1, parseInt(event.target.value) || 1) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Modifiers (up to {MAX_MODIFIERS})</Label>
+              <Input
+                placeholder="e.g. GP, 59"
+                value={draft.modifiers}
+                disabled={disabled}
+                onChange={(event) => update(cptCode, { modifiers: event.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Place of Service</Label>
+              <Input
+                maxLength={2}
+                value={draft.placeOfService}
+                disabled={disabled}
+                onChange={(event) => update(cptCode, { placeOfService: event.target.value })}
+              />
+            </div>
+            <div className="md:col-span-4 flex flex-wrap items-center gap-2">
+              <span className="text-xs text-gray-500">Diagnosis pointers:</span>
+              {icd10Codes.map((code, codeIndex) => {
+                const pointer = codeIndex + 1;
+                const selected = draft.diagnosisPointers.includes(pointer);
+                return (
+                  <Button
+                    key={code}
+                    type="button"
+                    size="sm"
+                    variant={selected ? "default" : "outline"}
+                    disabled={disabled}
+                    onClick={() => togglePointer(cptCode, pointer)}
+                  >
+                    {pointer}. {code}
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { SERVICE_LINE_STATUS_LABELS, type ServiceLineStatus } from "@shared/service-lines";
+import type { AuthorizationServiceLine } from "@shared/schema";
+
+interface ServiceLineSummaryProps {
+  lines?: AuthorizationServiceLine[];
+  cptCodes?: string[];
+}
+
+const STATUS_STYLES: Record<ServiceLineStatus, string> = {
+  requested: "bg-gray-100 text-gray-700",
+  pended: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  denied: "bg-red-100 text-red-800",
+};
+
+// Compact per-line view for authorization tables; falls back to the CPT codes for rows without lines
+export default function ServiceLineSummary({ lines, cptCodes }: ServiceLineSummaryProps) {
+  if (!lines || lines.length === 0) {
+    return <div className="text-sm text-gray-500">CPT: {cptCodes?.join(", ") || "N/A"}</div>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {lines.map((line) => {
+        const status = line.status as ServiceLineStatus;
+        const reduced = status === "approved" && line.approvedUnits !== null && line.approvedUnits < line.units;
+        return (
+          <span
+            key={line.id}
+            className={`rounded px-1.5 py-0.5 text-xs ${STATUS_STYLES[status] || STATUS_STYLES.requested}`}
+            title={`${SERVICE_LINE_STATUS_LABELS[status] || line.status}${line.denialReason ? `: ${line.denialReason}` : ""}`}
+          >
+            {[line.cptCode, ...line.modifiers].join("-")} ×{reduced ? `${line.approvedUnits}/${line.units}` : line.units}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
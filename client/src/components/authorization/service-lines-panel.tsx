@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  SERVICE_LINE_STATUS_LABELS,
+  describeServiceLine,
+  type ServiceLineDecision,
+  type ServiceLineStatus,
+} from "@shared/service-lines";
+import type { AuthorizationServiceLine } from "@shared/schema";
+
+interface ServiceLinesPanelProps {
+  authorizationId: number;
+}
+
+interface DecisionDraft {
+  status: "" | ServiceLineDecision["status"];
+  approvedUnits: string;
+  denialReason: string;
+}
+
+const EMPTY_DRAFT: DecisionDraft = { status: "", approvedUnits: "", denialReason: "" };
+
+// Requested service lines and the payer's decision on each one
+export default function ServiceLinesPanel({ authorizationId }: ServiceLinesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/authorizations", authorizationId, "service-lines"];
+  const [drafts, setDrafts] = useState<Record<number, DecisionDraft>>({});
+  const [authorizationNumber, setAuthorizationNumber] = useState("");
+  const [expirationDate, setExpirationDate] = useState("");
+
+  const { data: lines = [], isLoading } = useQuery<AuthorizationServiceLine[]>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/authorizations/${authorizationId}/service-lines`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+      });
+      if (!response.ok) throw new Error("Failed to fetch service lines");
+      return response.json();
+    },
+  });
+
+  const decisions = Object.entries(drafts)
+    .filter(([, draft]) => draft.status)
+    .map(([lineId, draft]) => ({
+      lineId: parseInt(lineId),
+      status: draft.status as ServiceLineDecision["status"],
+      approvedUnits: draft.status === "approved" && draft.approvedUnits ? parseInt(draft.approvedUnits) : undefined,
+      denialReason: draft.status === "denied" ? draft.denialReason.trim() || undefined : undefined,
+    }));
+
+  const decisionsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/authorizations/${authorizationId}/service-lines/decisions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("token")}`,
+        },
+        body: JSON.stringify({
+          decisions,
+          authorizationNumber: authorizationNumber.trim() || undefined,
+          expirationDate: expirationDate || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to record decisions");
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/authorizations"] });
+      setDrafts({});
+      toast({ title: "Decisions Recorded", description: "Line statuses and the authorization status have been updated." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could Not Record Decisions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateDraft = (lineId: number, changes: Partial<DecisionDraft>) =>
+    setDrafts((previous) => ({ ...previous, [lineId]: { ...(previous[lineId] || EMPTY_DRAFT), ...changes } }));
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading service lines...</p>;
+  }
+
+  if (lines.length === 0) {
+    return <p className="text-sm text-gray-500">No service lines on this authorization.</p>;
+  }
+
+  const approving = decisions.some((decision) => decision.status === "approved");
+
+  return (
+    <div className="space-y-3">
+      {lines.map((line) => {
+        const draft = drafts[line.id] || EMPTY_DRAFT;
+        return (
+          <div key={line.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-900">
+                {line.lineNumber}. {describeServiceLine(line)}
+              </span>
+              <Badge variant="outline">
+                {SERVICE_LINE_STATUS_LABELS[line.status as ServiceLineStatus] || line.status}
+                {line.status === "approved" && line.approvedUnits !== null && ` · ${line.approvedUnits} units`}
+              </Badge>
+            </div>
+            {line.denialReason && <p className="text-xs text-red-700">{line.denialReason}</p>}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <Select value={draft.status} onValueChange={(value) => updateDraft(line.id, { status: value as DecisionDraft["status"] })}>
+                <SelectTrigger><SelectValue placeholder="Record decision" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="denied">Denied</SelectItem>
+                  <SelectItem value="pended">More Info Requested</SelectItem>
+                </SelectContent>
+              </Select>
+              {draft.status === "approved" && (
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder={`Approved units (requested ${line.units})`}
+                  value={draft.approvedUnits}
+                  onChange={(event) => updateDraft(line.id, { approvedUnits: event.target.value })}
+                />
+              )}
+              {draft.status === "denied" && (
+                <Input
+                  className="md:col-span-2"
+                  placeholder="Denial reason"
+                  value={draft.denialReason}
+                  onChange={(event) => updateDraft(line.id, { denialReason: event.target.value })}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {approving && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Authorization Number</Label>
+            <Input value={authorizationNumber} onChange={(event) => setAuthorizationNumber(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Expiration Date</Label>
+            <Input type="date" value={expirationDate} onChange={(event) => setExpirationDate(event.target.value)} />
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => decisionsMutation.mutate()}
+          disabled={decisions.length === 0 || decisionsMutation.isPending}
+        >
+          {decisionsMutation.isPending ? "Saving..." : "Record Decisions"}
+        </Button>
+      </div>
+    </div>
+  );
+}
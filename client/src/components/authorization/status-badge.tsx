@@ -1,5 +1,6 @@
 import { Badge } from "@/components/ui/badge";
-import { Clock, CheckCircle, XCircle, AlertCircle } from "lucide-react";
+import { Clock, CheckCircle, XCircle, AlertCircle, Ban } from "lucide-react";
+import { AUTHORIZATION_STATUS_LABELS, normalizeAuthorizationStatus } from "@shared/authorization-status";
 
 interface StatusBadgeProps {
   status: string;
@@ -7,41 +8,46 @@ interface StatusBadgeProps {
 
 export default function StatusBadge({ status }: StatusBadgeProps) {
   const getStatusConfig = (status: string) => {
-    switch (status.toLowerCase()) {
-      case "pending":
-        return {
-          variant: "secondary" as const,
-          className: "status-pending",
-          icon: Clock,
-          text: "Pending",
-        };
+    const normalized = normalizeAuthorizationStatus(status.toLowerCase());
+    const text = AUTHORIZATION_STATUS_LABELS[normalized];
+    switch (normalized) {
       case "approved":
+      case "partially_approved":
         return {
           variant: "secondary" as const,
           className: "status-approved",
           icon: CheckCircle,
-          text: "Approved",
+          text,
         };
       case "denied":
         return {
           variant: "destructive" as const,
           className: "status-denied",
           icon: XCircle,
-          text: "Denied",
+          text,
         };
       case "appealed":
+      case "pended":
         return {
           variant: "secondary" as const,
           className: "status-appealed",
           icon: AlertCircle,
-          text: "Appealed",
+          text,
+        };
+      case "expired":
+      case "cancelled":
+        return {
+          variant: "outline" as const,
+          className: "",
+          icon: Ban,
+          text,
         };
       default:
         return {
           variant: "secondary" as const,
           className: "status-pending",
           icon: Clock,
-          text: status,
+          text,
         };
     }
   };
@@ -7,61 +7,102 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import {
+  AUTHORIZATION_STATUS_LABELS,
+  STATUS_NOTE_REQUIRED,
+  STATUS_REQUIRED_FIELDS,
+  allowedTransitions,
+  normalizeAuthorizationStatus,
+  type AuthorizationStatus,
+} from "@shared/authorization-status";
 
 
 interface StatusDropdownProps {
   authorizationId: number;
   currentStatus: string;
+  submittedDate?: string | Date | null;
   onStatusChange?: (newStatus: string) => void;
 }
 
-const statusOptions = [
-  { value: "pending", label: "Pending", color: "bg-yellow-100 text-yellow-800" },
-  { value: "approved", label: "Approved", color: "bg-green-100 text-green-800" },
-  { value: "denied", label: "Denied", color: "bg-red-100 text-red-800" },
-  { value: "in_review", label: "In Review", color: "bg-blue-100 text-blue-800" },
-  { value: "appealed", label: "Appealed", color: "bg-purple-100 text-purple-800" },
-  { value: "expired", label: "Expired", color: "bg-gray-100 text-gray-800" },
-];
-
-export default function StatusDropdown({ 
-  authorizationId, 
-  currentStatus, 
-  onStatusChange 
+const statusColors: Record<AuthorizationStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  submitted: "bg-yellow-100 text-yellow-800",
+  in_review: "bg-blue-100 text-blue-800",
+  pended: "bg-orange-100 text-orange-800",
+  approved: "bg-green-100 text-green-800",
+  partially_approved: "bg-lime-100 text-lime-800",
+  denied: "bg-red-100 text-red-800",
+  appealed: "bg-purple-100 text-purple-800",
+  expired: "bg-gray-100 text-gray-800",
+  cancelled: "bg-gray-100 text-gray-500",
+};
+
+interface StatusChange {
+  status: AuthorizationStatus;
+  note?: string;
+  authorizationNumber?: string;
+  expirationDate?: string;
+  denialReason?: string;
+}
+
+// Offers only the statuses the lifecycle allows next, asking for whatever the new status requires
+export default function StatusDropdown({
+  authorizationId,
+  currentStatus,
+  submittedDate,
+  onStatusChange
 }: StatusDropdownProps) {
   const [isUpdating, setIsUpdating] = useState(false);
+  const [pendingChange, setPendingChange] = useState<StatusChange | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const status = normalizeAuthorizationStatus(currentStatus, submittedDate);
+  const nextStatuses = allowedTransitions(currentStatus, submittedDate);
+
   const updateStatusMutation = useMutation({
-    mutationFn: async (newStatus: string) => {
+    mutationFn: async (change: StatusChange) => {
       const response = await fetch(`/api/authorizations/${authorizationId}/status`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${localStorage.getItem("token")}`,
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify(change),
       });
-      
+
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error("Failed to update status");
+        throw new Error(data.error || "Failed to update status");
       }
-      
-      return response.json();
+
+      return data;
     },
     onSuccess: (data, variables) => {
       toast({
         title: "Status Updated",
-        description: `Authorization status changed to ${variables}`,
+        description: `Authorization status changed to ${AUTHORIZATION_STATUS_LABELS[variables.status]}`,
       });
-      
+
       // Invalidate related queries
       queryClient.invalidateQueries({ queryKey: ["/api/authorizations"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
-      
-      onStatusChange?.(variables);
+
+      setPendingChange(null);
+      onStatusChange?.(variables.status);
     },
     onError: (error: Error) => {
       toast({
@@ -75,33 +116,116 @@ export default function StatusDropdown({
     },
   });
 
-  const handleStatusChange = (newStatus: string) => {
-    if (newStatus === currentStatus) return;
-    
+  const needsDetails = (newStatus: AuthorizationStatus) =>
+    !!STATUS_REQUIRED_FIELDS[newStatus]?.length || STATUS_NOTE_REQUIRED.includes(newStatus);
+
+  const handleStatusChange = (value: string) => {
+    const newStatus = value as AuthorizationStatus;
+    if (newStatus === status) return;
+
+    if (needsDetails(newStatus)) {
+      setPendingChange({ status: newStatus });
+      return;
+    }
+
+    setIsUpdating(true);
+    updateStatusMutation.mutate({ status: newStatus });
+  };
+
+  const submitPendingChange = () => {
+    if (!pendingChange) return;
     setIsUpdating(true);
-    updateStatusMutation.mutate(newStatus);
+    updateStatusMutation.mutate(pendingChange);
   };
 
+  const requiredFields = pendingChange ? STATUS_REQUIRED_FIELDS[pendingChange.status] || [] : [];
+  const noteRequired = !!pendingChange && STATUS_NOTE_REQUIRED.includes(pendingChange.status);
+  const canSubmit = !!pendingChange
+    && requiredFields.every((field) => !!pendingChange[field]?.trim())
+    && (!noteRequired || !!pendingChange.note?.trim());
+
   return (
-    <Select 
-      value={currentStatus} 
-      onValueChange={handleStatusChange}
-      disabled={isUpdating}
-    >
-      <SelectTrigger className="w-32">
-        <SelectValue />
-      </SelectTrigger>
-      <SelectContent>
-        {statusOptions.map((option) => (
-          <SelectItem key={option.value} value={option.value}>
-            <div className="flex items-center space-x-2">
-              <div className={`px-2 py-1 rounded-full text-xs font-medium ${option.color}`}>
-                {option.label}
+    <>
+      <Select
+        value={status}
+        onValueChange={handleStatusChange}
+        disabled={isUpdating || nextStatuses.length === 0}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {[status, ...nextStatuses].map((option) => (
+            <SelectItem key={option} value={option}>
+              <div className="flex items-center space-x-2">
+                <div className={`px-2 py-1 rounded-full text-xs font-medium ${statusColors[option]}`}>
+                  {AUTHORIZATION_STATUS_LABELS[option]}
+                </div>
               </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog open={!!pendingChange} onOpenChange={(open) => !open && setPendingChange(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Mark as {pendingChange ? AUTHORIZATION_STATUS_LABELS[pendingChange.status] : ""}
+            </DialogTitle>
+            <DialogDescription>Provide the details this status requires.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {requiredFields.includes("authorizationNumber") && (
+              <div className="space-y-1">
+                <Label htmlFor="status-authorization-number">Authorization number</Label>
+                <Input
+                  id="status-authorization-number"
+                  value={pendingChange?.authorizationNumber || ""}
+                  onChange={(event) => setPendingChange((change) => change && { ...change, authorizationNumber: event.target.value })}
+                />
+              </div>
+            )}
+            {requiredFields.includes("expirationDate") && (
+              <div className="space-y-1">
+                <Label htmlFor="status-expiration-date">Expiration date</Label>
+                <Input
+                  id="status-expiration-date"
+                  type="date"
+                  value={pendingChange?.expirationDate || ""}
+                  onChange={(event) => setPendingChange((change) => change && { ...change, expirationDate: event.target.value })}
+                />
+              </div>
+            )}
+            {requiredFields.includes("denialReason") && (
+              <div className="space-y-1">
+                <Label htmlFor="status-denial-reason">Denial reason</Label>
+                <Textarea
+                  id="status-denial-reason"
+                  value={pendingChange?.denialReason || ""}
+                  onChange={(event) => setPendingChange((change) => change && { ...change, denialReason: event.target.value })}
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="status-note">Note{noteRequired ? "" : " (optional)"}</Label>
+              <Textarea
+                id="status-note"
+                value={pendingChange?.note || ""}
+                onChange={(event) => setPendingChange((change) => change && { ...change, note: event.target.value })}
+              />
             </div>
-          </SelectItem>
-        ))}
-      </SelectContent>
-    </Select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPendingChange(null)}>
+              Cancel
+            </Button>
+            <Button type="button" disabled={!canSubmit || isUpdating} onClick={submitPendingChange}>
+              {isUpdating ? "Saving..." : "Update Status"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
   );
-}
\ No newline at end of file
+}
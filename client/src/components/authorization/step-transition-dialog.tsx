@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export type StepTransitionAction = "skip" | "reopen" | "revert";
+
+interface StepTransitionDialogProps {
+  action: StepTransitionAction | null;
+  stepNumber?: number;
+  stepName?: string;
+  isPending?: boolean;
+  onConfirm: (reason: string) => void;
+  onClose: () => void;
+}
+
+const ACTION_COPY: Record<StepTransitionAction, { title: string; description: string; confirm: string }> = {
+  skip: {
+    title: "Skip Step",
+    description: "The step is marked skipped and the workflow moves on.",
+    confirm: "Skip Step",
+  },
+  reopen: {
+    title: "Reopen Step",
+    description: "The step can be worked on again. Later steps keep their progress.",
+    confirm: "Reopen Step",
+  },
+  revert: {
+    title: "Revert to Step",
+    description: "This step and every step after it go back to be completed again. Entered data is kept.",
+    confirm: "Revert Workflow",
+  },
+};
+
+// Asks for the reason recorded with a skip, reopen or revert
+export default function StepTransitionDialog({
+  action,
+  stepNumber,
+  stepName,
+  isPending,
+  onConfirm,
+  onClose,
+}: StepTransitionDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    setReason("");
+  }, [action, stepNumber]);
+
+  const copy = action ? ACTION_COPY[action] : null;
+
+  return (
+    <Dialog open={!!action} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{copy?.title}: Step {stepNumber}{stepName ? ` - ${stepName}` : ""}</DialogTitle>
+          <DialogDescription>{copy?.description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="step-transition-reason">Reason</Label>
+          <Textarea
+            id="step-transition-reason"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder="Recorded in the audit trail"
+            rows={3}
+          />
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={reason.trim().length < 5 || isPending}
+            onClick={() => onConfirm(reason.trim())}
+          >
+            {isPending ? "Saving..." : copy?.confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,317 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  UNIT_TYPES,
+  UNIT_TYPE_LABELS,
+  type UnitBalance,
+  type UnitType,
+  type UtilizationCheck,
+  type UtilizationWarning,
+} from "@shared/utilization";
+import type { ServiceUtilization } from "@shared/schema";
+
+interface UtilizationPanelProps {
+  authorizationId: number;
+  cptCodes: string[];
+}
+
+interface ApprovalDraft {
+  unitType: UnitType;
+  approvedQuantity: string;
+  startDate: string;
+  endDate: string;
+}
+
+const toDateInput = (value: string | null) => (value ? value.slice(0, 10) : "");
+
+// Approved visits/units per CPT code, the services drawn against them and what is left
+export default function UtilizationPanel({ authorizationId, cptCodes }: UtilizationPanelProps) {
+  const { toast } = useToast();
+  const { token } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/authorizations", authorizationId, "utilization"];
+
+  const [approvals, setApprovals] = useState<Record<string, ApprovalDraft>>({});
+  const [service, setService] = useState({ cptCode: cptCodes[0] || "", serviceDate: "", units: "1", encounterId: "" });
+
+  const { data, isLoading } = useQuery<{ balances: UnitBalance[]; entries: ServiceUtilization[] }>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/authorizations/${authorizationId}/utilization`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error("Failed to fetch service utilization");
+      return response.json();
+    },
+  });
+  const balances = data?.balances || [];
+  const entries = data?.entries || [];
+
+  useEffect(() => {
+    setApprovals(Object.fromEntries(cptCodes.map((code) => {
+      const balance = balances.find((item) => item.cptCode === code);
+      return [code, {
+        unitType: balance?.unitType || "visits",
+        approvedQuantity: balance ? String(balance.approvedQuantity) : "",
+        startDate: toDateInput(balance?.startDate ?? null),
+        endDate: toDateInput(balance?.endDate ?? null),
+      }];
+    })));
+  }, [data, cptCodes.join(",")]);
+
+  // Re-checked as the service is filled in so over-scheduling shows up before it is logged
+  const plannedUnits = parseInt(service.units);
+  const { data: check } = useQuery<UtilizationCheck>({
+    queryKey: [...queryKey, "check", service.cptCode, service.serviceDate, plannedUnits],
+    queryFn: async () => {
+      const response = await fetch(`/api/authorizations/${authorizationId}/utilization/check`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ cptCode: service.cptCode, serviceDate: service.serviceDate, units: plannedUnits }),
+      });
+      if (!response.ok) throw new Error("Failed to check service utilization");
+      return response.json();
+    },
+    enabled: !!service.cptCode && !!service.serviceDate && plannedUnits > 0,
+  });
+
+  const send = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.message || "Request failed");
+    return result;
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Utilization Update Failed", description: error.message, variant: "destructive" });
+  };
+
+  const approvalsMutation = useMutation({
+    mutationFn: () => send(`/api/authorizations/${authorizationId}/unit-approvals`, "PUT", {
+      approvals: Object.entries(approvals)
+        .filter(([, draft]) => parseInt(draft.approvedQuantity) > 0)
+        .map(([cptCode, draft]) => ({
+          cptCode,
+          unitType: draft.unitType,
+          approvedQuantity: parseInt(draft.approvedQuantity),
+          startDate: draft.startDate || undefined,
+          endDate: draft.endDate || undefined,
+        })),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Approved Quantities Saved", description: "Remaining balances have been recalculated." });
+    },
+    onError,
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: () => send(`/api/authorizations/${authorizationId}/utilization`, "POST", {
+      cptCode: service.cptCode,
+      serviceDate: service.serviceDate,
+      units: plannedUnits,
+      encounterId: service.encounterId || undefined,
+    }),
+    onSuccess: (result: { warnings: UtilizationWarning[] }) => {
+      queryClient.invalidateQueries({ queryKey });
+      setService((previous) => ({ ...previous, serviceDate: "", units: "1", encounterId: "" }));
+      toast({
+        title: result.warnings.length > 0 ? "Service Logged Outside Approval" : "Service Logged",
+        description: result.warnings.map((warning) => warning.message).join(" ") || "The remaining balance has been updated.",
+        variant: result.warnings.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (entryId: number) => send(`/api/authorizations/${authorizationId}/utilization/${entryId}`, "DELETE"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  const updateApproval = (code: string, field: keyof ApprovalDraft, value: string) =>
+    setApprovals((previous) => ({ ...previous, [code]: { ...previous[code], [field]: value } }));
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500">Loading utilization...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h5 className="text-xs font-semibold uppercase text-gray-500">Approved Quantities</h5>
+        {cptCodes.map((code) => {
+          const draft = approvals[code];
+          if (!draft) return null;
+          return (
+            <div key={code} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+              <div className="text-sm font-medium text-gray-900">CPT {code}</div>
+              <div className="space-y-1">
+                <Label className="text-xs">Approved</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.approvedQuantity}
+                  onChange={(event) => updateApproval(code, "approvedQuantity", event.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Counted in</Label>
+                <Select value={draft.unitType} onValueChange={(value) => updateApproval(code, "unitType", value)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {UNIT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{UNIT_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">From</Label>
+                <Input type="date" value={draft.startDate} onChange={(event) => updateApproval(code, "startDate", event.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Through</Label>
+                <Input type="date" value={draft.endDate} onChange={(event) => updateApproval(code, "endDate", event.target.value)} />
+              </div>
+            </div>
+          );
+        })}
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => approvalsMutation.mutate()}
+            disabled={approvalsMutation.isPending || !Object.values(approvals).some((draft) => parseInt(draft.approvedQuantity) > 0)}
+          >
+            {approvalsMutation.isPending ? "Saving..." : "Save Approved Quantities"}
+          </Button>
+        </div>
+      </div>
+
+      {balances.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="text-xs font-semibold uppercase text-gray-500">Remaining Balance</h5>
+          {balances.map((balance) => (
+            <div key={balance.approvalId} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900">CPT {balance.cptCode}</span>
+                <span className={balance.lowBalance ? "text-red-700" : "text-gray-700"}>
+                  {balance.remainingQuantity} of {balance.approvedQuantity} {UNIT_TYPE_LABELS[balance.unitType].toLowerCase()} left
+                </span>
+              </div>
+              <Progress value={Math.min((balance.usedQuantity / balance.approvedQuantity) * 100, 100)} />
+              {(balance.startDate || balance.endDate) && (
+                <p className="text-xs text-gray-500">
+                  {balance.startDate ? new Date(balance.startDate).toLocaleDateString() : "Open"} –{" "}
+                  {balance.endDate ? new Date(balance.endDate).toLocaleDateString() : "Open"}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h5 className="text-xs font-semibold uppercase text-gray-500">Log Service</h5>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">CPT Code</Label>
+            <Select value={service.cptCode} onValueChange={(value) => setService((previous) => ({ ...previous, cptCode: value }))}>
+              <SelectTrigger><SelectValue placeholder="Select code" /></SelectTrigger>
+              <SelectContent>
+                {cptCodes.map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Date of Service</Label>
+            <Input type="date" value={service.serviceDate} onChange={(event) => setService((previous) => ({ ...previous, serviceDate: event.target.value }))} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Units / Visits</Label>
+            <Input type="number" min={1} value={service.units} onChange={(event) => setService((previous) => ({ ...previous, units: event.target.value }))} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Encounter ID</Label>
+            <Input placeholder="Optional" value={service.encounterId} onChange={(event) => setService((previous) => ({ ...previous, encounterId: event.target.value }))} />
+          </div>
+        </div>
+
+        {check && check.warnings.length > 0 && (
+          <div className="rounded-md border border-orange-300 bg-orange-50 p-2 space-y-1">
+            {check.warnings.map((warning) => (
+              <p key={warning.kind} className="flex items-center text-xs text-orange-800">
+                <AlertTriangle className="w-3 h-3 mr-1 shrink-0" />
+                {warning.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => recordMutation.mutate()}
+            disabled={recordMutation.isPending || !service.cptCode || !service.serviceDate || !(plannedUnits > 0)}
+          >
+            {recordMutation.isPending ? "Logging..." : "Log Service"}
+          </Button>
+        </div>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="space-y-1">
+          <h5 className="text-xs font-semibold uppercase text-gray-500">Services Logged</h5>
+          {entries.map((entry) => {
+            const balance = balances.find((item) => item.approvalId === entry.unitApprovalId);
+            return (
+              <div key={entry.id} className="flex items-center justify-between border rounded-md px-3 py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span>{new Date(entry.serviceDate).toLocaleDateString()}</span>
+                  {balance && <Badge variant="outline">CPT {balance.cptCode}</Badge>}
+                  <span className="text-gray-700">{entry.unitsUsed} {balance ? UNIT_TYPE_LABELS[balance.unitType].toLowerCase() : "units"}</span>
+                  {entry.encounterId && <span className="text-xs text-gray-500">Encounter {entry.encounterId}</span>}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title="Remove service logged in error"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(entry.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
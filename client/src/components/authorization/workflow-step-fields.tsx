@@ -0,0 +1,77 @@
+import type { Control, FieldValues, Path } from "react-hook-form";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { WorkflowField } from "@shared/workflow-definitions";
+
+interface WorkflowStepFieldsProps<T extends FieldValues> {
+  control: Control<T>;
+  fields: WorkflowField[];
+}
+
+// Inputs for the fields a payer's workflow definition declares on a step
+export default function WorkflowStepFields<T extends FieldValues>({ control, fields }: WorkflowStepFieldsProps<T>) {
+  return (
+    <>
+      {fields.map((definition) => (
+        <FormField
+          key={definition.name}
+          control={control}
+          name={definition.name as Path<T>}
+          render={({ field }) => {
+            const label = `${definition.label}${definition.required ? " *" : ""}`;
+
+            if (definition.type === "boolean") {
+              return (
+                <FormItem className="flex items-center space-x-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel>{label}</FormLabel>
+                  <FormMessage />
+                </FormItem>
+              );
+            }
+
+            return (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                {definition.type === "select" && definition.options?.length ? (
+                  <Select value={field.value ?? ""} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder={`Select ${definition.label.toLowerCase()}`} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {definition.options.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <FormControl>
+                    {definition.type === "textarea" ? (
+                      <Textarea {...field} value={field.value ?? ""} />
+                    ) : (
+                      <Input
+                        type={definition.type === "number" ? "number" : definition.type === "date" ? "date" : "text"}
+                        {...field}
+                        value={field.value ?? ""}
+                      />
+                    )}
+                  </FormControl>
+                )}
+                <FormMessage />
+              </FormItem>
+            );
+          }}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,100 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CalendarClock } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import type { ExpiringAuthorization } from "@shared/renewals";
+
+// Approved authorizations inside a renewal window, with a one-click renewal
+export default function ExpiringAuthorizations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: expiring = [], isLoading } = useQuery<ExpiringAuthorization[]>({
+    queryKey: ["/api/renewals/expiring"],
+    queryFn: async () => {
+      const response = await fetch("/api/renewals/expiring", {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("token")}`,
+        },
+      });
+      if (!response.ok) throw new Error("Failed to fetch expiring authorizations");
+      return response.json();
+    },
+  });
+
+  const renewMutation = useMutation({
+    mutationFn: async (authorizationId: number) => {
+      const response = await fetch("/api/renewals", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("token")}`,
+        },
+        body: JSON.stringify({ authorizationId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to create renewal");
+      return data;
+    },
+    onSuccess: (renewal) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/renewals/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/authorizations"] });
+      toast({
+        title: "Renewal Created",
+        description: `Draft ${renewal.authorizationId} is ready to complete and submit.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Renewal Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || expiring.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-base">
+          <CalendarClock className="h-5 w-5 mr-2 text-orange-500" />
+          Expiring Authorizations
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {expiring.map((auth) => (
+            <li key={auth.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{auth.authorizationId} · {auth.treatmentType}</p>
+                <p className="text-xs text-gray-500">Expires {new Date(auth.expirationDate).toLocaleDateString()}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge className={auth.daysUntilExpiration <= 7 ? "bg-red-100 text-red-800" : "bg-orange-100 text-orange-800"}>
+                  {auth.daysUntilExpiration <= 0 ? "Expired" : `${auth.daysUntilExpiration}d left`}
+                </Badge>
+                {auth.renewalId ? (
+                  <Badge variant="outline">Renewal started</Badge>
+                ) : (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    disabled={renewMutation.isPending}
+                    onClick={() => renewMutation.mutate(auth.id)}
+                  >
+                    Renew
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,6 +13,7 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import SpecialtySelector from "@/components/specialty/specialty-selector";
 import ClientNameDisplay from "@/components/layout/client-name-display";
+import PeerToPeerReminders from "@/components/layout/peer-to-peer-reminders";
 import { useIsMobile } from "@/hooks/use-mobile";
 
 interface HeaderProps {
@@ -71,6 +72,8 @@ export default function Header({ onMenuClick }: HeaderProps) {
               <SpecialtySelector />
             </div>
             
+            <PeerToPeerReminders />
+
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="icon" className="relative">
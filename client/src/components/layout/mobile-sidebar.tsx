@@ -22,6 +22,7 @@ const navigation = [
   { name: "Generate PA Package", href: "/prior-auth-generator", icon: FileText },
   { name: "Insurance Verification", href: "/insurance", icon: Shield },
   { name: "Document Management", href: "/documents", icon: FileText },
+  { name: "State Form Templates", href: "/state-form-templates", icon: FileText },
   { name: "Data Import", href: "/import", icon: Upload },
   { name: "Reports & Analytics", href: "/reports", icon: BarChart3 },
   { name: "Audit Trail", href: "/audit", icon: History },
@@ -0,0 +1,71 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { PhoneCall } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import type { PeerToPeerReminder } from "@shared/peer-to-peer";
+
+// Re-checked periodically so a call coming up while the app is open still surfaces
+const REFRESH_MS = 5 * 60 * 1000;
+
+// Peer-to-peer deadlines and calls coming up for the signed-in doctor
+export default function PeerToPeerReminders() {
+  const { user, token } = useAuth();
+  const [, setLocation] = useLocation();
+  const isDoctor = user?.role === "doctor";
+
+  const { data: reminders = [] } = useQuery<PeerToPeerReminder[]>({
+    queryKey: ["/api/peer-to-peer-reviews/reminders"],
+    queryFn: async () => {
+      const response = await fetch("/api/peer-to-peer-reviews/reminders", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error("Failed to fetch peer-to-peer reminders");
+      return response.json();
+    },
+    enabled: isDoctor,
+    refetchInterval: REFRESH_MS,
+  });
+
+  if (!isDoctor || reminders.length === 0) return null;
+
+  const overdue = reminders.some((reminder) => reminder.overdue);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" title="Peer-to-peer reminders">
+          <PhoneCall className="h-5 w-5" />
+          <span className={`absolute -top-1 -right-1 ${overdue ? "bg-red-500" : "bg-orange-500"} text-white text-xs rounded-full h-5 w-5 flex items-center justify-center`}>
+            {reminders.length}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72 sm:w-80">
+        <div className="p-2">
+          <h3 className="font-semibold text-sm mb-2">Peer-to-Peer Reviews</h3>
+          {reminders.map((reminder) => (
+            <DropdownMenuItem
+              key={`${reminder.reviewId}-${reminder.kind}`}
+              className={`flex flex-col items-start rounded-lg mb-1 ${reminder.overdue ? "bg-red-50" : "bg-orange-50"}`}
+              onClick={() => setLocation("/authorizations")}
+            >
+              <p className="text-sm font-medium">
+                {reminder.kind === "call" ? "Peer-to-peer call" : "Peer-to-peer request deadline"}
+                {reminder.overdue && " (overdue)"}
+              </p>
+              <p className="text-xs text-gray-600">Authorization #{reminder.authorizationId}</p>
+              <p className="text-xs text-gray-500">{new Date(reminder.dueAt).toLocaleString()}</p>
+            </DropdownMenuItem>
+          ))}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
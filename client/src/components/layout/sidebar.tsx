@@ -23,6 +23,7 @@ const navigation = [
   { name: "External Connections", href: "/external-connections", icon: Globe },
   { name: "Generate PA Package", href: "/prior-auth-generator", icon: FileText },
   { name: "Document Management", href: "/documents", icon: FileText },
+  { name: "State Form Templates", href: "/state-form-templates", icon: FileText },
   { name: "Data Import", href: "/import", icon: Upload },
   { name: "Reports & Analytics", href: "/reports", icon: BarChart3 },
   { name: "Audit Trail", href: "/audit", icon: History },
@@ -0,0 +1,168 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { RefreshCw, ShieldCheck, ShieldAlert, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { InsuranceProvider, PatientInsurance } from "@shared/schema";
+import type { InsuranceVerificationResult } from "@shared/insurance-verification";
+
+interface InsuranceVerificationProps {
+  patientId: number;
+}
+
+// Coverage record as returned with its payer joined in
+type PatientInsuranceRecord = PatientInsurance & { provider?: InsuranceProvider };
+
+const verificationBadge = (status: string | null) => {
+  switch (status) {
+    case "active":
+      return <Badge className="bg-green-100 text-green-800"><ShieldCheck className="w-3 h-3 mr-1" />Active</Badge>;
+    case "inactive":
+      return <Badge className="bg-red-100 text-red-800"><ShieldAlert className="w-3 h-3 mr-1" />Inactive</Badge>;
+    case "pending":
+      return <Badge className="bg-yellow-100 text-yellow-800"><Clock className="w-3 h-3 mr-1" />Awaiting Payer</Badge>;
+    case "error":
+      return <Badge variant="destructive"><ShieldAlert className="w-3 h-3 mr-1" />Failed</Badge>;
+    default:
+      return <Badge variant="secondary">Not Verified</Badge>;
+  }
+};
+
+// Coverage records for a patient with the last eligibility result and a re-run action
+export default function InsuranceVerification({ patientId }: InsuranceVerificationProps) {
+  const { toast } = useToast();
+  const { token } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: insuranceRecords = [], isLoading } = useQuery<PatientInsuranceRecord[]>({
+    queryKey: ["/api/patients", patientId, "insurance"],
+    queryFn: async () => {
+      const response = await fetch(`/api/patients/${patientId}/insurance`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      if (!response.ok) throw new Error("Failed to fetch patient insurance");
+      return response.json();
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (insuranceId: number) => {
+      const response = await fetch("/api/insurance/verify", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ patientId, insuranceId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || data.message || "Verification failed");
+      return data;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients", patientId, "insurance"] });
+      toast({
+        title: result.pending ? "Verification In Progress" : "Verification Complete",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients", patientId, "insurance"] });
+      toast({
+        title: "Verification Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500">Loading insurance...</div>;
+  }
+
+  if (insuranceRecords.length === 0) {
+    return <div className="text-sm text-gray-500">No insurance on file for this patient.</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {insuranceRecords.map((insurance) => {
+        const result: Partial<InsuranceVerificationResult> = (insurance.verificationResult as InsuranceVerificationResult | null) || {};
+        const verifying = verifyMutation.isPending && verifyMutation.variables === insurance.id;
+
+        return (
+          <div key={insurance.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {insurance.provider?.name || "Unknown Provider"}
+                  {insurance.isPrimary && <span className="ml-2 text-xs text-gray-500">(Primary)</span>}
+                </div>
+                <div className="text-xs text-gray-500">Member ID: {insurance.memberId}</div>
+              </div>
+              <div className="flex items-center gap-2">
+                {verificationBadge(insurance.verificationStatus)}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => verifyMutation.mutate(insurance.id)}
+                  disabled={verifying}
+                >
+                  <RefreshCw className={`w-3 h-3 mr-1 ${verifying ? "animate-spin" : ""}`} />
+                  {insurance.lastVerifiedAt ? "Re-verify" : "Verify"}
+                </Button>
+              </div>
+            </div>
+
+            {insurance.lastVerifiedAt && (
+              <div className="grid grid-cols-2 gap-2 text-xs text-gray-700">
+                <div>
+                  <span className="text-gray-500">Last verified:</span>{" "}
+                  {new Date(insurance.lastVerifiedAt).toLocaleString()}
+                </div>
+                {result.planName && (
+                  <div><span className="text-gray-500">Plan:</span> {result.planName}</div>
+                )}
+                {result.effectiveDate && (
+                  <div>
+                    <span className="text-gray-500">Coverage:</span>{" "}
+                    {new Date(result.effectiveDate).toLocaleDateString()}
+                    {result.expirationDate && ` - ${new Date(result.expirationDate).toLocaleDateString()}`}
+                  </div>
+                )}
+                {result.coverageDetails && result.isValid && (
+                  <div>
+                    <span className="text-gray-500">Deductible / Copay:</span>{" "}
+                    ${result.coverageDetails.deductible} / ${result.coverageDetails.copay}
+                  </div>
+                )}
+                {result.isValid && (
+                  <div>
+                    <span className="text-gray-500">Prior auth required:</span>{" "}
+                    {result.priorAuthRequired ? "Yes" : "No"}
+                  </div>
+                )}
+                {result.message && (
+                  <div className="col-span-2 text-gray-500">{result.message}</div>
+                )}
+              </div>
+            )}
+
+            {result.benefits?.some((benefit) => benefit.priorAuthRequired) && (
+              <div className="text-xs text-amber-700">
+                Authorization required for:{" "}
+                {result.benefits
+                  .filter((benefit) => benefit.priorAuthRequired)
+                  .map((benefit) => benefit.name)
+                  .join(", ")}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  FORM_DATA_PATH_SUGGESTIONS,
+  FORM_FIELD_FORMATS,
+  type DiscoveredFormField,
+  type FormFieldFormat,
+  type StateFormField,
+} from "@shared/state-forms";
+
+export interface FieldMappingDraft {
+  source: string;
+  format: FormFieldFormat;
+  checkedWhen: string;
+  defaultValue: string;
+  required: boolean;
+}
+
+export type FieldMappingDrafts = Record<string, FieldMappingDraft>;
+
+interface FieldMappingEditorProps {
+  pdfFields: DiscoveredFormField[];
+  drafts: FieldMappingDrafts;
+  onChange: (drafts: FieldMappingDrafts) => void;
+}
+
+const FORMAT_LABELS: Record<FormFieldFormat, string> = {
+  text: "Text",
+  uppercase: "Uppercase",
+  digits: "Digits only",
+  date: "Date (MM/DD/YYYY)",
+  checkbox: "Checkbox",
+};
+
+// Unmapped fields start empty; checkboxes default to the checkbox format
+export function draftFor(field: DiscoveredFormField, drafts: FieldMappingDrafts): FieldMappingDraft {
+  return drafts[field.name] || {
+    source: "",
+    format: field.type === "checkbox" ? "checkbox" : "text",
+    checkedWhen: "",
+    defaultValue: "",
+    required: false,
+  };
+}
+
+// Drafts for a saved template's mappings, keyed by PDF field name
+export function draftsFromFields(fields: StateFormField[]): FieldMappingDrafts {
+  return Object.fromEntries(fields.map((field) => [field.name, {
+    source: field.source || "",
+    format: field.format,
+    checkedWhen: field.checkedWhen || "",
+    defaultValue: field.defaultValue || "",
+    required: field.required,
+  }]));
+}
+
+// Only fields given a data path are saved
+export function toStateFormFields(pdfFields: DiscoveredFormField[], drafts: FieldMappingDrafts): StateFormField[] {
+  return pdfFields.flatMap((field) => {
+    const draft = draftFor(field, drafts);
+    if (!draft.source.trim()) return [];
+    return [{
+      name: field.name,
+      source: draft.source.trim(),
+      format: draft.format,
+      checkedWhen: draft.format === "checkbox" && draft.checkedWhen ? draft.checkedWhen : undefined,
+      defaultValue: draft.defaultValue || undefined,
+      required: draft.required,
+    }];
+  });
+}
+
+// One row per fillable PDF field: the data path it reads, how the value is formatted, and a fallback
+export default function FieldMappingEditor({ pdfFields, drafts, onChange }: FieldMappingEditorProps) {
+  const fillable = pdfFields.filter((field) => field.type !== "other");
+  if (fillable.length === 0) {
+    return <p className="text-sm text-gray-500">The template PDF has no fillable fields.</p>;
+  }
+
+  const update = (field: DiscoveredFormField, changes: Partial<FieldMappingDraft>) =>
+    onChange({ ...drafts, [field.name]: { ...draftFor(field, drafts), ...changes } });
+
+  return (
+    <div className="space-y-2">
+      <datalist id="form-data-paths">
+        {FORM_DATA_PATH_SUGGESTIONS.map((path) => <option key={path} value={path} />)}
+      </datalist>
+      {fillable.map((field) => {
+        const draft = draftFor(field, drafts);
+        return (
+          <div key={field.name} className="border rounded-lg p-3 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">PDF field</Label>
+              <p className="font-medium text-sm break-all">{field.name}</p>
+              <Badge variant="outline">{field.type}</Badge>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Data path</Label>
+              <Input
+                list="form-data-paths"
+                placeholder="e.g. patient.dateOfBirth"
+                value={draft.source}
+                onChange={(event) => update(field, { source: event.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Format</Label>
+              <Select value={draft.format} onValueChange={(format) => update(field, { format: format as FormFieldFormat })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORM_FIELD_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{draft.format === "checkbox" ? "Checked when equal to" : "Default value"}</Label>
+              {draft.format === "checkbox" ? (
+                <Input
+                  placeholder="Any truthy value"
+                  value={draft.checkedWhen}
+                  onChange={(event) => update(field, { checkedWhen: event.target.value })}
+                />
+              ) : field.options?.length ? (
+                <Select value={draft.defaultValue} onValueChange={(defaultValue) => update(field, { defaultValue })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="None" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {field.options.map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  value={draft.defaultValue}
+                  onChange={(event) => update(field, { defaultValue: event.target.value })}
+                />
+              )}
+            </div>
+            <div className="md:col-span-4 flex items-center gap-2">
+              <Switch
+                id={`required-${field.name}`}
+                checked={draft.required}
+                disabled={!draft.source.trim()}
+                onCheckedChange={(required) => update(field, { required })}
+              />
+              <Label htmlFor={`required-${field.name}`} className="text-xs">Required to generate the form</Label>
+              {field.options?.length ? (
+                <span className="text-xs text-gray-500 ml-auto">Choices: {field.options.join(", ")}</span>
+              ) : null}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
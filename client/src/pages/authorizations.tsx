@@ -24,6 +24,9 @@ import { Badge } from "@/components/ui/badge";
 import AuthorizationModal from "@/components/authorization/authorization-modal";
 import StatusBadge from "@/components/authorization/status-badge";
 import StatusDropdown from "@/components/authorization/status-dropdown";
+import ServiceLineSummary from "@/components/authorization/service-line-summary";
+import { AUTHORIZATION_STATUSES, AUTHORIZATION_STATUS_LABELS } from "@shared/authorization-status";
+import type { AuthorizationServiceLine } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
 export default function Authorizations() {
@@ -59,6 +62,7 @@ Authorization ID: ${authorization.authorizationId}
 Patient: ${authorization.patient?.firstName || 'N/A'} ${authorization.patient?.lastName || 'N/A'}
 Treatment: ${authorization.treatmentType}
 CPT Codes: ${cptCodes.join(', ') || 'None'}
+Service Lines: ${((authorization.serviceLines || []) as AuthorizationServiceLine[]).map((line) => `${line.cptCode} x${line.units} (${line.status})`).join(', ') || 'None'}
 ICD-10 Codes: ${icd10Codes.join(', ') || 'None'}
 Status: ${authorization.status}
 Submitted: ${authorization.submittedDate ? new Date(authorization.submittedDate).toLocaleDateString() : 'Not submitted'}
@@ -91,7 +95,7 @@ Clinical Justification: ${authorization.clinicalJustification || 'None provided'
     return (
       auth.authorizationId.toLowerCase().includes(searchLower) ||
       auth.treatmentType.toLowerCase().includes(searchLower) ||
-      auth.cptCode.toLowerCase().includes(searchLower)
+      auth.cptCodes?.some((code: string) => code.toLowerCase().includes(searchLower))
     );
   });
 
@@ -135,10 +139,9 @@ Clinical Justification: ${authorization.clinicalJustification || 'None provided'
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Statuses</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="approved">Approved</SelectItem>
-                  <SelectItem value="denied">Denied</SelectItem>
-                  <SelectItem value="appealed">Appealed</SelectItem>
+                  {AUTHORIZATION_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>{AUTHORIZATION_STATUS_LABELS[status]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Button variant="outline">
@@ -217,9 +220,7 @@ Clinical Justification: ${authorization.clinicalJustification || 'None provided'
                           <div className="text-sm text-gray-900">
                             {auth.treatmentType}
                           </div>
-                          <div className="text-sm text-gray-500">
-                            CPT: {auth.cptCodes ? auth.cptCodes.join(', ') : auth.cptCode || 'N/A'}
-                          </div>
+                          <ServiceLineSummary lines={auth.serviceLines} cptCodes={auth.cptCodes} />
                         </TableCell>
                         <TableCell>
                           <div className="text-sm text-gray-900">
@@ -230,6 +231,7 @@ Clinical Justification: ${authorization.clinicalJustification || 'None provided'
                           <StatusDropdown 
                             authorizationId={auth.id}
                             currentStatus={auth.status}
+                            submittedDate={auth.submittedDate}
                           />
                         </TableCell>
                         <TableCell className="text-sm text-gray-500">
@@ -3,6 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { Clock, CheckCircle, XCircle, Timer } from "lucide-react";
 import StatsCard from "@/components/dashboard/stats-card";
 import QuickActions from "@/components/dashboard/quick-actions";
+import ExpiringAuthorizations from "@/components/dashboard/expiring-authorizations";
 import AuthorizationTable from "@/components/authorization/authorization-table";
 import AuthorizationModal from "@/components/authorization/authorization-modal";
 import PatientForm from "@/components/patients/patient-form";
@@ -121,6 +122,9 @@ export default function Dashboard() {
         onGenerateAuthorization={handleGenerateAuthorization}
       />
 
+      {/* Approved authorizations nearing expiration */}
+      <ExpiringAuthorizations />
+
       {/* Recent Authorizations Table */}
       <AuthorizationTable
         onView={handleViewAuthorization}
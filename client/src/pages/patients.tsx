@@ -31,6 +31,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import PatientForm from "@/components/patients/patient-form";
+import InsuranceVerification from "@/components/patients/insurance-verification";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { queryClient } from "@/lib/queryClient";
@@ -413,6 +414,12 @@ export default function Patients() {
                   <div className="text-sm text-gray-900 mt-1">{viewingPatient.emergencyPhone || 'N/A'}</div>
                 </div>
               </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Insurance Eligibility</label>
+                <div className="mt-2">
+                  <InsuranceVerification patientId={viewingPatient.id} />
+                </div>
+              </div>
             </div>
           </DialogContent>
         </Dialog>
@@ -13,12 +13,25 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { FileText, Download, Mail, Code } from "lucide-react";
+import { FileText, Download, Mail, Code, Network, Upload, AlertTriangle, History } from "lucide-react";
+import { PACKAGE_FORMAT_LABELS, type PackageDocumentRef, type PackageFormat } from "@shared/package-artifacts";
+import type { PackageArtifact } from "@shared/schema";
+
+type PackageArtifactListing = Omit<PackageArtifact, "createdAt"> & { createdAt: string };
+
+function downloadPackage(url: string, fileName: string) {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+}
 
 export default function PriorAuthGenerator() {
   const [selectedAuthorization, setSelectedAuthorization] = useState("");
   const [outputFormat, setOutputFormat] = useState("pdf");
   const [customNotes, setCustomNotes] = useState("");
+  const [validationIssues, setValidationIssues] = useState<{ severity: string; path: string; message: string }[]>([]);
+  const [claimResponseJson, setClaimResponseJson] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -36,6 +49,44 @@ export default function PriorAuthGenerator() {
     },
   });
 
+  // Packages already generated for the selected authorization, as they were generated
+  const { data: packageHistory = [] } = useQuery<PackageArtifactListing[]>({
+    queryKey: ["/api/prior-auth/authorizations", selectedAuthorization, "packages"],
+    queryFn: async () => {
+      const response = await fetch(`/api/prior-auth/authorizations/${selectedAuthorization}/packages`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("token")}`,
+        },
+      });
+      if (!response.ok) throw new Error("Failed to fetch package history");
+      return response.json();
+    },
+    enabled: !!selectedAuthorization,
+  });
+
+  // Stored packages are downloaded through a short-lived signed link issued on demand
+  const downloadLinkMutation = useMutation({
+    mutationFn: async (artifact: PackageArtifactListing) => {
+      const response = await fetch(`/api/prior-auth/packages/${artifact.id}/download-link`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("token")}`,
+        },
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.error || "Failed to create download link");
+      return { url: body.url as string, fileName: artifact.fileName };
+    },
+    onSuccess: ({ url, fileName }) => downloadPackage(url, fileName),
+    onError: (error: Error) => {
+      toast({
+        title: "Download Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Generate package mutation
   const generateMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -47,26 +98,23 @@ export default function PriorAuthGenerator() {
         },
         body: JSON.stringify(data),
       });
-      if (!response.ok) throw new Error("Failed to generate package");
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setValidationIssues(body.issues || []);
+        throw new Error(body.error || "Failed to generate package");
+      }
       return response.json();
     },
     onSuccess: (result) => {
+      setValidationIssues(result.validationIssues || []);
+      queryClient.invalidateQueries({ queryKey: ["/api/prior-auth/authorizations", selectedAuthorization, "packages"] });
       toast({
         title: "Package Generated",
-        description: `Prior authorization package generated successfully in ${outputFormat.toUpperCase()} format.`,
+        description: `Version ${result.version} generated in ${outputFormat.toUpperCase()} format and stored with the authorization.`,
       });
-      
+
       if (result.downloadUrl) {
-        // Trigger download with authentication
-        const token = localStorage.getItem("token");
-        const downloadUrl = result.downloadUrl.includes('?') 
-          ? `${result.downloadUrl}&token=${token}`
-          : `${result.downloadUrl}?token=${token}`;
-        
-        const link = document.createElement("a");
-        link.href = downloadUrl;
-        link.download = result.fileName;
-        link.click();
+        downloadPackage(result.downloadUrl, result.fileName);
       }
     },
     onError: (error: Error) => {
@@ -78,6 +126,53 @@ export default function PriorAuthGenerator() {
     },
   });
 
+  // Record a Da Vinci PAS ClaimResponse returned by the payer
+  const claimResponseMutation = useMutation({
+    mutationFn: async (resource: unknown) => {
+      const response = await fetch(`/api/authorizations/${selectedAuthorization}/fhir-pas/claim-response`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("token")}`,
+        },
+        body: JSON.stringify({ resource }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.message || "Failed to record ClaimResponse");
+      return body;
+    },
+    onSuccess: (outcome) => {
+      toast({
+        title: "ClaimResponse Recorded",
+        description: outcome.result?.message || `Authorization is now ${outcome.authorization?.status}.`,
+      });
+      setClaimResponseJson("");
+      queryClient.invalidateQueries({ queryKey: ["/api/authorizations"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleImportClaimResponse = () => {
+    let resource: unknown;
+    try {
+      resource = JSON.parse(claimResponseJson);
+    } catch {
+      toast({
+        title: "Invalid JSON",
+        description: "Paste the ClaimResponse or response Bundle exactly as received from the payer.",
+        variant: "destructive",
+      });
+      return;
+    }
+    claimResponseMutation.mutate(resource);
+  };
+
   const handleGenerate = () => {
     if (!selectedAuthorization) {
       toast({
@@ -144,7 +239,7 @@ export default function PriorAuthGenerator() {
           {/* Output Format Selection */}
           <div className="space-y-2">
             <Label htmlFor="format">Output Format</Label>
-            <Select value={outputFormat} onValueChange={setOutputFormat}>
+            <Select value={outputFormat} onValueChange={(value) => { setOutputFormat(value); setValidationIssues([]); }}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
@@ -167,6 +262,12 @@ export default function PriorAuthGenerator() {
                     JSON Format
                   </div>
                 </SelectItem>
+                <SelectItem value="fhir-pas">
+                  <div className="flex items-center">
+                    <Network className="h-4 w-4 mr-2" />
+                    Da Vinci PAS (FHIR)
+                  </div>
+                </SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -224,9 +325,93 @@ export default function PriorAuthGenerator() {
             <Download className="h-4 w-4 mr-2" />
             {generateMutation.isPending ? "Generating..." : `Generate ${outputFormat.toUpperCase()} Package`}
           </Button>
+
+          {/* PAS validation results */}
+          {validationIssues.length > 0 && (
+            <div className="border border-amber-200 bg-amber-50 p-4 rounded-lg">
+              <h4 className="font-semibold mb-2 flex items-center">
+                <AlertTriangle className="h-4 w-4 mr-2 text-amber-600" />
+                FHIR PAS Validation
+              </h4>
+              <ul className="space-y-1 text-sm">
+                {validationIssues.map((issue, index) => (
+                  <li key={index} className={issue.severity === "error" ? "text-red-700" : "text-amber-700"}>
+                    <span className="font-mono text-xs">{issue.path}</span>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {/* Package History */}
+      {selectedAuthorization && packageHistory.length > 0 && (
+        <Card className="healthcare-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Generated Packages
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {packageHistory.map((artifact) => (
+                <li key={artifact.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="text-sm min-w-0">
+                    <div className="font-medium">
+                      v{artifact.version} - {PACKAGE_FORMAT_LABELS[artifact.format as PackageFormat] || artifact.format}
+                    </div>
+                    <div className="text-gray-500">
+                      {new Date(artifact.createdAt).toLocaleString()} - {(artifact.includedDocuments as PackageDocumentRef[]).length} document(s)
+                    </div>
+                    <div className="text-xs text-gray-400 font-mono truncate" title={artifact.contentHash}>
+                      SHA-256 {artifact.contentHash.slice(0, 16)}... - generator {artifact.generatorVersion}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={downloadLinkMutation.isPending}
+                    onClick={() => downloadLinkMutation.mutate(artifact)}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Download
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* ClaimResponse Import */}
+      {selectedAuthorization && outputFormat === "fhir-pas" && (
+        <Card className="healthcare-card">
+          <CardHeader>
+            <CardTitle>Import Payer ClaimResponse</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              placeholder='{"resourceType": "ClaimResponse", ...}'
+              value={claimResponseJson}
+              onChange={(e) => setClaimResponseJson(e.target.value)}
+              rows={8}
+              className="font-mono text-xs"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleImportClaimResponse}
+              disabled={!claimResponseJson.trim() || claimResponseMutation.isPending}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {claimResponseMutation.isPending ? "Recording..." : "Record ClaimResponse"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Format Information */}
       <Card className="healthcare-card">
         <CardHeader>
@@ -266,6 +451,17 @@ export default function PriorAuthGenerator() {
                 </p>
               </div>
             </div>
+
+            <div className="flex items-start space-x-3">
+              <Network className="h-5 w-5 text-indigo-600 mt-0.5" />
+              <div>
+                <h4 className="font-semibold">Da Vinci PAS (FHIR)</h4>
+                <p className="text-sm text-gray-600">
+                  FHIR R4 Claim bundle following the Da Vinci Prior Authorization Support profiles, validated before
+                  download. The payer's ClaimResponse can be imported to update the authorization status.
+                </p>
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
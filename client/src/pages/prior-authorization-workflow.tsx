@@ -9,12 +9,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useForm } from "react-hook-form";
+import { useForm, type Path } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { CheckCircle, Clock, FileText, Search, AlertTriangle, Download } from "lucide-react";
+import { CheckCircle, Clock, FileText, Search, AlertTriangle, Download, SkipForward } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import ClaimStatusPanel from "@/components/authorization/claim-status-panel";
+import AppealsPanel from "@/components/authorization/appeals-panel";
+import PeerToPeerPanel from "@/components/authorization/peer-to-peer-panel";
+import RenewalPanel from "@/components/authorization/renewal-panel";
+import UtilizationPanel from "@/components/authorization/utilization-panel";
+import DocumentationChecklistPanel from "@/components/authorization/documentation-checklist-panel";
+import WorkflowStepFields from "@/components/authorization/workflow-step-fields";
+import StepTransitionDialog, { type StepTransitionAction } from "@/components/authorization/step-transition-dialog";
+import type { ResolvedWorkflowDefinition, WorkflowFieldError, WorkflowStepRole } from "@shared/workflow-definitions";
 import type { 
   PriorAuthorization,
   Patient, 
@@ -35,14 +44,27 @@ const workflowStepSchema = z.object({
   providerNotes: z.string().optional(),
   urgentRequest: z.boolean().optional(),
   notes: z.string().optional(),
-});
+}).passthrough(); // Fields declared by the payer's workflow definition are validated by the server
 
 type WorkflowStepData = z.infer<typeof workflowStepSchema>;
 
+// Fields that have dedicated inputs below; any other field a step declares is rendered generically
+const BUILT_IN_STEP_FIELDS: Partial<Record<WorkflowStepRole, string[]>> = {
+  clinical_decision: ["patientId", "treatmentType", "cptCode"],
+  clinical_evidence: ["clinicalEvidence", "previousTreatments"],
+};
+
+class StepValidationError extends Error {
+  constructor(message: string, public readonly fieldErrors: WorkflowFieldError[]) {
+    super(message);
+  }
+}
+
 export default function PriorAuthorizationWorkflow() {
   const [selectedAuthId, setSelectedAuthId] = useState<number | null>(null);
   const [currentStep, setCurrentStep] = useState(1);
   const [procedureSearchQuery, setProcedureSearchQuery] = useState("");
+  const [stepTransition, setStepTransition] = useState<{ action: StepTransitionAction; step: PriorAuthWorkflowStep } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -82,6 +104,18 @@ export default function PriorAuthorizationWorkflow() {
     enabled: !!selectedAuthId,
   });
 
+  // Workflow definition the selected authorization is pinned to
+  const { data: workflowDefinition } = useQuery<ResolvedWorkflowDefinition>({
+    queryKey: ['/api/prior-auth-workflow', selectedAuthId, 'definition'],
+    enabled: !!selectedAuthId,
+  });
+
+  // Panels and built-in inputs follow the step's role, so payers can renumber their steps
+  const currentStepDefinition = workflowDefinition?.steps.find((step) => step.stepNumber === currentStep);
+  const currentRole = currentStepDefinition?.role;
+  const definitionFields = (currentStepDefinition?.fields || [])
+    .filter((field) => !(currentRole && BUILT_IN_STEP_FIELDS[currentRole]?.includes(field.name)));
+
   // Create new prior authorization mutation
   const createAuthMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -115,11 +149,12 @@ export default function PriorAuthorizationWorkflow() {
 
   // Complete workflow step mutation
   const completeStepMutation = useMutation({
-    mutationFn: async ({ authId, stepNumber, formData, notes }: {
+    mutationFn: async ({ authId, stepNumber, formData, notes, override }: {
       authId: number;
       stepNumber: number;
       formData: WorkflowStepData;
       notes?: string;
+      override?: { reason: string };
     }) => {
       const response = await fetch(`/api/prior-auth-workflow-steps/${authId}/${stepNumber}/complete`, {
         method: 'POST',
@@ -127,25 +162,75 @@ export default function PriorAuthorizationWorkflow() {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${localStorage.getItem("token")}`,
         },
-        body: JSON.stringify({ formData, notes }),
+        body: JSON.stringify({ formData, notes, override }),
       });
-      if (!response.ok) throw new Error('Failed to complete step');
-      return response.json();
+      const data = await response.json();
+      if (response.status === 422) throw new StepValidationError(data.message, data.errors || []);
+      if (!response.ok) throw new Error(data.message || 'Failed to complete workflow step.');
+      return data;
     },
-    onSuccess: () => {
+    onSuccess: (result: { currentStep: number }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/prior-auth-workflow-steps', selectedAuthId] });
       queryClient.invalidateQueries({ queryKey: ['/api/prior-auth-current-step', selectedAuthId] });
-      setCurrentStep(prev => prev + 1);
+      queryClient.invalidateQueries({ queryKey: ['/api/prior-auth-workflow', selectedAuthId, 'documentation-checklist'] });
+      // The payer's workflow definition decides which step follows
+      setCurrentStep(result.currentStep);
       form.reset();
       toast({
         title: "Step Completed",
         description: "Workflow step has been completed successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/prior-auth-workflow', selectedAuthId, 'documentation-checklist'] });
+      if (error instanceof StepValidationError) {
+        error.fieldErrors.forEach(({ field, message }) => {
+          form.setError(field as Path<WorkflowStepData>, { type: "server", message });
+        });
+      }
       toast({
         title: "Error",
-        description: "Failed to complete workflow step.",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Skip, reopen or revert a workflow step
+  const stepTransitionMutation = useMutation({
+    mutationFn: async ({ authId, stepNumber, action, reason }: {
+      authId: number;
+      stepNumber: number;
+      action: StepTransitionAction;
+      reason: string;
+    }) => {
+      const response = await fetch(`/api/prior-auth-workflow-steps/${authId}/${stepNumber}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem("token")}`,
+        },
+        body: JSON.stringify({ reason }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || `Failed to ${action} step.`);
+      return data;
+    },
+    onSuccess: (result: { message: string; currentStep: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/prior-auth-workflow-steps', selectedAuthId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/prior-auth-current-step', selectedAuthId] });
+      setCurrentStep(result.currentStep);
+      setStepTransition(null);
+      form.reset();
+      toast({
+        title: "Workflow Updated",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -153,22 +238,35 @@ export default function PriorAuthorizationWorkflow() {
 
   // Generate form package mutation
   const generateFormsMutation = useMutation({
-    mutationFn: async ({ authId, state }: { authId: number; state: string }) => {
+    mutationFn: async ({ authId }: { authId: number }) => {
       const response = await fetch(`/api/prior-auth-generate-forms/${authId}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${localStorage.getItem("token")}`,
         },
-        body: JSON.stringify({ state }),
+        body: JSON.stringify({}),
       });
-      if (!response.ok) throw new Error('Failed to generate forms');
-      return response.json();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error([data.message || 'Failed to generate forms', ...(data.issues || [])].join(': '));
+      }
+      return data;
     },
     onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       toast({
         title: "Forms Generated",
-        description: "State-specific form package has been generated and is ready for submission.",
+        description: result.warnings?.length
+          ? `${result.document.fileName} was filed with the authorization. ${result.warnings.length} field(s) could not be filled.`
+          : `${result.document.fileName} was filled and filed with the authorization's documents.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Generate Forms",
+        description: error.message,
+        variant: "destructive",
       });
     },
   });
@@ -184,6 +282,19 @@ export default function PriorAuthorizationWorkflow() {
     });
   };
 
+  const onOverrideStep = (reason: string) => {
+    if (!selectedAuthId || !currentStepData) return;
+
+    const data = form.getValues();
+    completeStepMutation.mutate({
+      authId: selectedAuthId,
+      stepNumber: currentStepData.stepNumber,
+      formData: data,
+      notes: data.notes,
+      override: { reason },
+    });
+  };
+
   const handleCreateNewAuth = () => {
     const formData = form.getValues();
     
@@ -214,11 +325,15 @@ export default function PriorAuthorizationWorkflow() {
         return <CheckCircle className="w-5 h-5 text-green-600" />;
       case 'in_progress':
         return <Clock className="w-5 h-5 text-blue-600" />;
+      case 'skipped':
+        return <SkipForward className="w-5 h-5 text-gray-400" />;
       default:
         return <div className="w-5 h-5 rounded-full border-2 border-gray-300" />;
     }
   };
 
+  const selectedAuthorization = authorizations.find((auth) => auth.id === selectedAuthId);
+
   const calculateProgress = () => {
     if (!workflowSteps.length) return 0;
     const completedSteps = workflowSteps.filter((step: any) => step.status === 'completed').length;
@@ -273,7 +388,7 @@ export default function PriorAuthorizationWorkflow() {
                   </div>
                   
                   <div className="space-y-2">
-                    {workflowSteps.map((step: any) => (
+                    {workflowSteps.map((step) => (
                       <div
                         key={step.id}
                         className={`flex items-center space-x-3 p-2 rounded cursor-pointer transition-colors ${
@@ -286,15 +401,48 @@ export default function PriorAuthorizationWorkflow() {
                           <div className="text-sm font-medium">{step.stepName}</div>
                           <div className="text-xs text-gray-500">Step {step.stepNumber}</div>
                         </div>
-                        <Badge variant={
-                          step.status === 'completed' ? 'default' :
-                          step.status === 'in_progress' ? 'secondary' : 'outline'
-                        }>
-                          {step.status}
-                        </Badge>
+                        <div className="flex flex-col items-end gap-1">
+                          <Badge variant={
+                            step.status === 'completed' ? 'default' :
+                            step.status === 'in_progress' ? 'secondary' : 'outline'
+                          }>
+                            {step.status}
+                          </Badge>
+                          <div className="flex gap-2 text-xs" onClick={(event) => event.stopPropagation()}>
+                            {(step.status === 'completed' || step.status === 'skipped') && (
+                              <>
+                                <button type="button" className="text-blue-700 hover:underline" onClick={() => setStepTransition({ action: 'reopen', step })}>
+                                  Reopen
+                                </button>
+                                <button type="button" className="text-blue-700 hover:underline" onClick={() => setStepTransition({ action: 'revert', step })}>
+                                  Revert
+                                </button>
+                              </>
+                            )}
+                            {step.status === 'in_progress' && workflowDefinition?.steps.find((definition) => definition.stepNumber === step.stepNumber)?.skippable && (
+                              <button type="button" className="text-blue-700 hover:underline" onClick={() => setStepTransition({ action: 'skip', step })}>
+                                Skip
+                              </button>
+                            )}
+                          </div>
+                        </div>
                       </div>
                     ))}
                   </div>
+
+                  <StepTransitionDialog
+                    action={stepTransition?.action ?? null}
+                    stepNumber={stepTransition?.step.stepNumber}
+                    stepName={stepTransition?.step.stepName}
+                    isPending={stepTransitionMutation.isPending}
+                    onClose={() => setStepTransition(null)}
+                    onConfirm={(reason) => stepTransition && selectedAuthId && stepTransitionMutation.mutate({
+                      authId: selectedAuthId,
+                      stepNumber: stepTransition.step.stepNumber,
+                      action: stepTransition.action,
+                      reason,
+                    })}
+                  />
                 </CardContent>
               </Card>
 
@@ -309,11 +457,62 @@ export default function PriorAuthorizationWorkflow() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
+                  {/* Documentation Preparation: the payer's checklist must pass before the step completes */}
+                  {currentRole === 'documentation' && selectedAuthId && (
+                    <div className="mb-6">
+                      <DocumentationChecklistPanel
+                        authorizationId={selectedAuthId}
+                        onOverride={onOverrideStep}
+                        overridePending={completeStepMutation.isPending}
+                      />
+                    </div>
+                  )}
+
+                  {/* Tracking & Follow-up: peer-to-peer calls after a pend or denial */}
+                  {currentRole === 'tracking' && selectedAuthId && (
+                    <div className="mb-6">
+                      <PeerToPeerPanel authorizationId={selectedAuthId} />
+                    </div>
+                  )}
+
+                  {/* Decision Processing: appeal a denial or partial approval */}
+                  {currentRole === 'decision' && selectedAuthId && (
+                    <div className="mb-6">
+                      <AppealsPanel authorizationId={selectedAuthId} />
+                    </div>
+                  )}
+
+                  {/* Service Authorization: track claims billed against the approved authorization */}
+                  {currentRole === 'service_authorization' && selectedAuthId && (
+                    <div className="mb-6 space-y-3">
+                      <h4 className="text-sm font-semibold text-gray-900">Claim Status</h4>
+                      <ClaimStatusPanel authorizationId={selectedAuthId} />
+                    </div>
+                  )}
+
+                  {/* Service Authorization: approved visits/units and the services drawn against them */}
+                  {currentRole === 'service_authorization' && selectedAuthorization && (
+                    <div className="mb-6 space-y-3">
+                      <h4 className="text-sm font-semibold text-gray-900">Units &amp; Visits</h4>
+                      <UtilizationPanel
+                        authorizationId={selectedAuthorization.id}
+                        cptCodes={selectedAuthorization.cptCodes}
+                      />
+                    </div>
+                  )}
+
+                  {/* Renewal & Monitoring: expiration tracking and renewal drafts */}
+                  {currentRole === 'renewal' && selectedAuthorization && (
+                    <div className="mb-6">
+                      <RenewalPanel authorization={selectedAuthorization} />
+                    </div>
+                  )}
+
                   {currentStepData && (
                     <Form {...form}>
                       <form onSubmit={form.handleSubmit(onSubmitStep)} className="space-y-4">
                         {/* Dynamic form fields based on current step */}
-                        {currentStep === 1 && (
+                        {currentRole === 'clinical_decision' && (
                           <>
                             <FormField
                               control={form.control}
@@ -368,7 +567,7 @@ export default function PriorAuthorizationWorkflow() {
                           </>
                         )}
 
-                        {currentStep === 3 && (
+                        {currentRole === 'clinical_evidence' && (
                           <>
                             <FormField
                               control={form.control}
@@ -407,6 +606,8 @@ export default function PriorAuthorizationWorkflow() {
                           </>
                         )}
 
+                        <WorkflowStepFields control={form.control} fields={definitionFields} />
+
                         <FormField
                           control={form.control}
                           name="notes"
@@ -428,7 +629,7 @@ export default function PriorAuthorizationWorkflow() {
                           <Button
                             type="button"
                             variant="outline"
-                            onClick={() => generateFormsMutation.mutate({ authId: selectedAuthId, state: 'MA' })}
+                            onClick={() => generateFormsMutation.mutate({ authId: selectedAuthId })}
                             disabled={generateFormsMutation.isPending}
                           >
                             <Download className="w-4 h-4 mr-2" />
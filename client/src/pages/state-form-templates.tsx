@@ -0,0 +1,401 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Eye, FileText, Pencil, Plus, Upload } from "lucide-react";
+import type { StateFormTemplate } from "@shared/schema";
+import { parseStateFormFields, type DiscoveredFormField } from "@shared/state-forms";
+import FieldMappingEditor, {
+  draftsFromFields,
+  toStateFormFields,
+  type FieldMappingDrafts,
+} from "@/components/state-forms/field-mapping-editor";
+
+const FORM_TYPES = [
+  { value: "prior_auth", label: "Prior authorization" },
+  { value: "appeal", label: "Appeal" },
+];
+
+interface TemplateDraft {
+  // Template being revised; saving always creates a new version
+  baseId: number | null;
+  state: string;
+  formType: string;
+  formName: string;
+  templatePath: string;
+  pdfFields: DiscoveredFormField[];
+  drafts: FieldMappingDrafts;
+  // A new PDF was uploaded, so the base version's file no longer matches the mappings
+  uploaded: boolean;
+}
+
+interface PreviewResult {
+  authorizationId: number;
+  values: Record<string, string>;
+  warnings: string[];
+  pdf: string;
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  baseId: null,
+  state: "",
+  formType: "prior_auth",
+  formName: "",
+  templatePath: "",
+  pdfFields: [],
+  drafts: {},
+  uploaded: false,
+};
+
+async function requestJson<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const isUpload = body instanceof FormData;
+  const response = await fetch(url, {
+    method,
+    headers: {
+      ...(body && !isUpload ? { 'Content-Type': 'application/json' } : {}),
+      Authorization: `Bearer ${localStorage.getItem("token")}`,
+    },
+    body: isUpload ? body : body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    const details = data.issues || (data.errors || []).map((error: { message: string }) => error.message);
+    throw new Error([data.message || 'Request failed', ...details].join(': '));
+  }
+  return data;
+}
+
+function openPdf(base64: string) {
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  window.open(URL.createObjectURL(new Blob([bytes], { type: "application/pdf" })), "_blank");
+}
+
+export default function StateFormTemplates() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isAdmin = user?.role === "admin";
+
+  const [editor, setEditor] = useState<TemplateDraft | null>(null);
+  const [previewAuthorizationId, setPreviewAuthorizationId] = useState("");
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<StateFormTemplate[]>({
+    queryKey: ["/api/state-form-templates"],
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      return requestJson<{ templatePath: string; fields: DiscoveredFormField[] }>("POST", "/api/state-form-templates/upload", formData);
+    },
+    onSuccess: (result) => {
+      setEditor((current) => current && {
+        ...current,
+        templatePath: result.templatePath,
+        pdfFields: result.fields,
+        uploaded: true,
+      });
+      setPreview(null);
+      toast({ title: "Template Uploaded", description: `${result.fields.length} form field(s) found.` });
+    },
+    onError: showError("Upload Failed"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (draft: TemplateDraft) => requestJson<StateFormTemplate>("POST", "/api/state-form-templates", {
+      state: draft.state,
+      formType: draft.formType,
+      formName: draft.formName,
+      templatePath: draft.templatePath,
+      fields: toStateFormFields(draft.pdfFields, draft.drafts),
+    }),
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/state-form-templates"] });
+      setEditor(null);
+      toast({ title: "Template Saved", description: `${template.formName} version ${template.version} is now in use for ${template.state}.` });
+    },
+    onError: showError("Could Not Save Template"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) =>
+      requestJson<StateFormTemplate>("PATCH", `/api/state-form-templates/${id}/status`, { isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/state-form-templates"] });
+    },
+    onError: showError("Could Not Update Template"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async ({ id, draft }: { id: number; draft?: TemplateDraft }) =>
+      requestJson<PreviewResult>("POST", `/api/state-form-templates/${id}/preview`, {
+        authorizationId: parseInt(previewAuthorizationId) || undefined,
+        fields: draft ? toStateFormFields(draft.pdfFields, draft.drafts) : undefined,
+      }),
+    onSuccess: (result) => {
+      setPreview(result);
+      openPdf(result.pdf);
+    },
+    onError: showError("Preview Failed"),
+  });
+
+  const editTemplate = async (template: StateFormTemplate) => {
+    try {
+      const pdfFields = await requestJson<DiscoveredFormField[]>("GET", `/api/state-form-templates/${template.id}/pdf-fields`);
+      setEditor({
+        baseId: template.id,
+        state: template.state,
+        formType: template.formType,
+        formName: template.formName,
+        templatePath: template.templatePath,
+        pdfFields,
+        drafts: draftsFromFields(parseStateFormFields(template.fields)),
+        uploaded: false,
+      });
+      setPreview(null);
+    } catch (error) {
+      showError("Could Not Open Template")(error as Error);
+    }
+  };
+
+  const canSave = !!editor && editor.state.trim().length === 2 && !!editor.formName.trim() && !!editor.templatePath;
+  const canPreviewDraft = !!editor?.baseId && !editor.uploaded;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">State Form Templates</h1>
+          <p className="text-sm text-gray-500">Fillable state PDFs and the authorization data each field is filled from</p>
+        </div>
+        {isAdmin && (
+          <Button onClick={() => { setEditor(EMPTY_DRAFT); setPreview(null); }} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            New Template
+          </Button>
+        )}
+      </div>
+
+      <Card className="healthcare-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Templates
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isAdmin && (
+            <div className="flex items-end gap-2 max-w-sm">
+              <div className="space-y-1 flex-1">
+                <Label htmlFor="preview-authorization" className="text-xs">Preview with authorization ID (latest if blank)</Label>
+                <Input
+                  id="preview-authorization"
+                  type="number"
+                  value={previewAuthorizationId}
+                  onChange={(event) => setPreviewAuthorizationId(event.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading templates...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-gray-500">No state form templates yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>State</TableHead>
+                  <TableHead>Form</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Mapped fields</TableHead>
+                  <TableHead>Active</TableHead>
+                  {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">{template.state}</TableCell>
+                    <TableCell>
+                      <div>{template.formName}</div>
+                      <div className="text-xs text-gray-500">{FORM_TYPES.find((type) => type.value === template.formType)?.label || template.formType}</div>
+                    </TableCell>
+                    <TableCell>{template.version}</TableCell>
+                    <TableCell>{parseStateFormFields(template.fields).length}</TableCell>
+                    <TableCell>
+                      {isAdmin ? (
+                        <Switch
+                          checked={template.isActive}
+                          disabled={statusMutation.isPending}
+                          onCheckedChange={(isActive) => statusMutation.mutate({ id: template.id, isActive })}
+                        />
+                      ) : (
+                        <Badge variant={template.isActive ? "default" : "secondary"}>{template.isActive ? "Active" : "Retired"}</Badge>
+                      )}
+                    </TableCell>
+                    {isAdmin && (
+                      <TableCell className="text-right space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={previewMutation.isPending}
+                          onClick={() => previewMutation.mutate({ id: template.id })}
+                        >
+                          <Eye className="h-4 w-4 mr-1" />
+                          Preview
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => editTemplate(template)}>
+                          <Pencil className="h-4 w-4 mr-1" />
+                          New Version
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {preview && !editor && (
+            <PreviewSummary preview={preview} />
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editor} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editor?.baseId ? "New Template Version" : "New State Form Template"}</DialogTitle>
+            <DialogDescription>
+              Upload the state's fillable PDF, then give each field the data path it is filled from. Saving publishes a new version.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editor && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="template-state">State</Label>
+                  <Input
+                    id="template-state"
+                    maxLength={2}
+                    placeholder="e.g. MA"
+                    value={editor.state}
+                    disabled={!!editor.baseId}
+                    onChange={(event) => setEditor({ ...editor, state: event.target.value.toUpperCase() })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Form type</Label>
+                  <Select
+                    value={editor.formType}
+                    disabled={!!editor.baseId}
+                    onValueChange={(formType) => setEditor({ ...editor, formType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FORM_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="template-name">Form name</Label>
+                  <Input
+                    id="template-name"
+                    value={editor.formName}
+                    onChange={(event) => setEditor({ ...editor, formName: event.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="template-file">Template PDF</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="template-file"
+                    type="file"
+                    accept="application/pdf"
+                    disabled={uploadMutation.isPending}
+                    onChange={(event) => {
+                      const file = event.target.files?.[0];
+                      if (file) uploadMutation.mutate(file);
+                    }}
+                  />
+                  {uploadMutation.isPending && <Upload className="h-4 w-4 animate-pulse" />}
+                </div>
+                {editor.templatePath && !editor.uploaded && (
+                  <p className="text-xs text-gray-500">Keeping the current version's PDF unless a new one is uploaded.</p>
+                )}
+              </div>
+
+              {editor.pdfFields.length > 0 && (
+                <FieldMappingEditor
+                  pdfFields={editor.pdfFields}
+                  drafts={editor.drafts}
+                  onChange={(drafts) => setEditor({ ...editor, drafts })}
+                />
+              )}
+
+              {preview && <PreviewSummary preview={preview} />}
+
+              <div className="flex justify-end gap-2">
+                {canPreviewDraft && (
+                  <Button
+                    variant="outline"
+                    disabled={previewMutation.isPending}
+                    onClick={() => previewMutation.mutate({ id: editor.baseId!, draft: editor })}
+                  >
+                    <Eye className="h-4 w-4 mr-1" />
+                    {previewMutation.isPending ? "Filling..." : "Preview Mappings"}
+                  </Button>
+                )}
+                <Button variant="outline" onClick={() => setEditor(null)}>Cancel</Button>
+                <Button disabled={!canSave || saveMutation.isPending} onClick={() => saveMutation.mutate(editor)}>
+                  {saveMutation.isPending ? "Saving..." : "Save Version"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// Values a preview filled and the fields it could not
+function PreviewSummary({ preview }: { preview: PreviewResult }) {
+  const filled = Object.entries(preview.values).filter(([, value]) => value);
+  return (
+    <div className="border rounded-lg p-3 space-y-2 text-sm">
+      <p className="font-medium">Preview with authorization #{preview.authorizationId}: {filled.length} field(s) filled</p>
+      {preview.warnings.length > 0 && (
+        <ul className="list-disc pl-5 text-amber-700">
+          {preview.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+      <Button size="sm" variant="ghost" onClick={() => openPdf(preview.pdf)}>
+        <FileText className="h-4 w-4 mr-1" />
+        Open PDF
+      </Button>
+    </div>
+  );
+}
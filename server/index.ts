@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { appLogger } from "./services/app-logger";
+import { renewalService } from "./services/renewals";
 
 const app = express();
 const port = process.env.PORT || 5000;
@@ -55,6 +56,9 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  // Watch approved authorizations for upcoming and past expiration dates
+  renewalService.start();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
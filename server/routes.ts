@@ -5,8 +5,15 @@ import { authenticate, authorize, generateToken, hashPassword, comparePassword,
 import { auditService } from "./services/audit";
 import { appLogger } from "./services/app-logger";
 import { insuranceService } from "./services/insurance";
+import { authorizationStatusService, StatusTransitionError } from "./services/authorization-status";
+import { serviceLineService, ServiceLineError } from "./services/service-lines";
+import { authorizationRequestService, AuthorizationRequestError } from "./services/authorization-requests";
+import { documentStorage } from "./services/document-storage";
 import { encryptPHI, decryptPHI } from "./middleware/encryption";
-import { insertUserSchema, insertPatientSchema, insertPriorAuthorizationSchema, insertPatientInsuranceSchema } from "@shared/schema";
+import { insertUserSchema, insertPatientSchema, insertPatientInsuranceSchema } from "@shared/schema";
+import { DOCUMENT_TYPES, type DocumentType } from "@shared/payer-requirements";
+import { AUTHORIZATION_STATUSES } from "@shared/authorization-status";
+import { authorizationRequestSchema, authorizationUpdateSchema } from "@shared/authorization-request";
 import { z } from "zod";
 import multer from "multer";
 import { registerPriorAuthWorkflowRoutes } from "./routes/prior-auth-workflow";
@@ -14,6 +21,17 @@ import priorAuthGeneratorRoutes from "./routes/prior-auth-generator";
 import icd10CodesRoutes from "./routes/icd10-codes";
 import insuranceRoutes from "./routes/insurance";
 import modmedEmaRoutes from "./routes/modmed-ema";
+import payerSubmissionRoutes from "./routes/payer-submissions";
+import claimStatusRoutes from "./routes/claim-statuses";
+import coverageRequirementsRoutes from "./routes/coverage-requirements";
+import workflowDefinitionRoutes from "./routes/workflow-definitions";
+import stateFormTemplateRoutes from "./routes/state-form-templates";
+import authorizationTimelineRoutes from "./routes/authorization-timeline";
+import appealRoutes from "./routes/appeals";
+import peerToPeerRoutes from "./routes/peer-to-peer";
+import renewalRoutes from "./routes/renewals";
+import utilizationRoutes from "./routes/utilization";
+import serviceLineRoutes from "./routes/service-lines";
 import { db } from "./db";
 import { sql } from "drizzle-orm";
 
@@ -29,6 +47,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Initialize system configuration
   await storage.seedSystemConfig();
+
+  // Initialize the default prior auth workflow definition
+  await storage.seedWorkflowDefinitions();
   
   // Medical specialties routes
   app.get("/api/medical-specialties", authenticate, async (req: AuthenticatedRequest, res) => {
@@ -420,7 +441,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/insurance/verify", authenticate, async (req: AuthenticatedRequest, res) => {
     try {
-      const { patientId, insuranceId } = req.body;
+      const { patientId, insuranceId } = z.object({
+        patientId: z.coerce.number(),
+        insuranceId: z.coerce.number(),
+      }).parse(req.body);
       
       const patient = await storage.getPatient(patientId);
       if (!patient) {
@@ -439,16 +463,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Insurance provider not found" });
       }
 
-      const result = await insuranceService.verifyInsurance(targetInsurance, provider);
+      let verification;
+      try {
+        verification = await insuranceService.verifyPatientInsurance(targetInsurance.id);
+      } catch (error) {
+        appLogger.error("Eligibility verification failed", { userId: req.user?.id, insuranceId }, error as Error);
+        return res.status(502).json({ message: "Eligibility verification failed", error: (error as Error).message });
+      }
+      const { result } = verification;
       
       await auditService.log(req.user!.id, 'INSURANCE_VERIFICATION', 'insurance', insuranceId, {
         patientId,
         providerId: provider.id,
         result: result.isValid,
+        source: result.source,
+        pending: result.pending || false,
+        referenceNumber: result.referenceNumber,
       }, req.ip || '', req.get("User-Agent") || '');
       
       res.json(result);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid verification request", errors: error.errors });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -524,41 +561,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
         limit,
       }, req.ip || '', req.get("User-Agent") || '');
       
-      res.json(authorizations);
+      res.json(await serviceLineService.attachTo(authorizations));
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Update authorization status endpoint
+  // Update authorization status endpoint; the status lifecycle decides which changes are allowed
   app.patch("/api/authorizations/:id/status", authenticate, async (req: AuthenticatedRequest, res) => {
     try {
       const authorizationId = parseInt(req.params.id);
-      const { status } = req.body;
-
-      if (!status) {
-        return res.status(400).json({ error: "Status is required" });
+      if (isNaN(authorizationId)) {
+        return res.status(400).json({ error: "Invalid authorization ID" });
       }
 
-      const validStatuses = ["pending", "approved", "denied", "in_review", "appealed", "expired"];
-      if (!validStatuses.includes(status)) {
-        return res.status(400).json({ error: "Invalid status value" });
-      }
+      const statusChangeSchema = z.object({
+        status: z.enum(AUTHORIZATION_STATUSES),
+        note: z.string().trim().optional(),
+        authorizationNumber: z.string().trim().min(1).optional(),
+        expirationDate: z.coerce.date().optional(),
+        denialReason: z.string().trim().min(1).optional(),
+        appealDeadline: z.coerce.date().optional(),
+      });
+      const { status, note, ...updates } = statusChangeSchema.parse(req.body);
 
-      const updated = await storage.updatePriorAuthorizationStatus(authorizationId, status);
-      
-      if (!updated) {
+      const existingAuth = await storage.getPriorAuthorization(authorizationId);
+      if (!existingAuth) {
         return res.status(404).json({ error: "Authorization not found" });
       }
 
+      const authorization = await authorizationStatusService.transition(authorizationId, status, {
+        userId: req.user!.id,
+        source: 'user',
+        note,
+        updates,
+      });
+
+      await auditService.log(req.user!.id, 'AUTHORIZATION_STATUS_CHANGE', 'authorization', authorizationId, {
+        fromStatus: existingAuth.status,
+        toStatus: status,
+        note,
+      }, req.ip || '', req.get("User-Agent") || '');
+
       appLogger.info("Authorization status updated", {
         userId: req.user?.id,
         authorizationId,
         newStatus: status
       });
 
-      res.json({ success: true, status });
+      res.json({ success: true, status, authorization });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid status change", errors: error.errors });
+      }
+      if (error instanceof StatusTransitionError) {
+        return res.status(409).json({ error: error.message, missing: error.missing });
+      }
       appLogger.error("Failed to update authorization status", { 
         userId: req.user?.id 
       }, error as Error);
@@ -584,67 +642,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/authorizations", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
     try {
-      // Create minimal schema for API request
-      const createAuthSchema = z.object({
-        patientId: z.number(),
-        insuranceId: z.number(),
-        treatmentType: z.string(),
-        cptCode: z.string(),
-        icd10Code: z.string(),
-        clinicalJustification: z.string(),
-        urgentRequest: z.boolean().optional(),
-      });
-      
-      // Validate only required input fields
-      const validatedInput = createAuthSchema.parse(req.body);
+      const input = authorizationRequestSchema.parse(req.body);
+      let authorization = await authorizationRequestService.create(input, req.user!.id);
       
-      // Generate authorization ID and set all required defaults
-      const authorizationId = `AUTH-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`;
-      const authData = {
-        ...validatedInput,
-        authorizationId,
-        submittedBy: req.user!.id,
-        requestedDate: new Date(),
-        urgentRequest: validatedInput.urgentRequest || false,
-      };
-      
-      const authorization = await storage.createPriorAuthorization(authData);
-      
-      // Submit to insurance service
+      // Submit through the payer adapter registered for this authorization's insurance provider
       try {
-        const submission = {
-          patientId: authorization.patientId,
-          insuranceId: authorization.insuranceId,
-          treatmentType: authorization.treatmentType,
-          cptCode: authorization.cptCode,
-          icd10Code: authorization.icd10Code,
-          clinicalJustification: authorization.clinicalJustification,
-          requestedDate: authorization.requestedDate.toISOString(),
-          documents: [], // TODO: Add document references
-        };
-        
-        const response = await insuranceService.submitPriorAuthorization(submission);
-        
-        // Update authorization with response
-        await storage.updatePriorAuthorization(authorization.id, {
-          status: response.status,
-          submittedDate: new Date(),
-          ...(response.status === 'approved' && response.expirationDate && {
-            approvalDate: new Date(),
-            expirationDate: new Date(response.expirationDate),
-          }),
-          ...(response.status === 'denied' && {
-            denialReason: response.denialReason,
-          }),
-        });
+        const outcome = await insuranceService.submitPriorAuthorization(authorization.id, req.user!.id);
+        authorization = outcome.authorization;
       } catch (error) {
-        console.error('Failed to submit to insurance service:', error);
+        appLogger.error("Failed to submit authorization to payer", {
+          userId: req.user?.id,
+          authorizationId: authorization.id,
+        }, error as Error);
       }
       
       await auditService.log(req.user!.id, 'AUTHORIZATION_CREATE', 'authorization', authorization.id, {
         authorizationId: authorization.authorizationId,
         patientId: authorization.patientId,
         treatmentType: authorization.treatmentType,
+        serviceLineCount: input.serviceLines.length,
       }, req.ip || '', req.get("User-Agent") || '');
       
       res.status(201).json(authorization);
@@ -652,6 +668,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid authorization data", errors: error.errors });
       }
+      if (error instanceof AuthorizationRequestError) {
+        return res.status(400).json({ message: error.message, issues: error.issues });
+      }
+      if (error instanceof ServiceLineError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -666,13 +688,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Authorization not found" });
       }
       
-      const updates = insertPriorAuthorizationSchema.partial().parse(req.body);
-      const authorization = await storage.updatePriorAuthorization(authId, updates);
-      
-      if (!authorization) {
-        return res.status(404).json({ message: "Authorization not found" });
+      // Status changes go through PATCH /api/authorizations/:id/status so the lifecycle's guards apply
+      if (req.body.status !== undefined && req.body.status !== existingAuth.status) {
+        return res.status(400).json({ message: "Change the status through PATCH /api/authorizations/:id/status" });
       }
       
+      const updates = authorizationUpdateSchema.parse(req.body);
+      const authorization = await authorizationRequestService.update(existingAuth, updates);
+      
       await auditService.log(req.user!.id, 'AUTHORIZATION_UPDATE', 'authorization', authorization.id, {
         authorizationId: authorization.authorizationId,
         changes: updates,
@@ -697,6 +720,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid authorization data", errors: error.errors });
       }
+      if (error instanceof AuthorizationRequestError) {
+        return res.status(400).json({ message: error.message, issues: error.issues });
+      }
+      if (error instanceof ServiceLineError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -725,7 +754,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status,
       }, req.ip || '', req.get("User-Agent") || '');
       
-      res.json(authorizations);
+      res.json(await serviceLineService.attachTo(authorizations));
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
@@ -1287,11 +1316,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/documents/upload", authenticate, async (req: AuthenticatedRequest, res) => {
     try {
-      const { fileName, fileType, fileSize, patientId, authorizationId, fileContent } = req.body;
+      const { fileType, fileSize, patientId, authorizationId, fileContent, documentType } = req.body;
+      // Keep only the name itself; directory components in it must not reach the stored path
+      const fileName = typeof req.body.fileName === 'string' ? req.body.fileName.split(/[\\/]/).pop() : undefined;
       
       if (!fileName || !fileType || !fileSize || !fileContent) {
         return res.status(400).json({ error: "Missing required fields" });
       }
+      if (documentType && !DOCUMENT_TYPES.includes(documentType as DocumentType)) {
+        return res.status(400).json({ error: "Invalid document type" });
+      }
 
       // In a real implementation, you would save the file to a secure storage location
       // For now, we'll create a simulated encrypted path
@@ -1301,6 +1335,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fileName,
         fileType,
         fileSize,
+        documentType: documentType || null,
         encryptedPath,
         uploadedBy: req.user!.id,
         patientId: patientId ? parseInt(patientId) : null,
@@ -1313,6 +1348,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fileName,
         fileType,
         fileSize,
+        documentType: documentData.documentType,
         patientId: documentData.patientId,
         authorizationId: documentData.authorizationId,
       }, req.ip || '', req.get("User-Agent") || '');
@@ -1338,13 +1374,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Document not found" });
       }
       
-      // For viewing, serve the file content with proper content type
-      // In a real implementation, you would read from the encrypted storage
-      // For now, create sample content based on file type
-      let content: string;
+      // For viewing, serve the file content with proper content type. Files the server generated
+      // (e.g. filled state forms) are in document storage; otherwise create sample content based on file type
+      const stored = await documentStorage.readStored(document.encryptedPath);
+      let content: string | Buffer;
       let contentType: string;
       
-      if (document.fileType.includes('text') || document.fileType.includes('txt')) {
+      if (stored) {
+        content = stored;
+        contentType = document.fileType;
+      } else if (document.fileType.includes('text') || document.fileType.includes('txt')) {
         content = `Sample text document: ${document.fileName}\n\nThis is a demonstration of the ${document.fileName} file.\nDocument ID: ${document.id}\nUploaded by User ID: ${document.uploadedBy}\nUpload Date: ${document.createdAt}`;
         contentType = 'text/plain';
       } else if (document.fileType.includes('pdf')) {
@@ -1385,12 +1424,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Document not found" });
       }
       
-      // In a real implementation, you would read from the encrypted storage
-      // For now, create more realistic sample content based on file type
-      let content: string;
+      // Serve the stored file when there is one; otherwise create more realistic sample content based on file type
+      const stored = await documentStorage.readStored(document.encryptedPath);
+      let content: string | Buffer;
       let contentType: string;
       
-      if (document.fileType.includes('text') || document.fileType.includes('txt')) {
+      if (stored) {
+        content = stored;
+        contentType = document.fileType;
+      } else if (document.fileType.includes('text') || document.fileType.includes('txt')) {
         content = `Sample Medical Document: ${document.fileName}\n\nPatient Information and Authorization Details\n\nThis is a demonstration of the ${document.fileName} file.\n\nDocument Details:\n- Document ID: ${document.id}\n- File Type: ${document.fileType}\n- File Size: ${document.fileSize} bytes\n- Uploaded by User ID: ${document.uploadedBy}\n- Upload Date: ${document.createdAt}\n\nThis document contains sample medical information for demonstration purposes.`;
         contentType = 'text/plain';
       } else if (document.fileType.includes('pdf')) {
@@ -1481,6 +1523,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Register ModMed EMA integration routes
   app.use("/api/modmed-ema", modmedEmaRoutes);
+  
+  // Register payer submission routes (status polling, cancellation, document attachments)
+  app.use("/api/authorizations", payerSubmissionRoutes);
+
+  // Register claim status routes (claims billed against approved authorizations)
+  app.use("/api/authorizations", claimStatusRoutes);
+
+  // Register authorization timeline routes (status history, workflow, documents and payer messages in one feed)
+  app.use("/api/authorizations", authorizationTimelineRoutes);
+
+  // Register service line routes (line-level CPT requests and payer decisions)
+  app.use("/api/authorizations", serviceLineRoutes);
+
+  // Register utilization routes (approved units/visits and the services drawn against them)
+  app.use("/api/authorizations", utilizationRoutes);
+
+  // Register appeal routes (appeals of denied or partially approved authorizations)
+  app.use("/api/appeals", appealRoutes);
+
+  // Register peer-to-peer review routes (calls with the payer's reviewer and doctor reminders)
+  app.use("/api/peer-to-peer-reviews", peerToPeerRoutes);
+
+  // Register renewal routes (expiring authorizations and renewal drafts)
+  app.use("/api/renewals", renewalRoutes);
+
+  // Register coverage requirement routes (payer rules for whether prior auth is needed)
+  app.use("/api/coverage-requirements", coverageRequirementsRoutes);
+
+  // Register workflow definition routes (versioned per-payer prior auth workflows)
+  app.use("/api/workflow-definitions", workflowDefinitionRoutes);
+
+  // Register state form template routes (fillable state PDFs and their field mappings)
+  app.use("/api/state-form-templates", stateFormTemplateRoutes);
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,268 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { APPEAL_LEVELS, APPEAL_OUTCOMES } from "@shared/appeals";
+import { storage } from "../storage";
+import { authenticate, authorize, AuthenticatedRequest } from "../middleware/auth";
+import { auditService } from "../services/audit";
+import { appLogger } from "../services/app-logger";
+import { appealService, AppealStateError } from "../services/appeals";
+import { StatusTransitionError } from "../services/authorization-status";
+
+const router = Router();
+
+const createAppealSchema = z.object({
+  authorizationId: z.number().int().positive(),
+  level: z.enum(APPEAL_LEVELS),
+  expedited: z.boolean().optional(),
+  filingDeadline: z.coerce.date().optional(),
+});
+
+const updateAppealSchema = z.object({
+  level: z.enum(APPEAL_LEVELS).optional(),
+  expedited: z.boolean().optional(),
+  letter: z.string().trim().min(1, "The appeal letter cannot be empty").optional(),
+  formData: z.record(z.unknown()).optional(),
+});
+
+const attachDocumentsSchema = z.object({
+  documentIds: z.array(z.number()).min(1, "At least one document is required"),
+});
+
+const submitAppealSchema = z.object({
+  payerReferenceNumber: z.string().trim().min(1).optional(),
+});
+
+const appealOutcomeSchema = z.object({
+  outcome: z.enum(APPEAL_OUTCOMES),
+  notes: z.string().trim().optional(),
+  authorizationNumber: z.string().trim().min(1).optional(),
+  expirationDate: z.coerce.date().optional(),
+  denialReason: z.string().trim().min(1).optional(),
+});
+
+const withdrawAppealSchema = z.object({
+  reason: z.string().trim().min(5, "Please give a reason of at least 5 characters"),
+});
+
+// Maps appeal service errors to responses; returns false for errors the caller should treat as unexpected
+function sendAppealError(res: Response, error: unknown, invalidMessage: string): boolean {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ message: invalidMessage, errors: error.errors });
+    return true;
+  }
+  if (error instanceof StatusTransitionError) {
+    res.status(409).json({ message: error.message, missing: error.missing });
+    return true;
+  }
+  if (error instanceof AppealStateError) {
+    res.status(409).json({ message: error.message });
+    return true;
+  }
+  if (error instanceof Error && /not found/.test(error.message)) {
+    res.status(404).json({ message: error.message });
+    return true;
+  }
+  return false;
+}
+
+// Appeals for one authorization (?authorizationId=), or every open appeal by filing deadline
+router.get("/", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const authorizationId = req.query.authorizationId ? parseInt(req.query.authorizationId as string) : undefined;
+    if (authorizationId !== undefined && isNaN(authorizationId)) {
+      return res.status(400).json({ message: "Invalid authorization ID" });
+    }
+
+    const appeals = authorizationId !== undefined
+      ? await storage.getAppealsByAuthorization(authorizationId)
+      : await storage.getOpenAppeals();
+    res.json(appeals);
+  } catch (error) {
+    appLogger.error("Failed to fetch appeals", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch appeals" });
+  }
+});
+
+router.get("/:id", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const appealId = parseInt(req.params.id);
+    if (isNaN(appealId)) {
+      return res.status(400).json({ message: "Invalid appeal ID" });
+    }
+
+    const appeal = await storage.getAppeal(appealId);
+    if (!appeal) {
+      return res.status(404).json({ message: "Appeal not found" });
+    }
+
+    const documents = await storage.getDocumentsByAppeal(appealId);
+
+    await auditService.log(req.user!.id, 'APPEAL_VIEW', 'appeal', appealId, {
+      authorizationId: appeal.authorizationId,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json({ ...appeal, documents });
+  } catch (error) {
+    appLogger.error("Failed to fetch appeal", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch appeal" });
+  }
+});
+
+// Open an appeal against a denied or partially approved authorization, with a generated letter
+router.post("/", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const input = createAppealSchema.parse(req.body);
+    const appeal = await appealService.createAppeal(input.authorizationId, input, req.user!.id);
+
+    await auditService.log(req.user!.id, 'APPEAL_CREATE', 'appeal', appeal.id, {
+      authorizationId: appeal.authorizationId,
+      level: appeal.level,
+      filingDeadline: appeal.filingDeadline,
+      stateFormTemplateId: appeal.stateFormTemplateId,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.status(201).json(appeal);
+  } catch (error) {
+    if (sendAppealError(res, error, "Invalid appeal")) return;
+    appLogger.error("Failed to create appeal", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to create appeal" });
+  }
+});
+
+// Edit a draft appeal's level, letter or state form values
+router.patch("/:id", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const appealId = parseInt(req.params.id);
+    if (isNaN(appealId)) {
+      return res.status(400).json({ message: "Invalid appeal ID" });
+    }
+
+    const updates = updateAppealSchema.parse(req.body);
+    const appeal = await appealService.updateDraft(appealId, updates);
+
+    await auditService.log(req.user!.id, 'APPEAL_UPDATE', 'appeal', appealId, {
+      fields: Object.keys(updates),
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(appeal);
+  } catch (error) {
+    if (sendAppealError(res, error, "Invalid appeal update")) return;
+    appLogger.error("Failed to update appeal", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to update appeal" });
+  }
+});
+
+router.post("/:id/letter", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const appealId = parseInt(req.params.id);
+    if (isNaN(appealId)) {
+      return res.status(400).json({ message: "Invalid appeal ID" });
+    }
+
+    const appeal = await appealService.regenerateLetter(appealId, req.user!.id);
+
+    await auditService.log(req.user!.id, 'APPEAL_LETTER_GENERATE', 'appeal', appealId, {
+      authorizationId: appeal.authorizationId,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(appeal);
+  } catch (error) {
+    if (sendAppealError(res, error, "Invalid appeal letter request")) return;
+    appLogger.error("Failed to generate appeal letter", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to generate appeal letter" });
+  }
+});
+
+router.post("/:id/documents", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const appealId = parseInt(req.params.id);
+    if (isNaN(appealId)) {
+      return res.status(400).json({ message: "Invalid appeal ID" });
+    }
+
+    const { documentIds } = attachDocumentsSchema.parse(req.body);
+    const documents = await appealService.attachDocuments(appealId, documentIds);
+
+    await auditService.log(req.user!.id, 'APPEAL_DOCUMENTS_ATTACH', 'appeal', appealId, {
+      documentIds,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(documents);
+  } catch (error) {
+    if (sendAppealError(res, error, "Invalid document attachment request")) return;
+    appLogger.error("Failed to attach appeal documents", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to attach appeal documents" });
+  }
+});
+
+router.post("/:id/submit", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const appealId = parseInt(req.params.id);
+    if (isNaN(appealId)) {
+      return res.status(400).json({ message: "Invalid appeal ID" });
+    }
+
+    const { payerReferenceNumber } = submitAppealSchema.parse(req.body);
+    const appeal = await appealService.submit(appealId, req.user!.id, payerReferenceNumber);
+
+    await auditService.log(req.user!.id, 'APPEAL_SUBMIT', 'appeal', appealId, {
+      authorizationId: appeal.authorizationId,
+      level: appeal.level,
+      responseDueDate: appeal.responseDueDate,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(appeal);
+  } catch (error) {
+    if (sendAppealError(res, error, "Invalid appeal submission")) return;
+    appLogger.error("Failed to submit appeal", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to submit appeal" });
+  }
+});
+
+router.post("/:id/outcome", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const appealId = parseInt(req.params.id);
+    if (isNaN(appealId)) {
+      return res.status(400).json({ message: "Invalid appeal ID" });
+    }
+
+    const input = appealOutcomeSchema.parse(req.body);
+    const appeal = await appealService.recordOutcome(appealId, req.user!.id, input);
+
+    await auditService.log(req.user!.id, 'APPEAL_OUTCOME', 'appeal', appealId, {
+      authorizationId: appeal.authorizationId,
+      outcome: input.outcome,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(appeal);
+  } catch (error) {
+    if (sendAppealError(res, error, "Invalid appeal outcome")) return;
+    appLogger.error("Failed to record appeal outcome", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to record appeal outcome" });
+  }
+});
+
+router.post("/:id/withdraw", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const appealId = parseInt(req.params.id);
+    if (isNaN(appealId)) {
+      return res.status(400).json({ message: "Invalid appeal ID" });
+    }
+
+    const { reason } = withdrawAppealSchema.parse(req.body);
+    const appeal = await appealService.withdraw(appealId, req.user!.id, reason);
+
+    await auditService.log(req.user!.id, 'APPEAL_WITHDRAW', 'appeal', appealId, {
+      authorizationId: appeal.authorizationId,
+      reason,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(appeal);
+  } catch (error) {
+    if (sendAppealError(res, error, "Invalid appeal withdrawal")) return;
+    appLogger.error("Failed to withdraw appeal", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to withdraw appeal" });
+  }
+});
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { authenticate, AuthenticatedRequest } from "../middleware/auth";
+import { auditService } from "../services/audit";
+import { appLogger } from "../services/app-logger";
+import { authorizationTimelineService } from "../services/authorization-timeline";
+
+const router = Router();
+
+// Status changes, workflow step activity, documents and payer messages for an authorization, oldest first
+router.get("/:id/timeline", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    if (isNaN(authId)) {
+      return res.status(400).json({ message: "Invalid authorization ID" });
+    }
+
+    const authorization = await storage.getPriorAuthorization(authId);
+    if (!authorization) {
+      return res.status(404).json({ message: "Authorization not found" });
+    }
+
+    const events = await authorizationTimelineService.forAuthorization(authId);
+
+    await auditService.log(req.user!.id, 'AUTHORIZATION_TIMELINE_VIEW', 'authorization', authId, {
+      eventCount: events.length,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(events);
+  } catch (error) {
+    appLogger.error("Failed to fetch authorization timeline", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch authorization timeline" });
+  }
+});
+
+export default router;
@@ -0,0 +1,82 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { authenticate, authorize, AuthenticatedRequest } from "../middleware/auth";
+import { auditService } from "../services/audit";
+import { appLogger } from "../services/app-logger";
+import { claimStatusService } from "../services/claim-status";
+import { priorAuthWorkflowService } from "../services/prior-auth-workflow";
+
+const router = Router();
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be formatted YYYY-MM-DD");
+
+const claimLookupSchema = z.object({
+  memberId: z.string().trim().min(1).optional(),
+  fromDate: isoDate,
+  toDate: isoDate.optional(),
+  claimNumber: z.string().trim().min(1).optional(),
+}).refine(data => !data.toDate || data.toDate >= data.fromDate, {
+  message: "End date of service must not be before the start date",
+  path: ["toDate"],
+});
+
+// Claim statuses recorded for an authorization, newest first
+router.get("/:id/claim-statuses", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    if (isNaN(authId)) {
+      return res.status(400).json({ message: "Invalid authorization ID" });
+    }
+
+    const records = await storage.getClaimStatusRecordsByAuthorization(authId);
+
+    await auditService.log(req.user!.id, 'CLAIM_STATUS_VIEW', 'authorization', authId, {
+      recordCount: records.length,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(records);
+  } catch (error) {
+    appLogger.error("Failed to fetch claim statuses", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch claim statuses" });
+  }
+});
+
+// Look up claims billed under an authorization by member and date of service
+router.post("/:id/claim-statuses/lookup", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    const criteria = claimLookupSchema.parse(req.body);
+
+    const existingAuth = await storage.getPriorAuthorization(authId);
+    if (!existingAuth) {
+      return res.status(404).json({ message: "Authorization not found" });
+    }
+    // Claims can only be tracked once the workflow reaches its Service Authorization step
+    if (!(await priorAuthWorkflowService.hasReachedStep(existingAuth, 'service_authorization'))) {
+      return res.status(409).json({ message: "Claim status lookups are available once the authorization reaches the Service Authorization step" });
+    }
+
+    const result = await claimStatusService.lookupClaims(authId, criteria, req.user!.id);
+
+    await auditService.log(req.user!.id, 'CLAIM_STATUS_LOOKUP', 'authorization', authId, {
+      source: result.source,
+      fromDate: criteria.fromDate,
+      toDate: criteria.toDate,
+      claimNumber: criteria.claimNumber,
+      recordCount: result.records.length,
+      flaggedCount: result.flaggedCount,
+      pending: result.pending,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid claim status lookup", errors: error.errors });
+    }
+    appLogger.error("Failed to look up claim statuses", { userId: req.user?.id }, error as Error);
+    res.status(502).json({ message: "Claim status lookup failed", error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -0,0 +1,99 @@
+import { Router } from "express";
+import { z } from "zod";
+import { coverageRuleSetsSchema } from "@shared/coverage-rules";
+import { storage } from "../storage";
+import { authenticate, authorize, AuthenticatedRequest } from "../middleware/auth";
+import { auditService } from "../services/audit";
+import { appLogger } from "../services/app-logger";
+import { coverageRequirementsService } from "../services/coverage-requirements";
+
+const router = Router();
+
+const coverageCheckSchema = z.object({
+  insuranceId: z.number().int().positive(),
+  patientId: z.number().int().positive().optional(),
+  cptCodes: z.array(z.string().trim().min(1)).min(1, "At least one CPT code is required"),
+  icd10Codes: z.array(z.string().trim().min(1)).default([]),
+  placeOfService: z.string().trim().min(1).optional(),
+  units: z.record(z.number().int().min(1)).optional(),
+  placesOfService: z.record(z.string().trim().min(1)).optional(),
+  serviceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be formatted YYYY-MM-DD").optional(),
+  excludeAuthorizationId: z.number().int().positive().optional(),
+});
+
+// Does this combination of payer, codes, diagnoses and site of service need prior auth?
+router.post("/check", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const request = coverageCheckSchema.parse(req.body);
+    const result = await coverageRequirementsService.check(request);
+
+    if (request.patientId) {
+      await auditService.log(req.user!.id, 'COVERAGE_REQUIREMENTS_CHECK', 'patient', request.patientId, {
+        payerCode: result.payerCode,
+        cptCodes: request.cptCodes,
+        requirement: result.requirement,
+      }, req.ip || '', req.get("User-Agent") || '');
+    }
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid coverage requirements request", errors: error.errors });
+    }
+    appLogger.error("Failed to check coverage requirements", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to check coverage requirements" });
+  }
+});
+
+router.get("/providers/:id/rules", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const providerId = parseInt(req.params.id);
+    if (isNaN(providerId)) {
+      return res.status(400).json({ message: "Invalid provider ID" });
+    }
+
+    const provider = await storage.getInsuranceProvider(providerId);
+    if (!provider) {
+      return res.status(404).json({ message: "Insurance provider not found" });
+    }
+
+    res.json(coverageRequirementsService.ruleSetsFor(provider.coverageRules, provider.code));
+  } catch (error) {
+    appLogger.error("Failed to fetch coverage rules", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch coverage rules" });
+  }
+});
+
+// Replace a payer's rule sets
+router.put("/providers/:id/rules", authenticate, authorize(["admin"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const providerId = parseInt(req.params.id);
+    if (isNaN(providerId)) {
+      return res.status(400).json({ message: "Invalid provider ID" });
+    }
+
+    const ruleSets = coverageRuleSetsSchema.parse(req.body);
+
+    const existingProvider = await storage.getInsuranceProvider(providerId);
+    if (!existingProvider) {
+      return res.status(404).json({ message: "Insurance provider not found" });
+    }
+
+    const updatedProvider = await storage.updateInsuranceProvider(providerId, { coverageRules: ruleSets });
+
+    await auditService.log(req.user!.id, 'COVERAGE_RULES_UPDATE', 'insurance_provider', providerId, {
+      ruleSetIds: ruleSets.map(ruleSet => ruleSet.id),
+      ruleCount: ruleSets.reduce((total, ruleSet) => total + ruleSet.rules.length, 0),
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(updatedProvider?.coverageRules ?? ruleSets);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid coverage rules", errors: error.errors });
+    }
+    appLogger.error("Failed to update coverage rules", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to update coverage rules" });
+  }
+});
+
+export default router;
@@ -2,11 +2,19 @@ import { Router } from "express";
 import { z } from "zod";
 import { storage } from "../storage";
 import { insertInsuranceProviderSchema } from "@shared/schema";
+import { coverageRuleSetsSchema } from "@shared/coverage-rules";
+import { payerRequirementsSchema } from "@shared/payer-requirements";
 import { authenticate, AuthenticatedRequest } from "../middleware/auth";
 import { auditService } from "../services/audit";
 
 const router = Router();
 
+// The JSON rule columns are typed, so reject malformed requirements before they are stored
+const insuranceProviderSchema = insertInsuranceProviderSchema.extend({
+  priorAuthRequirements: payerRequirementsSchema.nullable().optional(),
+  coverageRules: coverageRuleSetsSchema.nullable().optional(),
+});
+
 // Get all insurance providers
 router.get("/providers", authenticate, async (req: AuthenticatedRequest, res) => {
   try {
@@ -61,7 +69,7 @@ router.post("/providers", authenticate, async (req: AuthenticatedRequest, res) =
       return res.status(403).json({ message: "Admin access required" });
     }
 
-    const validatedData = insertInsuranceProviderSchema.parse(req.body);
+    const validatedData = insuranceProviderSchema.parse(req.body);
     const provider = await storage.createInsuranceProvider(validatedData);
     
     await auditService.log(req.user!.id, 'INSURANCE_PROVIDER_CREATE', 'insurance_provider', provider.id, {
@@ -107,7 +115,7 @@ router.put("/providers/:id", authenticate, async (req: AuthenticatedRequest, res
       return res.status(404).json({ message: "Insurance provider not found" });
     }
 
-    const validatedData = insertInsuranceProviderSchema.partial().parse(req.body);
+    const validatedData = insuranceProviderSchema.partial().parse(req.body);
     const updatedProvider = await storage.updateInsuranceProvider(id, validatedData);
     
     if (!updatedProvider) {
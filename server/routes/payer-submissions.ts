@@ -0,0 +1,194 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { authenticate, authorize, AuthenticatedRequest } from "../middleware/auth";
+import { auditService } from "../services/audit";
+import { appLogger } from "../services/app-logger";
+import { insuranceService } from "../services/insurance";
+import { ClaimResponseError, fhirPasService, type Bundle, type ClaimResponse } from "../services/fhir-pas";
+
+const router = Router();
+
+const claimResponseSchema = z.object({
+  resource: z.object({
+    resourceType: z.enum(["ClaimResponse", "Bundle"]),
+  }).passthrough(),
+});
+
+const cancelSubmissionSchema = z.object({
+  reason: z.string().optional(),
+});
+
+const attachDocumentsSchema = z.object({
+  documentIds: z.array(z.number()).min(1, "At least one document is required"),
+});
+
+// List every payer exchange recorded for an authorization
+router.get("/:id/payer-submissions", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    if (isNaN(authId)) {
+      return res.status(400).json({ message: "Invalid authorization ID" });
+    }
+
+    const submissions = await storage.getPayerSubmissionsByAuthorization(authId);
+
+    await auditService.log(req.user!.id, 'PAYER_SUBMISSIONS_VIEW', 'authorization', authId, {
+      submissionCount: submissions.length,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(submissions);
+  } catch (error) {
+    appLogger.error("Failed to fetch payer submissions", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch payer submissions" });
+  }
+});
+
+// Submit (or resubmit) an authorization to its payer
+router.post("/:id/submit", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    const existingAuth = await storage.getPriorAuthorization(authId);
+    if (!existingAuth) {
+      return res.status(404).json({ message: "Authorization not found" });
+    }
+
+    const outcome = await insuranceService.submitPriorAuthorization(authId, req.user!.id);
+
+    await auditService.log(req.user!.id, 'PAYER_SUBMIT', 'authorization', authId, {
+      adapter: outcome.submission.adapter,
+      payerCode: outcome.submission.payerCode,
+      referenceNumber: outcome.result.referenceNumber,
+      status: outcome.result.status,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(outcome);
+  } catch (error) {
+    appLogger.error("Failed to submit authorization to payer", { userId: req.user?.id }, error as Error);
+    res.status(502).json({ message: "Payer submission failed", error: (error as Error).message });
+  }
+});
+
+// Poll the payer for the current decision
+router.post("/:id/payer-status", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    const existingAuth = await storage.getPriorAuthorization(authId);
+    if (!existingAuth) {
+      return res.status(404).json({ message: "Authorization not found" });
+    }
+    if (!existingAuth.payerReferenceNumber) {
+      return res.status(409).json({ message: "Authorization has not been submitted to the payer" });
+    }
+
+    const outcome = await insuranceService.checkAuthorizationStatus(authId, req.user!.id);
+
+    await auditService.log(req.user!.id, 'PAYER_STATUS_CHECK', 'authorization', authId, {
+      referenceNumber: outcome.result.referenceNumber,
+      previousStatus: existingAuth.status,
+      status: outcome.result.status,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(outcome);
+  } catch (error) {
+    appLogger.error("Failed to check payer status", { userId: req.user?.id }, error as Error);
+    res.status(502).json({ message: "Payer status check failed", error: (error as Error).message });
+  }
+});
+
+// Withdraw a submitted request from the payer
+router.post("/:id/cancel-submission", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    const { reason } = cancelSubmissionSchema.parse(req.body);
+
+    const existingAuth = await storage.getPriorAuthorization(authId);
+    if (!existingAuth) {
+      return res.status(404).json({ message: "Authorization not found" });
+    }
+    if (!existingAuth.payerReferenceNumber) {
+      return res.status(409).json({ message: "Authorization has not been submitted to the payer" });
+    }
+
+    const outcome = await insuranceService.cancelPriorAuthorization(authId, req.user!.id, reason);
+
+    await auditService.log(req.user!.id, 'PAYER_CANCEL', 'authorization', authId, {
+      referenceNumber: outcome.result.referenceNumber,
+      reason,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(outcome);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid cancellation request", errors: error.errors });
+    }
+    appLogger.error("Failed to cancel payer submission", { userId: req.user?.id }, error as Error);
+    res.status(502).json({ message: "Payer cancellation failed", error: (error as Error).message });
+  }
+});
+
+// Send additional documents for an in-flight request
+router.post("/:id/payer-documents", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    const { documentIds } = attachDocumentsSchema.parse(req.body);
+
+    const existingAuth = await storage.getPriorAuthorization(authId);
+    if (!existingAuth) {
+      return res.status(404).json({ message: "Authorization not found" });
+    }
+    if (!existingAuth.payerReferenceNumber) {
+      return res.status(409).json({ message: "Authorization has not been submitted to the payer" });
+    }
+
+    const outcome = await insuranceService.attachDocuments(authId, documentIds, req.user!.id);
+
+    await auditService.log(req.user!.id, 'PAYER_DOCUMENTS_ATTACH', 'authorization', authId, {
+      referenceNumber: outcome.result.referenceNumber,
+      documentIds,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(outcome);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid document attachment request", errors: error.errors });
+    }
+    appLogger.error("Failed to attach documents to payer submission", { userId: req.user?.id }, error as Error);
+    res.status(502).json({ message: "Payer document attachment failed", error: (error as Error).message });
+  }
+});
+
+// Record a Da Vinci PAS ClaimResponse received from the payer for this authorization
+router.post("/:id/fhir-pas/claim-response", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    const { resource } = claimResponseSchema.parse(req.body);
+
+    const existingAuth = await storage.getPriorAuthorization(authId);
+    if (!existingAuth) {
+      return res.status(404).json({ message: "Authorization not found" });
+    }
+
+    const outcome = await fhirPasService.ingestClaimResponse(authId, resource as Bundle | ClaimResponse, req.user!.id);
+
+    await auditService.log(req.user!.id, 'PAYER_RESPONSE_INGEST', 'authorization', authId, {
+      adapter: outcome.submission.adapter,
+      referenceNumber: outcome.result.referenceNumber,
+      previousStatus: existingAuth.status,
+      status: outcome.result.status,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(outcome);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid ClaimResponse upload", errors: error.errors });
+    }
+    if (error instanceof ClaimResponseError) {
+      return res.status(422).json({ message: error.message });
+    }
+    appLogger.error("Failed to ingest FHIR PAS ClaimResponse", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to record ClaimResponse", error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -0,0 +1,182 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { PEER_TO_PEER_OUTCOMES, peerToPeerNotesSchema } from "@shared/peer-to-peer";
+import { storage } from "../storage";
+import { authenticate, authorize, AuthenticatedRequest } from "../middleware/auth";
+import { auditService } from "../services/audit";
+import { appLogger } from "../services/app-logger";
+import { peerToPeerService, PeerToPeerStateError } from "../services/peer-to-peer";
+
+const router = Router();
+
+const reviewFieldsSchema = z.object({
+  assignedDoctorId: z.number().int().positive(),
+  requestDeadline: z.coerce.date().optional(),
+  scheduledAt: z.coerce.date().optional(),
+  reviewerName: z.string().trim().min(1).optional(),
+  reviewerCredentials: z.string().trim().min(1).optional(),
+  reviewerPhone: z.string().trim().min(1).optional(),
+  reviewerEmail: z.string().trim().email().optional(),
+  notes: peerToPeerNotesSchema.optional(),
+});
+
+const requestReviewSchema = reviewFieldsSchema.extend({
+  authorizationId: z.number().int().positive(),
+});
+
+const reviewOutcomeSchema = z.object({
+  outcome: z.enum(PEER_TO_PEER_OUTCOMES),
+  notes: peerToPeerNotesSchema.optional(),
+});
+
+const cancelReviewSchema = z.object({
+  reason: z.string().trim().min(5, "Please give a reason of at least 5 characters"),
+});
+
+// Maps peer-to-peer service errors to responses; returns false for errors the caller should treat as unexpected
+function sendReviewError(res: Response, error: unknown, invalidMessage: string): boolean {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ message: invalidMessage, errors: error.errors });
+    return true;
+  }
+  if (error instanceof PeerToPeerStateError) {
+    res.status(409).json({ message: error.message });
+    return true;
+  }
+  if (error instanceof Error && /not found/.test(error.message)) {
+    res.status(404).json({ message: error.message });
+    return true;
+  }
+  return false;
+}
+
+router.get("/", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const authorizationId = parseInt(req.query.authorizationId as string);
+    if (isNaN(authorizationId)) {
+      return res.status(400).json({ message: "authorizationId is required" });
+    }
+
+    const reviews = await storage.getPeerToPeerReviewsByAuthorization(authorizationId);
+    res.json(reviews);
+  } catch (error) {
+    appLogger.error("Failed to fetch peer-to-peer reviews", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch peer-to-peer reviews" });
+  }
+});
+
+// Upcoming and overdue peer-to-peer deadlines and calls for the signed-in doctor
+router.get("/reminders", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (req.user!.role !== 'doctor') {
+      return res.json([]);
+    }
+    const reminders = await peerToPeerService.remindersFor(req.user!.id);
+    res.json(reminders);
+  } catch (error) {
+    appLogger.error("Failed to fetch peer-to-peer reminders", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch peer-to-peer reminders" });
+  }
+});
+
+// Doctors a review can be assigned to
+router.get("/doctors", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const doctors = await storage.getUsersByRole('doctor');
+    res.json(doctors.map(({ id, firstName, lastName }) => ({ id, firstName, lastName })));
+  } catch (error) {
+    appLogger.error("Failed to fetch doctors", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch doctors" });
+  }
+});
+
+router.post("/", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { authorizationId, ...input } = requestReviewSchema.parse(req.body);
+    const review = await peerToPeerService.request(authorizationId, input, req.user!.id);
+
+    await auditService.log(req.user!.id, 'PEER_TO_PEER_REQUEST', 'peer_to_peer_review', review.id, {
+      authorizationId,
+      assignedDoctorId: review.assignedDoctorId,
+      requestDeadline: review.requestDeadline,
+      scheduledAt: review.scheduledAt,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.status(201).json(review);
+  } catch (error) {
+    if (sendReviewError(res, error, "Invalid peer-to-peer review")) return;
+    appLogger.error("Failed to request peer-to-peer review", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to request peer-to-peer review" });
+  }
+});
+
+router.patch("/:id", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ message: "Invalid peer-to-peer review ID" });
+    }
+
+    const updates = reviewFieldsSchema.partial().parse(req.body);
+    const review = await peerToPeerService.update(reviewId, updates);
+
+    await auditService.log(req.user!.id, 'PEER_TO_PEER_UPDATE', 'peer_to_peer_review', reviewId, {
+      authorizationId: review.authorizationId,
+      fields: Object.keys(updates),
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(review);
+  } catch (error) {
+    if (sendReviewError(res, error, "Invalid peer-to-peer review update")) return;
+    appLogger.error("Failed to update peer-to-peer review", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to update peer-to-peer review" });
+  }
+});
+
+router.post("/:id/outcome", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ message: "Invalid peer-to-peer review ID" });
+    }
+
+    const { outcome, notes } = reviewOutcomeSchema.parse(req.body);
+    const review = await peerToPeerService.recordOutcome(reviewId, outcome, notes);
+
+    await auditService.log(req.user!.id, 'PEER_TO_PEER_OUTCOME', 'peer_to_peer_review', reviewId, {
+      authorizationId: review.authorizationId,
+      outcome,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(review);
+  } catch (error) {
+    if (sendReviewError(res, error, "Invalid peer-to-peer outcome")) return;
+    appLogger.error("Failed to record peer-to-peer outcome", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to record peer-to-peer outcome" });
+  }
+});
+
+router.post("/:id/cancel", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ message: "Invalid peer-to-peer review ID" });
+    }
+
+    const { reason } = cancelReviewSchema.parse(req.body);
+    const review = await peerToPeerService.cancel(reviewId, reason);
+
+    await auditService.log(req.user!.id, 'PEER_TO_PEER_CANCEL', 'peer_to_peer_review', reviewId, {
+      authorizationId: review.authorizationId,
+      reason,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(review);
+  } catch (error) {
+    if (sendReviewError(res, error, "Invalid peer-to-peer cancellation")) return;
+    appLogger.error("Failed to cancel peer-to-peer review", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to cancel peer-to-peer review" });
+  }
+});
+
+export default router;
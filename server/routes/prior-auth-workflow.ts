@@ -1,19 +1,37 @@
 import type { Express } from "express";
 import { z } from "zod";
 import { storage } from "../storage";
-import { priorAuthWorkflowService } from "../services/prior-auth-workflow";
+import {
+  priorAuthWorkflowService,
+  WorkflowStepBlockedError,
+  WorkflowStepOrderError,
+  WorkflowStepValidationError,
+} from "../services/prior-auth-workflow";
+import { documentationRequirementsService } from "../services/documentation-requirements";
+import { workflowDefinitionService } from "../services/workflow-definitions";
+import { stateFormService, StateFormError } from "../services/state-forms";
 import { procedureCodeService } from "../services/procedure-codes";
 import { auditService } from "../services/audit";
 import { authenticate, AuthenticatedRequest } from "../middleware/auth";
+import { canOverrideDocumentation } from "@shared/payer-requirements";
 
 // Request schemas
 const completeStepSchema = z.object({
   formData: z.record(z.any()),
   notes: z.string().optional(),
+  override: z.object({
+    reason: z.string().trim().min(10, "Override reason must be at least 10 characters"),
+  }).optional(),
+});
+
+const stepTransitionSchema = z.object({
+  reason: z.string().trim().min(5, "A reason of at least 5 characters is required"),
 });
 
 const generateFormsSchema = z.object({
-  state: z.string().min(2).max(2),
+  // Defaults to the patient's state
+  state: z.string().length(2).optional(),
+  flatten: z.boolean().default(true),
 });
 
 export function registerPriorAuthWorkflowRoutes(app: Express) {
@@ -57,24 +75,125 @@ export function registerPriorAuthWorkflowRoutes(app: Express) {
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
+      if (isNaN(authId) || isNaN(stepNumber)) {
+        return res.status(400).json({ message: "Invalid authorization ID or step number" });
+      }
 
       const validation = completeStepSchema.parse(req.body);
+
+      if (validation.override && !canOverrideDocumentation(req.user!.role)) {
+        return res.status(403).json({ message: "Only a supervisor can override the documentation checklist" });
+      }
       
-      await priorAuthWorkflowService.completeStep(
+      const currentStep = await priorAuthWorkflowService.completeStep(
         authId,
         stepNumber,
         validation.formData,
         userId,
-        validation.notes
+        validation.notes,
+        validation.override
       );
       
-      res.json({ message: "Step completed successfully" });
+      res.json({ message: "Step completed successfully", currentStep });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid step completion request", errors: error.errors });
+      }
+      if (error instanceof WorkflowStepValidationError) {
+        return res.status(422).json({ message: error.message, errors: error.fieldErrors });
+      }
+      if (error instanceof WorkflowStepOrderError) {
+        return res.status(409).json({ message: error.message, pendingSteps: error.pendingSteps });
+      }
+      if (error instanceof WorkflowStepBlockedError) {
+        return res.status(409).json({ message: error.message, checklist: error.details });
+      }
       console.error("Failed to complete step:", error);
       res.status(500).json({ message: "Failed to complete step" });
     }
   });
 
+  // Skip an optional step, reopen a settled one, or revert the workflow to an earlier step
+  const stepTransitions = {
+    skip: (authId: number, stepNumber: number, userId: number, reason: string) =>
+      priorAuthWorkflowService.skipStep(authId, stepNumber, userId, reason),
+    reopen: (authId: number, stepNumber: number, userId: number, reason: string) =>
+      priorAuthWorkflowService.reopenStep(authId, stepNumber, userId, reason),
+    revert: (authId: number, stepNumber: number, userId: number, reason: string) =>
+      priorAuthWorkflowService.revertToStep(authId, stepNumber, userId, reason),
+  };
+
+  for (const [action, transition] of Object.entries(stepTransitions)) {
+    app.post(`/api/prior-auth-workflow-steps/:authId/:stepNumber/${action}`, authenticate, async (req: AuthenticatedRequest, res) => {
+      try {
+        const authId = parseInt(req.params.authId);
+        const stepNumber = parseInt(req.params.stepNumber);
+        if (isNaN(authId) || isNaN(stepNumber)) {
+          return res.status(400).json({ message: "Invalid authorization ID or step number" });
+        }
+
+        const { reason } = stepTransitionSchema.parse(req.body);
+        const currentStep = await transition(authId, stepNumber, req.user!.id, reason);
+
+        res.json({ message: `Step ${action} recorded`, currentStep });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: `Invalid step ${action} request`, errors: error.errors });
+        }
+        if (error instanceof WorkflowStepOrderError) {
+          return res.status(409).json({ message: error.message, pendingSteps: error.pendingSteps });
+        }
+        if (error instanceof Error && /not found/.test(error.message)) {
+          return res.status(404).json({ message: error.message });
+        }
+        console.error(`Failed to ${action} step:`, error);
+        res.status(500).json({ message: `Failed to ${action} step` });
+      }
+    });
+  }
+
+  // Payer documentation checklist for the Documentation Preparation step
+  app.get("/api/prior-auth-workflow/:authId/documentation-checklist", authenticate, async (req: AuthenticatedRequest, res) => {
+    try {
+      const authId = parseInt(req.params.authId);
+      if (isNaN(authId)) {
+        return res.status(400).json({ message: "Invalid authorization ID" });
+      }
+
+      const existingAuth = await storage.getPriorAuthorization(authId);
+      if (!existingAuth) {
+        return res.status(404).json({ message: "Authorization not found" });
+      }
+
+      const checklist = await documentationRequirementsService.evaluate(authId);
+      res.json(checklist);
+    } catch (error) {
+      console.error("Failed to evaluate documentation checklist:", error);
+      res.status(500).json({ message: "Failed to evaluate documentation checklist" });
+    }
+  });
+
+  // Workflow definition version the authorization is pinned to
+  app.get("/api/prior-auth-workflow/:authId/definition", authenticate, async (req: AuthenticatedRequest, res) => {
+    try {
+      const authId = parseInt(req.params.authId);
+      if (isNaN(authId)) {
+        return res.status(400).json({ message: "Invalid authorization ID" });
+      }
+
+      const existingAuth = await storage.getPriorAuthorization(authId);
+      if (!existingAuth) {
+        return res.status(404).json({ message: "Authorization not found" });
+      }
+
+      const definition = await workflowDefinitionService.forAuthorization(existingAuth);
+      res.json(definition);
+    } catch (error) {
+      console.error("Failed to get workflow definition:", error);
+      res.status(500).json({ message: "Failed to get workflow definition" });
+    }
+  });
+
   // Initialize workflow for authorization
   app.post("/api/prior-auth-workflow/:authId/initialize", authenticate, async (req: AuthenticatedRequest, res) => {
     try {
@@ -106,10 +225,9 @@ export function registerPriorAuthWorkflowRoutes(app: Express) {
 
       const validation = generateFormsSchema.parse(req.body);
       
-      const formPackagePath = await priorAuthWorkflowService.generateFormPackage(
-        authId,
-        validation.state
-      );
+      const result = await stateFormService.generate(authId, validation.state, userId, {
+        flatten: validation.flatten,
+      });
       
       // Log form generation
       await auditService.logPriorAuthActivity(
@@ -118,16 +236,34 @@ export function registerPriorAuthWorkflowRoutes(app: Express) {
         'FORMS_GENERATED',
         'form_generation',
         null,
-        { state: validation.state, formPackagePath },
+        {
+          state: validation.state,
+          templateId: result.template.id,
+          templateVersion: result.template.version,
+          documentId: result.document.id,
+          warnings: result.warnings,
+        },
         req.ip,
         req.get('User-Agent') || ''
       );
       
       res.json({ 
         message: "Form package generated successfully",
-        formPackagePath 
+        documentId: result.document.id,
+        downloadUrl: `/api/documents/${result.document.id}/download`,
+        document: { id: result.document.id, fileName: result.document.fileName, fileType: result.document.fileType },
+        warnings: result.warnings,
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid form request", errors: error.errors });
+      }
+      if (error instanceof StateFormError) {
+        return res.status(/No form template/.test(error.message) ? 404 : 422).json({ message: error.message, issues: error.issues });
+      }
+      if (error instanceof Error && /not found/.test(error.message)) {
+        return res.status(404).json({ message: error.message });
+      }
       console.error("Failed to generate forms:", error);
       res.status(500).json({ message: "Failed to generate forms" });
     }
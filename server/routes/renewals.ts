@@ -0,0 +1,68 @@
+import { Router } from "express";
+import { z } from "zod";
+import { authenticate, authorize, AuthenticatedRequest } from "../middleware/auth";
+import { auditService } from "../services/audit";
+import { appLogger } from "../services/app-logger";
+import { renewalService, RenewalError } from "../services/renewals";
+
+const router = Router();
+
+const createRenewalSchema = z.object({
+  authorizationId: z.number().int().positive(),
+});
+
+// Approved authorizations inside a renewal window, soonest expiration first
+router.get("/expiring", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const expiring = await renewalService.expiring();
+    res.json(expiring);
+  } catch (error) {
+    appLogger.error("Failed to fetch expiring authorizations", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch expiring authorizations" });
+  }
+});
+
+// Clone an authorization into a draft renewal linked to it
+router.post("/", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { authorizationId } = createRenewalSchema.parse(req.body);
+    const renewal = await renewalService.createRenewal(authorizationId, req.user!.id);
+
+    await auditService.log(req.user!.id, 'AUTHORIZATION_RENEWAL_CREATE', 'authorization', renewal.id, {
+      authorizationId: renewal.authorizationId,
+      renewalOfId: authorizationId,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.status(201).json(renewal);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid renewal request", errors: error.errors });
+    }
+    if (error instanceof RenewalError) {
+      return res.status(409).json({ message: error.message });
+    }
+    if (error instanceof Error && error.message === 'Authorization not found') {
+      return res.status(404).json({ message: error.message });
+    }
+    appLogger.error("Failed to create renewal", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to create renewal" });
+  }
+});
+
+// Run the expiration scan now instead of waiting for the next scheduled one
+router.post("/scan", authenticate, authorize(["admin"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await renewalService.scan();
+
+    await auditService.log(req.user!.id, 'AUTHORIZATION_EXPIRATION_SCAN', 'authorization', null, {
+      ...result,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(result);
+  } catch (error) {
+    appLogger.error("Failed to scan authorization expirations", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to scan authorization expirations" });
+  }
+});
+
+export default router;
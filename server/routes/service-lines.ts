@@ -0,0 +1,133 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { serviceLineDecisionSchema, serviceLineInputSchema } from "@shared/service-lines";
+import { storage } from "../storage";
+import { authenticate, authorize, AuthenticatedRequest } from "../middleware/auth";
+import { auditService } from "../services/audit";
+import { appLogger } from "../services/app-logger";
+import { StatusTransitionError } from "../services/authorization-status";
+import { serviceLineService, ServiceLineError } from "../services/service-lines";
+
+const router = Router();
+
+const replaceLinesSchema = z.object({
+  serviceLines: z.array(serviceLineInputSchema).min(1),
+});
+
+const decisionsSchema = z.object({
+  decisions: z.array(serviceLineDecisionSchema).min(1),
+  note: z.string().trim().optional(),
+  authorizationNumber: z.string().trim().min(1).optional(),
+  expirationDate: z.coerce.date().optional(),
+  appealDeadline: z.coerce.date().optional(),
+});
+
+// Maps service line errors to responses; returns false for errors the caller should treat as unexpected
+function sendServiceLineError(res: Response, error: unknown, invalidMessage: string): boolean {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ message: invalidMessage, errors: error.errors });
+    return true;
+  }
+  if (error instanceof ServiceLineError) {
+    res.status(409).json({ message: error.message });
+    return true;
+  }
+  if (error instanceof StatusTransitionError) {
+    res.status(409).json({ message: error.message, missing: error.missing });
+    return true;
+  }
+  if (error instanceof Error && /not found/.test(error.message)) {
+    res.status(404).json({ message: error.message });
+    return true;
+  }
+  return false;
+}
+
+router.get("/:id/service-lines", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    if (isNaN(authId)) {
+      return res.status(400).json({ message: "Invalid authorization ID" });
+    }
+
+    const authorization = await storage.getPriorAuthorization(authId);
+    if (!authorization) {
+      return res.status(404).json({ message: "Authorization not found" });
+    }
+
+    res.json(await serviceLineService.forAuthorization(authorization));
+  } catch (error) {
+    appLogger.error("Failed to fetch service lines", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch service lines" });
+  }
+});
+
+// Replace the requested lines; only while the payer has not decided any of them
+router.put("/:id/service-lines", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    if (isNaN(authId)) {
+      return res.status(400).json({ message: "Invalid authorization ID" });
+    }
+
+    const { serviceLines } = replaceLinesSchema.parse(req.body);
+    const authorization = await storage.getPriorAuthorization(authId);
+    if (!authorization) {
+      return res.status(404).json({ message: "Authorization not found" });
+    }
+
+    const existing = await storage.getServiceLinesByAuthorization(authId);
+    if (existing.some(line => line.status !== 'requested')) {
+      return res.status(409).json({ message: "Service lines cannot be changed once the payer has decided any of them" });
+    }
+
+    const lines = await serviceLineService.replace(authorization, serviceLines);
+
+    await auditService.log(req.user!.id, 'SERVICE_LINES_UPDATE', 'authorization', authId, {
+      previousLines: existing.map(({ cptCode, modifiers, units, diagnosisPointers }) => ({ cptCode, modifiers, units, diagnosisPointers })),
+      lines: serviceLines,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(lines);
+  } catch (error) {
+    if (sendServiceLineError(res, error, "Invalid service lines")) return;
+    appLogger.error("Failed to update service lines", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to update service lines" });
+  }
+});
+
+// Record the payer's decision on individual lines
+router.post("/:id/service-lines/decisions", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    if (isNaN(authId)) {
+      return res.status(400).json({ message: "Invalid authorization ID" });
+    }
+
+    const { decisions, note, ...updates } = decisionsSchema.parse(req.body);
+    const existingAuth = await storage.getPriorAuthorization(authId);
+    if (!existingAuth) {
+      return res.status(404).json({ message: "Authorization not found" });
+    }
+
+    const result = await serviceLineService.recordDecisions(authId, decisions, {
+      userId: req.user!.id,
+      note,
+      updates,
+    });
+
+    await auditService.log(req.user!.id, 'SERVICE_LINE_DECISIONS', 'authorization', authId, {
+      decisions,
+      fromStatus: existingAuth.status,
+      toStatus: result.authorization.status,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(result);
+  } catch (error) {
+    if (sendServiceLineError(res, error, "Invalid service line decisions")) return;
+    appLogger.error("Failed to record service line decisions", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to record service line decisions" });
+  }
+});
+
+export default router;
@@ -0,0 +1,243 @@
+import { Router } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { stateFormFieldSchema, stateFormTemplateInputSchema } from "@shared/state-forms";
+import { storage } from "../storage";
+import { authenticate, authorize, AuthenticatedRequest } from "../middleware/auth";
+import { auditService } from "../services/audit";
+import { appLogger } from "../services/app-logger";
+import { documentStorage } from "../services/document-storage";
+import { StateFormError, stateFormService } from "../services/state-forms";
+import { stateFormTemplateService } from "../services/state-form-templates";
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 } // 20MB limit
+});
+
+const templateStatusSchema = z.object({
+  isActive: z.boolean(),
+});
+
+const previewSchema = z.object({
+  authorizationId: z.number().int().positive().optional(),
+  // Unsaved mappings from the editor; the template's own are used when omitted
+  fields: z.array(stateFormFieldSchema).optional(),
+});
+
+function parseTemplateId(value: string): number | null {
+  const templateId = parseInt(value);
+  return isNaN(templateId) ? null : templateId;
+}
+
+router.get("/", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const templates = await storage.getStateFormTemplates();
+    res.json(templates);
+  } catch (error) {
+    appLogger.error("Failed to fetch state form templates", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch state form templates" });
+  }
+});
+
+// Store a template PDF and list its fillable fields for mapping; nothing is saved as a template yet
+router.post("/upload", authenticate, authorize(["admin"]), upload.single('file'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: "No template PDF uploaded" });
+    }
+
+    const result = await stateFormTemplateService.upload(req.file.originalname, req.file.buffer);
+
+    await auditService.log(req.user!.id, 'STATE_FORM_TEMPLATE_UPLOAD', 'state_form_template', null, {
+      fileName: req.file.originalname,
+      fileSize: req.file.size,
+      fieldCount: result.fields.length,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof StateFormError) {
+      return res.status(422).json({ message: error.message, issues: error.issues });
+    }
+    appLogger.error("Failed to upload state form template", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to upload state form template" });
+  }
+});
+
+router.get("/:id", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const templateId = parseTemplateId(req.params.id);
+    if (templateId === null) {
+      return res.status(400).json({ message: "Invalid state form template ID" });
+    }
+
+    const template = await storage.getStateFormTemplateById(templateId);
+    if (!template) {
+      return res.status(404).json({ message: "State form template not found" });
+    }
+
+    res.json(template);
+  } catch (error) {
+    appLogger.error("Failed to fetch state form template", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch state form template" });
+  }
+});
+
+// Fillable fields of the template's PDF, for mapping fields the saved version leaves out
+router.get("/:id/pdf-fields", authenticate, authorize(["admin"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const templateId = parseTemplateId(req.params.id);
+    if (templateId === null) {
+      return res.status(400).json({ message: "Invalid state form template ID" });
+    }
+
+    const template = await storage.getStateFormTemplateById(templateId);
+    if (!template) {
+      return res.status(404).json({ message: "State form template not found" });
+    }
+
+    res.json(await stateFormTemplateService.discoverTemplateFields(template));
+  } catch (error) {
+    if (error instanceof StateFormError) {
+      return res.status(422).json({ message: error.message, issues: error.issues });
+    }
+    appLogger.error("Failed to read state form template fields", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to read state form template fields" });
+  }
+});
+
+router.get("/:id/file", authenticate, authorize(["admin"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const templateId = parseTemplateId(req.params.id);
+    if (templateId === null) {
+      return res.status(400).json({ message: "Invalid state form template ID" });
+    }
+
+    const template = await storage.getStateFormTemplateById(templateId);
+    if (!template) {
+      return res.status(404).json({ message: "State form template not found" });
+    }
+
+    const content = await documentStorage.read(stateFormService.resolveTemplatePath(template.templatePath));
+    if (!content) {
+      return res.status(404).json({ message: "Template PDF not found" });
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${template.formName.replace(/[^a-zA-Z0-9._-]/g, '_')}_v${template.version}.pdf"`);
+    res.send(content);
+  } catch (error) {
+    if (error instanceof StateFormError) {
+      return res.status(422).json({ message: error.message, issues: error.issues });
+    }
+    appLogger.error("Failed to download state form template", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to download state form template" });
+  }
+});
+
+// Publish a new version; forms generated earlier keep the version they were filled from
+router.post("/", authenticate, authorize(["admin"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const input = stateFormTemplateInputSchema.parse(req.body);
+    const template = await stateFormTemplateService.createVersion(input);
+
+    await auditService.log(req.user!.id, 'STATE_FORM_TEMPLATE_CREATE', 'state_form_template', template.id, {
+      state: template.state,
+      formType: template.formType,
+      version: template.version,
+      fieldCount: input.fields.length,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.status(201).json(template);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid state form template", errors: error.errors });
+    }
+    if (error instanceof StateFormError) {
+      return res.status(422).json({ message: error.message, issues: error.issues });
+    }
+    appLogger.error("Failed to create state form template", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to create state form template" });
+  }
+});
+
+// Retire a version, or bring an older one back; reactivating a version retires the others for its
+// state and form type, since generation uses the latest active version
+router.patch("/:id/status", authenticate, authorize(["admin"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const templateId = parseTemplateId(req.params.id);
+    if (templateId === null) {
+      return res.status(400).json({ message: "Invalid state form template ID" });
+    }
+
+    const { isActive } = templateStatusSchema.parse(req.body);
+
+    const existingTemplate = await storage.getStateFormTemplateById(templateId);
+    if (!existingTemplate) {
+      return res.status(404).json({ message: "State form template not found" });
+    }
+
+    const updatedTemplate = isActive
+      ? await storage.activateStateFormTemplate(templateId)
+      : await storage.updateStateFormTemplate(templateId, { isActive });
+
+    await auditService.log(req.user!.id, 'STATE_FORM_TEMPLATE_UPDATE', 'state_form_template', templateId, {
+      state: existingTemplate.state,
+      formType: existingTemplate.formType,
+      version: existingTemplate.version,
+      isActive,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(updatedTemplate);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid state form template status", errors: error.errors });
+    }
+    appLogger.error("Failed to update state form template", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to update state form template" });
+  }
+});
+
+// Fill the template with a sample authorization's data; nothing is filed or recorded on the authorization
+router.post("/:id/preview", authenticate, authorize(["admin"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const templateId = parseTemplateId(req.params.id);
+    if (templateId === null) {
+      return res.status(400).json({ message: "Invalid state form template ID" });
+    }
+
+    const { authorizationId, fields } = previewSchema.parse(req.body);
+
+    const template = await storage.getStateFormTemplateById(templateId);
+    if (!template) {
+      return res.status(404).json({ message: "State form template not found" });
+    }
+
+    const preview = await stateFormTemplateService.preview(template, authorizationId, fields);
+
+    res.json({
+      authorizationId: preview.authorizationId,
+      values: preview.values,
+      warnings: preview.warnings,
+      pdf: Buffer.from(preview.pdf).toString('base64'),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid preview request", errors: error.errors });
+    }
+    if (error instanceof StateFormError) {
+      return res.status(422).json({ message: error.message, issues: error.issues });
+    }
+    const message = (error as Error).message;
+    if (/not found|No authorization/.test(message)) {
+      return res.status(404).json({ message });
+    }
+    appLogger.error("Failed to preview state form template", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to preview state form template" });
+  }
+});
+
+export default router;
@@ -0,0 +1,168 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { UNIT_TYPES } from "@shared/utilization";
+import { authenticate, authorize, AuthenticatedRequest } from "../middleware/auth";
+import { auditService } from "../services/audit";
+import { appLogger } from "../services/app-logger";
+import { utilizationService, UtilizationError } from "../services/utilization";
+
+const router = Router();
+
+const unitApprovalsSchema = z.object({
+  approvals: z.array(z.object({
+    cptCode: z.string().trim().min(1),
+    unitType: z.enum(UNIT_TYPES),
+    approvedQuantity: z.number().int().positive(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+  }).refine(data => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+    message: "The approval cannot end before it starts",
+    path: ["endDate"],
+  })).min(1),
+});
+
+const plannedServiceSchema = z.object({
+  cptCode: z.string().trim().min(1),
+  serviceDate: z.coerce.date(),
+  units: z.number().int().positive(),
+});
+
+const recordServiceSchema = plannedServiceSchema.extend({
+  encounterId: z.string().trim().min(1).optional(),
+  notes: z.string().trim().min(1).optional(),
+});
+
+// Maps utilization service errors to responses; returns false for errors the caller should treat as unexpected
+function sendUtilizationError(res: Response, error: unknown, invalidMessage: string): boolean {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ message: invalidMessage, errors: error.errors });
+    return true;
+  }
+  if (error instanceof UtilizationError) {
+    res.status(409).json({ message: error.message });
+    return true;
+  }
+  if (error instanceof Error && /not found/.test(error.message)) {
+    res.status(404).json({ message: error.message });
+    return true;
+  }
+  return false;
+}
+
+// Remaining balance of each approved quantity and the services logged against them
+router.get("/:id/utilization", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    if (isNaN(authId)) {
+      return res.status(400).json({ message: "Invalid authorization ID" });
+    }
+
+    res.json(await utilizationService.forAuthorization(authId));
+  } catch (error) {
+    if (sendUtilizationError(res, error, "Invalid utilization request")) return;
+    appLogger.error("Failed to fetch service utilization", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch service utilization" });
+  }
+});
+
+// Record the visits or units the payer approved for each CPT code
+router.put("/:id/unit-approvals", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    if (isNaN(authId)) {
+      return res.status(400).json({ message: "Invalid authorization ID" });
+    }
+
+    const { approvals } = unitApprovalsSchema.parse(req.body);
+    const saved = await utilizationService.setApprovals(authId, approvals, req.user!.id);
+
+    await auditService.log(req.user!.id, 'UNIT_APPROVALS_UPDATE', 'authorization', authId, {
+      approvals: approvals.map(({ cptCode, unitType, approvedQuantity }) => ({ cptCode, unitType, approvedQuantity })),
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(saved);
+  } catch (error) {
+    if (sendUtilizationError(res, error, "Invalid unit approvals")) return;
+    appLogger.error("Failed to save unit approvals", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to save unit approvals" });
+  }
+});
+
+// Check a service being scheduled against the remaining quantity and approved dates
+router.post("/:id/utilization/check", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    if (isNaN(authId)) {
+      return res.status(400).json({ message: "Invalid authorization ID" });
+    }
+
+    const planned = plannedServiceSchema.parse(req.body);
+    res.json(await utilizationService.check(authId, planned));
+  } catch (error) {
+    if (sendUtilizationError(res, error, "Invalid planned service")) return;
+    appLogger.error("Failed to check service utilization", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to check service utilization" });
+  }
+});
+
+router.post("/:id/utilization", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    if (isNaN(authId)) {
+      return res.status(400).json({ message: "Invalid authorization ID" });
+    }
+
+    const input = recordServiceSchema.parse(req.body);
+    const { utilization, check } = await utilizationService.record(authId, input, req.user!.id);
+
+    await auditService.log(req.user!.id, 'SERVICE_UTILIZATION_RECORD', 'authorization', authId, {
+      utilizationId: utilization.id,
+      cptCode: input.cptCode,
+      units: input.units,
+      serviceDate: input.serviceDate,
+      encounterId: input.encounterId,
+      warnings: check.warnings.map(warning => warning.kind),
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    if (check.warnings.length > 0) {
+      appLogger.warn("Service recorded outside its approval", {
+        authorizationId: authId,
+        utilizationId: utilization.id,
+        warnings: check.warnings.map(warning => warning.kind),
+      }, 'UTILIZATION');
+    }
+
+    res.status(201).json({ utilization, warnings: check.warnings });
+  } catch (error) {
+    if (sendUtilizationError(res, error, "Invalid service utilization")) return;
+    appLogger.error("Failed to record service utilization", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to record service utilization" });
+  }
+});
+
+// Remove a service logged in error
+router.delete("/:id/utilization/:entryId", authenticate, authorize(["admin", "doctor", "staff"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const authId = parseInt(req.params.id);
+    const entryId = parseInt(req.params.entryId);
+    if (isNaN(authId) || isNaN(entryId)) {
+      return res.status(400).json({ message: "Invalid authorization or utilization ID" });
+    }
+
+    const removed = await utilizationService.remove(authId, entryId);
+
+    await auditService.log(req.user!.id, 'SERVICE_UTILIZATION_DELETE', 'authorization', authId, {
+      utilizationId: entryId,
+      unitsUsed: removed.unitsUsed,
+      serviceDate: removed.serviceDate,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json({ message: "Service utilization deleted successfully" });
+  } catch (error) {
+    if (sendUtilizationError(res, error, "Invalid utilization request")) return;
+    appLogger.error("Failed to delete service utilization", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to delete service utilization" });
+  }
+});
+
+export default router;
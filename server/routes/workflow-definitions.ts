@@ -0,0 +1,109 @@
+import { Router } from "express";
+import { z } from "zod";
+import { workflowDefinitionInputSchema } from "@shared/workflow-definitions";
+import { storage } from "../storage";
+import { authenticate, authorize, AuthenticatedRequest } from "../middleware/auth";
+import { auditService } from "../services/audit";
+import { appLogger } from "../services/app-logger";
+import { workflowDefinitionService } from "../services/workflow-definitions";
+
+const router = Router();
+
+const definitionStatusSchema = z.object({
+  isActive: z.boolean(),
+});
+
+router.get("/", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const definitions = await storage.getWorkflowDefinitions();
+    res.json(definitions);
+  } catch (error) {
+    appLogger.error("Failed to fetch workflow definitions", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch workflow definitions" });
+  }
+});
+
+router.get("/:id", authenticate, async (req: AuthenticatedRequest, res) => {
+  try {
+    const definitionId = parseInt(req.params.id);
+    if (isNaN(definitionId)) {
+      return res.status(400).json({ message: "Invalid workflow definition ID" });
+    }
+
+    const definition = await storage.getWorkflowDefinition(definitionId);
+    if (!definition) {
+      return res.status(404).json({ message: "Workflow definition not found" });
+    }
+
+    res.json(definition);
+  } catch (error) {
+    appLogger.error("Failed to fetch workflow definition", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to fetch workflow definition" });
+  }
+});
+
+// Publish a new version; workflows already running stay on the version they started with
+router.post("/", authenticate, authorize(["admin"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const input = workflowDefinitionInputSchema.parse(req.body);
+
+    if (input.insuranceProviderId) {
+      const provider = await storage.getInsuranceProvider(input.insuranceProviderId);
+      if (!provider) {
+        return res.status(404).json({ message: "Insurance provider not found" });
+      }
+    }
+
+    const definition = await workflowDefinitionService.createVersion(input, req.user!.id);
+
+    await auditService.log(req.user!.id, 'WORKFLOW_DEFINITION_CREATE', 'workflow_definition', definition.id, {
+      key: definition.key,
+      version: definition.version,
+      insuranceProviderId: definition.insuranceProviderId,
+      stepCount: input.steps.length,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.status(201).json(definition);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid workflow definition", errors: error.errors });
+    }
+    appLogger.error("Failed to create workflow definition", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to create workflow definition" });
+  }
+});
+
+// Retire a version, or bring an older one back; new workflows pick the latest active version
+router.patch("/:id/status", authenticate, authorize(["admin"]), async (req: AuthenticatedRequest, res) => {
+  try {
+    const definitionId = parseInt(req.params.id);
+    if (isNaN(definitionId)) {
+      return res.status(400).json({ message: "Invalid workflow definition ID" });
+    }
+
+    const { isActive } = definitionStatusSchema.parse(req.body);
+
+    const existingDefinition = await storage.getWorkflowDefinition(definitionId);
+    if (!existingDefinition) {
+      return res.status(404).json({ message: "Workflow definition not found" });
+    }
+
+    const updatedDefinition = await storage.setWorkflowDefinitionActive(definitionId, isActive);
+
+    await auditService.log(req.user!.id, 'WORKFLOW_DEFINITION_UPDATE', 'workflow_definition', definitionId, {
+      key: existingDefinition.key,
+      version: existingDefinition.version,
+      isActive,
+    }, req.ip || '', req.get("User-Agent") || '');
+
+    res.json(updatedDefinition);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid workflow definition status", errors: error.errors });
+    }
+    appLogger.error("Failed to update workflow definition", { userId: req.user?.id }, error as Error);
+    res.status(500).json({ message: "Failed to update workflow definition" });
+  }
+});
+
+export default router;
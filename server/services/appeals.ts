@@ -0,0 +1,287 @@
+import type { Appeal, Document, InsertAppeal, InsertPriorAuthorization, Patient, PriorAuthorization, StateFormTemplate } from "@shared/schema";
+import {
+  APPEAL_LEVEL_LABELS,
+  APPEAL_OUTCOME_LABELS,
+  APPEAL_OUTCOME_STATUS,
+  APPEAL_RESPONSE_DAYS,
+  isAppealOpen,
+  type AppealLevel,
+  type AppealOutcome,
+} from "@shared/appeals";
+import { AUTHORIZATION_STATUS_LABELS, normalizeAuthorizationStatus, type AuthorizationStatus } from "@shared/authorization-status";
+import { storage } from "../storage";
+import { authorizationStatusService } from "./authorization-status";
+import { insuranceService } from "./insurance";
+
+// Raised when an appeal cannot be created or moved on from its current state
+export class AppealStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AppealStateError';
+  }
+}
+
+export interface CreateAppealInput {
+  level: AppealLevel;
+  expedited?: boolean;
+  filingDeadline?: Date; // Defaults to the authorization's appeal deadline
+}
+
+export interface AppealDraftUpdates {
+  level?: AppealLevel;
+  expedited?: boolean;
+  letter?: string;
+  formData?: Record<string, unknown>;
+}
+
+export interface AppealOutcomeInput {
+  outcome: AppealOutcome;
+  notes?: string;
+  authorizationNumber?: string;
+  expirationDate?: Date;
+  denialReason?: string;
+}
+
+// Authorization statuses an appeal can be filed against
+const APPEALABLE_STATUSES: AuthorizationStatus[] = ['denied', 'partially_approved'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AppealService {
+  async createAppeal(authorizationId: number, input: CreateAppealInput, userId: number): Promise<Appeal> {
+    const authorization = await this.loadAuthorization(authorizationId);
+    const status = normalizeAuthorizationStatus(authorization.status, authorization.submittedDate);
+    if (!APPEALABLE_STATUSES.includes(status)) {
+      throw new AppealStateError(`Only denied or partially approved authorizations can be appealed; this one is ${AUTHORIZATION_STATUS_LABELS[status]}`);
+    }
+
+    const existing = await storage.getAppealsByAuthorization(authorizationId);
+    if (existing.some(appeal => isAppealOpen(appeal.status))) {
+      throw new AppealStateError('This authorization already has an open appeal');
+    }
+
+    const filingDeadline = input.filingDeadline ?? authorization.appealDeadline;
+    if (filingDeadline && filingDeadline.getTime() < Date.now()) {
+      throw new AppealStateError(`The appeal filing deadline passed on ${filingDeadline.toLocaleDateString()}`);
+    }
+
+    const patient = await storage.getPatient(authorization.patientId);
+    const template = patient?.state ? await storage.getStateFormTemplate(patient.state, 'appeal') : undefined;
+
+    const appeal: InsertAppeal = {
+      authorizationId,
+      level: input.level,
+      status: 'draft',
+      expedited: input.expedited ?? authorization.urgentRequest,
+      filingDeadline: filingDeadline ?? null,
+      stateFormTemplateId: template?.id ?? null,
+      createdBy: userId,
+    };
+    const values = await this.appealValues(authorization, patient, appeal.level as AppealLevel, userId);
+    appeal.letter = this.buildLetter(values, []);
+    appeal.formData = template ? this.fillTemplate(template, values) : null;
+
+    return storage.createAppeal(appeal);
+  }
+
+  // Rebuild the letter from the authorization as it stands now, replacing any edits
+  async regenerateLetter(appealId: number, userId: number): Promise<Appeal> {
+    const appeal = await this.loadAppeal(appealId);
+    this.requireStatus(appeal, ['draft'], 'Only a draft appeal letter can be regenerated');
+
+    const authorization = await this.loadAuthorization(appeal.authorizationId);
+    const patient = await storage.getPatient(authorization.patientId);
+    const values = await this.appealValues(authorization, patient, appeal.level as AppealLevel, userId);
+    const documents = await storage.getDocumentsByAppeal(appeal.id);
+
+    return (await storage.updateAppeal(appeal.id, { letter: this.buildLetter(values, documents) })) || appeal;
+  }
+
+  async updateDraft(appealId: number, updates: AppealDraftUpdates): Promise<Appeal> {
+    const appeal = await this.loadAppeal(appealId);
+    this.requireStatus(appeal, ['draft'], 'Only a draft appeal can be edited');
+    return (await storage.updateAppeal(appeal.id, updates)) || appeal;
+  }
+
+  // File documents already uploaded to the authorization with the appeal
+  async attachDocuments(appealId: number, documentIds: number[]): Promise<Document[]> {
+    const appeal = await this.loadAppeal(appealId);
+    this.requireStatus(appeal, ['draft', 'submitted'], 'Documents can only be attached to an open appeal');
+
+    const documents = await storage.getDocumentsByAuthorization(appeal.authorizationId);
+    const ids = new Set(documents.map(doc => doc.id));
+    if (documentIds.some(id => !ids.has(id))) {
+      throw new AppealStateError('One or more documents are not attached to this authorization');
+    }
+
+    return storage.assignDocumentsToAppeal(documentIds, appeal.id);
+  }
+
+  // File the appeal with the payer; the authorization moves to 'appealed' and the payer's response clock starts
+  async submit(appealId: number, userId: number, payerReferenceNumber?: string): Promise<Appeal> {
+    const appeal = await this.loadAppeal(appealId);
+    this.requireStatus(appeal, ['draft'], 'This appeal has already been submitted');
+    if (!appeal.letter?.trim()) {
+      throw new AppealStateError('An appeal letter is required before submitting');
+    }
+
+    const level = APPEAL_LEVEL_LABELS[appeal.level as AppealLevel] || appeal.level;
+    await authorizationStatusService.transition(appeal.authorizationId, 'appealed', {
+      userId,
+      source: 'user',
+      note: `${level} submitted`,
+    });
+
+    const now = new Date();
+    const responseDays = appeal.expedited ? APPEAL_RESPONSE_DAYS.expedited : APPEAL_RESPONSE_DAYS.standard;
+    return (await storage.updateAppeal(appeal.id, {
+      status: 'submitted',
+      submittedDate: now,
+      responseDueDate: new Date(now.getTime() + responseDays * DAY_MS),
+      payerReferenceNumber: payerReferenceNumber ?? appeal.payerReferenceNumber,
+    })) || appeal;
+  }
+
+  // Close the appeal with the payer's decision and move the authorization to match it
+  async recordOutcome(appealId: number, userId: number, input: AppealOutcomeInput): Promise<Appeal> {
+    const appeal = await this.loadAppeal(appealId);
+    this.requireStatus(appeal, ['submitted'], 'Only a submitted appeal can be decided');
+
+    const updates: Partial<InsertPriorAuthorization> = {};
+    if (input.authorizationNumber) updates.authorizationNumber = input.authorizationNumber;
+    if (input.expirationDate) updates.expirationDate = input.expirationDate;
+    if (input.denialReason) updates.denialReason = input.denialReason;
+
+    await authorizationStatusService.transition(appeal.authorizationId, APPEAL_OUTCOME_STATUS[input.outcome], {
+      userId,
+      source: 'user',
+      note: `${APPEAL_LEVEL_LABELS[appeal.level as AppealLevel] || appeal.level}: ${APPEAL_OUTCOME_LABELS[input.outcome]}${input.notes ? ` - ${input.notes}` : ''}`,
+      updates,
+    });
+
+    return (await storage.updateAppeal(appeal.id, {
+      status: 'decided',
+      outcome: input.outcome,
+      outcomeDate: new Date(),
+      outcomeNotes: input.notes ?? null,
+    })) || appeal;
+  }
+
+  // Withdraw an open appeal. A submitted appeal returns the authorization to the decision it appealed.
+  async withdraw(appealId: number, userId: number, reason: string): Promise<Appeal> {
+    const appeal = await this.loadAppeal(appealId);
+    this.requireStatus(appeal, ['draft', 'submitted'], 'Only an open appeal can be withdrawn');
+
+    if (appeal.status === 'submitted') {
+      const history = await storage.getStatusHistoryByAuthorization(appeal.authorizationId);
+      const appealed = [...history].reverse().find(entry => entry.toStatus === 'appealed');
+      const previous = appealed?.fromStatus ? normalizeAuthorizationStatus(appealed.fromStatus) : 'denied';
+      await authorizationStatusService.transition(appeal.authorizationId, previous, {
+        userId,
+        source: 'user',
+        note: `Appeal withdrawn: ${reason}`,
+      });
+    }
+
+    return (await storage.updateAppeal(appeal.id, { status: 'withdrawn', outcomeNotes: reason })) || appeal;
+  }
+
+  private async loadAppeal(appealId: number): Promise<Appeal> {
+    const appeal = await storage.getAppeal(appealId);
+    if (!appeal) {
+      throw new Error('Appeal not found');
+    }
+    return appeal;
+  }
+
+  private async loadAuthorization(authorizationId: number): Promise<PriorAuthorization> {
+    const authorization = await storage.getPriorAuthorization(authorizationId);
+    if (!authorization) {
+      throw new Error('Authorization not found');
+    }
+    return authorization;
+  }
+
+  private requireStatus(appeal: Appeal, statuses: string[], message: string) {
+    if (!statuses.includes(appeal.status)) {
+      throw new AppealStateError(message);
+    }
+  }
+
+  // Values shared by the appeal letter and state appeal forms, keyed by form field name
+  private async appealValues(
+    authorization: PriorAuthorization,
+    patient: Patient | undefined,
+    level: AppealLevel,
+    userId: number
+  ): Promise<Record<string, string>> {
+    const [{ patientInsurance, provider }, user, history] = await Promise.all([
+      insuranceService.resolveCoverage(authorization),
+      storage.getUser(userId),
+      storage.getStatusHistoryByAuthorization(authorization.id),
+    ]);
+    const decision = [...history].reverse().find(entry => APPEALABLE_STATUSES.includes(entry.toStatus as AuthorizationStatus));
+
+    return {
+      appealLevel: APPEAL_LEVEL_LABELS[level],
+      letterDate: new Date().toLocaleDateString(),
+      patientName: patient ? `${patient.firstName} ${patient.lastName}` : '',
+      patientDateOfBirth: patient ? patient.dateOfBirth.toLocaleDateString() : '',
+      memberId: patientInsurance?.memberId || '',
+      groupNumber: patientInsurance?.groupNumber || '',
+      payerName: provider?.name || '',
+      authorizationId: authorization.authorizationId,
+      payerReferenceNumber: authorization.payerReferenceNumber || '',
+      treatmentType: authorization.treatmentType,
+      cptCodes: authorization.cptCodes.join(', '),
+      icd10Codes: authorization.icd10Codes.join(', '),
+      decisionDate: decision ? decision.createdAt.toLocaleDateString() : '',
+      denialReason: authorization.denialReason || '',
+      clinicalJustification: authorization.clinicalJustification,
+      providerNotes: authorization.providerNotes || '',
+      providerName: user ? `${user.firstName} ${user.lastName}` : '',
+    };
+  }
+
+  private buildLetter(values: Record<string, string>, documents: Document[]): string {
+    const lines = [
+      values.letterDate,
+      '',
+      values.payerName ? `${values.payerName}\nAppeals Department` : 'Appeals Department',
+      '',
+      `Re: ${values.appealLevel} - Prior Authorization ${values.authorizationId}`,
+      `Patient: ${values.patientName}${values.patientDateOfBirth ? ` (DOB ${values.patientDateOfBirth})` : ''}`,
+      ...(values.memberId ? [`Member ID: ${values.memberId}${values.groupNumber ? `, Group ${values.groupNumber}` : ''}`] : []),
+      ...(values.payerReferenceNumber ? [`Payer Reference: ${values.payerReferenceNumber}`] : []),
+      `Service: ${values.treatmentType} (CPT ${values.cptCodes})`,
+      `Diagnoses: ${values.icd10Codes}`,
+      '',
+      'To the Appeals Reviewer:',
+      '',
+      `I am requesting a ${values.appealLevel.toLowerCase()} of the decision${values.decisionDate ? ` dated ${values.decisionDate}` : ''} on the prior authorization request above.`,
+      '',
+      `Reason given for the decision: ${values.denialReason || 'No reason was provided.'}`,
+      '',
+      'Clinical justification:',
+      values.clinicalJustification,
+      ...(values.providerNotes ? ['', 'Additional notes:', values.providerNotes] : []),
+      ...(documents.length > 0 ? ['', 'Enclosed documentation:', ...documents.map(doc => `- ${doc.fileName}`)] : []),
+      '',
+      'The requested service is medically necessary for this patient. I ask that the decision be reconsidered and the service approved as requested.',
+      '',
+      'Sincerely,',
+      values.providerName,
+    ];
+    return lines.join('\n');
+  }
+
+  // State form templates list their fields either as [{ name }] or as an object keyed by field name
+  private fillTemplate(template: StateFormTemplate, values: Record<string, string>): Record<string, string> {
+    const fields = template.fields as Array<{ name?: string }> | Record<string, unknown> | null;
+    const names = Array.isArray(fields)
+      ? fields.map(field => field?.name).filter((name): name is string => typeof name === 'string')
+      : Object.keys(fields || {});
+    return Object.fromEntries(names.map(name => [name, values[name] ?? '']));
+  }
+}
+
+export const appealService = new AppealService();
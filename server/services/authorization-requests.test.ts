@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AuthorizationServiceLine, InsertAuthorizationServiceLine, PriorAuthorization } from "@shared/schema";
+
+const authorizations = new Map<number, PriorAuthorization>();
+let serviceLines: AuthorizationServiceLine[] = [];
+
+vi.mock("../db", () => ({ db: {} }));
+vi.mock("./utilization", () => ({ utilizationService: {} }));
+vi.mock("../storage", () => ({
+  storage: {
+    getPriorAuthorization: async (id: number) => authorizations.get(id),
+    updatePriorAuthorization: async (id: number, updates: Partial<PriorAuthorization>) => {
+      const updated = { ...authorizations.get(id)!, ...updates };
+      authorizations.set(id, updated);
+      return updated;
+    },
+    getServiceLinesByAuthorization: async (authorizationId: number) =>
+      serviceLines.filter(line => line.authorizationId === authorizationId),
+    replaceServiceLines: async (authorizationId: number, lines: InsertAuthorizationServiceLine[]) => {
+      serviceLines = lines.map((line, index) => ({ id: index + 1, status: "requested", ...line }) as AuthorizationServiceLine);
+      return serviceLines;
+    },
+    getIcd10CodeByCode: async (code: string) => ({ icd10Code: code, isActive: true }),
+    getProcedureCodeByCPT: async (code: string) => ({ cptCode: code, isActive: true }),
+  },
+}));
+
+const { authorizationRequestService } = await import("./authorization-requests");
+const { ServiceLineError } = await import("./service-lines");
+
+function useAuthorization(lineStatus = "requested") {
+  const authorization = {
+    id: 1,
+    icd10Codes: ["M54.5", "M51.26", "G89.29"],
+    cptCodes: ["72148", "97110"],
+  } as PriorAuthorization;
+  authorizations.set(authorization.id, authorization);
+  serviceLines = [
+    { id: 1, authorizationId: 1, lineNumber: 1, cptCode: "72148", modifiers: [], units: 1, diagnosisPointers: [1, 2], placeOfService: "11", status: lineStatus },
+    { id: 2, authorizationId: 1, lineNumber: 2, cptCode: "97110", modifiers: [], units: 8, diagnosisPointers: [3], placeOfService: "11", status: "requested" },
+  ] as AuthorizationServiceLine[];
+  return authorization;
+}
+
+const pointedCodes = (authorization: PriorAuthorization) =>
+  serviceLines.map(line => line.diagnosisPointers.map(pointer => authorization.icd10Codes[pointer - 1]));
+
+describe("updating an authorization's diagnoses", () => {
+  beforeEach(() => {
+    authorizations.clear();
+  });
+
+  it("keeps each line on the same diagnoses when the codes are reordered", async () => {
+    const authorization = useAuthorization();
+
+    const updated = await authorizationRequestService.update(authorization, { icd10Codes: ["M54.5", "G89.29", "M51.26"] });
+
+    expect(updated.icd10Codes).toEqual(["M54.5", "G89.29", "M51.26"]);
+    expect(serviceLines.map(line => line.diagnosisPointers)).toEqual([[1, 3], [2]]);
+    expect(pointedCodes(updated)).toEqual([["M54.5", "M51.26"], ["G89.29"]]);
+  });
+
+  it("drops pointers at a removed code and renumbers the rest", async () => {
+    const authorization = useAuthorization();
+
+    const updated = await authorizationRequestService.update(authorization, { icd10Codes: ["M54.5", "G89.29"] });
+
+    expect(pointedCodes(updated)).toEqual([["M54.5"], ["G89.29"]]);
+  });
+
+  it("refuses to remove the only diagnosis a line points at", async () => {
+    const authorization = useAuthorization();
+
+    await expect(authorizationRequestService.update(authorization, { icd10Codes: ["M54.5", "M51.26"] }))
+      .rejects.toThrow(/Line 2 only points at diagnoses removed/);
+  });
+
+  it("refuses to change the diagnoses once the payer has decided a line", async () => {
+    const authorization = useAuthorization("approved");
+
+    await expect(authorizationRequestService.update(authorization, { icd10Codes: ["M54.5", "G89.29", "M51.26"] }))
+      .rejects.toThrow(ServiceLineError);
+    expect(serviceLines.map(line => line.diagnosisPointers)).toEqual([[1, 2], [3]]);
+  });
+});
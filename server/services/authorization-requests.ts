@@ -0,0 +1,124 @@
+import type { InsertPriorAuthorization, PriorAuthorization } from "@shared/schema";
+import {
+  orderDiagnoses,
+  remapDiagnosisPointers,
+  type AuthorizationRequestInput,
+  type AuthorizationUpdateInput,
+} from "@shared/authorization-request";
+import { storage } from "../storage";
+import { serviceLineService, ServiceLineError } from "./service-lines";
+
+export interface CodeIssue {
+  field: 'icd10Codes' | 'serviceLines';
+  code: string;
+  message: string;
+}
+
+// Raised when a request names codes that are not in the procedure or ICD-10 code tables
+export class AuthorizationRequestError extends Error {
+  constructor(message: string, public readonly issues: CodeIssue[] = []) {
+    super(message);
+    this.name = 'AuthorizationRequestError';
+  }
+}
+
+export class AuthorizationRequestService {
+  async create(input: AuthorizationRequestInput, userId: number): Promise<PriorAuthorization> {
+    const { primaryIcd10Code, serviceLines: requestedLines, ...fields } = input;
+    const { icd10Codes, serviceLines } = orderDiagnoses(input.icd10Codes, requestedLines, primaryIcd10Code);
+    await this.validateCodes(icd10Codes, serviceLines.map(line => line.cptCode));
+
+    const authorization = await storage.createPriorAuthorization({
+      ...fields,
+      icd10Codes,
+      cptCodes: Array.from(new Set(serviceLines.map(line => line.cptCode))),
+      authorizationId: `AUTH-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`,
+      requestedDate: input.requestedDate || new Date(),
+      urgentRequest: input.urgentRequest || false,
+      submittedBy: userId,
+    });
+    await serviceLineService.replace(authorization, serviceLines);
+    await storage.createStatusHistoryEntry({
+      authorizationId: authorization.id,
+      fromStatus: null,
+      toStatus: authorization.status,
+      source: 'user',
+      changedBy: userId,
+    });
+
+    return (await storage.getPriorAuthorization(authorization.id)) || authorization;
+  }
+
+  // Diagnoses and lines are validated together; whichever the update leaves out is taken from the
+  // authorization. Lines are fixed once the payer has decided any of them.
+  async update(authorization: PriorAuthorization, input: AuthorizationUpdateInput): Promise<PriorAuthorization> {
+    const { primaryIcd10Code, serviceLines: requestedLines, icd10Codes: requestedCodes, ...fields } = input;
+    const updates: Partial<InsertPriorAuthorization> = { ...fields };
+
+    if (!requestedCodes && !requestedLines) {
+      return (await storage.updatePriorAuthorization(authorization.id, updates)) || authorization;
+    }
+
+    const existingLines = await serviceLineService.forAuthorization(authorization);
+    const requestedOrder = requestedCodes || authorization.icd10Codes;
+    // Without new lines the existing ones follow their diagnoses by code into the new list
+    const currentLines = requestedLines || remapDiagnosisPointers(authorization.icd10Codes, requestedOrder, existingLines.map(line => ({
+      cptCode: line.cptCode,
+      modifiers: line.modifiers,
+      units: line.units,
+      diagnosisPointers: line.diagnosisPointers,
+      placeOfService: line.placeOfService ?? undefined,
+    })));
+    const { icd10Codes, serviceLines } = orderDiagnoses(requestedOrder, currentLines, primaryIcd10Code);
+
+    // Any change to the diagnoses renumbers the existing lines' pointers, so it rewrites them too
+    const rewritesLines = !!requestedLines || icd10Codes.join(',') !== authorization.icd10Codes.join(',');
+    if (rewritesLines && existingLines.some(line => line.status !== 'requested')) {
+      throw new ServiceLineError('Service lines cannot be changed once the payer has decided any of them');
+    }
+    // Lines backfilled without diagnoses have no pointers to lose
+    const orphaned = requestedLines ? -1 : currentLines.findIndex((line, index) =>
+      line.diagnosisPointers.length === 0 && existingLines[index].diagnosisPointers.length > 0);
+    if (orphaned >= 0) {
+      throw new ServiceLineError(`Line ${orphaned + 1} only points at diagnoses removed from the request; send the service lines with the new ICD-10 codes`);
+    }
+
+    serviceLineService.validate(serviceLines, icd10Codes);
+    await this.validateCodes(icd10Codes, serviceLines.map(line => line.cptCode));
+
+    updates.icd10Codes = icd10Codes;
+    const updated = (await storage.updatePriorAuthorization(authorization.id, updates)) || authorization;
+    if (rewritesLines) {
+      await serviceLineService.replace(updated, serviceLines);
+    }
+    return (await storage.getPriorAuthorization(authorization.id)) || updated;
+  }
+
+  // Every code must exist, active, in the procedure and ICD-10 code tables
+  async validateCodes(icd10Codes: string[], cptCodes: string[]) {
+    const [diagnoses, procedures] = await Promise.all([
+      Promise.all(icd10Codes.map(code => storage.getIcd10CodeByCode(code))),
+      Promise.all(Array.from(new Set(cptCodes)).map(async code => ({ code, procedure: await storage.getProcedureCodeByCPT(code) }))),
+    ]);
+
+    const issues: CodeIssue[] = [
+      ...icd10Codes.flatMap((code, index): CodeIssue[] => {
+        const diagnosis = diagnoses[index];
+        if (!diagnosis) return [{ field: 'icd10Codes', code, message: `ICD-10 code ${code} is not recognized` }];
+        if (!diagnosis.isActive) return [{ field: 'icd10Codes', code, message: `ICD-10 code ${code} is no longer active` }];
+        return [];
+      }),
+      ...procedures.flatMap(({ code, procedure }): CodeIssue[] => {
+        if (!procedure) return [{ field: 'serviceLines', code, message: `CPT code ${code} is not recognized` }];
+        if (!procedure.isActive) return [{ field: 'serviceLines', code, message: `CPT code ${code} is no longer active` }];
+        return [];
+      }),
+    ];
+
+    if (issues.length > 0) {
+      throw new AuthorizationRequestError(issues.map(issue => issue.message).join('; '), issues);
+    }
+  }
+}
+
+export const authorizationRequestService = new AuthorizationRequestService();
@@ -0,0 +1,121 @@
+import type { InsertPriorAuthorization, PriorAuthorization } from "@shared/schema";
+import {
+  AUTHORIZATION_STATUS_LABELS,
+  STATUS_NOTE_REQUIRED,
+  STATUS_REQUIRED_FIELDS,
+  STATUS_TRANSITIONS,
+  normalizeAuthorizationStatus,
+  type AuthorizationStatus,
+  type StatusChangeSource,
+} from "@shared/authorization-status";
+import { storage } from "../storage";
+
+export interface StatusChangeOptions {
+  userId?: number;
+  source: StatusChangeSource;
+  note?: string;
+  // Authorization fields set together with the status, e.g. the authorization number on approval
+  updates?: Partial<InsertPriorAuthorization>;
+}
+
+// Raised when a status change is not allowed, or the authorization lacks what the new status needs
+export class StatusTransitionError extends Error {
+  constructor(message: string, public readonly missing: string[] = []) {
+    super(message);
+    this.name = 'StatusTransitionError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Used when neither the payer nor the user supplies an appeal deadline
+const DEFAULT_APPEAL_WINDOW_DAYS = parseInt(process.env.DEFAULT_APPEAL_WINDOW_DAYS || '180');
+
+const FIELD_LABELS: Record<string, string> = {
+  authorizationNumber: 'authorization number',
+  expirationDate: 'expiration date',
+  denialReason: 'denial reason',
+  note: 'note',
+};
+
+export class AuthorizationStatusService {
+  // Move an authorization to a new status, applying the lifecycle's guards and side effects.
+  // Re-applying the current status only saves the accompanying updates.
+  async transition(authorizationId: number, toStatus: AuthorizationStatus, options: StatusChangeOptions): Promise<PriorAuthorization> {
+    const authorization = await storage.getPriorAuthorization(authorizationId);
+    if (!authorization) {
+      throw new Error('Authorization not found');
+    }
+
+    const fromStatus = normalizeAuthorizationStatus(authorization.status, authorization.submittedDate);
+    const updates: Partial<InsertPriorAuthorization> = { ...options.updates };
+
+    if (fromStatus === toStatus) {
+      if (Object.keys(updates).length === 0) return authorization;
+      return (await storage.updatePriorAuthorization(authorizationId, updates)) || authorization;
+    }
+
+    if (!STATUS_TRANSITIONS[fromStatus].includes(toStatus)) {
+      throw new StatusTransitionError(
+        `Cannot move an authorization from ${AUTHORIZATION_STATUS_LABELS[fromStatus]} to ${AUTHORIZATION_STATUS_LABELS[toStatus]}`
+      );
+    }
+
+    const merged = { ...authorization, ...updates };
+    const missing: string[] = (STATUS_REQUIRED_FIELDS[toStatus] || []).filter(field => !merged[field]);
+    if (options.source === 'user' && STATUS_NOTE_REQUIRED.includes(toStatus) && !options.note?.trim()) {
+      missing.push('note');
+    }
+    if (missing.length > 0) {
+      throw new StatusTransitionError(
+        `${AUTHORIZATION_STATUS_LABELS[toStatus]} requires ${missing.map(field => FIELD_LABELS[field]).join(', ')}`,
+        missing
+      );
+    }
+
+    Object.assign(updates, this.sideEffects(toStatus, authorization, updates));
+
+    const updated = await storage.updatePriorAuthorization(authorizationId, { ...updates, status: toStatus });
+
+    await storage.createStatusHistoryEntry({
+      authorizationId,
+      fromStatus,
+      toStatus,
+      source: options.source,
+      note: options.note || null,
+      changedBy: options.userId ?? null,
+    });
+
+    return updated || authorization;
+  }
+
+  // Fields the lifecycle fills in when an authorization enters a status, unless the caller supplied them
+  private sideEffects(
+    toStatus: AuthorizationStatus,
+    authorization: PriorAuthorization,
+    updates: Partial<InsertPriorAuthorization>
+  ): Partial<InsertPriorAuthorization> {
+    const now = new Date();
+    switch (toStatus) {
+      case 'submitted':
+        return authorization.submittedDate || updates.submittedDate ? {} : { submittedDate: now };
+      case 'approved':
+        return updates.approvalDate ? {} : { approvalDate: now };
+      case 'partially_approved':
+        return {
+          ...(updates.approvalDate ? {} : { approvalDate: now }),
+          ...this.appealWindow(now, updates),
+        };
+      case 'denied':
+        // Each denial, including one upheld on appeal, opens a new appeal window
+        return this.appealWindow(now, updates);
+      default:
+        return {};
+    }
+  }
+
+  private appealWindow(now: Date, updates: Partial<InsertPriorAuthorization>): Partial<InsertPriorAuthorization> {
+    return updates.appealDeadline ? {} : { appealDeadline: new Date(now.getTime() + DEFAULT_APPEAL_WINDOW_DAYS * DAY_MS) };
+  }
+}
+
+export const authorizationStatusService = new AuthorizationStatusService();
@@ -0,0 +1,179 @@
+import type { Document, PayerSubmission, PeerToPeerReview, PriorAuthStatusHistory, PriorAuthWorkflowStep } from "@shared/schema";
+import {
+  AUTHORIZATION_STATUS_LABELS,
+  STATUS_CHANGE_SOURCE_LABELS,
+  normalizeAuthorizationStatus,
+  type StatusChangeSource,
+} from "@shared/authorization-status";
+import { DOCUMENT_TYPE_LABELS, type DocumentType } from "@shared/payer-requirements";
+import type { WorkflowStepTransition } from "@shared/workflow-definitions";
+import { PEER_TO_PEER_OUTCOME_LABELS, type PeerToPeerOutcome } from "@shared/peer-to-peer";
+import type { TimelineActor, TimelineEvent } from "@shared/authorization-timeline";
+import { storage } from "../storage";
+
+const STEP_ACTION_LABELS: Record<string, string> = {
+  complete: 'completed',
+  skip: 'skipped',
+  reopen: 'reopened',
+  revert: 'reverted',
+};
+
+const PAYER_OPERATION_LABELS: Record<string, string> = {
+  submit: 'Submitted to payer',
+  check_status: 'Payer status check',
+  cancel: 'Cancellation sent to payer',
+  attach_documents: 'Documents sent to payer',
+  ingest_response: 'Payer response imported',
+};
+
+export class AuthorizationTimelineService {
+  // Status changes, workflow step activity, documents, payer exchanges and peer-to-peer reviews for an authorization, oldest first
+  async forAuthorization(authorizationId: number): Promise<TimelineEvent[]> {
+    const [history, steps, documents, submissions, reviews] = await Promise.all([
+      storage.getStatusHistoryByAuthorization(authorizationId),
+      storage.getPriorAuthWorkflowSteps(authorizationId),
+      storage.getDocumentsByAuthorization(authorizationId),
+      storage.getPayerSubmissionsByAuthorization(authorizationId),
+      storage.getPeerToPeerReviewsByAuthorization(authorizationId),
+    ]);
+
+    const actors = await this.loadActors([
+      ...history.map(entry => entry.changedBy),
+      ...steps.flatMap(step => [step.completedBy, ...this.stepTransitions(step).map(transition => transition.userId)]),
+      ...documents.map(doc => doc.uploadedBy),
+      ...submissions.map(submission => submission.performedBy),
+      ...reviews.flatMap(review => [review.createdBy, review.assignedDoctorId]),
+    ]);
+    const actor = (userId: number | null | undefined) => (userId != null && actors.get(userId)) || null;
+
+    const events: TimelineEvent[] = [
+      ...history.map(entry => this.statusEvent(entry, actor(entry.changedBy))),
+      ...steps.flatMap(step => this.stepEvents(step, actor)),
+      ...documents.map(doc => this.documentEvent(doc, actor(doc.uploadedBy))),
+      ...submissions.map(submission => this.payerEvent(submission, actor(submission.performedBy))),
+      ...reviews.flatMap(review => this.peerToPeerEvents(review, actor)),
+    ];
+
+    return events.sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  private statusEvent(entry: PriorAuthStatusHistory, actor: TimelineActor | null): TimelineEvent {
+    const to = AUTHORIZATION_STATUS_LABELS[normalizeAuthorizationStatus(entry.toStatus)];
+    return {
+      id: `status-${entry.id}`,
+      kind: 'status',
+      at: entry.createdAt.toISOString(),
+      title: entry.fromStatus
+        ? `Status changed from ${AUTHORIZATION_STATUS_LABELS[normalizeAuthorizationStatus(entry.fromStatus)]} to ${to}`
+        : `Created as ${to}`,
+      detail: entry.note || undefined,
+      source: STATUS_CHANGE_SOURCE_LABELS[entry.source as StatusChangeSource] || entry.source,
+      actor,
+    };
+  }
+
+  // One event per completion, skip, reopen and revert. Automatic moves (the workflow advancing,
+  // later steps reset by a revert) are left out; steps completed before transitions were kept
+  // fall back to their completion time.
+  private stepEvents(step: PriorAuthWorkflowStep, actor: (userId: number | null | undefined) => TimelineActor | null): TimelineEvent[] {
+    const transitions = this.stepTransitions(step);
+
+    if (transitions.length === 0) {
+      if (step.status !== 'completed' || !step.completedAt) return [];
+      return [{
+        id: `step-${step.id}-completed`,
+        kind: 'workflow_step',
+        at: step.completedAt.toISOString(),
+        title: `Step ${step.stepNumber} ${step.stepName} completed`,
+        detail: step.notes || undefined,
+        actor: actor(step.completedBy),
+      }];
+    }
+
+    return transitions
+      .map((transition, index) => ({ transition, index }))
+      .filter(({ transition }) => transition.action !== 'advance' && transition.toStatus !== 'pending')
+      .map(({ transition, index }) => ({
+        id: `step-${step.id}-${index}`,
+        kind: 'workflow_step' as const,
+        at: transition.at,
+        title: `Step ${step.stepNumber} ${step.stepName} ${STEP_ACTION_LABELS[transition.action] || transition.action}`,
+        detail: transition.reason,
+        actor: actor(transition.userId),
+      }));
+  }
+
+  private documentEvent(doc: Document, actor: TimelineActor | null): TimelineEvent {
+    const type = doc.documentType ? DOCUMENT_TYPE_LABELS[doc.documentType as DocumentType] : undefined;
+    return {
+      id: `document-${doc.id}`,
+      kind: 'document',
+      at: doc.createdAt.toISOString(),
+      title: `Document uploaded: ${doc.fileName}`,
+      detail: type,
+      actor,
+    };
+  }
+
+  private payerEvent(submission: PayerSubmission, actor: TimelineActor | null): TimelineEvent {
+    const operation = PAYER_OPERATION_LABELS[submission.operation] || submission.operation;
+    return {
+      id: `payer-${submission.id}`,
+      kind: 'payer_message',
+      at: submission.createdAt.toISOString(),
+      title: submission.status === 'error' ? `${operation} failed` : `${operation}: ${submission.status}`,
+      detail: submission.errorMessage || submission.message || undefined,
+      source: submission.payerCode,
+      actor,
+    };
+  }
+
+  // The request, and the call once it has been held or called off
+  private peerToPeerEvents(review: PeerToPeerReview, actor: (userId: number | null | undefined) => TimelineActor | null): TimelineEvent[] {
+    const events: TimelineEvent[] = [{
+      id: `p2p-${review.id}-requested`,
+      kind: 'peer_to_peer',
+      at: review.requestedAt.toISOString(),
+      title: 'Peer-to-peer review requested',
+      detail: review.reviewerName ? `Payer reviewer: ${review.reviewerName}` : undefined,
+      actor: actor(review.createdBy),
+    }];
+
+    if (review.status === 'completed' && review.completedAt) {
+      events.push({
+        id: `p2p-${review.id}-completed`,
+        kind: 'peer_to_peer',
+        at: review.completedAt.toISOString(),
+        title: `Peer-to-peer review held: ${PEER_TO_PEER_OUTCOME_LABELS[review.outcome as PeerToPeerOutcome] || review.outcome}`,
+        actor: actor(review.assignedDoctorId),
+      });
+    } else if (review.status === 'cancelled') {
+      events.push({
+        id: `p2p-${review.id}-cancelled`,
+        kind: 'peer_to_peer',
+        at: review.updatedAt.toISOString(),
+        title: 'Peer-to-peer review cancelled',
+        detail: review.cancellationReason || undefined,
+        actor: null,
+      });
+    }
+
+    return events;
+  }
+
+  private stepTransitions(step: PriorAuthWorkflowStep): WorkflowStepTransition[] {
+    return (step.transitions as WorkflowStepTransition[] | null) || [];
+  }
+
+  private async loadActors(userIds: (number | null | undefined)[]): Promise<Map<number, TimelineActor>> {
+    const ids = Array.from(new Set(userIds.filter((id): id is number => id != null)));
+    const users = await Promise.all(ids.map(id => storage.getUser(id)));
+    const actors = new Map<number, TimelineActor>();
+    for (const user of users) {
+      if (user) actors.set(user.id, { id: user.id, name: `${user.firstName} ${user.lastName}` });
+    }
+    return actors;
+  }
+}
+
+export const authorizationTimelineService = new AuthorizationTimelineService();
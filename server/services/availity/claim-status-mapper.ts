@@ -0,0 +1,97 @@
+import type { InsuranceProvider, Patient } from "@shared/schema";
+import type { NormalizedClaimStatus } from "../claim-status";
+import type { ClaimStatus, ClaimStatusDetail, ClaimStatusSearch } from "./claim-statuses";
+import { availityPayerId } from "./service-review-mapper";
+import type { ServiceReviewProvider } from "./service-reviews";
+
+export interface ClaimStatusSearchInput {
+  patient: Patient;
+  provider: InsuranceProvider;
+  requestingProvider: ServiceReviewProvider;
+  memberId: string;
+  fromDate: string;
+  toDate?: string;
+  claimNumber?: string;
+}
+
+// 277 categories for finalized claims that were denied or will not be paid
+const DENIAL_CATEGORIES = ['F2', 'F4'];
+// 277 claim status code 84: "Service not authorized"
+const NOT_AUTHORIZED_STATUS_CODES = ['84'];
+const NO_AUTHORIZATION_PATTERN = /(no|not|without|missing|absent|invalid)\b[^.]*\b(authori[sz]|pre-?cert|referral)|(authori[sz]ation|pre-?cert\w*)[^.]*\b(absent|missing|not obtained|not on file|required)/i;
+
+function formatDate(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+  return date.toISOString().split('T')[0];
+}
+
+export function buildClaimStatusSearch(input: ClaimStatusSearchInput): ClaimStatusSearch {
+  const { patient, provider, requestingProvider } = input;
+  const gender = (patient.gender || '').trim().toUpperCase();
+
+  return {
+    'payer.id': availityPayerId(provider),
+    'providers.lastName': requestingProvider.lastName,
+    'providers.firstName': requestingProvider.firstName,
+    'providers.npi': requestingProvider.npi,
+    'providers.taxId': requestingProvider.taxId,
+    'subscriber.memberId': input.memberId,
+    'subscriber.lastName': patient.lastName,
+    'subscriber.firstName': patient.firstName,
+    'patient.lastName': patient.lastName,
+    'patient.firstName': patient.firstName,
+    'patient.birthDate': formatDate(patient.dateOfBirth),
+    'patient.genderCode': gender.startsWith('M') ? 'M' : gender.startsWith('F') ? 'F' : undefined,
+    'patient.subscriberRelationshipCode': '18', // Self
+    fromDate: input.fromDate,
+    toDate: input.toDate || input.fromDate,
+    claimNumber: input.claimNumber,
+  };
+}
+
+// True when a status detail is a denial for missing or invalid authorization
+export function isNoAuthorizationDenial(detail: ClaimStatusDetail): boolean {
+  if (!DENIAL_CATEGORIES.includes((detail.categoryCode || '').toUpperCase())) {
+    return false;
+  }
+  return NOT_AUTHORIZED_STATUS_CODES.includes(detail.statusCode || '')
+    || NO_AUTHORIZATION_PATTERN.test(detail.status || '');
+}
+
+// Flattens a claim status lookup into one entry per claim the payer reported
+export function normalizeClaimStatus(claimStatus: ClaimStatus): NormalizedClaimStatus[] {
+  return (claimStatus.claimStatuses || []).map(result => {
+    const details = result.statusDetails || [];
+    const primary = details[0] || {};
+    const serviceLines = (result.serviceLines || []).map(line => {
+      const lineStatus = line.statusDetails?.[0] || {};
+      return {
+        procedureCode: line.procedureCode,
+        categoryCode: lineStatus.categoryCode,
+        statusCode: lineStatus.statusCode,
+        status: lineStatus.status,
+        chargeAmount: line.chargeAmount,
+        paymentAmount: line.paymentAmount,
+        authorizationDenial: (line.statusDetails || []).some(isNoAuthorizationDenial),
+      };
+    });
+
+    return {
+      claimNumber: result.claimControlNumber,
+      patientControlNumber: result.patientControlNumber,
+      serviceFromDate: result.fromDate,
+      serviceToDate: result.toDate,
+      categoryCode: primary.categoryCode,
+      category: primary.category,
+      statusCode: primary.statusCode,
+      status: primary.status,
+      claimAmount: primary.claimAmount,
+      paymentAmount: primary.paymentAmount,
+      finalizedDate: primary.finalizedDate,
+      serviceLines,
+      authorizationDenial: details.some(isNoAuthorizationDenial) || serviceLines.some(line => line.authorizationDenial),
+    };
+  });
+}
@@ -0,0 +1,157 @@
+import { AvailityClient, delay, type AvailityResponse } from "./client";
+
+// Types for Availity Claim Statuses 1.0.0 (attached_assets/Claim_Statuses-1.0.0_*.json)
+
+export interface ClaimStatusDetail {
+  category?: string;
+  categoryCode?: string;
+  status?: string;
+  statusCode?: string;
+  entity?: string;
+  entityCode?: string;
+  effectiveDate?: string;
+  claimAmount?: string;
+  claimAmountUnits?: string;
+  paymentAmount?: string;
+  paymentAmountUnits?: string;
+  finalizedDate?: string;
+  remittanceDate?: string;
+  checkNumber?: string;
+}
+
+export interface ClaimServiceLine {
+  procedureQualifierCode?: string;
+  procedure?: string;
+  procedureCode?: string;
+  modifier1Code?: string;
+  modifier2Code?: string;
+  modifier3Code?: string;
+  modifier4Code?: string;
+  chargeAmount?: string;
+  paymentAmount?: string;
+  quantity?: string;
+  controlNumber?: string;
+  fromDate?: string;
+  toDate?: string;
+  statusDetails?: ClaimStatusDetail[];
+}
+
+export interface ClaimStatusResult {
+  traceId?: string;
+  claimControlNumber?: string;
+  patientControlNumber?: string;
+  voucherNumber?: string;
+  claimIdentificationNumber?: string;
+  fromDate?: string;
+  toDate?: string;
+  statusDetails?: ClaimStatusDetail[];
+  serviceLines?: ClaimServiceLine[];
+}
+
+export interface ClaimStatusPerson {
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+  suffix?: string;
+  memberId?: string;
+  birthDate?: string;
+  genderCode?: string;
+  accountNumber?: string;
+}
+
+export interface ClaimStatus {
+  id?: string;
+  customerId?: string;
+  controlNumber?: string;
+  status?: string;
+  statusCode?: string;
+  createdDate?: string;
+  updatedDate?: string;
+  expirationDate?: string;
+  fromDate?: string;
+  toDate?: string;
+  claimNumber?: string;
+  claimAmount?: string;
+  payer?: { id?: string; name?: string };
+  subscriber?: ClaimStatusPerson;
+  patient?: ClaimStatusPerson;
+  claimStatuses?: ClaimStatusResult[];
+  claimCount?: string;
+  [key: string]: unknown;
+}
+
+export interface ClaimStatusSummary {
+  id?: string;
+  status?: string;
+  statusCode?: string;
+  fromDate?: string;
+  toDate?: string;
+  claimNumber?: string;
+  claimAmount?: string;
+  claimCount?: string;
+}
+
+export interface ClaimStatusResultSet {
+  totalCount?: number;
+  count?: number;
+  offset?: number;
+  limit?: number;
+  claimStatuses?: ClaimStatusSummary[];
+}
+
+// Query parameters accepted by GET /claim-statuses (dotted names as in the spec)
+export type ClaimStatusSearch = Record<string, string | undefined>;
+
+export interface ClaimStatusPollOptions {
+  intervalMs?: number;
+  maxAttempts?: number;
+}
+
+export interface ClaimStatusHandle {
+  id: string;
+  pending: boolean;
+  claimStatus: ClaimStatus;
+}
+
+const CLAIM_STATUSES_PATH = '/v1/claim-statuses';
+
+// Same lookup status codes as coverages: "0" while the payer is being queried
+const CLAIM_STATUS_IN_PROGRESS = '0';
+
+export class AvailityClaimStatusesClient {
+  constructor(private client: AvailityClient) {}
+
+  // GET /claim-statuses - starts an inquiry; each summary's id is fetched for the claim detail
+  async find(search: ClaimStatusSearch): Promise<ClaimStatusResultSet> {
+    const response = await this.client.request<ClaimStatusResultSet>('GET', CLAIM_STATUSES_PATH, { query: search });
+    return response.body || { totalCount: 0, count: 0, claimStatuses: [] };
+  }
+
+  // GET /claim-statuses/{id}
+  async get(id: string): Promise<ClaimStatusHandle> {
+    const response = await this.client.request<ClaimStatus>('GET', `${CLAIM_STATUSES_PATH}/${encodeURIComponent(id)}`);
+    return this.toHandle(response, id);
+  }
+
+  // Re-fetches a claim status while the payer is still responding
+  async poll(id: string, options: ClaimStatusPollOptions = {}): Promise<ClaimStatusHandle> {
+    const intervalMs = options.intervalMs ?? 2000;
+    const maxAttempts = options.maxAttempts ?? 10;
+
+    let handle = await this.get(id);
+    for (let attempt = 1; handle.pending && attempt < maxAttempts; attempt++) {
+      await delay(intervalMs);
+      handle = await this.get(id);
+    }
+    return handle;
+  }
+
+  private toHandle(response: AvailityResponse<ClaimStatus>, id: string): ClaimStatusHandle {
+    const claimStatus = response.body || {};
+    return {
+      id: claimStatus.id || id,
+      pending: response.pending || claimStatus.statusCode === CLAIM_STATUS_IN_PROGRESS,
+      claimStatus,
+    };
+  }
+}
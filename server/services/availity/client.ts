@@ -0,0 +1,209 @@
+// Shared HTTP plumbing for Availity's partner APIs: OAuth2 client-credentials
+// tokens, JSON requests and the 202 "still processing" convention used by the
+// service-review, coverage and claim-status resources.
+
+export interface AvailityConfig {
+  baseUrl: string;
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  // Per-request limit, so a payer that never answers cannot hold a submission open
+  timeoutMs: number;
+}
+
+// Resource clients append their own API version (service reviews are v2, coverages and claim statuses v1)
+export const AVAILITY_DEFAULT_BASE_URL = 'https://api.availity.com/availity/development-partner';
+export const AVAILITY_DEFAULT_TOKEN_URL = 'https://api.availity.com/availity/v1/token';
+
+// Field-level error from the ErrorResponse / validationMessages definitions
+export interface AvailityFieldError {
+  field?: string;
+  code?: string;
+  errorMessage?: string;
+  index?: number;
+}
+
+export interface AvailityErrorResponse {
+  userMessage?: string;
+  developerMessage?: string;
+  reasonCode?: number;
+  statusCode?: number;
+  errors?: AvailityFieldError[];
+}
+
+export interface AvailityResponse<T> {
+  httpStatus: number;
+  // True when Availity answered 202 and the resource is still being processed by the payer
+  pending: boolean;
+  location?: string;
+  statusMessage?: string;
+  body?: T;
+}
+
+export interface AvailityRequestOptions {
+  query?: Record<string, string | undefined>;
+  body?: unknown;
+  form?: Record<string, string | string[] | undefined>;
+}
+
+export class AvailityApiError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number,
+    public readonly response?: AvailityErrorResponse,
+  ) {
+    super(message);
+    this.name = 'AvailityApiError';
+  }
+}
+
+export function loadAvailityConfig(env: NodeJS.ProcessEnv = process.env): AvailityConfig | null {
+  if (!env.AVAILITY_CLIENT_ID || !env.AVAILITY_CLIENT_SECRET) {
+    return null;
+  }
+
+  return {
+    baseUrl: env.AVAILITY_BASE_URL || AVAILITY_DEFAULT_BASE_URL,
+    tokenUrl: env.AVAILITY_TOKEN_URL || AVAILITY_DEFAULT_TOKEN_URL,
+    clientId: env.AVAILITY_CLIENT_ID,
+    clientSecret: env.AVAILITY_CLIENT_SECRET,
+    scope: env.AVAILITY_SCOPE || 'hipaa',
+    timeoutMs: parseInt(env.AVAILITY_TIMEOUT_MS || '30000', 10),
+  };
+}
+
+// Insurance provider codes routed through Availity, e.g. AVAILITY_PAYER_CODES=BCBS,AETNA
+export function availityPayerCodes(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.AVAILITY_PAYER_CODES || '')
+    .split(',')
+    .map(code => code.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+export class AvailityClient {
+  private accessToken: string | null = null;
+  private tokenExpiresAt = 0;
+
+  constructor(private config: AvailityConfig) {}
+
+  async request<T>(method: string, path: string, options: AvailityRequestOptions = {}): Promise<AvailityResponse<T>> {
+    const url = new URL(this.config.baseUrl.replace(/\/$/, '') + path);
+    for (const [key, value] of Object.entries(options.query || {})) {
+      if (value !== undefined && value !== '') {
+        url.searchParams.set(key, value);
+      }
+    }
+
+    // Some resources (coverages) only accept form-encoded bodies
+    let contentType: string | undefined;
+    let payload: string | undefined;
+    if (options.form) {
+      const form = new URLSearchParams();
+      for (const [key, value] of Object.entries(options.form)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (item !== undefined && item !== '') form.append(key, item);
+        }
+      }
+      contentType = 'application/x-www-form-urlencoded';
+      payload = form.toString();
+    } else if (options.body !== undefined) {
+      contentType = 'application/json';
+      payload = JSON.stringify(options.body);
+    }
+
+    const token = await this.getAccessToken();
+    const response = await this.fetch(`${method} ${path}`, url, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Accept': 'application/json',
+        ...(contentType && { 'Content-Type': contentType }),
+      },
+      body: payload,
+    });
+
+    // Tokens can be revoked before they expire; drop it so the next call re-authenticates
+    if (response.status === 401) {
+      this.accessToken = null;
+    }
+
+    const text = await response.text();
+    let body: unknown;
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = undefined;
+      }
+    }
+
+    if (!response.ok) {
+      const errorBody = body as AvailityErrorResponse | undefined;
+      const message = errorBody?.userMessage || errorBody?.developerMessage || text || response.statusText;
+      throw new AvailityApiError(`Availity ${method} ${path} failed (${response.status}): ${message}`, response.status, errorBody);
+    }
+
+    return {
+      httpStatus: response.status,
+      pending: response.status === 202,
+      location: response.headers.get('Location') || undefined,
+      statusMessage: response.headers.get('X-Status-Message') || undefined,
+      body: body as T | undefined,
+    };
+  }
+
+  private async getAccessToken(): Promise<string> {
+    // Refresh a minute early so long polls don't straddle the expiry
+    if (this.accessToken && Date.now() < this.tokenExpiresAt - 60 * 1000) {
+      return this.accessToken;
+    }
+
+    const response = await this.fetch('authentication', this.config.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        scope: this.config.scope,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new AvailityApiError(`Availity authentication failed (${response.status}): ${errorText}`, response.status);
+    }
+
+    const tokenData = await response.json();
+    this.accessToken = tokenData.access_token as string;
+    this.tokenExpiresAt = Date.now() + (Number(tokenData.expires_in) || 300) * 1000;
+    return this.accessToken;
+  }
+
+  // Timeouts and network failures surface as AvailityApiError with no HTTP status
+  private async fetch(description: string, url: URL | string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, { ...init, signal: AbortSignal.timeout(this.config.timeoutMs) });
+    } catch (error) {
+      const reason = (error as Error).name === 'TimeoutError'
+        ? `no response after ${this.config.timeoutMs}ms`
+        : (error as Error).message;
+      throw new AvailityApiError(`Availity ${description} failed: ${reason}`, 0);
+    }
+  }
+}
+
+// Resource ids come back in the Location header of 202 responses
+export function resourceIdFromLocation(location?: string): string | undefined {
+  if (!location) return undefined;
+  const segments = location.split('?')[0].split('/').filter(Boolean);
+  return segments[segments.length - 1];
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,144 @@
+import type { InsuranceProvider, Patient, PatientInsurance } from "@shared/schema";
+import type { InsuranceVerificationResult, VerifiedBenefit } from "@shared/insurance-verification";
+import { COVERAGE_STATUS_COMPLETE, type Coverage, type CoverageBenefit, type CoverageBenefitDetail, type CoverageInquiry, type CoverageNetworkBenefit } from "./coverages";
+import { availityPayerId } from "./service-review-mapper";
+import type { ServiceReviewProvider } from "./service-reviews";
+
+export interface CoverageInquiryInput {
+  patient: Patient;
+  insurance: PatientInsurance;
+  provider: InsuranceProvider;
+  requestingProvider: ServiceReviewProvider;
+  serviceTypes?: string[];
+  procedureCodes?: string[];
+}
+
+// EB01 eligibility codes 1-5 are the "active coverage" variants
+const ACTIVE_PLAN_STATUS_CODES = ['1', '2', '3', '4', '5'];
+const DEFAULT_SERVICE_TYPE = '30'; // Health benefit plan coverage
+
+function formatDate(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+  return date.toISOString().split('T')[0];
+}
+
+export function buildCoverageInquiry(input: CoverageInquiryInput): CoverageInquiry {
+  const { patient, insurance, provider, requestingProvider } = input;
+  const gender = (patient.gender || '').trim().toUpperCase();
+
+  return {
+    payerId: availityPayerId(provider),
+    providerLastName: requestingProvider.lastName,
+    providerFirstName: requestingProvider.firstName,
+    providerNpi: requestingProvider.npi,
+    providerTaxId: requestingProvider.taxId,
+    providerSpecialty: requestingProvider.specialtyCode,
+    asOfDate: formatDate(new Date()),
+    serviceType: input.serviceTypes?.length ? input.serviceTypes : DEFAULT_SERVICE_TYPE,
+    procedureCode: input.procedureCodes,
+    memberId: insurance.memberId,
+    groupNumber: insurance.groupNumber || undefined,
+    patientLastName: patient.lastName,
+    patientFirstName: patient.firstName,
+    patientSuffix: patient.suffix || undefined,
+    patientBirthDate: formatDate(patient.dateOfBirth),
+    patientGender: gender.startsWith('M') ? 'M' : gender.startsWith('F') ? 'F' : undefined,
+    patientState: patient.state || undefined,
+    subscriberRelationship: '18', // Self
+  };
+}
+
+function networkBenefits(detail?: CoverageBenefitDetail): CoverageNetworkBenefit[] {
+  if (!detail) return [];
+  return [
+    ...(detail.inNetwork || []),
+    ...(detail.notApplicableNetwork || []),
+    ...(detail.noNetwork || []),
+  ];
+}
+
+// Picks the in-network individual amount for a benefit category, e.g. the deductible
+function amountFor(benefits: CoverageBenefit[], category: 'deductibles' | 'coPayment' | 'coInsurance' | 'outOfPocket'): number {
+  for (const benefit of benefits) {
+    const entries = networkBenefits(benefit.amounts?.[category]).filter(entry => entry.amount);
+    const entry = entries.find(item => (item.levelCode || '').toUpperCase() === 'IND') || entries[0];
+    if (entry) {
+      const amount = parseFloat(entry.amount!);
+      if (!isNaN(amount)) {
+        // Coinsurance is reported as a fraction ("0.2"); we store percentages
+        return category === 'coInsurance' && amount <= 1 ? Math.round(amount * 100) : amount;
+      }
+    }
+  }
+  return 0;
+}
+
+function authorizationRequired(benefit: CoverageBenefit): boolean | undefined {
+  const entries = [
+    ...networkBenefits(benefit.statusDetails),
+    ...networkBenefits(benefit.amounts?.coPayment),
+    ...networkBenefits(benefit.amounts?.coInsurance),
+    ...networkBenefits(benefit.amounts?.deductibles),
+    ...networkBenefits(benefit.limitations),
+  ];
+  if (entries.some(entry => entry.authorizationRequired)) return true;
+  if (entries.some(entry => entry.authorizationRequired === false && !entry.authorizationRequiredUnknown)) return false;
+  return undefined;
+}
+
+// Normalizes a completed coverage into the shape the rest of the app already uses
+export function normalizeCoverage(coverage: Coverage, referenceNumber: string): InsuranceVerificationResult {
+  const statusCode = coverage.statusCode || '';
+  const plan = coverage.plans?.[0];
+
+  if (statusCode !== COVERAGE_STATUS_COMPLETE || !plan) {
+    const errors = (coverage.validationMessages || []).map(error => error.errorMessage).filter(Boolean);
+    return {
+      isValid: false,
+      isActive: false,
+      coverageDetails: { deductible: 0, copay: 0, coinsurance: 0, outOfPocketMax: 0 },
+      priorAuthRequired: false,
+      effectiveDate: '',
+      expirationDate: '',
+      memberStatus: coverage.status || 'Unknown',
+      message: errors.length > 0 ? errors.join('; ') : `Eligibility inquiry returned ${coverage.status || 'no plan information'}`,
+      source: 'availity',
+      referenceNumber,
+      verifiedAt: new Date().toISOString(),
+    };
+  }
+
+  const benefits = plan.benefits || [];
+  const isActive = ACTIVE_PLAN_STATUS_CODES.includes(plan.statusCode || '');
+  const verifiedBenefits: VerifiedBenefit[] = benefits.map(benefit => ({
+    serviceTypeCode: benefit.type,
+    name: benefit.name || benefit.type || 'Unspecified benefit',
+    status: benefit.status || '',
+    priorAuthRequired: authorizationRequired(benefit),
+  }));
+
+  return {
+    isValid: true,
+    isActive,
+    coverageDetails: {
+      deductible: amountFor(benefits, 'deductibles'),
+      copay: amountFor(benefits, 'coPayment'),
+      coinsurance: amountFor(benefits, 'coInsurance'),
+      outOfPocketMax: amountFor(benefits, 'outOfPocket'),
+    },
+    priorAuthRequired: verifiedBenefits.some(benefit => benefit.priorAuthRequired),
+    effectiveDate: plan.coverageStartDate || plan.eligibilityStartDate || plan.planStartDate || plan.policyEffectiveDate || '',
+    expirationDate: plan.coverageEndDate || plan.eligibilityEndDate || plan.planEndDate || plan.policyExpirationDate || '',
+    memberStatus: plan.status || (isActive ? 'Active' : 'Inactive'),
+    message: isActive ? 'Coverage verified successfully' : `Coverage is not active: ${plan.status || 'inactive'}`,
+    source: 'availity',
+    referenceNumber,
+    planName: plan.planName || plan.groupName,
+    groupNumber: plan.groupNumber,
+    insuranceType: plan.insuranceType,
+    benefits: verifiedBenefits,
+    verifiedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,222 @@
+import { AvailityClient, delay, type AvailityFieldError, type AvailityResponse } from "./client";
+
+// Types for Availity Coverages 1.0.0 (attached_assets/Coverages-1.0.0_*.json).
+// Only the parts of the eligibility response we normalize are modelled.
+
+export interface CoverageAddress {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  stateCode?: string;
+  zipCode?: string;
+}
+
+export interface CoverageNetworkBenefit {
+  status?: string;
+  statusCode?: string;
+  insuranceType?: string;
+  insuranceTypeCode?: string;
+  amount?: string;
+  units?: string;
+  amountTimePeriod?: string;
+  amountTimePeriodCode?: string;
+  remaining?: string;
+  total?: string;
+  level?: string;
+  levelCode?: string;
+  authorizationRequired?: boolean;
+  authorizationRequiredUnknown?: boolean;
+  placeOfService?: string;
+  placeOfServiceCode?: string;
+  description?: string;
+  payerNotes?: string[];
+}
+
+export interface CoverageBenefitDetail {
+  inNetwork?: CoverageNetworkBenefit[];
+  outOfNetwork?: CoverageNetworkBenefit[];
+  notApplicableNetwork?: CoverageNetworkBenefit[];
+  noNetwork?: CoverageNetworkBenefit[];
+}
+
+export interface CoverageAmounts {
+  coPayment?: CoverageBenefitDetail;
+  outOfPocket?: CoverageBenefitDetail;
+  deductibles?: CoverageBenefitDetail;
+  coInsurance?: CoverageBenefitDetail;
+}
+
+export interface CoveragePayerNote {
+  type?: string;
+  typeCode?: string;
+  message?: string;
+}
+
+export interface CoverageBenefit {
+  name?: string;
+  type?: string;
+  source?: string;
+  status?: string;
+  statusCode?: string;
+  statusDetails?: CoverageBenefitDetail;
+  amounts?: CoverageAmounts;
+  limitations?: CoverageBenefitDetail;
+  nonCovered?: CoverageBenefitDetail;
+  payerNotes?: CoveragePayerNote[];
+}
+
+export interface CoveragePlan {
+  status?: string;
+  statusCode?: string;
+  groupNumber?: string;
+  groupName?: string;
+  policyNumber?: string;
+  planNumber?: string;
+  planName?: string;
+  planNetworkName?: string;
+  insuranceType?: string;
+  insuranceTypeCode?: string;
+  coverageStartDate?: string;
+  coverageEndDate?: string;
+  planStartDate?: string;
+  planEndDate?: string;
+  eligibilityStartDate?: string;
+  eligibilityEndDate?: string;
+  policyEffectiveDate?: string;
+  policyExpirationDate?: string;
+  benefits?: CoverageBenefit[];
+  payerNotes?: CoveragePayerNote[];
+}
+
+export interface CoveragePerson {
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+  suffix?: string;
+  memberId?: string;
+  gender?: string;
+  genderCode?: string;
+  birthDate?: string;
+  subscriberRelationship?: string;
+  subscriberRelationshipCode?: string;
+  address?: CoverageAddress;
+}
+
+export interface Coverage {
+  id?: string;
+  customerId?: string;
+  controlNumber?: string;
+  status?: string;
+  statusCode?: string;
+  createdDate?: string;
+  updatedDate?: string;
+  expirationDate?: string;
+  asOfDate?: string;
+  toDate?: string;
+  requestedServiceType?: { code?: string; value?: string }[];
+  procedureCode?: string[];
+  validationMessages?: AvailityFieldError[];
+  payer?: { name?: string; payerId?: string; responseName?: string; responsePayerId?: string };
+  subscriber?: CoveragePerson;
+  patient?: CoveragePerson;
+  plans?: CoveragePlan[];
+  [key: string]: unknown;
+}
+
+// Form fields accepted by POST /coverages
+export type CoverageInquiry = {
+  payerId: string;
+  providerLastName?: string;
+  providerFirstName?: string;
+  providerType?: string;
+  providerNpi?: string;
+  providerTaxId?: string;
+  providerState?: string;
+  providerZipCode?: string;
+  providerSpecialty?: string;
+  placeOfService?: string;
+  submitterId?: string;
+  asOfDate?: string;
+  toDate?: string;
+  serviceType?: string | string[];
+  procedureCode?: string | string[];
+  memberId?: string;
+  medicaidId?: string;
+  patientLastName?: string;
+  patientFirstName?: string;
+  patientMiddleName?: string;
+  patientSuffix?: string;
+  patientBirthDate?: string;
+  patientGender?: string;
+  patientState?: string;
+  groupNumber?: string;
+  subscriberRelationship?: string;
+};
+
+export interface CoveragePollOptions {
+  intervalMs?: number;
+  maxAttempts?: number;
+}
+
+export interface CoverageHandle {
+  id: string;
+  pending: boolean;
+  coverage: Coverage;
+}
+
+const COVERAGES_PATH = '/v1/coverages';
+
+// Coverage statusCode values: "0" while the payer is being queried, "4" once complete.
+// Anything else is a request, communication or payer error.
+export const COVERAGE_STATUS_IN_PROGRESS = '0';
+export const COVERAGE_STATUS_COMPLETE = '4';
+
+export class AvailityCoveragesClient {
+  constructor(private client: AvailityClient) {}
+
+  // POST /coverages - answers 200 when the payer responds in time, 202 with statusCode "0" otherwise
+  async create(inquiry: CoverageInquiry): Promise<CoverageHandle> {
+    const response = await this.client.request<Coverage>('POST', COVERAGES_PATH, { form: inquiry });
+    return this.toHandle(response);
+  }
+
+  // GET /coverages/{id}
+  async get(id: string): Promise<CoverageHandle> {
+    const response = await this.client.request<Coverage>('GET', `${COVERAGES_PATH}/${encodeURIComponent(id)}`);
+    return this.toHandle(response, id);
+  }
+
+  // DELETE /coverages/{id} - removes the cached inquiry so the next POST hits the payer again
+  async delete(id: string): Promise<void> {
+    await this.client.request<void>('DELETE', `${COVERAGES_PATH}/${encodeURIComponent(id)}`);
+  }
+
+  // Re-fetches a coverage while it is in progress. A coverage that is still in
+  // progress after the last attempt is returned so the caller can resume later.
+  async poll(id: string, options: CoveragePollOptions = {}): Promise<CoverageHandle> {
+    const intervalMs = options.intervalMs ?? 2000;
+    const maxAttempts = options.maxAttempts ?? 10;
+
+    let handle = await this.get(id);
+    for (let attempt = 1; handle.pending && attempt < maxAttempts; attempt++) {
+      await delay(intervalMs);
+      handle = await this.get(id);
+    }
+    return handle;
+  }
+
+  private toHandle(response: AvailityResponse<Coverage>, knownId?: string): CoverageHandle {
+    const coverage = response.body || {};
+    const id = coverage.id || knownId;
+    if (!id) {
+      throw new Error('Availity did not return a coverage id');
+    }
+
+    return {
+      id,
+      pending: response.pending || coverage.statusCode === COVERAGE_STATUS_IN_PROGRESS,
+      coverage,
+    };
+  }
+}
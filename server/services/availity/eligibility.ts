@@ -0,0 +1,66 @@
+import type { InsuranceProvider, Patient, PatientInsurance } from "@shared/schema";
+import type { InsuranceVerificationResult } from "@shared/insurance-verification";
+import { AvailityApiError } from "./client";
+import { AvailityCoveragesClient, type CoverageHandle, type CoveragePollOptions } from "./coverages";
+import { buildCoverageInquiry, normalizeCoverage } from "./coverage-mapper";
+import type { ServiceReviewProvider } from "./service-reviews";
+
+export interface EligibilityInquiry {
+  patient: Patient;
+  insurance: PatientInsurance;
+  provider: InsuranceProvider;
+  procedureCodes?: string[];
+}
+
+// Runs Availity coverage inquiries. Payers can take longer than a request should
+// block for, so an inquiry still in progress is returned as pending with its
+// coverage id; passing that id back resumes polling instead of re-querying the payer.
+export class AvailityEligibilityService {
+  constructor(
+    private coverages: AvailityCoveragesClient,
+    private requestingProvider: ServiceReviewProvider,
+    private pollOptions: CoveragePollOptions = { intervalMs: 2000, maxAttempts: 5 },
+  ) {}
+
+  async verify(inquiry: EligibilityInquiry, resumeReference?: string | null): Promise<InsuranceVerificationResult> {
+    let handle: CoverageHandle | undefined;
+
+    if (resumeReference) {
+      try {
+        handle = await this.coverages.poll(resumeReference, this.pollOptions);
+      } catch (error) {
+        // Availity expires cached coverages; start over if the old one is gone
+        if (!(error instanceof AvailityApiError && error.httpStatus === 404)) throw error;
+      }
+    }
+
+    if (!handle) {
+      handle = await this.coverages.create(buildCoverageInquiry({
+        ...inquiry,
+        requestingProvider: this.requestingProvider,
+      }));
+      if (handle.pending) {
+        handle = await this.coverages.poll(handle.id, this.pollOptions);
+      }
+    }
+
+    if (handle.pending) {
+      return {
+        isValid: false,
+        isActive: false,
+        coverageDetails: { deductible: 0, copay: 0, coinsurance: 0, outOfPocketMax: 0 },
+        priorAuthRequired: false,
+        effectiveDate: '',
+        expirationDate: '',
+        memberStatus: handle.coverage.status || 'In Progress',
+        message: 'The payer has not responded yet. Re-run verification to check again.',
+        pending: true,
+        source: 'availity',
+        referenceNumber: handle.id,
+        verifiedAt: new Date().toISOString(),
+      };
+    }
+
+    return normalizeCoverage(handle.coverage, handle.id);
+  }
+}
@@ -0,0 +1,9 @@
+export * from "./client";
+export * from "./service-reviews";
+export * from "./service-review-mapper";
+export { AvailityServiceReviewAdapter, loadRequestingProvider } from "./service-review-adapter";
+export * from "./coverages";
+export * from "./coverage-mapper";
+export { AvailityEligibilityService, type EligibilityInquiry } from "./eligibility";
+export * from "./claim-statuses";
+export * from "./claim-status-mapper";
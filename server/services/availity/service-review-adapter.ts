@@ -0,0 +1,73 @@
+import type { Document } from "@shared/schema";
+import type { PayerAdapter, PayerAdapterResult, PayerSubmissionContext } from "../payer-adapters/types";
+import { AvailityServiceReviewsClient, type ServiceReviewHandle, type ServiceReviewPollOptions, type ServiceReviewProvider } from "./service-reviews";
+import { buildServiceReviewRequest, mapServiceReviewResult } from "./service-review-mapper";
+
+export function loadRequestingProvider(env: NodeJS.ProcessEnv = process.env): ServiceReviewProvider {
+  return {
+    lastName: env.AVAILITY_PROVIDER_LAST_NAME,
+    firstName: env.AVAILITY_PROVIDER_FIRST_NAME,
+    npi: env.AVAILITY_PROVIDER_NPI,
+    taxId: env.AVAILITY_PROVIDER_TAX_ID,
+    specialtyCode: env.AVAILITY_PROVIDER_TAXONOMY,
+  };
+}
+
+// Submits prior authorizations as Availity service reviews. Submission waits
+// briefly for a decision; anything still processing is picked up by checkStatus.
+export class AvailityServiceReviewAdapter implements PayerAdapter {
+  readonly name = 'availity-service-reviews';
+
+  constructor(
+    private serviceReviews: AvailityServiceReviewsClient,
+    private requestingProvider: ServiceReviewProvider,
+    private pollOptions: ServiceReviewPollOptions = { intervalMs: 2000, maxAttempts: 3 },
+  ) {}
+
+  async submit(context: PayerSubmissionContext): Promise<PayerAdapterResult> {
+    const request = buildServiceReviewRequest({
+      authorization: context.authorization,
+      patient: context.patient,
+      patientInsurance: context.patientInsurance,
+      provider: context.provider,
+      request: context.request,
+      requestingProvider: this.requestingProvider,
+    });
+
+    const created = await this.serviceReviews.create(request);
+    const handle = created.pending ? await this.serviceReviews.poll(created.id, this.pollOptions) : created;
+
+    return { ...this.toResult(handle), requestPayload: request };
+  }
+
+  async checkStatus(referenceNumber: string): Promise<PayerAdapterResult> {
+    return this.toResult(await this.serviceReviews.get(referenceNumber));
+  }
+
+  async cancel(referenceNumber: string, context: PayerSubmissionContext, reason?: string): Promise<PayerAdapterResult> {
+    const handle = await this.serviceReviews.void(referenceNumber);
+    return {
+      status: handle.pending ? 'in_review' : 'cancelled',
+      referenceNumber,
+      message: handle.statusMessage || (reason ? `Service review voided: ${reason}` : 'Service review voided'),
+      requestPayload: { id: referenceNumber, reason },
+      responsePayload: handle.review,
+    };
+  }
+
+  async attachDocuments(referenceNumber: string, context: PayerSubmissionContext, documents: Document[]): Promise<PayerAdapterResult> {
+    // Service Reviews 2.0 has no attachment resource; documents go to the payer by fax or portal
+    throw new Error(`Availity service reviews do not accept attachments; send ${documents.length} document(s) for ${referenceNumber} to the payer directly`);
+  }
+
+  private toResult(handle: ServiceReviewHandle): PayerAdapterResult {
+    if (handle.pending || !handle.review) {
+      return {
+        status: 'pending',
+        referenceNumber: handle.id,
+        message: handle.statusMessage || 'Service review submitted. Awaiting payer response.',
+      };
+    }
+    return mapServiceReviewResult(handle.review, handle.id);
+  }
+}
@@ -0,0 +1,168 @@
+import type { Patient, PatientInsurance, PriorAuthorization, InsuranceProvider } from "@shared/schema";
+import type { SubmissionRequest } from "@shared/authorization-request";
+import type { PayerAdapterResult, PayerDecisionStatus, PayerLineDecision } from "../payer-adapters/types";
+import { CERTIFICATION_ACTION_STATUS, genderCode, serviceTypeCodeFor } from "../x12/codes";
+import type { ServiceReview, ServiceReviewProvider, ServiceReviewStatusReason } from "./service-reviews";
+
+export interface ServiceReviewRequestInput {
+  authorization: PriorAuthorization;
+  patient: Patient;
+  patientInsurance?: PatientInsurance;
+  provider: InsuranceProvider;
+  request: SubmissionRequest;
+  requestingProvider: ServiceReviewProvider;
+}
+
+function formatDate(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+  return date.toISOString().split('T')[0];
+}
+
+// Availity payer ids differ from our provider codes for most plans; an explicit
+// contactInfo.availityPayerId wins, otherwise the provider code is sent as-is.
+export function availityPayerId(provider: InsuranceProvider): string {
+  const contactInfo = (provider.contactInfo || {}) as Record<string, unknown>;
+  return typeof contactInfo.availityPayerId === 'string' && contactInfo.availityPayerId
+    ? contactInfo.availityPayerId
+    : provider.code;
+}
+
+export function buildServiceReviewRequest(input: ServiceReviewRequestInput): ServiceReview {
+  const { authorization, patient, patientInsurance, provider, request, requestingProvider } = input;
+  const memberId = patientInsurance?.memberId || patient.memberId || undefined;
+  const fromDate = formatDate(authorization.requestedDate);
+
+  return {
+    requestTypeCode: 'HS', // Health services review
+    serviceTypeCode: serviceTypeCodeFor(authorization.treatmentType),
+    placeOfServiceCode: request.serviceLines[0]?.placeOfService,
+    serviceLevelCode: authorization.urgentRequest ? 'U' : 'E', // Urgent / Elective
+    fromDate,
+    toDate: fromDate,
+    payer: {
+      id: availityPayerId(provider),
+      name: provider.name,
+    },
+    requestingProvider,
+    subscriber: {
+      firstName: patient.firstName,
+      lastName: patient.lastName,
+      suffix: patient.suffix || undefined,
+      memberId,
+      addressLine1: patient.address || undefined,
+      city: patient.city || undefined,
+      stateCode: patient.state || undefined,
+      zipCode: patient.zipCode || undefined,
+    },
+    patient: {
+      firstName: patient.firstName,
+      lastName: patient.lastName,
+      suffix: patient.suffix || undefined,
+      birthDate: formatDate(patient.dateOfBirth),
+      genderCode: genderCode(patient.gender),
+      subscriberRelationshipCode: '18', // Self - dependents are not tracked on patient_insurance
+      addressLine1: patient.address || undefined,
+      city: patient.city || undefined,
+      stateCode: patient.state || undefined,
+      zipCode: patient.zipCode || undefined,
+    },
+    diagnoses: request.diagnoses.map(diagnosis => ({
+      qualifierCode: diagnosis.primary ? 'ABK' : 'ABF', // Principal / other diagnosis
+      code: diagnosis.code.replace('.', ''),
+    })),
+    procedures: request.serviceLines.map(line => ({
+      qualifierCode: 'HC', // CPT / HCPCS
+      code: line.cptCode,
+      modifierCode1: line.modifiers[0],
+      modifierCode2: line.modifiers[1],
+      modifierCode3: line.modifiers[2],
+      modifierCode4: line.modifiers[3],
+      quantity: String(line.units),
+      quantityTypeCode: 'UN',
+      fromDate,
+      toDate: fromDate,
+    })),
+    providerNotes: authorization.clinicalJustification
+      ? [{ typeCode: 'ADD', message: authorization.clinicalJustification.slice(0, 264) }]
+      : undefined,
+  };
+}
+
+function reasonText(reasons?: ServiceReviewStatusReason[]): string[] {
+  return (reasons || []).map(reason => reason.value || reason.code || '').filter(Boolean);
+}
+
+// statusCode carries the HCR01 certification action code; status is the payer's free text
+function decisionStatus(statusCode: string | undefined, statusText: string | undefined): PayerDecisionStatus {
+  const code = (statusCode || '').trim().toUpperCase();
+  if (CERTIFICATION_ACTION_STATUS[code]) {
+    return CERTIFICATION_ACTION_STATUS[code];
+  }
+
+  const status = (statusText || '').toLowerCase();
+  if (status.includes('not certified') || status.includes('denied')) return 'denied';
+  if (status.includes('partial') || status.includes('modified')) return 'partially_approved';
+  if (status.includes('certified') || status.includes('approved')) return 'approved';
+  if (status.includes('cancel') || status.includes('void')) return 'cancelled';
+  if (status.includes('pend')) return 'pended';
+  if (status.includes('review')) return 'in_review';
+  return 'pending';
+}
+
+export function serviceReviewStatus(review: ServiceReview): PayerDecisionStatus {
+  return decisionStatus(review.statusCode, review.status);
+}
+
+// Procedures the payer decided on their own; a procedure without a status follows the review
+function procedureDecisions(review: ServiceReview): PayerLineDecision[] {
+  return (review.procedures || [])
+    .filter(procedure => (procedure.code || procedure.value) && (procedure.statusCode || procedure.status))
+    .map(procedure => {
+      const status = decisionStatus(procedure.statusCode, procedure.status);
+      const quantity = parseInt(procedure.quantity || '');
+      return {
+        procedureCode: (procedure.code || procedure.value)!,
+        status,
+        approvedQuantity: (status === 'approved' || status === 'partially_approved') && !isNaN(quantity) ? quantity : undefined,
+        reasons: reasonText(procedure.statusReasons),
+      };
+    });
+}
+
+// Maps a completed service review onto the fields we track on prior_authorizations
+export function mapServiceReviewResult(review: ServiceReview, referenceNumber: string): PayerAdapterResult {
+  const status = serviceReviewStatus(review);
+  const firstProcedure = review.procedures?.[0];
+  const payerNotes = (review.payerNotes || []).map(note => note.message || '').filter(Boolean);
+
+  const result: PayerAdapterResult = {
+    status,
+    referenceNumber,
+    message: [review.status || `Service review ${status}`, ...payerNotes].join(' - '),
+    responsePayload: review,
+  };
+
+  const lineDecisions = procedureDecisions(review);
+  if (lineDecisions.length > 0) {
+    result.lineDecisions = lineDecisions;
+  }
+
+  if (status === 'approved' || status === 'partially_approved') {
+    result.authorizationNumber = review.certificationNumber || firstProcedure?.certificationNumber || review.referenceNumber;
+    result.expirationDate = review.certificationExpirationDate || firstProcedure?.certificationExpirationDate;
+  }
+
+  if (status === 'denied') {
+    const reasons = [
+      ...reasonText(review.statusReasons),
+      ...(review.procedures || []).flatMap(procedure => reasonText(procedure.statusReasons)),
+    ];
+    result.denialReason = reasons.length > 0
+      ? Array.from(new Set(reasons)).join('; ')
+      : payerNotes.join('; ') || 'Not certified by payer';
+  }
+
+  return result;
+}
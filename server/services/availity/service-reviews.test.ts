@@ -0,0 +1,120 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import type { InsuranceProvider, Patient, PatientInsurance, PriorAuthorization } from "@shared/schema";
+import { AvailityApiError, AvailityClient, type AvailityConfig } from "./client";
+import { AvailityServiceReviewsClient } from "./service-reviews";
+import { buildServiceReviewRequest, mapServiceReviewResult } from "./service-review-mapper";
+import { startStubServer, type StubScenario, type StubServer } from "./stub-server";
+
+const authorization = {
+  id: 1,
+  authorizationId: "PA-2025-0042",
+  treatmentType: "MRI",
+  requestedDate: new Date("2025-07-30T00:00:00Z"),
+  urgentRequest: false,
+  clinicalJustification: "Persistent low back pain after 6 weeks of PT",
+} as PriorAuthorization;
+const patient = { firstName: "Jane", lastName: "Doe", dateOfBirth: "1980-05-02", gender: "Female" } as unknown as Patient;
+const provider = { id: 1, name: "Blue Cross Blue Shield", code: "BCBS", contactInfo: {} } as InsuranceProvider;
+
+function reviewFor(memberId: string) {
+  return buildServiceReviewRequest({
+    authorization,
+    patient,
+    patientInsurance: { memberId } as PatientInsurance,
+    provider,
+    request: {
+      diagnoses: [{ sequence: 1, code: "M54.5", primary: true }],
+      serviceLines: [{ lineNumber: 1, cptCode: "72148", modifiers: [], units: 1, diagnosisPointers: [1], placeOfService: "11" }],
+    },
+    requestingProvider: { lastName: "Smith", firstName: "Alan", npi: "1234567893" },
+  });
+}
+
+function configFor(stub: { baseUrl: string; tokenUrl: string }, timeoutMs = 5000): AvailityConfig {
+  return { baseUrl: stub.baseUrl, tokenUrl: stub.tokenUrl, clientId: "client", clientSecret: "secret", scope: "hipaa", timeoutMs };
+}
+
+describe("service reviews against the Availity stub", () => {
+  let stub: StubServer | undefined;
+
+  afterEach(async () => {
+    await stub?.close();
+    stub = undefined;
+  });
+
+  // Create, poll until the payer decides, then map the decision onto the authorization fields
+  async function decide(scenario: StubScenario, memberId = "XYZ123456789") {
+    stub = await startStubServer({ scenario, pendingPolls: 1 });
+    const reviews = new AvailityServiceReviewsClient(new AvailityClient(configFor(stub)));
+
+    const created = await reviews.create(reviewFor(memberId));
+    expect(created.pending).toBe(true);
+    expect(created.id).toMatch(/^SR\d{8}$/);
+
+    const handle = await reviews.poll(created.id, { intervalMs: 0, maxAttempts: 3 });
+    expect(handle.pending).toBe(false);
+    return mapServiceReviewResult(handle.review!, handle.id);
+  }
+
+  it("maps an approval to its certification number and expiration", async () => {
+    const result = await decide("approved");
+
+    expect(result.status).toBe("approved");
+    expect(result.authorizationNumber).toBe("AV0000123456");
+    expect(result.expirationDate).toBe("2025-10-28");
+    expect(result.message).toContain("Certified In Total");
+  });
+
+  it("maps a denial to its reasons", async () => {
+    const result = await decide("denied");
+
+    expect(result.status).toBe("denied");
+    expect(result.denialReason).toBe("Medical necessity not established");
+    expect(result.authorizationNumber).toBeUndefined();
+  });
+
+  it("maps a pend to pended", async () => {
+    const result = await decide("pended");
+
+    expect(result.status).toBe("pended");
+    expect(result.message).toContain("Clinical review in progress.");
+  });
+
+  it("takes the scenario from the member id suffix", async () => {
+    const result = await decide("approved", "XYZ123456789-DENY");
+
+    expect(result.status).toBe("denied");
+  });
+
+  it("returns a still-pending handle once poll attempts run out", async () => {
+    stub = await startStubServer({ pendingPolls: 5 });
+    const reviews = new AvailityServiceReviewsClient(new AvailityClient(configFor(stub)));
+
+    const created = await reviews.create(reviewFor("XYZ123456789"));
+    const handle = await reviews.poll(created.id, { intervalMs: 0, maxAttempts: 2 });
+
+    expect(handle.pending).toBe(true);
+    expect(handle.review).toBeUndefined();
+  });
+});
+
+describe("Availity client timeouts", () => {
+  it("gives up on a server that never answers", async () => {
+    const silent = createServer(() => { /* never responds */ });
+    await new Promise<void>(resolve => silent.listen(0, resolve));
+    const url = `http://localhost:${(silent.address() as AddressInfo).port}`;
+
+    try {
+      const client = new AvailityClient(configFor({ baseUrl: url, tokenUrl: `${url}/token` }, 50));
+      const error = await client.request("GET", "/v2/service-reviews/SR1").catch(caught => caught);
+
+      expect(error).toBeInstanceOf(AvailityApiError);
+      expect(error.message).toMatch(/no response after 50ms/);
+    } finally {
+      silent.closeAllConnections();
+      await new Promise(resolve => silent.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,258 @@
+import { AvailityClient, delay, resourceIdFromLocation, type AvailityFieldError, type AvailityResponse } from "./client";
+
+// Types for Availity Service Reviews 2.0.0 (attached_assets/Service_Reviews-2.0.0_*.json).
+// Only the definitions relevant to outpatient prior authorization are modelled;
+// transport, oxygen and chiropractic sections pass through untyped.
+
+export interface ServiceReviewNote {
+  type?: string;
+  typeCode?: string;
+  message?: string;
+}
+
+export interface ServiceReviewStatusReason {
+  code?: string;
+  value?: string;
+}
+
+export interface ServiceReviewPayer {
+  id?: string;
+  name?: string;
+  contactName?: string;
+  phone?: string;
+  extension?: string;
+  fax?: string;
+  emailAddress?: string;
+  url?: string;
+}
+
+export interface ServiceReviewProvider {
+  lastName?: string;
+  firstName?: string;
+  middleName?: string;
+  suffix?: string;
+  npi?: string;
+  taxId?: string;
+  payerAssignedProviderId?: string;
+  submitterId?: string;
+  specialty?: string;
+  specialtyCode?: string;
+  role?: string;
+  roleCode?: string;
+  addressLine1?: string;
+  addressLine2?: string;
+  city?: string;
+  state?: string;
+  stateCode?: string;
+  zipCode?: string;
+  contactName?: string;
+  phone?: string;
+  extension?: string;
+  fax?: string;
+  emailAddress?: string;
+  url?: string;
+}
+
+export interface ServiceReviewSubscriber {
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+  suffix?: string;
+  memberId?: string;
+  addressLine1?: string;
+  addressLine2?: string;
+  city?: string;
+  state?: string;
+  stateCode?: string;
+  zipCode?: string;
+}
+
+export interface ServiceReviewPatient {
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+  suffix?: string;
+  subscriberRelationship?: string;
+  subscriberRelationshipCode?: string;
+  birthDate?: string;
+  gender?: string;
+  genderCode?: string;
+  addressLine1?: string;
+  addressLine2?: string;
+  city?: string;
+  state?: string;
+  stateCode?: string;
+  zipCode?: string;
+}
+
+export interface ServiceReviewDiagnosis {
+  qualifier?: string;
+  qualifierCode?: string;
+  value?: string;
+  code?: string;
+  date?: string;
+}
+
+export interface ServiceReviewProcedure {
+  qualifier?: string;
+  qualifierCode?: string;
+  value?: string;
+  code?: string;
+  modifierCode1?: string;
+  modifierCode2?: string;
+  modifierCode3?: string;
+  modifierCode4?: string;
+  description?: string;
+  quantity?: string;
+  quantityType?: string;
+  quantityTypeCode?: string;
+  fromDate?: string;
+  toDate?: string;
+  status?: string;
+  statusCode?: string;
+  statusReasons?: ServiceReviewStatusReason[];
+  certificationIssueDate?: string;
+  certificationEffectiveDate?: string;
+  certificationExpirationDate?: string;
+  certificationNumber?: string;
+  traceNumbers?: string[];
+  notes?: ServiceReviewNote[];
+}
+
+export interface ServiceReview {
+  id?: string;
+  customerId?: string;
+  controlNumber?: string;
+  userId?: string;
+  shortFormIndicator?: boolean;
+  updatable?: boolean;
+  deletable?: boolean;
+  updatableFields?: string[];
+  status?: string;
+  statusCode?: string;
+  statusReasons?: ServiceReviewStatusReason[];
+  createdDate?: string;
+  updatedDate?: string;
+  expirationDate?: string;
+  validationMessages?: AvailityFieldError[];
+  providerNotes?: ServiceReviewNote[];
+  payerNotes?: ServiceReviewNote[];
+  payer?: ServiceReviewPayer;
+  requestingProvider?: ServiceReviewProvider;
+  subscriber?: ServiceReviewSubscriber;
+  patient?: ServiceReviewPatient;
+  diagnoses?: ServiceReviewDiagnosis[];
+  certificationIssueDate?: string;
+  certificationEffectiveDate?: string;
+  certificationExpirationDate?: string;
+  certificationNumber?: string;
+  referenceNumber?: string;
+  traceNumbers?: string[];
+  requestType?: string;
+  requestTypeCode?: string;
+  serviceType?: string;
+  serviceTypeCode?: string;
+  placeOfService?: string;
+  placeOfServiceCode?: string;
+  serviceLevel?: string;
+  serviceLevelCode?: string;
+  fromDate?: string;
+  toDate?: string;
+  quantity?: string;
+  quantityType?: string;
+  quantityTypeCode?: string;
+  procedures?: ServiceReviewProcedure[];
+  renderingProviders?: ServiceReviewProvider[];
+  [key: string]: unknown;
+}
+
+export interface ServiceReviewResultSet {
+  totalCount?: number;
+  count?: number;
+  offset?: number;
+  limit?: number;
+  links?: Record<string, { href?: string }>;
+  serviceReviews?: ServiceReview[];
+}
+
+// Query parameters accepted by GET /service-reviews (dotted names as in the spec)
+export type ServiceReviewSearch = Record<string, string | undefined>;
+
+export interface ServiceReviewPollOptions {
+  intervalMs?: number;
+  maxAttempts?: number;
+}
+
+export interface ServiceReviewHandle {
+  id: string;
+  pending: boolean;
+  statusMessage?: string;
+  review?: ServiceReview;
+}
+
+const SERVICE_REVIEWS_PATH = '/v2/service-reviews';
+
+export class AvailityServiceReviewsClient {
+  constructor(private client: AvailityClient) {}
+
+  // POST /service-reviews - Availity accepts the request and hands back its id in Location
+  async create(review: ServiceReview): Promise<ServiceReviewHandle> {
+    const response = await this.client.request<ServiceReview>('POST', SERVICE_REVIEWS_PATH, { body: review });
+    return this.toHandle(response);
+  }
+
+  // PUT /service-reviews - the body must carry the id of the review being updated
+  async update(review: ServiceReview): Promise<ServiceReviewHandle> {
+    if (!review.id) {
+      throw new Error('Service review id is required for updates');
+    }
+    const response = await this.client.request<ServiceReview>('PUT', SERVICE_REVIEWS_PATH, { body: review });
+    return this.toHandle(response, review.id);
+  }
+
+  // GET /service-reviews/{id} - 202 while the payer is still working on it, 200 with the review once complete
+  async get(id: string): Promise<ServiceReviewHandle> {
+    const response = await this.client.request<ServiceReview>('GET', `${SERVICE_REVIEWS_PATH}/${encodeURIComponent(id)}`);
+    return this.toHandle(response, id);
+  }
+
+  // GET /service-reviews - search or inquire about existing reviews
+  async find(search: ServiceReviewSearch): Promise<ServiceReviewResultSet> {
+    const response = await this.client.request<ServiceReviewResultSet>('GET', SERVICE_REVIEWS_PATH, { query: search });
+    return response.body || { totalCount: 0, count: 0, serviceReviews: [] };
+  }
+
+  // DELETE /service-reviews/{id}
+  async void(id: string): Promise<ServiceReviewHandle> {
+    const response = await this.client.request<ServiceReview>('DELETE', `${SERVICE_REVIEWS_PATH}/${encodeURIComponent(id)}`);
+    return this.toHandle(response, id);
+  }
+
+  // Re-fetches a review until Availity stops answering 202 or attempts run out.
+  // A handle that is still pending after the last attempt is returned rather than thrown.
+  async poll(id: string, options: ServiceReviewPollOptions = {}): Promise<ServiceReviewHandle> {
+    const intervalMs = options.intervalMs ?? 2000;
+    const maxAttempts = options.maxAttempts ?? 10;
+
+    let handle = await this.get(id);
+    for (let attempt = 1; handle.pending && attempt < maxAttempts; attempt++) {
+      await delay(intervalMs);
+      handle = await this.get(id);
+    }
+    return handle;
+  }
+
+  private toHandle(response: AvailityResponse<ServiceReview>, knownId?: string): ServiceReviewHandle {
+    const id = response.body?.id || resourceIdFromLocation(response.location) || knownId;
+    if (!id) {
+      throw new Error('Availity did not return a service review id');
+    }
+
+    return {
+      id,
+      pending: response.pending,
+      statusMessage: response.statusMessage,
+      review: response.pending ? undefined : response.body,
+    };
+  }
+}
@@ -0,0 +1,424 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { ServiceReview } from "./service-reviews";
+import type { Coverage } from "./coverages";
+import type { ClaimStatus, ClaimStatusResult } from "./claim-statuses";
+
+// Local stand-in for api.availity.com used to exercise the service-review,
+// coverage and claim-status clients without Availity credentials. Responses
+// follow the definitions and async (202 / statusCode "0") flow of the Service
+// Reviews 2.0.0, Coverages 1.0.0 and Claim Statuses 1.0.0 specs. The specs ship no example bodies, so the payloads below
+// are fixtures built from those definitions.
+//
+//   npx tsx server/services/availity/stub-server.ts   (listens on AVAILITY_STUB_PORT or 4010)
+//
+// then point AVAILITY_BASE_URL at http://localhost:4010/availity/development-partner
+// and AVAILITY_TOKEN_URL at http://localhost:4010/availity/v1/token.
+
+export type StubScenario = 'approved' | 'denied' | 'pended';
+
+export interface StubServerOptions {
+  port?: number;
+  // Decision returned once processing finishes; the member id suffix
+  // "-DENY" or "-PEND" overrides it per request
+  scenario?: StubScenario;
+  // Number of GETs answered with 202 before the decision is released
+  pendingPolls?: number;
+}
+
+export interface StubServer {
+  url: string;
+  baseUrl: string;
+  tokenUrl: string;
+  close(): Promise<void>;
+}
+
+const BASE_PATH = '/availity/development-partner';
+const SERVICE_REVIEWS_PATH = `${BASE_PATH}/v2/service-reviews`;
+const COVERAGES_PATH = `${BASE_PATH}/v1/coverages`;
+const CLAIM_STATUSES_PATH = `${BASE_PATH}/v1/claim-statuses`;
+
+export const SERVICE_REVIEW_FIXTURES: Record<StubScenario, Partial<ServiceReview>> = {
+  approved: {
+    status: 'Certified In Total',
+    statusCode: 'A1',
+    certificationNumber: 'AV0000123456',
+    certificationIssueDate: '2025-07-30',
+    certificationEffectiveDate: '2025-07-30',
+    certificationExpirationDate: '2025-10-28',
+    payerNotes: [{ type: 'Additional Information', typeCode: 'ADD', message: 'Authorization valid for 90 days from the effective date.' }],
+    updatable: false,
+    deletable: true,
+  },
+  denied: {
+    status: 'Not Certified',
+    statusCode: 'A3',
+    statusReasons: [{ code: '35', value: 'Medical necessity not established' }],
+    payerNotes: [{ type: 'Additional Information', typeCode: 'ADD', message: 'Submit chart notes documenting failed conservative treatment.' }],
+    updatable: false,
+    deletable: false,
+  },
+  pended: {
+    status: 'Pended',
+    statusCode: 'A4',
+    payerNotes: [{ type: 'Additional Information', typeCode: 'ADD', message: 'Clinical review in progress.' }],
+    updatable: true,
+    deletable: true,
+  },
+};
+
+export const COVERAGE_FIXTURE: Partial<Coverage> = {
+  status: 'Complete',
+  statusCode: '4',
+  plans: [{
+    status: 'Active Coverage',
+    statusCode: '1',
+    groupNumber: 'GRP100200',
+    groupName: 'Sample Employer Group',
+    planName: 'PPO Choice',
+    insuranceType: 'Preferred Provider Organization (PPO)',
+    insuranceTypeCode: 'PR',
+    coverageStartDate: '2025-01-01',
+    coverageEndDate: '2025-12-31',
+    benefits: [
+      {
+        name: 'Health Benefit Plan Coverage',
+        type: '30',
+        status: 'Active Coverage',
+        statusCode: '1',
+        amounts: {
+          deductibles: { inNetwork: [{ amount: '1000', levelCode: 'IND', amountTimePeriodCode: '23', remaining: '650' }] },
+          outOfPocket: { inNetwork: [{ amount: '5000', levelCode: 'IND', amountTimePeriodCode: '23' }] },
+          coPayment: { inNetwork: [{ amount: '25', levelCode: 'IND', authorizationRequired: false }] },
+          coInsurance: { inNetwork: [{ amount: '0.2', levelCode: 'IND', authorizationRequired: false }] },
+        },
+      },
+      {
+        name: 'Diagnostic Imaging',
+        type: '62',
+        status: 'Active Coverage',
+        statusCode: '1',
+        statusDetails: { inNetwork: [{ authorizationRequired: true, description: 'Prior authorization required for MRI and CT' }] },
+      },
+    ],
+  }],
+};
+
+// Paid claim by default; a member id ending in "-DENY" gets a "service not authorized" denial
+export const CLAIM_STATUS_FIXTURES: Record<'paid' | 'notAuthorized', ClaimStatusResult> = {
+  paid: {
+    claimControlNumber: 'CLM202500001',
+    patientControlNumber: 'PCN0001',
+    statusDetails: [{
+      category: 'Finalized/Payment-The claim/line has been paid.',
+      categoryCode: 'F1',
+      status: 'Processed according to contract provisions',
+      statusCode: '107',
+      claimAmount: '250.00',
+      paymentAmount: '180.00',
+      finalizedDate: '2025-03-14',
+      remittanceDate: '2025-03-18',
+      checkNumber: 'EFT55512',
+    }],
+  },
+  notAuthorized: {
+    claimControlNumber: 'CLM202500002',
+    patientControlNumber: 'PCN0002',
+    statusDetails: [{
+      category: 'Finalized/Denial-The claim/line has been denied.',
+      categoryCode: 'F2',
+      status: 'Service not authorized',
+      statusCode: '84',
+      claimAmount: '250.00',
+      paymentAmount: '0.00',
+      finalizedDate: '2025-03-14',
+    }],
+  },
+};
+
+interface StoredClaimStatus {
+  claimStatus: ClaimStatus;
+  remainingPolls: number;
+}
+
+interface StoredCoverage {
+  coverage: Coverage;
+  remainingPolls: number;
+}
+
+interface StoredReview {
+  review: ServiceReview;
+  scenario: StubScenario;
+  remainingPolls: number;
+  voided: boolean;
+}
+
+function scenarioFor(review: ServiceReview, fallback: StubScenario): StubScenario {
+  const memberId = (review.subscriber?.memberId || '').toUpperCase();
+  if (memberId.endsWith('-DENY')) return 'denied';
+  if (memberId.endsWith('-PEND')) return 'pended';
+  return fallback;
+}
+
+function notFound(res: express.Response, id: string) {
+  res.status(404).json({
+    userMessage: 'Service review not found.',
+    developerMessage: `No service review with id ${id}`,
+    statusCode: 404,
+    errors: [{ field: 'id', code: 'NOT_FOUND', errorMessage: 'Service review not found.' }],
+  });
+}
+
+export function createStubApp(options: StubServerOptions = {}): express.Express {
+  const scenario = options.scenario || 'approved';
+  const pendingPolls = options.pendingPolls ?? 1;
+  const reviews = new Map<string, StoredReview>();
+  let sequence = 0;
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  app.post('/availity/v1/token', (req, res) => {
+    if (req.body.grant_type !== 'client_credentials' || !req.body.client_id) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+    res.json({ access_token: `stub-token-${Date.now()}`, token_type: 'Bearer', expires_in: 300, scope: 'hipaa' });
+  });
+
+  app.use(BASE_PATH, (req, res, next) => {
+    if (!req.get('Authorization')?.startsWith('Bearer ')) {
+      return res.status(401).json({ userMessage: 'Not Authorized', statusCode: 401 });
+    }
+    next();
+  });
+
+  app.post(SERVICE_REVIEWS_PATH, (req, res) => {
+    const body = req.body as ServiceReview;
+    const errors = [
+      !body.payer?.id && { field: 'payer.id', code: 'REQUIRED', errorMessage: 'Payer ID is required.' },
+      !body.subscriber?.memberId && { field: 'subscriber.memberId', code: 'REQUIRED', errorMessage: 'Member ID is required.' },
+      !body.procedures?.length && { field: 'procedures', code: 'REQUIRED', errorMessage: 'At least one procedure is required.' },
+    ].filter(Boolean);
+    if (errors.length > 0) {
+      return res.status(400).json({ userMessage: 'The service review request is invalid.', statusCode: 400, errors });
+    }
+
+    const id = `SR${String(++sequence).padStart(8, '0')}`;
+    const now = new Date().toISOString();
+    reviews.set(id, {
+      review: { ...body, id, customerId: '123456', controlNumber: String(100000000 + sequence), createdDate: now, updatedDate: now },
+      scenario: scenarioFor(body, scenario),
+      remainingPolls: pendingPolls,
+      voided: false,
+    });
+
+    res.status(202)
+      .set('Location', `${req.protocol}://${req.get('host')}${SERVICE_REVIEWS_PATH}/${id}`)
+      .set('X-Status-Message', 'We are processing your request.')
+      .end();
+  });
+
+  app.put(SERVICE_REVIEWS_PATH, (req, res) => {
+    const body = req.body as ServiceReview;
+    const stored = body.id ? reviews.get(body.id) : undefined;
+    if (!stored) {
+      return notFound(res, body.id || '');
+    }
+
+    stored.review = { ...stored.review, ...body, updatedDate: new Date().toISOString() };
+    stored.remainingPolls = pendingPolls;
+    res.status(202)
+      .set('Location', `${req.protocol}://${req.get('host')}${SERVICE_REVIEWS_PATH}/${body.id}`)
+      .set('X-Status-Message', 'We are processing your update.')
+      .end();
+  });
+
+  app.get(`${SERVICE_REVIEWS_PATH}/:id`, (req, res) => {
+    const stored = reviews.get(req.params.id);
+    if (!stored) {
+      return notFound(res, req.params.id);
+    }
+
+    if (stored.remainingPolls > 0 && !stored.voided) {
+      stored.remainingPolls--;
+      return res.status(202).set('X-Status-Message', 'Your request is still being processed by the payer.').end();
+    }
+
+    const decision: Partial<ServiceReview> = stored.voided
+      ? { status: 'Cancelled', statusCode: 'C', updatable: false, deletable: false }
+      : SERVICE_REVIEW_FIXTURES[stored.scenario];
+    res.json({ ...stored.review, ...decision });
+  });
+
+  app.get(SERVICE_REVIEWS_PATH, (req, res) => {
+    const memberId = req.query['subscriber.memberId'] as string | undefined;
+    const payerId = req.query['payer.id'] as string | undefined;
+    const matches = Array.from(reviews.values())
+      .map(stored => stored.review)
+      .filter(review => (!memberId || review.subscriber?.memberId === memberId) && (!payerId || review.payer?.id === payerId));
+
+    res.json({ totalCount: matches.length, count: matches.length, offset: 0, limit: 50, serviceReviews: matches });
+  });
+
+  app.delete(`${SERVICE_REVIEWS_PATH}/:id`, (req, res) => {
+    const stored = reviews.get(req.params.id);
+    if (!stored) {
+      return notFound(res, req.params.id);
+    }
+    stored.voided = true;
+    res.status(204).end();
+  });
+
+  const coverages = new Map<string, StoredCoverage>();
+
+  app.post(COVERAGES_PATH, (req, res) => {
+    const form = req.body as Record<string, string>;
+    const errors = [
+      !form.payerId && { field: 'payerId', code: 'REQUIRED', errorMessage: 'Payer ID is required.' },
+      !form.memberId && { field: 'memberId', code: 'REQUIRED', errorMessage: 'Member ID is required.' },
+    ].filter(Boolean);
+    if (errors.length > 0) {
+      return res.status(400).json({ userMessage: 'The coverage request is invalid.', statusCode: 400, errors });
+    }
+
+    const id = `CV${String(++sequence).padStart(8, '0')}`;
+    const now = new Date().toISOString();
+    const coverage: Coverage = {
+      id,
+      customerId: '123456',
+      controlNumber: String(100000000 + sequence),
+      createdDate: now,
+      updatedDate: now,
+      asOfDate: form.asOfDate,
+      payer: { payerId: form.payerId },
+      patient: { firstName: form.patientFirstName, lastName: form.patientLastName, birthDate: form.patientBirthDate, memberId: form.memberId },
+      subscriber: { memberId: form.memberId },
+    };
+    coverages.set(id, { coverage, remainingPolls: pendingPolls });
+
+    if (pendingPolls > 0) {
+      return res.status(202).json({ ...coverage, status: 'In Progress', statusCode: '0' });
+    }
+    res.json({ ...coverage, ...COVERAGE_FIXTURE });
+  });
+
+  app.get(`${COVERAGES_PATH}/:id`, (req, res) => {
+    const stored = coverages.get(req.params.id);
+    if (!stored) {
+      return res.status(404).json({ userMessage: 'Coverage not found.', statusCode: 404 });
+    }
+
+    if (stored.remainingPolls > 0) {
+      stored.remainingPolls--;
+      return res.json({ ...stored.coverage, status: 'In Progress', statusCode: '0' });
+    }
+    res.json({ ...stored.coverage, ...COVERAGE_FIXTURE });
+  });
+
+  app.delete(`${COVERAGES_PATH}/:id`, (req, res) => {
+    if (!coverages.delete(req.params.id)) {
+      return res.status(404).json({ userMessage: 'Coverage not found.', statusCode: 404 });
+    }
+    res.status(204).end();
+  });
+
+  const claimStatuses = new Map<string, StoredClaimStatus>();
+
+  app.get(CLAIM_STATUSES_PATH, (req, res) => {
+    const query = req.query as Record<string, string | undefined>;
+    const memberId = query['subscriber.memberId'] || '';
+    const errors = [
+      !query['payer.id'] && { field: 'payer.id', code: 'REQUIRED', errorMessage: 'Payer ID is required.' },
+      !memberId && { field: 'subscriber.memberId', code: 'REQUIRED', errorMessage: 'Member ID is required.' },
+      !query.fromDate && { field: 'fromDate', code: 'REQUIRED', errorMessage: 'From date is required.' },
+    ].filter(Boolean);
+    if (errors.length > 0) {
+      return res.status(400).json({ userMessage: 'The claim status request is invalid.', statusCode: 400, errors });
+    }
+
+    const id = `CS${String(++sequence).padStart(8, '0')}`;
+    const fixture = memberId.toUpperCase().endsWith('-DENY') ? CLAIM_STATUS_FIXTURES.notAuthorized : CLAIM_STATUS_FIXTURES.paid;
+    const now = new Date().toISOString();
+    const claimStatus: ClaimStatus = {
+      id,
+      customerId: '123456',
+      controlNumber: String(100000000 + sequence),
+      createdDate: now,
+      updatedDate: now,
+      fromDate: query.fromDate,
+      toDate: query.toDate || query.fromDate,
+      claimNumber: query.claimNumber,
+      payer: { id: query['payer.id'] },
+      subscriber: { memberId, firstName: query['subscriber.firstName'], lastName: query['subscriber.lastName'] },
+      patient: { firstName: query['patient.firstName'], lastName: query['patient.lastName'], birthDate: query['patient.birthDate'] },
+      claimStatuses: [{
+        ...fixture,
+        fromDate: query.fromDate,
+        toDate: query.toDate || query.fromDate,
+        serviceLines: [{
+          procedureQualifierCode: 'HC',
+          procedureCode: '99213',
+          chargeAmount: fixture.statusDetails?.[0]?.claimAmount,
+          paymentAmount: fixture.statusDetails?.[0]?.paymentAmount,
+          fromDate: query.fromDate,
+          statusDetails: fixture.statusDetails,
+        }],
+      }],
+      claimCount: '1',
+    };
+    claimStatuses.set(id, { claimStatus, remainingPolls: pendingPolls });
+
+    res.json({
+      totalCount: 1,
+      count: 1,
+      offset: 0,
+      limit: 50,
+      claimStatuses: [{ id, status: 'In Progress', statusCode: '0', fromDate: claimStatus.fromDate, toDate: claimStatus.toDate }],
+    });
+  });
+
+  app.get(`${CLAIM_STATUSES_PATH}/:id`, (req, res) => {
+    const stored = claimStatuses.get(req.params.id);
+    if (!stored) {
+      return res.status(404).json({ userMessage: 'Claim status not found.', statusCode: 404 });
+    }
+
+    if (stored.remainingPolls > 0) {
+      stored.remainingPolls--;
+      const { claimStatuses: _results, ...inProgress } = stored.claimStatus;
+      return res.status(202).json({ ...inProgress, status: 'In Progress', statusCode: '0' });
+    }
+    res.json({ ...stored.claimStatus, status: 'Complete', statusCode: '4' });
+  });
+
+  return app;
+}
+
+export function startStubServer(options: StubServerOptions = {}): Promise<StubServer> {
+  const app = createStubApp(options);
+
+  return new Promise((resolve, reject) => {
+    const server: Server = app.listen(options.port ?? 0, () => {
+      const { port } = server.address() as AddressInfo;
+      const url = `http://localhost:${port}`;
+      resolve({
+        url,
+        baseUrl: `${url}${BASE_PATH}`,
+        tokenUrl: `${url}/availity/v1/token`,
+        close: () => new Promise<void>((done, fail) => server.close(error => (error ? fail(error) : done()))),
+      });
+    });
+    server.on('error', reject);
+  });
+}
+
+if (process.argv[1] && import.meta.url.endsWith(process.argv[1].replace(/\\/g, '/'))) {
+  startStubServer({
+    port: parseInt(process.env.AVAILITY_STUB_PORT || '4010', 10),
+    scenario: (process.env.AVAILITY_STUB_SCENARIO as StubScenario) || 'approved',
+  }).then(stub => {
+    console.log(`Availity stub listening - AVAILITY_BASE_URL=${stub.baseUrl} AVAILITY_TOKEN_URL=${stub.tokenUrl}`);
+  });
+}
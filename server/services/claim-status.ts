@@ -0,0 +1,218 @@
+import type { ClaimStatusRecord, PriorAuthorization, Patient, InsuranceProvider } from "@shared/schema";
+import { storage } from "../storage";
+import { appLogger } from "./app-logger";
+import { insuranceService } from "./insurance";
+import {
+  AvailityClaimStatusesClient,
+  AvailityClient,
+  availityPayerCodes,
+  buildClaimStatusSearch,
+  loadAvailityConfig,
+  loadRequestingProvider,
+  normalizeClaimStatus,
+} from "./availity";
+
+export interface ClaimServiceLineStatus {
+  procedureCode?: string;
+  categoryCode?: string;
+  statusCode?: string;
+  status?: string;
+  chargeAmount?: string;
+  paymentAmount?: string;
+  authorizationDenial: boolean;
+}
+
+// Clearinghouse-neutral view of one claim in a status response
+export interface NormalizedClaimStatus {
+  claimNumber?: string;
+  patientControlNumber?: string;
+  serviceFromDate?: string;
+  serviceToDate?: string;
+  categoryCode?: string;
+  category?: string;
+  statusCode?: string;
+  status?: string;
+  claimAmount?: string;
+  paymentAmount?: string;
+  finalizedDate?: string;
+  serviceLines: ClaimServiceLineStatus[];
+  // The payer denied the claim (or a line) for missing or invalid authorization
+  authorizationDenial: boolean;
+}
+
+export interface ClaimLookupCriteria {
+  memberId?: string;
+  fromDate: string;
+  toDate?: string;
+  claimNumber?: string;
+}
+
+export interface ClaimLookupResult {
+  source: string;
+  pending: boolean;
+  inquiryReferences: string[];
+  records: ClaimStatusRecord[];
+  flaggedCount: number;
+  message: string;
+}
+
+interface ClaimLookupContext {
+  authorization: PriorAuthorization;
+  patient: Patient;
+  provider: InsuranceProvider;
+  memberId: string;
+  criteria: ClaimLookupCriteria;
+}
+
+interface ClaimStatusFetchResult {
+  pending: boolean;
+  claims: { inquiryReference?: string; claim: NormalizedClaimStatus; payload: unknown }[];
+  inquiryReferences: string[];
+}
+
+const availityConfig = loadAvailityConfig();
+const availityClaimStatuses = availityConfig
+  ? new AvailityClaimStatusesClient(new AvailityClient(availityConfig))
+  : null;
+
+class ClaimStatusService {
+  // Look up claims for the authorization's member and dates of service and record every status returned
+  async lookupClaims(authorizationId: number, criteria: ClaimLookupCriteria, userId: number): Promise<ClaimLookupResult> {
+    const authorization = await storage.getPriorAuthorization(authorizationId);
+    if (!authorization) {
+      throw new Error('Authorization not found');
+    }
+
+    const patient = await storage.getPatient(authorization.patientId);
+    if (!patient) {
+      throw new Error('Patient not found');
+    }
+
+    const { patientInsurance, provider } = await insuranceService.resolveCoverage(authorization);
+    if (!provider) {
+      throw new Error('Insurance provider not found');
+    }
+
+    const memberId = criteria.memberId || patientInsurance?.memberId || patient.memberId;
+    if (!memberId) {
+      throw new Error('Member ID is required to look up claims');
+    }
+
+    const context: ClaimLookupContext = { authorization, patient, provider, memberId, criteria };
+    const { source, fetch } = this.resolveSource(provider);
+    const fetched = await fetch(context);
+
+    const records: ClaimStatusRecord[] = [];
+    for (const { inquiryReference, claim, payload } of fetched.claims) {
+      // Only a denial for missing authorization on a claim we hold an authorization number for needs follow-up
+      const noAuthorizationDenial = claim.authorizationDenial && !!authorization.authorizationNumber;
+
+      records.push(await storage.createClaimStatusRecord({
+        authorizationId: authorization.id,
+        payerCode: provider.code,
+        source,
+        inquiryReference: inquiryReference || null,
+        claimNumber: claim.claimNumber || null,
+        patientControlNumber: claim.patientControlNumber || null,
+        serviceFromDate: claim.serviceFromDate ? new Date(claim.serviceFromDate) : null,
+        serviceToDate: claim.serviceToDate ? new Date(claim.serviceToDate) : null,
+        categoryCode: claim.categoryCode || null,
+        category: claim.category || null,
+        statusCode: claim.statusCode || null,
+        status: claim.status || null,
+        claimAmount: claim.claimAmount || null,
+        paymentAmount: claim.paymentAmount || null,
+        finalizedDate: claim.finalizedDate ? new Date(claim.finalizedDate) : null,
+        serviceLines: claim.serviceLines,
+        authorizationNumber: authorization.authorizationNumber,
+        noAuthorizationDenial,
+        responsePayload: payload ?? null,
+        checkedBy: userId,
+      }));
+
+      if (noAuthorizationDenial) {
+        appLogger.warn('Claim denied for missing authorization despite approved authorization', {
+          authorizationId: authorization.id,
+          authorizationNumber: authorization.authorizationNumber,
+          claimNumber: claim.claimNumber,
+          statusCode: claim.statusCode,
+        }, 'CLAIM_STATUS');
+      }
+    }
+
+    const flaggedCount = records.filter(record => record.noAuthorizationDenial).length;
+    let message = `${records.length} claim status(es) recorded`;
+    if (fetched.pending) message += '; the payer is still responding for some claims, look up again shortly';
+    if (flaggedCount > 0) message += `; ${flaggedCount} denied for no authorization`;
+
+    return {
+      source,
+      pending: fetched.pending,
+      inquiryReferences: fetched.inquiryReferences,
+      records,
+      flaggedCount,
+      message,
+    };
+  }
+
+  private resolveSource(provider: InsuranceProvider): { source: string; fetch: (context: ClaimLookupContext) => Promise<ClaimStatusFetchResult> } {
+    if (availityClaimStatuses && availityPayerCodes().includes(provider.code.toUpperCase())) {
+      return { source: 'availity', fetch: context => this.fetchFromAvaility(availityClaimStatuses, context) };
+    }
+    if (process.env.PAYER_ADAPTER_MODE === 'mock') {
+      return { source: 'mock', fetch: context => this.mockClaimStatuses(context) };
+    }
+    throw new Error(`No claim status service is configured for ${provider.name}`);
+  }
+
+  private async fetchFromAvaility(client: AvailityClaimStatusesClient, context: ClaimLookupContext): Promise<ClaimStatusFetchResult> {
+    const resultSet = await client.find(buildClaimStatusSearch({
+      patient: context.patient,
+      provider: context.provider,
+      requestingProvider: loadRequestingProvider(),
+      memberId: context.memberId,
+      fromDate: context.criteria.fromDate,
+      toDate: context.criteria.toDate,
+      claimNumber: context.criteria.claimNumber,
+    }));
+
+    const result: ClaimStatusFetchResult = { pending: false, claims: [], inquiryReferences: [] };
+    for (const summary of resultSet.claimStatuses || []) {
+      if (!summary.id) continue;
+      result.inquiryReferences.push(summary.id);
+
+      const handle = await client.poll(summary.id, { intervalMs: 2000, maxAttempts: 5 });
+      if (handle.pending) {
+        result.pending = true;
+        continue;
+      }
+      for (const claim of normalizeClaimStatus(handle.claimStatus)) {
+        result.claims.push({ inquiryReference: handle.id, claim, payload: handle.claimStatus });
+      }
+    }
+    return result;
+  }
+
+  // Canned responses for local development (PAYER_ADAPTER_MODE=mock), mirroring the mock payer adapter
+  private async mockClaimStatuses(context: ClaimLookupContext): Promise<ClaimStatusFetchResult> {
+    const { authorization, criteria } = context;
+    const denied = authorization.treatmentType === 'Specialty Medication';
+    const claim: NormalizedClaimStatus = {
+      claimNumber: `CLM-${Date.now()}`,
+      serviceFromDate: criteria.fromDate,
+      serviceToDate: criteria.toDate || criteria.fromDate,
+      categoryCode: denied ? 'F2' : 'F1',
+      category: denied ? 'Finalized/Denial' : 'Finalized/Payment',
+      statusCode: denied ? '84' : '65',
+      status: denied ? 'Service not authorized' : 'Claim has been adjudicated and is awaiting payment cycle',
+      claimAmount: '250.00',
+      paymentAmount: denied ? '0.00' : '180.00',
+      finalizedDate: new Date().toISOString().split('T')[0],
+      serviceLines: authorization.cptCodes.map(code => ({ procedureCode: code, authorizationDenial: denied })),
+      authorizationDenial: denied,
+    };
+    return { pending: false, claims: [{ claim, payload: claim }], inquiryReferences: [] };
+  }
+}
+
+export const claimStatusService = new ClaimStatusService();
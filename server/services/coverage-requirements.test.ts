@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CoverageRule, CoverageRuleSet } from "@shared/coverage-rules";
+
+vi.mock("../db", () => ({ db: {} }));
+vi.mock("../storage", () => ({ storage: {} }));
+vi.mock("./insurance", () => ({ insuranceService: {} }));
+vi.mock("./app-logger", () => ({
+  appLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const { evaluateCoverageRules } = await import("./coverage-requirements");
+
+function ruleSet(...rules: Omit<CoverageRule, "description">[]): CoverageRuleSet[] {
+  return [{ id: "commercial", name: "Commercial", rules: rules.map(rule => ({ description: `Rule ${rule.id}`, ...rule })) }];
+}
+
+function evaluate(ruleSets: CoverageRuleSet[], overrides: { cptCode?: string; icd10Codes?: string[]; placeOfService?: string; units?: number; priorRequests?: number } = {}) {
+  return evaluateCoverageRules(ruleSets, {
+    cptCode: overrides.cptCode ?? "72148",
+    icd10Codes: overrides.icd10Codes ?? ["M54.5"],
+    placeOfService: overrides.placeOfService ?? "11",
+    units: overrides.units ?? 1,
+    priorRequestCount: () => overrides.priorRequests ?? 0,
+  });
+}
+
+describe("evaluating coverage rules", () => {
+  it("matches codes within a CPT range and ignores codes outside it", () => {
+    const rules = ruleSet({ id: "advanced-imaging", requirement: "required", cptRanges: [{ from: "70010", to: "76499" }] });
+
+    expect(evaluate(rules, { cptCode: "72148" })).toMatchObject({
+      requirement: "required",
+      source: { type: "rule", ruleSetId: "commercial", ruleId: "advanced-imaging" },
+    });
+    expect(evaluate(rules, { cptCode: "97110" })).toBeNull();
+    // Same prefix, different length: not in a five-character range
+    expect(evaluate(rules, { cptCode: "7214" })).toBeNull();
+  });
+
+  it("skips a rule when a diagnosis is excluded and falls through to the next", () => {
+    const rules = ruleSet(
+      { id: "imaging", requirement: "required", cptCodes: ["72148"], icd10Exclusions: ["C"] },
+      { id: "oncology", requirement: "not_required", cptCodes: ["72148"] },
+    );
+
+    expect(evaluate(rules, { icd10Codes: ["M54.5"] })?.requirement).toBe("required");
+    expect(evaluate(rules, { icd10Codes: ["M54.5", "C79.51"] })).toMatchObject({ requirement: "not_required", source: { ruleId: "oncology" } });
+  });
+
+  it("applies a diagnosis rule only to matching ICD-10 prefixes", () => {
+    const rules = ruleSet({ id: "back-pain", requirement: "conditional", cptCodes: ["72148"], icd10Codes: ["M54"] });
+
+    expect(evaluate(rules, { icd10Codes: ["M5450"] })?.reasons).toContain("Diagnosis M5450 is covered by this rule");
+    expect(evaluate(rules, { icd10Codes: ["G89.29"] })).toBeNull();
+  });
+
+  it("applies a place of service rule only at the listed sites", () => {
+    const rules = ruleSet({ id: "hospital-outpatient", requirement: "required", cptCodes: ["72148"], placesOfService: ["19", "22"] });
+
+    expect(evaluate(rules, { placeOfService: "22" })?.reasons).toContain("Place of service 22");
+    expect(evaluate(rules, { placeOfService: "11" })).toBeNull();
+  });
+
+  it("applies a units rule only above the threshold", () => {
+    const rules = ruleSet({ id: "therapy-units", requirement: "required", cptCodes: ["97110"], unitsAbove: 12 });
+
+    expect(evaluate(rules, { cptCode: "97110", units: 12 })).toBeNull();
+    expect(evaluate(rules, { cptCode: "97110", units: 13 })?.reasons).toContain("13 units requested, more than 12");
+  });
+
+  it("applies a frequency rule once the patient has had enough prior requests", () => {
+    const rules = ruleSet({ id: "repeat-imaging", requirement: "required", cptCodes: ["72148"], frequency: { count: 2, periodDays: 365 } });
+
+    expect(evaluate(rules, { priorRequests: 1 })).toBeNull();
+    expect(evaluate(rules, { priorRequests: 2 })?.reasons).toContain("2 prior requests in the last 365 days");
+  });
+
+  it("lists no documentation when the deciding rule does not require prior auth", () => {
+    const rules = ruleSet({ id: "office-visit", requirement: "not_required", cptCodes: ["72148"], documentation: ["Office notes"] });
+
+    expect(evaluate(rules)?.documentation).toEqual([]);
+  });
+});
@@ -0,0 +1,194 @@
+import type { PatientInsurance, PriorAuthorization } from "@shared/schema";
+import {
+  coverageRuleSetsSchema,
+  cptInRange,
+  icd10Matches,
+  type CoverageCodeRequirement,
+  type CoverageRequirement,
+  type CoverageRequirementsResult,
+  type CoverageRule,
+  type CoverageRuleSet,
+} from "@shared/coverage-rules";
+import { getCPTDescription, requiresPriorAuthorization } from "@shared/cpt-codes-data";
+import { storage } from "../storage";
+import { appLogger } from "./app-logger";
+import { insuranceService } from "./insurance";
+import type { InsuranceVerificationResult } from "@shared/insurance-verification";
+
+export interface CoverageCheckRequest {
+  insuranceId: number;
+  patientId?: number;
+  cptCodes: string[];
+  icd10Codes: string[];
+  placeOfService?: string;
+  // Per CPT code, as on the service lines; placeOfService covers codes left out
+  units?: Record<string, number>;
+  placesOfService?: Record<string, string>;
+  serviceDate?: string;
+  // Left out of frequency counts when re-checking an existing authorization
+  excludeAuthorizationId?: number;
+}
+
+export interface CoverageEvaluationInput {
+  cptCode: string;
+  icd10Codes: string[];
+  placeOfService?: string;
+  units: number;
+  priorRequestCount: (periodDays: number) => number;
+}
+
+const REQUIREMENT_PRECEDENCE: CoverageRequirement[] = ['required', 'conditional', 'not_required'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function ruleMatchesCode(rule: CoverageRule, cptCode: string): boolean {
+  if (!rule.cptCodes?.length && !rule.cptRanges?.length) return true;
+  return !!rule.cptCodes?.some(code => code.toUpperCase() === cptCode.toUpperCase())
+    || !!rule.cptRanges?.some(range => cptInRange(cptCode, range));
+}
+
+// Why the rule applied, or null when one of its conditions does not hold
+function ruleApplies(rule: CoverageRule, input: CoverageEvaluationInput): string[] | null {
+  if (!ruleMatchesCode(rule, input.cptCode)) return null;
+
+  const reasons = [rule.description];
+  if (rule.icd10Codes?.length) {
+    const matched = input.icd10Codes.filter(code => rule.icd10Codes!.some(prefix => icd10Matches(code, prefix)));
+    if (matched.length === 0) return null;
+    reasons.push(`Diagnosis ${matched.join(', ')} is covered by this rule`);
+  }
+  if (rule.icd10Exclusions?.some(prefix => input.icd10Codes.some(code => icd10Matches(code, prefix)))) {
+    return null;
+  }
+  if (rule.placesOfService?.length) {
+    if (!input.placeOfService || !rule.placesOfService.includes(input.placeOfService)) return null;
+    reasons.push(`Place of service ${input.placeOfService}`);
+  }
+  if (rule.unitsAbove !== undefined) {
+    if (input.units <= rule.unitsAbove) return null;
+    reasons.push(`${input.units} units requested, more than ${rule.unitsAbove}`);
+  }
+  if (rule.frequency) {
+    const count = input.priorRequestCount(rule.frequency.periodDays);
+    if (count < rule.frequency.count) return null;
+    reasons.push(`${count} prior requests in the last ${rule.frequency.periodDays} days`);
+  }
+  return reasons;
+}
+
+function ruleSetInEffect(ruleSet: CoverageRuleSet, serviceDate: string, planKeys: string[]): boolean {
+  if (ruleSet.effectiveFrom && serviceDate < ruleSet.effectiveFrom) return false;
+  if (ruleSet.effectiveTo && serviceDate > ruleSet.effectiveTo) return false;
+  if (ruleSet.plans?.length) {
+    const plans = ruleSet.plans.map(plan => plan.toLowerCase());
+    return planKeys.some(key => plans.includes(key.toLowerCase()));
+  }
+  return true;
+}
+
+// Evaluates one code against the payer's rule sets; the first rule that applies decides
+export function evaluateCoverageRules(ruleSets: CoverageRuleSet[], input: CoverageEvaluationInput): Omit<CoverageCodeRequirement, 'description'> | null {
+  for (const ruleSet of ruleSets) {
+    for (const rule of ruleSet.rules) {
+      const reasons = ruleApplies(rule, input);
+      if (!reasons) continue;
+      return {
+        cptCode: input.cptCode,
+        requirement: rule.requirement,
+        reasons,
+        conditions: rule.conditions || [],
+        documentation: rule.requirement === 'not_required' ? [] : rule.documentation || [],
+        source: { type: 'rule', ruleSetId: ruleSet.id, ruleId: rule.id },
+      };
+    }
+  }
+  return null;
+}
+
+function planKeysFor(patientInsurance?: PatientInsurance): string[] {
+  if (!patientInsurance) return [];
+  const verification = patientInsurance.verificationResult as InsuranceVerificationResult | null;
+  return [patientInsurance.groupNumber, verification?.planName, verification?.groupNumber]
+    .filter((key): key is string => !!key);
+}
+
+export class CoverageRequirementsService {
+  async check(request: CoverageCheckRequest): Promise<CoverageRequirementsResult> {
+    const { patientInsurance, provider } = await insuranceService.resolveCoverage({
+      insuranceId: request.insuranceId,
+      patientId: request.patientId ?? 0,
+    });
+
+    const ruleSets = this.ruleSetsFor(provider?.coverageRules, provider?.code);
+    const serviceDate = request.serviceDate || new Date().toISOString().split('T')[0];
+    const activeRuleSets = ruleSets.filter(ruleSet => ruleSetInEffect(ruleSet, serviceDate, planKeysFor(patientInsurance)));
+
+    const history = request.patientId
+      ? (await storage.getPriorAuthorizationsByPatient(request.patientId))
+        .filter(auth => auth.id !== request.excludeAuthorizationId && auth.status !== 'cancelled')
+      : [];
+
+    const codes: CoverageCodeRequirement[] = [];
+    for (const cptCode of Array.from(new Set(request.cptCodes))) {
+      const procedure = await storage.getProcedureCodeByCPT(cptCode);
+      const description = procedure?.description || getCPTDescription(cptCode);
+
+      const decision = evaluateCoverageRules(activeRuleSets, {
+        cptCode,
+        icd10Codes: request.icd10Codes,
+        placeOfService: request.placesOfService?.[cptCode] ?? request.placeOfService,
+        units: request.units?.[cptCode] ?? 1,
+        priorRequestCount: periodDays => countPriorRequests(history, cptCode, serviceDate, periodDays),
+      });
+
+      if (decision) {
+        codes.push({ ...decision, description });
+        continue;
+      }
+
+      // No payer rule covers the code: fall back to the procedure code table
+      const required = procedure ? procedure.requiresPriorAuth : requiresPriorAuthorization(cptCode);
+      codes.push({
+        cptCode,
+        description,
+        requirement: required ? 'required' : 'not_required',
+        reasons: [required ? 'Procedure is flagged as requiring prior authorization' : 'No payer rule requires prior authorization'],
+        conditions: [],
+        documentation: [],
+        source: { type: 'default' },
+      });
+    }
+
+    const requirement = REQUIREMENT_PRECEDENCE.find(candidate => codes.some(code => code.requirement === candidate)) || 'not_required';
+
+    return {
+      payerCode: provider?.code,
+      payerName: provider?.name,
+      requirement,
+      codes,
+      documentation: Array.from(new Set(codes.flatMap(code => code.documentation))),
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  // Rule sets are admin-maintained JSON; a malformed column falls back to the procedure code defaults
+  ruleSetsFor(value: unknown, payerCode?: string): CoverageRuleSet[] {
+    if (value === null || value === undefined) return [];
+    const parsed = coverageRuleSetsSchema.safeParse(value);
+    if (!parsed.success) {
+      appLogger.warn("Ignoring invalid coverage rules", { payerCode, issues: parsed.error.errors.length }, 'COVERAGE_REQUIREMENTS');
+      return [];
+    }
+    return parsed.data;
+  }
+}
+
+function countPriorRequests(history: PriorAuthorization[], cptCode: string, serviceDate: string, periodDays: number): number {
+  const end = new Date(serviceDate).getTime();
+  const start = end - periodDays * DAY_MS;
+  return history.filter(auth => {
+    const requested = new Date(auth.requestedDate).getTime();
+    return auth.cptCodes.includes(cptCode) && requested >= start && requested <= end;
+  }).length;
+}
+
+export const coverageRequirementsService = new CoverageRequirementsService();
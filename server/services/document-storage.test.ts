@@ -0,0 +1,35 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DocumentStorage } from "./document-storage";
+
+describe("document storage", () => {
+  let directory: string;
+  let storage: DocumentStorage;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "document-storage-"));
+    storage = new DocumentStorage(path.join(directory, "documents"));
+    await writeFile(path.join(directory, "outside.txt"), "outside the root");
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("reads back files it wrote", async () => {
+    const filePath = await storage.write("uploads", "note.txt", Buffer.from("stored"));
+
+    expect(storage.contains(filePath)).toBe(true);
+    expect((await storage.readStored(filePath))?.toString()).toBe("stored");
+  });
+
+  it("will not read recorded paths that escape the root", async () => {
+    const escaping = path.join(directory, "documents", "uploads", "..", "..", "outside.txt");
+
+    expect(storage.contains(escaping)).toBe(false);
+    expect(await storage.readStored(escaping)).toBeNull();
+    expect(await storage.readStored("/secure/documents/1_../../outside.txt")).toBeNull();
+  });
+});
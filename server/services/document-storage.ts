@@ -0,0 +1,43 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Files generated by the server (filled state forms, packages) are written under
+// DOCUMENT_STORAGE_DIR; the resulting path is what documents.encryptedPath records.
+export class DocumentStorage {
+  constructor(private root = process.env.DOCUMENT_STORAGE_DIR || path.resolve(process.cwd(), 'storage', 'documents')) {}
+
+  async write(folder: string, fileName: string, content: Uint8Array): Promise<string> {
+    const directory = path.join(this.root, folder);
+    await fs.mkdir(directory, { recursive: true });
+    const filePath = path.join(directory, `${Date.now()}_${fileName.replace(/[^a-zA-Z0-9._-]/g, '_')}`);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  }
+
+  // Whether the path resolves to a file under the storage root
+  contains(filePath: string): boolean {
+    return isWithin(path.resolve(this.root), path.resolve(filePath));
+  }
+
+  // Null when nothing is stored at the path, e.g. for documents recorded before files were kept
+  async read(filePath: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(filePath);
+    } catch {
+      return null;
+    }
+  }
+
+  // Document rows can carry paths built from client input; only files under the storage root are read
+  async readStored(filePath: string): Promise<Buffer | null> {
+    return this.contains(filePath) ? this.read(filePath) : null;
+  }
+}
+
+// True when target is strictly inside directory; both paths must be resolved
+export function isWithin(directory: string, target: string): boolean {
+  const relative = path.relative(directory, target);
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+export const documentStorage = new DocumentStorage();
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Document, InsuranceProvider, PriorAuthorization } from "@shared/schema";
+import { canOverrideDocumentation } from "@shared/payer-requirements";
+
+let provider: Partial<InsuranceProvider> | undefined;
+let documents: Document[] = [];
+
+const authorization = {
+  id: 1,
+  treatmentType: "MRI",
+  cptCodes: ["72148"],
+  clinicalJustification: "Persistent low back pain after 6 weeks of physical therapy",
+  providerNotes: null,
+} as unknown as PriorAuthorization;
+
+vi.mock("../db", () => ({ db: {} }));
+vi.mock("./app-logger", () => ({
+  appLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock("./insurance", () => ({
+  insuranceService: { resolveCoverage: async () => ({ provider }) },
+}));
+vi.mock("../storage", () => ({
+  storage: {
+    getPriorAuthorization: async () => authorization,
+    getDocumentsByAuthorization: async () => documents,
+    getPriorAuthWorkflowSteps: async () => [],
+  },
+}));
+
+const { documentationRequirementsService } = await import("./documentation-requirements");
+
+function attached(id: number, fileName: string, documentType: string | null = null): Document {
+  return { id, fileName, documentType } as Document;
+}
+
+describe("documentation checklist", () => {
+  beforeEach(() => {
+    documents = [];
+    provider = {
+      code: "BCBS",
+      priorAuthRequirements: {
+        attachments: [
+          { id: "imaging", label: "Imaging report", documentType: "imaging_report" },
+          { id: "lmn", label: "Letter of medical necessity", documentType: "letter_of_medical_necessity", optional: true },
+          { id: "pt-notes", label: "Therapy notes", documentType: "clinical_notes", minCount: 2, cptCodes: ["97110"] },
+        ],
+        clinicalFields: [
+          { id: "justification", label: "Clinical justification", field: "clinicalJustification", minLength: 20 },
+        ],
+      },
+    };
+  });
+
+  it("fails on missing required items but not on missing optional ones", async () => {
+    const checklist = await documentationRequirementsService.evaluate(1);
+
+    expect(checklist.items.map(item => [item.id, item.satisfied, item.optional])).toEqual([
+      ["imaging", false, false],
+      ["lmn", false, true],
+      ["justification", true, false],
+    ]);
+    expect(checklist.passed).toBe(false);
+    expect(checklist.missing).toEqual(["Imaging report"]);
+
+    documents = [attached(10, "lumbar-spine.pdf", "imaging_report")];
+    const withImaging = await documentationRequirementsService.evaluate(1);
+    expect(withImaging.passed).toBe(true);
+    expect(withImaging.missing).toEqual([]);
+  });
+
+  it("leaves out requirements scoped to other procedures", async () => {
+    const checklist = await documentationRequirementsService.evaluate(1);
+
+    expect(checklist.items.some(item => item.id === "pt-notes")).toBe(false);
+  });
+
+  it("matches attachments by their recorded type, or by file name when none was recorded", async () => {
+    documents = [
+      attached(10, "scan.pdf", "imaging_report"),
+      attached(11, "Letter of Medical Necessity.pdf"),
+      attached(12, "MRI report.pdf", "clinical_notes"),
+    ];
+
+    const checklist = await documentationRequirementsService.evaluate(1);
+
+    expect(checklist.items.find(item => item.id === "imaging")).toMatchObject({ satisfied: true, documentIds: [10] });
+    expect(checklist.items.find(item => item.id === "lmn")).toMatchObject({ satisfied: true, documentIds: [11] });
+  });
+
+  it("counts attachments towards a minimum", async () => {
+    provider!.priorAuthRequirements = {
+      attachments: [{ id: "notes", label: "Visit notes", documentType: "clinical_notes", minCount: 2 }],
+    };
+    documents = [attached(10, "visit.pdf", "clinical_notes")];
+
+    const checklist = await documentationRequirementsService.evaluate(1);
+
+    expect(checklist.items[0]).toMatchObject({ satisfied: false, detail: "Attach 1 more clinical notes" });
+  });
+
+  it("passes with an empty checklist when the payer has no requirements", async () => {
+    for (const requirements of [null, undefined, { attachments: "not a list" }]) {
+      provider = { code: "NONE", priorAuthRequirements: requirements };
+
+      const checklist = await documentationRequirementsService.evaluate(1);
+
+      expect(checklist).toMatchObject({ payerCode: "NONE", passed: true, items: [], missing: [] });
+    }
+  });
+
+  it("passes when the authorization has no payer on file", async () => {
+    provider = undefined;
+
+    expect(await documentationRequirementsService.evaluate(1)).toMatchObject({ passed: true, items: [] });
+  });
+});
+
+describe("documentation overrides", () => {
+  it("are open to admins only", () => {
+    expect(canOverrideDocumentation("admin")).toBe(true);
+    expect(canOverrideDocumentation("doctor")).toBe(false);
+    expect(canOverrideDocumentation("staff")).toBe(false);
+    expect(canOverrideDocumentation(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,196 @@
+import type { Document, PriorAuthorization } from "@shared/schema";
+import {
+  DOCUMENT_TYPE_LABELS,
+  payerRequirementsSchema,
+  type ClinicalField,
+  type DocumentationChecklist,
+  type DocumentationChecklistItem,
+  type DocumentType,
+  type PayerRequirements,
+  type StepTherapyTrial,
+} from "@shared/payer-requirements";
+import { storage } from "../storage";
+import { appLogger } from "./app-logger";
+import { insuranceService } from "./insurance";
+
+export interface DocumentationContext {
+  authorization: PriorAuthorization;
+  documents: Document[];
+  // Form data captured by earlier workflow steps, merged in step order
+  workflowData: Record<string, unknown>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Documents uploaded before types were recorded are classified by file name
+const FILE_NAME_TYPES: [RegExp, DocumentType][] = [
+  [/medical[\s_-]*necessity|\blmn\b/i, 'letter_of_medical_necessity'],
+  [/step[\s_-]*therapy|prior[\s_-]*treatment/i, 'step_therapy_record'],
+  [/\b(mri|ct|x-?ray|imaging|radiology|ultrasound)\b/i, 'imaging_report'],
+  [/\blabs?\b|laboratory|panel/i, 'lab_results'],
+  [/\brx\b|prescription/i, 'prescription'],
+  [/referral/i, 'referral'],
+  [/notes?\b|progress|visit|consult/i, 'clinical_notes'],
+];
+
+export function documentTypeOf(document: Document): DocumentType {
+  if (document.documentType) return document.documentType as DocumentType;
+  return FILE_NAME_TYPES.find(([pattern]) => pattern.test(document.fileName))?.[1] || 'other';
+}
+
+function appliesTo(requirement: { cptCodes?: string[]; treatmentTypes?: string[] }, authorization: PriorAuthorization): boolean {
+  if (requirement.cptCodes?.length && !requirement.cptCodes.some(code => authorization.cptCodes.includes(code))) return false;
+  if (requirement.treatmentTypes?.length && !requirement.treatmentTypes.includes(authorization.treatmentType)) return false;
+  return true;
+}
+
+function fieldValue(context: DocumentationContext, field: ClinicalField): unknown {
+  const stepValue = context.workflowData[field];
+  if (stepValue !== undefined && stepValue !== null && stepValue !== '') return stepValue;
+  return context.authorization[field];
+}
+
+function contentLength(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'string') return value.trim().length;
+  if (Array.isArray(value)) return value.length;
+  return Object.keys(value as object).length;
+}
+
+// previousTreatments is either free text (one trial per line) or a list of structured trials
+function stepTherapyTrials(value: unknown): { trials: number; durations: number[] } {
+  if (typeof value === 'string') {
+    const lines = value.split('\n').map(line => line.trim()).filter(Boolean);
+    return { trials: lines.length, durations: [] };
+  }
+  if (Array.isArray(value)) {
+    const trials = value.filter((trial): trial is StepTherapyTrial => !!trial && typeof trial === 'object' && !!(trial as StepTherapyTrial).treatment);
+    const durations = trials
+      .filter(trial => trial.startDate && trial.endDate)
+      .map(trial => Math.floor((new Date(trial.endDate!).getTime() - new Date(trial.startDate!).getTime()) / DAY_MS))
+      .filter(days => !isNaN(days));
+    return { trials: trials.length, durations };
+  }
+  return { trials: 0, durations: [] };
+}
+
+// Reports which of the payer's requirements an authorization satisfies
+export function evaluateDocumentationRequirements(requirements: PayerRequirements, context: DocumentationContext): DocumentationChecklistItem[] {
+  const { authorization, documents } = context;
+  const items: DocumentationChecklistItem[] = [];
+
+  for (const requirement of requirements.attachments.filter(item => appliesTo(item, authorization))) {
+    const matches = documents.filter(document => documentTypeOf(document) === requirement.documentType);
+    const satisfied = matches.length >= requirement.minCount;
+    items.push({
+      id: requirement.id,
+      kind: 'attachment',
+      label: requirement.label,
+      satisfied,
+      optional: requirement.optional,
+      detail: satisfied
+        ? `${matches.length} ${DOCUMENT_TYPE_LABELS[requirement.documentType].toLowerCase()} attached`
+        : `Attach ${requirement.minCount - matches.length} more ${DOCUMENT_TYPE_LABELS[requirement.documentType].toLowerCase()}`,
+      documentType: requirement.documentType,
+      documentIds: matches.map(document => document.id),
+    });
+  }
+
+  for (const requirement of requirements.clinicalFields.filter(item => appliesTo(item, authorization))) {
+    const length = contentLength(fieldValue(context, requirement.field));
+    const satisfied = length >= requirement.minLength;
+    items.push({
+      id: requirement.id,
+      kind: 'clinical_field',
+      label: requirement.label,
+      satisfied,
+      optional: requirement.optional,
+      detail: satisfied
+        ? 'Provided'
+        : length === 0 ? 'Not provided' : `Too short (${length} of ${requirement.minLength} characters)`,
+    });
+  }
+
+  for (const requirement of requirements.stepTherapy.filter(item => appliesTo(item, authorization))) {
+    const records = documents.filter(document => documentTypeOf(document) === 'step_therapy_record');
+    const { trials, durations } = stepTherapyTrials(fieldValue(context, 'previousTreatments'));
+    const qualifying = requirement.minDurationDays
+      ? durations.filter(days => days >= requirement.minDurationDays!).length
+      : trials;
+    // An attached step therapy record (pharmacy history, chart extract) stands in for entered trials
+    const satisfied = qualifying >= requirement.minTrials || records.length > 0;
+    items.push({
+      id: requirement.id,
+      kind: 'step_therapy',
+      label: requirement.label,
+      satisfied,
+      optional: requirement.optional,
+      detail: records.length > 0
+        ? 'Step therapy record attached'
+        : requirement.minDurationDays
+          ? `${qualifying} of ${requirement.minTrials} trials documented for at least ${requirement.minDurationDays} days`
+          : `${qualifying} of ${requirement.minTrials} prior treatments documented`,
+      documentType: 'step_therapy_record',
+      documentIds: records.map(document => document.id),
+    });
+  }
+
+  for (const requirement of requirements.forms.filter(item => appliesTo(item, authorization))) {
+    const formId = requirement.formId.toLowerCase();
+    const matches = documents.filter(document =>
+      documentTypeOf(document) === 'payer_form' && document.fileName.toLowerCase().includes(formId));
+    items.push({
+      id: requirement.id,
+      kind: 'form',
+      label: requirement.label,
+      satisfied: matches.length > 0,
+      optional: requirement.optional,
+      detail: matches.length > 0 ? `Form ${requirement.formId} attached` : `Complete and attach form ${requirement.formId}`,
+      documentType: 'payer_form',
+      documentIds: matches.map(document => document.id),
+    });
+  }
+
+  return items;
+}
+
+export class DocumentationRequirementsService {
+  async evaluate(authorizationId: number): Promise<DocumentationChecklist> {
+    const authorization = await storage.getPriorAuthorization(authorizationId);
+    if (!authorization) {
+      throw new Error('Authorization not found');
+    }
+
+    const { provider } = await insuranceService.resolveCoverage(authorization);
+    const requirements = this.requirementsFor(provider?.priorAuthRequirements, provider?.code);
+    const documents = await storage.getDocumentsByAuthorization(authorization.id);
+    const steps = await storage.getPriorAuthWorkflowSteps(authorization.id);
+    const workflowData = steps
+      .sort((a, b) => a.stepNumber - b.stepNumber)
+      .reduce<Record<string, unknown>>((acc, step) => ({ ...acc, ...(step.formData as Record<string, unknown> || {}) }), {});
+
+    const items = evaluateDocumentationRequirements(requirements, { authorization, documents, workflowData });
+    const missing = items.filter(item => !item.satisfied && !item.optional).map(item => item.label);
+
+    return {
+      authorizationId: authorization.id,
+      payerCode: provider?.code,
+      passed: missing.length === 0,
+      items,
+      missing,
+      evaluatedAt: new Date().toISOString(),
+    };
+  }
+
+  // Payers without (valid) requirements have an empty checklist, which always passes
+  requirementsFor(value: unknown, payerCode?: string): PayerRequirements {
+    const parsed = payerRequirementsSchema.safeParse(value ?? {});
+    if (!parsed.success) {
+      appLogger.warn("Ignoring invalid payer documentation requirements", { payerCode, issues: parsed.error.errors.length }, 'DOCUMENTATION_REQUIREMENTS');
+      return payerRequirementsSchema.parse({});
+    }
+    return parsed.data;
+  }
+}
+
+export const documentationRequirementsService = new DocumentationRequirementsService();
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./app-logger", () => ({
+  appLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const { DownloadLinkError, DownloadLinkService } = await import("./download-links");
+const { appLogger } = await import("./app-logger");
+
+const scope = { resourceType: "package_artifact", resourceId: 12, format: "pdf", userId: 7 };
+const resource = { resourceType: "package_artifact", resourceId: 12, format: "pdf" };
+
+function queryOf(url: string): Record<string, string> {
+  return Object.fromEntries(new URL(url, "http://localhost").searchParams);
+}
+
+describe("signed download links", () => {
+  const links = new DownloadLinkService("test-secret");
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("verifies a link it created and returns the user it was issued to", () => {
+    const link = links.create("/api/prior-auth/packages/12/download", scope, 60);
+
+    expect(link.url).toMatch(/^\/api\/prior-auth\/packages\/12\/download\?user=7&expires=\d+&signature=/);
+    const verified = links.verify(queryOf(link.url), resource);
+    expect(verified.userId).toBe(7);
+    expect(verified.expiresAt).toEqual(link.expiresAt);
+  });
+
+  it("rejects a tampered signature", () => {
+    const query = queryOf(links.create("/download", scope).url);
+    const signature = query.signature;
+    query.signature = `${signature[0] === "A" ? "B" : "A"}${signature.slice(1)}`;
+
+    expect(() => links.verify(query, resource)).toThrow("Download link is invalid");
+  });
+
+  it.each([
+    ["resource id", { ...resource, resourceId: 13 }],
+    ["format", { ...resource, format: "json" }],
+    ["resource type", { ...resource, resourceType: "document" }],
+  ])("rejects a link for a different %s", (_label, other) => {
+    const query = queryOf(links.create("/download", scope).url);
+
+    expect(() => links.verify(query, other)).toThrow("Download link is invalid");
+  });
+
+  it("rejects a link whose user was changed", () => {
+    const query = { ...queryOf(links.create("/download", scope).url), user: "8" };
+
+    expect(() => links.verify(query, resource)).toThrow("Download link is invalid");
+  });
+
+  it("rejects a link signed with another secret", () => {
+    const query = queryOf(new DownloadLinkService("other-secret").create("/download", scope).url);
+
+    expect(() => links.verify(query, resource)).toThrow("Download link is invalid");
+  });
+
+  it("rejects an expired link", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const query = queryOf(links.create("/download", scope, 60).url);
+
+    vi.setSystemTime(new Date("2026-01-01T00:01:01Z"));
+    expect(() => links.verify(query, resource)).toThrow("Download link has expired");
+  });
+
+  it("rejects a link with its expiry pushed out", () => {
+    const query = queryOf(links.create("/download", scope, 60).url);
+    query.expires = String(parseInt(query.expires) + 3600);
+
+    expect(() => links.verify(query, resource)).toThrow("Download link is invalid");
+  });
+
+  it("rejects an incomplete link", () => {
+    expect(() => links.verify({ user: "7" }, resource)).toThrow(DownloadLinkError);
+  });
+
+  it("issues and accepts no links without a secret", () => {
+    vi.mocked(appLogger.warn).mockClear();
+    const unconfigured = new DownloadLinkService("");
+
+    expect(unconfigured.enabled).toBe(false);
+    expect(appLogger.warn).toHaveBeenCalledTimes(1);
+    expect(() => unconfigured.create("/download", scope)).toThrow("Download links are not configured");
+    expect(() => unconfigured.verify(queryOf(links.create("/download", scope).url), resource)).toThrow(DownloadLinkError);
+  });
+});
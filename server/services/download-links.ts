@@ -0,0 +1,92 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { appLogger } from "./app-logger";
+
+// Lifetime of a signed download link; long enough to start the download, short enough that a leaked
+// link (browser history, proxy logs) is useless soon after
+export const DOWNLOAD_LINK_TTL_SECONDS = parseInt(process.env.DOWNLOAD_LINK_TTL_SECONDS || '') || 300;
+
+// Raised when a signed link is malformed, tampered with or expired
+export class DownloadLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DownloadLinkError';
+  }
+}
+
+// What a link grants: one user downloading one resource in one format until it expires
+export interface DownloadLinkScope {
+  resourceType: string;
+  resourceId: number;
+  format: string;
+  userId: number;
+}
+
+export interface SignedDownloadLink {
+  url: string;
+  expiresAt: Date;
+}
+
+export class DownloadLinkService {
+  private key: Buffer | null;
+
+  // The key is derived for this purpose only, so a link signature can never stand in for a JWT.
+  // Without a configured secret no links are issued or accepted, rather than signing with a known value.
+  constructor(secret = process.env.DOWNLOAD_LINK_SECRET || process.env.JWT_SECRET) {
+    this.key = secret ? createHmac('sha256', secret).update('download-links').digest() : null;
+    if (!this.key) {
+      appLogger.warn("Signed download links are disabled: set DOWNLOAD_LINK_SECRET or JWT_SECRET", {}, 'DOWNLOAD_LINKS');
+    }
+  }
+
+  get enabled(): boolean {
+    return this.key !== null;
+  }
+
+  // Signed URL for `path`; the path must identify the same resource as the scope
+  create(path: string, scope: DownloadLinkScope, ttlSeconds = DOWNLOAD_LINK_TTL_SECONDS): SignedDownloadLink {
+    this.requireKey();
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const params = new URLSearchParams({
+      user: String(scope.userId),
+      expires: String(expires),
+      signature: this.sign(scope, expires),
+    });
+    return { url: `${path}?${params.toString()}`, expiresAt: new Date(expires * 1000) };
+  }
+
+  // Check a link's query parameters against the resource being requested; returns the user it was issued to
+  verify(query: Record<string, unknown>, resource: Omit<DownloadLinkScope, 'userId'>): { userId: number; expiresAt: Date } {
+    this.requireKey();
+    const userId = parseInt(String(query.user ?? ''));
+    const expires = parseInt(String(query.expires ?? ''));
+    const signature = typeof query.signature === 'string' ? query.signature : '';
+    if (isNaN(userId) || isNaN(expires) || !signature) {
+      throw new DownloadLinkError('Download link is incomplete');
+    }
+
+    const expected = Buffer.from(this.sign({ ...resource, userId }, expires));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new DownloadLinkError('Download link is invalid');
+    }
+    if (expires * 1000 < Date.now()) {
+      throw new DownloadLinkError('Download link has expired');
+    }
+    return { userId, expiresAt: new Date(expires * 1000) };
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new DownloadLinkError('Download links are not configured');
+    }
+    return this.key;
+  }
+
+  private sign(scope: DownloadLinkScope, expires: number): string {
+    return createHmac('sha256', this.requireKey())
+      .update([scope.resourceType, scope.resourceId, scope.format, scope.userId, expires].join(':'))
+      .digest('base64url');
+  }
+}
+
+export const downloadLinkService = new DownloadLinkService();
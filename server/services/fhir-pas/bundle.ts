@@ -0,0 +1,298 @@
+import { randomUUID } from "crypto";
+import type { Document, InsuranceProvider, Patient, PatientInsurance, PriorAuthorization } from "@shared/schema";
+import type { SubmissionRequest } from "@shared/authorization-request";
+import { serviceTypeCodeFor } from "../x12/codes";
+import type { Bundle, BundleEntry, Claim, Reference, Resource } from "./types";
+
+export const PAS_PROFILE_BASE = 'http://hl7.org/fhir/us/davinci-pas/StructureDefinition';
+const US_CORE_PROFILE_BASE = 'http://hl7.org/fhir/us/core/StructureDefinition';
+
+export const SYSTEMS = {
+  npi: 'http://hl7.org/fhir/sid/us-npi',
+  taxId: 'urn:oid:2.16.840.1.113883.4.4',
+  icd10: 'http://hl7.org/fhir/sid/icd-10-cm',
+  cpt: 'http://www.ama-assn.org/go/cpt',
+  claimType: 'http://terminology.hl7.org/CodeSystem/claim-type',
+  processPriority: 'http://terminology.hl7.org/CodeSystem/processpriority',
+  diagnosisType: 'http://terminology.hl7.org/CodeSystem/ex-diagnosistype',
+  identifierType: 'http://terminology.hl7.org/CodeSystem/v2-0203',
+  subscriberRelationship: 'http://terminology.hl7.org/CodeSystem/subscriber-relationship',
+  coverageClass: 'http://terminology.hl7.org/CodeSystem/coverage-class',
+  administrativeGender: 'http://hl7.org/fhir/administrative-gender',
+  x12ServiceType: 'https://codesystem.x12.org/005010/1365',
+  x12RequestCategory: 'https://codesystem.x12.org/005010/1525',
+  x12CertificationType: 'https://codesystem.x12.org/005010/1322',
+  x12ReviewAction: 'https://codesystem.x12.org/005010/306',
+  pasSupportingInfoType: 'http://hl7.org/fhir/us/davinci-pas/CodeSystem/PASSupportingInfoType',
+  localAuthorizationId: 'urn:prior-auth-pro:authorization-id',
+  localPatientId: 'urn:prior-auth-pro:patient-id',
+};
+
+export const PAS_EXTENSIONS = {
+  requestedService: `${PAS_PROFILE_BASE}/extension-requestedService`,
+  serviceItemRequestType: `${PAS_PROFILE_BASE}/extension-serviceItemRequestType`,
+  certificationType: `${PAS_PROFILE_BASE}/extension-certificationType`,
+  reviewAction: `${PAS_PROFILE_BASE}/extension-reviewAction`,
+  reviewActionCode: `${PAS_PROFILE_BASE}/extension-reviewActionCode`,
+};
+
+export const PAS_PROFILES = {
+  requestBundle: `${PAS_PROFILE_BASE}/profile-pas-request-bundle`,
+  claim: `${PAS_PROFILE_BASE}/profile-claim`,
+  subscriber: `${PAS_PROFILE_BASE}/profile-subscriber`,
+  coverage: `${PAS_PROFILE_BASE}/profile-coverage`,
+  practitioner: `${PAS_PROFILE_BASE}/profile-practitioner`,
+  insurer: `${PAS_PROFILE_BASE}/profile-insurer`,
+  requestor: `${PAS_PROFILE_BASE}/profile-requestor`,
+  serviceRequest: `${PAS_PROFILE_BASE}/profile-servicerequest`,
+  documentReference: `${US_CORE_PROFILE_BASE}/us-core-documentreference`,
+};
+
+// The practice submitting the request (Claim.provider) and the ordering practitioner
+export interface PasRequester {
+  organizationName?: string;
+  organizationNpi?: string;
+  taxId?: string;
+  practitionerNpi?: string;
+  practitionerFirstName?: string;
+  practitionerLastName?: string;
+  phone?: string;
+}
+
+export interface PasBundleInput {
+  authorization: PriorAuthorization;
+  patient: Patient;
+  patientInsurance?: PatientInsurance;
+  provider: InsuranceProvider;
+  request: SubmissionRequest;
+  requester: PasRequester;
+  documents: Document[];
+  now?: Date;
+}
+
+export function loadPasRequester(env: NodeJS.ProcessEnv = process.env): PasRequester {
+  return {
+    organizationName: env.PAS_ORGANIZATION_NAME,
+    organizationNpi: env.PAS_ORGANIZATION_NPI,
+    taxId: env.PAS_ORGANIZATION_TAX_ID,
+    practitionerNpi: env.PAS_PRACTITIONER_NPI,
+    practitionerFirstName: env.PAS_PRACTITIONER_FIRST_NAME,
+    practitionerLastName: env.PAS_PRACTITIONER_LAST_NAME,
+    phone: env.PAS_ORGANIZATION_PHONE,
+  };
+}
+
+function formatDate(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+  return date.toISOString().split('T')[0];
+}
+
+function fhirGender(gender: string | null): string {
+  const normalized = (gender || '').trim().toUpperCase();
+  if (normalized.startsWith('M')) return 'male';
+  if (normalized.startsWith('F')) return 'female';
+  return normalized ? 'other' : 'unknown';
+}
+
+// ICD-10-CM codes are exchanged with their dot in FHIR
+function icd10WithDot(code: string): string {
+  const compact = code.replace('.', '').toUpperCase();
+  return compact.length > 3 ? `${compact.slice(0, 3)}.${compact.slice(3)}` : compact;
+}
+
+function entry(resource: Resource): BundleEntry & { reference: Reference } {
+  const id = randomUUID();
+  resource.id = id;
+  return { fullUrl: `urn:uuid:${id}`, resource, reference: { reference: `urn:uuid:${id}` } };
+}
+
+// Builds a Da Vinci PAS request bundle: the Claim first, followed by every resource it references
+export function buildPasClaimBundle(input: PasBundleInput): Bundle {
+  const { authorization, patient, patientInsurance, provider, request, requester, documents } = input;
+  const now = input.now || new Date();
+  const serviceDate = formatDate(authorization.requestedDate);
+  const memberId = patientInsurance?.memberId || patient.memberId || undefined;
+  const groupNumber = patientInsurance?.groupNumber || patient.groupNumber || undefined;
+
+  const patientEntry = entry({
+    resourceType: 'Patient',
+    meta: { profile: [PAS_PROFILES.subscriber] },
+    identifier: [
+      { system: SYSTEMS.localPatientId, value: patient.patientId },
+      ...(memberId ? [{ type: { coding: [{ system: SYSTEMS.identifierType, code: 'MB' }] }, value: memberId }] : []),
+    ],
+    name: [{ family: patient.lastName, given: [patient.firstName], ...(patient.suffix ? { suffix: [patient.suffix] } : {}) }],
+    gender: fhirGender(patient.gender),
+    birthDate: formatDate(patient.dateOfBirth),
+    ...(patient.address || patient.city ? {
+      address: [{
+        line: patient.address ? [patient.address] : undefined,
+        city: patient.city || undefined,
+        state: patient.state || undefined,
+        postalCode: patient.zipCode || undefined,
+      }],
+    } : {}),
+  });
+
+  const contactInfo = (provider.contactInfo || {}) as Record<string, unknown>;
+  const insurerEntry = entry({
+    resourceType: 'Organization',
+    meta: { profile: [PAS_PROFILES.insurer] },
+    identifier: [{ system: 'urn:prior-auth-pro:payer-code', value: provider.code }],
+    active: provider.isActive,
+    type: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/organization-type', code: 'ins' }] }],
+    name: provider.name,
+    ...(typeof contactInfo.phone === 'string' ? { telecom: [{ system: 'phone', value: contactInfo.phone }] } : {}),
+  });
+
+  const requestorEntry = entry({
+    resourceType: 'Organization',
+    meta: { profile: [PAS_PROFILES.requestor] },
+    identifier: [
+      ...(requester.organizationNpi ? [{ system: SYSTEMS.npi, value: requester.organizationNpi }] : []),
+      ...(requester.taxId ? [{ system: SYSTEMS.taxId, value: requester.taxId.replace(/\D/g, '') }] : []),
+    ],
+    active: true,
+    type: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/organization-type', code: 'prov' }] }],
+    name: requester.organizationName,
+    ...(requester.phone ? { telecom: [{ system: 'phone', value: requester.phone }] } : {}),
+  });
+
+  const practitionerEntry = entry({
+    resourceType: 'Practitioner',
+    meta: { profile: [PAS_PROFILES.practitioner] },
+    identifier: requester.practitionerNpi ? [{ system: SYSTEMS.npi, value: requester.practitionerNpi }] : [],
+    name: [{ family: requester.practitionerLastName, given: requester.practitionerFirstName ? [requester.practitionerFirstName] : undefined }],
+  });
+
+  const coverageEntry = entry({
+    resourceType: 'Coverage',
+    meta: { profile: [PAS_PROFILES.coverage] },
+    status: patientInsurance && !patientInsurance.isActive ? 'cancelled' : 'active',
+    subscriberId: memberId,
+    subscriber: patientEntry.reference,
+    beneficiary: patientEntry.reference,
+    // Dependents are not tracked on patient_insurance, so the patient is the subscriber
+    relationship: { coding: [{ system: SYSTEMS.subscriberRelationship, code: 'self' }] },
+    period: patientInsurance ? {
+      start: formatDate(patientInsurance.effectiveDate),
+      end: formatDate(patientInsurance.expirationDate),
+    } : undefined,
+    payor: [insurerEntry.reference],
+    ...(groupNumber ? {
+      class: [{ type: { coding: [{ system: SYSTEMS.coverageClass, code: 'group' }] }, value: groupNumber }],
+    } : {}),
+  });
+
+  const serviceRequestEntries = request.serviceLines.map(line => entry({
+    resourceType: 'ServiceRequest',
+    meta: { profile: [PAS_PROFILES.serviceRequest] },
+    status: 'active',
+    intent: 'order',
+    priority: authorization.urgentRequest ? 'urgent' : 'routine',
+    code: { coding: [{ system: SYSTEMS.cpt, code: line.cptCode }] },
+    quantity: { value: line.units },
+    subject: patientEntry.reference,
+    occurrenceDateTime: serviceDate,
+    requester: practitionerEntry.reference,
+    reasonCode: line.diagnosisPointers.map(pointer => ({ coding: [{ system: SYSTEMS.icd10, code: icd10WithDot(request.diagnoses[pointer - 1].code) }] })),
+  }));
+
+  const documentEntries = documents.map(doc => entry({
+    resourceType: 'DocumentReference',
+    meta: { profile: [PAS_PROFILES.documentReference] },
+    status: 'current',
+    type: { text: 'Clinical documentation' },
+    category: [{ coding: [{ system: 'http://hl7.org/fhir/us/core/CodeSystem/us-core-documentreference-category', code: 'clinical-note' }] }],
+    subject: patientEntry.reference,
+    date: doc.createdAt.toISOString(),
+    content: [{
+      attachment: {
+        contentType: doc.fileType,
+        title: doc.fileName,
+        size: doc.fileSize,
+        url: `/api/documents/${doc.id}/download`,
+        creation: doc.createdAt.toISOString(),
+      },
+    }],
+  }));
+
+  const serviceTypeCode = serviceTypeCodeFor(authorization.treatmentType);
+  const supportingInfo: NonNullable<Claim['supportingInfo']> = [
+    ...(authorization.clinicalJustification ? [{
+      sequence: 1,
+      category: { coding: [{ system: SYSTEMS.pasSupportingInfoType, code: 'freeFormMessage' }] },
+      valueString: authorization.clinicalJustification,
+    }] : []),
+  ];
+  for (const doc of documentEntries) {
+    supportingInfo.push({
+      sequence: supportingInfo.length + 1,
+      category: { coding: [{ system: SYSTEMS.pasSupportingInfoType, code: 'additionalInformation' }] },
+      valueReference: doc.reference,
+    });
+  }
+
+  const claim: Claim = {
+    resourceType: 'Claim',
+    meta: { profile: [PAS_PROFILES.claim] },
+    identifier: [{ system: SYSTEMS.localAuthorizationId, value: authorization.authorizationId }],
+    status: 'active',
+    type: { coding: [{ system: SYSTEMS.claimType, code: 'professional' }] },
+    use: 'preauthorization',
+    patient: patientEntry.reference,
+    created: now.toISOString(),
+    insurer: insurerEntry.reference,
+    provider: requestorEntry.reference,
+    priority: { coding: [{ system: SYSTEMS.processPriority, code: authorization.urgentRequest ? 'stat' : 'normal' }] },
+    careTeam: [{ sequence: 1, provider: practitionerEntry.reference }],
+    supportingInfo: supportingInfo.length > 0 ? supportingInfo : undefined,
+    diagnosis: request.diagnoses.map(diagnosis => ({
+      sequence: diagnosis.sequence,
+      diagnosisCodeableConcept: { coding: [{ system: SYSTEMS.icd10, code: icd10WithDot(diagnosis.code) }] },
+      ...(diagnosis.primary ? { type: [{ coding: [{ system: SYSTEMS.diagnosisType, code: 'principal' }] }] } : {}),
+    })),
+    insurance: [{ sequence: 1, focal: true, coverage: coverageEntry.reference }],
+    item: request.serviceLines.map((line, index) => ({
+      sequence: line.lineNumber,
+      extension: [
+        { url: PAS_EXTENSIONS.requestedService, valueReference: serviceRequestEntries[index].reference },
+        { url: PAS_EXTENSIONS.serviceItemRequestType, valueCodeableConcept: { coding: [{ system: SYSTEMS.x12RequestCategory, code: 'HS' }] } },
+        { url: PAS_EXTENSIONS.certificationType, valueCodeableConcept: { coding: [{ system: SYSTEMS.x12CertificationType, code: 'I' }] } },
+      ],
+      category: { coding: [{ system: SYSTEMS.x12ServiceType, code: serviceTypeCode }] },
+      productOrService: { coding: [{ system: SYSTEMS.cpt, code: line.cptCode }] },
+      modifier: line.modifiers.length > 0 ? line.modifiers.map(modifier => ({ coding: [{ system: SYSTEMS.cpt, code: modifier }] })) : undefined,
+      servicedDate: serviceDate,
+      quantity: { value: line.units },
+      diagnosisSequence: line.diagnosisPointers,
+      locationCodeableConcept: {
+        coding: [{ system: 'https://www.cms.gov/Medicare/Coding/place-of-service-codes/Place_of_Service_Code_Set', code: line.placeOfService }],
+      },
+    })),
+  };
+  const claimEntry = entry(claim);
+
+  const entries = [
+    claimEntry,
+    patientEntry,
+    coverageEntry,
+    insurerEntry,
+    requestorEntry,
+    practitionerEntry,
+    ...serviceRequestEntries,
+    ...documentEntries,
+  ];
+
+  return {
+    resourceType: 'Bundle',
+    id: randomUUID(),
+    meta: { profile: [PAS_PROFILES.requestBundle] },
+    identifier: { system: SYSTEMS.localAuthorizationId, value: authorization.authorizationId },
+    type: 'collection',
+    timestamp: now.toISOString(),
+    entry: entries.map(({ fullUrl, resource }) => ({ fullUrl, resource })),
+  };
+}
@@ -0,0 +1,154 @@
+import type { PayerAdapterResult, PayerDecisionStatus } from "../payer-adapters/types";
+import { CERTIFICATION_ACTION_LABELS, CERTIFICATION_ACTION_STATUS } from "../x12/codes";
+import { PAS_EXTENSIONS } from "./bundle";
+import type { Bundle, ClaimResponse, CodeableConcept, Extension, Resource } from "./types";
+
+export class ClaimResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClaimResponseError';
+  }
+}
+
+export interface PasItemDecision {
+  itemSequence: number;
+  actionCode?: string;
+  status: PayerDecisionStatus;
+  authorizationNumber?: string;
+  reasons: string[];
+}
+
+export interface PasClaimResponse {
+  outcome?: string;
+  disposition?: string;
+  status: PayerDecisionStatus;
+  // Claim.identifier echoed back in ClaimResponse.request
+  requestIdentifier?: string;
+  responseIdentifier?: string;
+  preAuthRef?: string;
+  preAuthPeriodEnd?: string;
+  items: PasItemDecision[];
+  errors: string[];
+  notes: string[];
+}
+
+// An item still under review keeps the whole request open; otherwise one
+// certified line is enough for the authorization to be usable.
+const STATUS_PRECEDENCE: PayerDecisionStatus[] = ['pended', 'in_review', 'pending', 'partially_approved', 'approved', 'denied', 'cancelled'];
+
+function conceptCode(concept: CodeableConcept | undefined): string | undefined {
+  return concept?.coding?.find(coding => !!coding.code)?.code;
+}
+
+function conceptText(concept: CodeableConcept | undefined): string | undefined {
+  const coding = concept?.coding?.find(item => !!item.code);
+  return concept?.text || coding?.display || coding?.code;
+}
+
+function subExtension(extension: Extension, name: string): Extension | undefined {
+  return extension.extension?.find(item => item.url === name || item.url.endsWith(`-${name}`));
+}
+
+// Reads the PAS reviewAction extension, which carries the X12 306 action code,
+// the payer's certification number and any reason codes.
+function readReviewAction(extensions: Extension[] | undefined, itemSequence: number): PasItemDecision | undefined {
+  const reviewAction = extensions?.find(extension => extension.url === PAS_EXTENSIONS.reviewAction);
+  if (!reviewAction) return undefined;
+
+  const codeExtension = subExtension(reviewAction, 'reviewActionCode') || subExtension(reviewAction, 'code');
+  const actionCode = conceptCode(codeExtension?.valueCodeableConcept) || conceptCode(reviewAction.valueCodeableConcept);
+  const reasons = (reviewAction.extension || [])
+    .filter(item => item.url === 'reasonCode' || item.url.endsWith('-reasonCode'))
+    .map(item => conceptText(item.valueCodeableConcept))
+    .filter((text): text is string => !!text);
+
+  return {
+    itemSequence,
+    actionCode,
+    status: (actionCode && CERTIFICATION_ACTION_STATUS[actionCode]) || 'in_review',
+    authorizationNumber: subExtension(reviewAction, 'number')?.valueString,
+    reasons,
+  };
+}
+
+function findClaimResponse(resource: Resource): ClaimResponse {
+  if (resource?.resourceType === 'ClaimResponse') return resource as ClaimResponse;
+  if (resource?.resourceType === 'Bundle') {
+    const found = (resource as Bundle).entry?.find(item => item.resource?.resourceType === 'ClaimResponse')?.resource;
+    if (found) return found as ClaimResponse;
+    throw new ClaimResponseError('Bundle does not contain a ClaimResponse');
+  }
+  throw new ClaimResponseError(`Expected a ClaimResponse or PAS response Bundle, got ${resource?.resourceType || 'unknown'}`);
+}
+
+// Parses a PAS ClaimResponse (bare or wrapped in a response Bundle) into a payer decision
+export function parseClaimResponse(resource: Bundle | ClaimResponse): PasClaimResponse {
+  const claimResponse = findClaimResponse(resource);
+  if (claimResponse.use && claimResponse.use !== 'preauthorization') {
+    throw new ClaimResponseError(`ClaimResponse use is ${claimResponse.use}, expected preauthorization`);
+  }
+
+  const items: PasItemDecision[] = [];
+  for (const item of claimResponse.item || []) {
+    const decision = readReviewAction(item.extension, item.itemSequence)
+      || (item.adjudication || []).map(adjudication => readReviewAction(adjudication.extension, item.itemSequence)).find(Boolean);
+    if (decision) items.push(decision);
+  }
+  const errors = (claimResponse.error || [])
+    .map(item => conceptText(item.code))
+    .filter((text): text is string => !!text);
+
+  let status: PayerDecisionStatus;
+  if (claimResponse.outcome === 'error') {
+    status = 'denied';
+  } else if (items.length > 0) {
+    status = STATUS_PRECEDENCE.find(candidate => items.some(item => item.status === candidate))!;
+    // Certified items alongside denied ones add up to a partial approval
+    if (status === 'approved' && items.some(item => item.status === 'denied')) status = 'partially_approved';
+  } else {
+    // "queued" and any response without item decisions mean the payer has not ruled yet
+    status = 'in_review';
+  }
+
+  return {
+    outcome: claimResponse.outcome,
+    disposition: claimResponse.disposition,
+    status,
+    requestIdentifier: claimResponse.request?.identifier?.value,
+    responseIdentifier: claimResponse.identifier?.find(identifier => !!identifier.value)?.value,
+    preAuthRef: claimResponse.preAuthRef,
+    preAuthPeriodEnd: claimResponse.preAuthPeriod?.end,
+    items,
+    errors,
+    notes: (claimResponse.processNote || []).map(note => note.text).filter((text): text is string => !!text),
+  };
+}
+
+export function mapClaimResponseResult(response: PasClaimResponse, referenceNumber: string): PayerAdapterResult {
+  const actionCodes = Array.from(new Set(response.items.map(item => item.actionCode).filter((code): code is string => !!code)));
+  const reasons = Array.from(new Set([
+    ...response.errors,
+    ...response.items.filter(item => item.status === 'denied').flatMap(item => item.reasons),
+  ]));
+  const label = response.disposition
+    || actionCodes.map(code => CERTIFICATION_ACTION_LABELS[code] || code).join(', ')
+    || `Review ${response.status}`;
+
+  const result: PayerAdapterResult = {
+    status: response.status,
+    referenceNumber: response.responseIdentifier || referenceNumber,
+    message: [label, ...reasons].join(' - '),
+    responsePayload: response,
+  };
+
+  if (response.status === 'approved' || response.status === 'partially_approved') {
+    result.authorizationNumber = response.preAuthRef
+      || response.items.find(item => (item.status === 'approved' || item.status === 'partially_approved') && item.authorizationNumber)?.authorizationNumber;
+    result.expirationDate = response.preAuthPeriodEnd;
+  }
+  if (response.status === 'denied') {
+    result.denialReason = reasons.length > 0 ? reasons.join('; ') : 'Not certified by payer';
+  }
+
+  return result;
+}
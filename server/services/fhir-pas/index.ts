@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./bundle";
+export * from "./validator";
+export * from "./claim-response";
+export { FhirPasService, fhirPasService, FHIR_PAS_ADAPTER, type PasIngestOutcome } from "./service";
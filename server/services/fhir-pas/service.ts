@@ -0,0 +1,39 @@
+import { insuranceService, type PayerSubmissionOutcome } from "../insurance";
+import type { PayerSubmissionContext } from "../payer-adapters/types";
+import { buildPasClaimBundle, loadPasRequester } from "./bundle";
+import { ClaimResponseError, mapClaimResponseResult, parseClaimResponse, type PasClaimResponse } from "./claim-response";
+import type { Bundle, ClaimResponse } from "./types";
+import { validatePasBundle, type PasValidationResult } from "./validator";
+
+export const FHIR_PAS_ADAPTER = 'fhir-pas';
+
+export interface PasIngestOutcome extends PayerSubmissionOutcome {
+  response: PasClaimResponse;
+}
+
+export class FhirPasService {
+  async buildBundle(authorizationId: number): Promise<{ bundle: Bundle; validation: PasValidationResult }> {
+    return this.buildBundleFor(await insuranceService.loadSubmissionContext(authorizationId));
+  }
+
+  buildBundleFor(context: PayerSubmissionContext): { bundle: Bundle; validation: PasValidationResult } {
+    const bundle = buildPasClaimBundle({ ...context, requester: loadPasRequester() });
+    return { bundle, validation: validatePasBundle(bundle) };
+  }
+
+  // Applies a payer's ClaimResponse to the authorization it answers
+  async ingestClaimResponse(authorizationId: number, resource: Bundle | ClaimResponse, userId: number): Promise<PasIngestOutcome> {
+    const { authorization } = await insuranceService.loadSubmissionContext(authorizationId);
+    const response = parseClaimResponse(resource);
+
+    if (response.requestIdentifier && response.requestIdentifier !== authorization.authorizationId) {
+      throw new ClaimResponseError(`ClaimResponse answers request ${response.requestIdentifier}, not ${authorization.authorizationId}`);
+    }
+
+    const result = mapClaimResponseResult(response, authorization.payerReferenceNumber || authorization.authorizationId);
+    const outcome = await insuranceService.recordPayerResponse(authorizationId, FHIR_PAS_ADAPTER, userId, result);
+    return { ...outcome, response };
+  }
+}
+
+export const fhirPasService = new FhirPasService();
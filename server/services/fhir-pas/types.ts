@@ -0,0 +1,112 @@
+// The subset of FHIR R4 used by Da Vinci PAS (Prior Authorization Support) bundles
+
+export interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Identifier {
+  system?: string;
+  value?: string;
+  type?: CodeableConcept;
+}
+
+export interface Reference {
+  reference?: string;
+  identifier?: Identifier;
+  display?: string;
+}
+
+export interface Period {
+  start?: string;
+  end?: string;
+}
+
+export interface Extension {
+  url: string;
+  valueString?: string;
+  valueCode?: string;
+  valueCodeableConcept?: CodeableConcept;
+  valueReference?: Reference;
+  valuePeriod?: Period;
+  valueDate?: string;
+  extension?: Extension[];
+}
+
+export interface Resource {
+  resourceType: string;
+  id?: string;
+  meta?: { profile?: string[] };
+  extension?: Extension[];
+  [key: string]: unknown;
+}
+
+export interface BundleEntry {
+  fullUrl?: string;
+  resource?: Resource;
+}
+
+export interface Bundle extends Resource {
+  resourceType: 'Bundle';
+  identifier?: Identifier;
+  type?: string;
+  timestamp?: string;
+  entry?: BundleEntry[];
+}
+
+export interface ClaimItem {
+  sequence: number;
+  extension?: Extension[];
+  category?: CodeableConcept;
+  productOrService?: CodeableConcept;
+  modifier?: CodeableConcept[];
+  servicedDate?: string;
+  quantity?: { value: number };
+  diagnosisSequence?: number[];
+  informationSequence?: number[];
+  locationCodeableConcept?: CodeableConcept;
+}
+
+export interface Claim extends Resource {
+  resourceType: 'Claim';
+  identifier?: Identifier[];
+  status?: string;
+  type?: CodeableConcept;
+  use?: string;
+  patient?: Reference;
+  created?: string;
+  insurer?: Reference;
+  provider?: Reference;
+  priority?: CodeableConcept;
+  careTeam?: { sequence: number; provider: Reference; role?: CodeableConcept }[];
+  supportingInfo?: { sequence: number; category: CodeableConcept; valueReference?: Reference; valueString?: string }[];
+  diagnosis?: { sequence: number; diagnosisCodeableConcept?: CodeableConcept; type?: CodeableConcept[] }[];
+  insurance?: { sequence: number; focal: boolean; coverage: Reference }[];
+  item?: ClaimItem[];
+}
+
+export interface Adjudication {
+  category?: CodeableConcept;
+  extension?: Extension[];
+}
+
+export interface ClaimResponse extends Resource {
+  resourceType: 'ClaimResponse';
+  identifier?: Identifier[];
+  status?: string;
+  use?: string;
+  outcome?: string; // queued | complete | error | partial
+  disposition?: string;
+  preAuthRef?: string;
+  preAuthPeriod?: Period;
+  request?: Reference;
+  item?: { itemSequence: number; extension?: Extension[]; adjudication?: Adjudication[] }[];
+  processNote?: { text?: string }[];
+  error?: { itemSequence?: number; code?: CodeableConcept }[];
+}
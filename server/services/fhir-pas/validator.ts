@@ -0,0 +1,237 @@
+import { PAS_EXTENSIONS, PAS_PROFILES, SYSTEMS } from "./bundle";
+import type { Bundle, Claim, CodeableConcept, Identifier, Reference, Resource } from "./types";
+
+export interface PasValidationIssue {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+export interface PasValidationResult {
+  valid: boolean;
+  issues: PasValidationIssue[];
+}
+
+const NPI_PATTERN = /^\d{10}$/;
+const ICD10_PATTERN = /^[A-Z]\d[0-9A-Z](\.[0-9A-Z]{1,4})?$/;
+const CPT_PATTERN = /^\d{4}[0-9A-Z]$/;
+
+function hasCode(concept: CodeableConcept | undefined, system?: string): boolean {
+  return !!concept?.coding?.some(coding => !!coding.code && (!system || coding.system === system));
+}
+
+function hasProfile(resource: Resource, profile: string): boolean {
+  return !!resource.meta?.profile?.includes(profile);
+}
+
+// Structural validation against the Da Vinci PAS request profiles. This covers the
+// cardinality and terminology rules payers reject on most often; it is not a full
+// StructureDefinition validator.
+export function validatePasBundle(bundle: Bundle): PasValidationResult {
+  const issues: PasValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+  const warning = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+  if (bundle.resourceType !== 'Bundle') {
+    error('Bundle', 'Resource is not a Bundle');
+    return { valid: false, issues };
+  }
+  if (bundle.type !== 'collection') error('Bundle.type', 'PAS request bundles must be of type "collection"');
+  if (!bundle.identifier?.value) error('Bundle.identifier', 'Bundle identifier is required');
+  if (!bundle.timestamp) error('Bundle.timestamp', 'Bundle timestamp is required');
+  if (!hasProfile(bundle, PAS_PROFILES.requestBundle)) warning('Bundle.meta.profile', 'Bundle does not declare the PAS request bundle profile');
+
+  const entries = bundle.entry || [];
+  const byFullUrl = new Map<string, Resource>();
+  entries.forEach((item, index) => {
+    const path = `Bundle.entry[${index}]`;
+    if (!item.resource) {
+      error(`${path}.resource`, 'Entry has no resource');
+      return;
+    }
+    if (!item.fullUrl) {
+      error(`${path}.fullUrl`, 'Entry fullUrl is required');
+    } else if (byFullUrl.has(item.fullUrl)) {
+      error(`${path}.fullUrl`, `Duplicate fullUrl ${item.fullUrl}`);
+    } else {
+      byFullUrl.set(item.fullUrl, item.resource);
+    }
+  });
+
+  const resolve = (reference: Reference | undefined, path: string, resourceType: string): Resource | undefined => {
+    if (!reference?.reference) {
+      error(path, `Reference to ${resourceType} is required`);
+      return undefined;
+    }
+    const target = byFullUrl.get(reference.reference);
+    if (!target) {
+      error(path, `Reference ${reference.reference} does not resolve within the bundle`);
+      return undefined;
+    }
+    if (target.resourceType !== resourceType) {
+      error(path, `Reference ${reference.reference} points at a ${target.resourceType}, expected ${resourceType}`);
+      return undefined;
+    }
+    return target;
+  };
+
+  const claim = entries[0]?.resource as Claim | undefined;
+  if (!claim || claim.resourceType !== 'Claim') {
+    error('Bundle.entry[0]', 'The first entry of a PAS request bundle must be the Claim');
+    return { valid: false, issues };
+  }
+
+  // Claim
+  if (!hasProfile(claim, PAS_PROFILES.claim)) warning('Claim.meta.profile', 'Claim does not declare the PAS claim profile');
+  if (!claim.identifier?.some(identifier => !!identifier.value)) error('Claim.identifier', 'Claim identifier is required');
+  if (claim.status !== 'active') error('Claim.status', 'Claim status must be "active"');
+  if (claim.use !== 'preauthorization') error('Claim.use', 'Claim use must be "preauthorization"');
+  if (!hasCode(claim.type, SYSTEMS.claimType)) error('Claim.type', 'Claim type is required');
+  if (!claim.created) error('Claim.created', 'Claim created date is required');
+  if (!hasCode(claim.priority)) error('Claim.priority', 'Claim priority is required');
+
+  const patient = resolve(claim.patient, 'Claim.patient', 'Patient');
+  const insurer = resolve(claim.insurer, 'Claim.insurer', 'Organization');
+  const requestor = resolve(claim.provider, 'Claim.provider', 'Organization');
+
+  if (!claim.insurance?.length) {
+    error('Claim.insurance', 'At least one coverage is required');
+  } else {
+    if (claim.insurance.filter(insurance => insurance.focal).length !== 1) {
+      error('Claim.insurance', 'Exactly one coverage must be marked focal');
+    }
+    claim.insurance.forEach((insurance, index) => {
+      const coverage = resolve(insurance.coverage, `Claim.insurance[${index}].coverage`, 'Coverage');
+      if (coverage) validateCoverage(coverage, `Claim.insurance[${index}].coverage`);
+    });
+  }
+
+  const diagnosisSequences = new Set<number>();
+  if (!claim.diagnosis?.length) {
+    error('Claim.diagnosis', 'At least one diagnosis is required');
+  }
+  (claim.diagnosis || []).forEach((diagnosis, index) => {
+    diagnosisSequences.add(diagnosis.sequence);
+    const coding = diagnosis.diagnosisCodeableConcept?.coding?.find(item => item.system === SYSTEMS.icd10);
+    if (!coding?.code) {
+      error(`Claim.diagnosis[${index}]`, 'Diagnosis must be coded in ICD-10-CM');
+    } else if (!ICD10_PATTERN.test(coding.code)) {
+      error(`Claim.diagnosis[${index}]`, `${coding.code} is not a valid ICD-10-CM code`);
+    }
+  });
+
+  const informationSequences = new Set<number>();
+  (claim.supportingInfo || []).forEach((info, index) => {
+    informationSequences.add(info.sequence);
+    if (!hasCode(info.category)) error(`Claim.supportingInfo[${index}].category`, 'Supporting information category is required');
+    if (info.valueReference) {
+      const document = resolve(info.valueReference, `Claim.supportingInfo[${index}].valueReference`, 'DocumentReference');
+      if (document) validateDocumentReference(document, `Claim.supportingInfo[${index}].valueReference`);
+    }
+  });
+
+  (claim.careTeam || []).forEach((member, index) => {
+    const practitioner = resolve(member.provider, `Claim.careTeam[${index}].provider`, 'Practitioner');
+    if (practitioner) validatePractitioner(practitioner, `Claim.careTeam[${index}].provider`);
+  });
+
+  if (!claim.item?.length) {
+    error('Claim.item', 'At least one requested service is required');
+  }
+  (claim.item || []).forEach((item, index) => {
+    const path = `Claim.item[${index}]`;
+    if (!hasCode(item.category)) error(`${path}.category`, 'Item category (X12 service type) is required');
+
+    const cpt = item.productOrService?.coding?.find(coding => coding.system === SYSTEMS.cpt);
+    if (!hasCode(item.productOrService)) {
+      error(`${path}.productOrService`, 'Requested service code is required');
+    } else if (cpt?.code && !CPT_PATTERN.test(cpt.code)) {
+      error(`${path}.productOrService`, `${cpt.code} is not a valid CPT/HCPCS code`);
+    }
+
+    for (const sequence of item.diagnosisSequence || []) {
+      if (!diagnosisSequences.has(sequence)) error(`${path}.diagnosisSequence`, `Diagnosis sequence ${sequence} does not exist`);
+    }
+    for (const sequence of item.informationSequence || []) {
+      if (!informationSequences.has(sequence)) error(`${path}.informationSequence`, `Supporting information sequence ${sequence} does not exist`);
+    }
+
+    const requestType = item.extension?.find(extension => extension.url === PAS_EXTENSIONS.serviceItemRequestType);
+    if (!hasCode(requestType?.valueCodeableConcept)) error(`${path}.extension`, 'serviceItemRequestType extension is required');
+    const certificationType = item.extension?.find(extension => extension.url === PAS_EXTENSIONS.certificationType);
+    if (!hasCode(certificationType?.valueCodeableConcept)) error(`${path}.extension`, 'certificationType extension is required');
+
+    const requestedService = item.extension?.find(extension => extension.url === PAS_EXTENSIONS.requestedService);
+    if (requestedService) {
+      const serviceRequest = resolve(requestedService.valueReference, `${path}.extension:requestedService`, 'ServiceRequest');
+      if (serviceRequest) validateServiceRequest(serviceRequest, `${path}.extension:requestedService`);
+    }
+  });
+
+  if (patient) validatePatient(patient, 'Claim.patient');
+  if (insurer) validateOrganization(insurer, 'Claim.insurer', PAS_PROFILES.insurer);
+  if (requestor) {
+    validateOrganization(requestor, 'Claim.provider', PAS_PROFILES.requestor);
+    const identifiers = (requestor.identifier || []) as Identifier[];
+    const npi = identifiers.find(identifier => identifier.system === SYSTEMS.npi);
+    if (!npi?.value && !identifiers.some(identifier => identifier.system === SYSTEMS.taxId && identifier.value)) {
+      error('Claim.provider.identifier', 'Requesting organization needs an NPI or tax ID');
+    } else if (npi?.value && !NPI_PATTERN.test(npi.value)) {
+      error('Claim.provider.identifier', `${npi.value} is not a valid NPI`);
+    }
+  }
+
+  return { valid: !issues.some(issue => issue.severity === 'error'), issues };
+
+  function validatePatient(resource: Resource, path: string) {
+    const names = (resource.name || []) as { family?: string }[];
+    if (!names.some(name => !!name.family)) error(`${path}.name`, 'Patient family name is required');
+    if (!resource.birthDate) error(`${path}.birthDate`, 'Patient birth date is required');
+    if (!resource.gender) error(`${path}.gender`, 'Patient gender is required');
+    const identifiers = (resource.identifier || []) as Identifier[];
+    if (!identifiers.some(identifier => identifier.value)) error(`${path}.identifier`, 'Patient identifier is required');
+  }
+
+  function validateCoverage(resource: Resource, path: string) {
+    if (!resource.status) error(`${path}.status`, 'Coverage status is required');
+    else if (resource.status !== 'active') warning(`${path}.status`, `Coverage status is ${resource.status}`);
+    if (!resource.subscriberId) error(`${path}.subscriberId`, 'Member ID is required');
+    resolve(resource.beneficiary as Reference | undefined, `${path}.beneficiary`, 'Patient');
+    const payors = (resource.payor || []) as Reference[];
+    if (payors.length === 0) error(`${path}.payor`, 'Coverage payor is required');
+    payors.forEach((payor, index) => resolve(payor, `${path}.payor[${index}]`, 'Organization'));
+  }
+
+  function validatePractitioner(resource: Resource, path: string) {
+    const identifiers = (resource.identifier || []) as Identifier[];
+    const npi = identifiers.find(identifier => identifier.system === SYSTEMS.npi);
+    if (!npi?.value) error(`${path}.identifier`, 'Practitioner NPI is required');
+    else if (!NPI_PATTERN.test(npi.value)) error(`${path}.identifier`, `${npi.value} is not a valid NPI`);
+    const names = (resource.name || []) as { family?: string }[];
+    if (!names.some(name => !!name.family)) error(`${path}.name`, 'Practitioner family name is required');
+  }
+
+  function validateOrganization(resource: Resource, path: string, profile: string) {
+    if (!resource.name) error(`${path}.name`, 'Organization name is required');
+    if (!hasProfile(resource, profile)) warning(`${path}.meta.profile`, `Organization does not declare ${profile}`);
+  }
+
+  function validateServiceRequest(resource: Resource, path: string) {
+    if (!resource.status) error(`${path}.status`, 'ServiceRequest status is required');
+    if (!resource.intent) error(`${path}.intent`, 'ServiceRequest intent is required');
+    if (!hasCode(resource.code as CodeableConcept | undefined)) error(`${path}.code`, 'ServiceRequest code is required');
+    resolve(resource.subject as Reference | undefined, `${path}.subject`, 'Patient');
+  }
+
+  function validateDocumentReference(resource: Resource, path: string) {
+    if (!resource.status) error(`${path}.status`, 'DocumentReference status is required');
+    const content = (resource.content || []) as { attachment?: { contentType?: string; url?: string; data?: string } }[];
+    if (content.length === 0) {
+      error(`${path}.content`, 'DocumentReference content is required');
+    }
+    content.forEach((item, index) => {
+      if (!item.attachment?.url && !item.attachment?.data) error(`${path}.content[${index}].attachment`, 'Attachment needs a url or inline data');
+      if (!item.attachment?.contentType) warning(`${path}.content[${index}].attachment.contentType`, 'Attachment content type is missing');
+    });
+  }
+}
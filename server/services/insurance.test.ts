@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AuthorizationServiceLine, InsuranceProvider, Patient, PriorAuthorization } from "@shared/schema";
+import type { PayerAdapter, PayerAdapterResult } from "./payer-adapters";
+
+const authorizations = new Map<number, PriorAuthorization>();
+const serviceLines: AuthorizationServiceLine[] = [];
+const statusHistory: { fromStatus: string | null; toStatus: string; source: string }[] = [];
+
+vi.mock("../db", () => ({ db: {} }));
+vi.mock("./app-logger", () => ({
+  appLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock("./utilization", () => ({
+  utilizationService: { setApprovals: vi.fn() },
+}));
+vi.mock("../storage", () => ({
+  storage: {
+    getPriorAuthorization: async (id: number) => authorizations.get(id),
+    updatePriorAuthorization: async (id: number, updates: Partial<PriorAuthorization>) => {
+      const updated = { ...authorizations.get(id)!, ...updates };
+      authorizations.set(id, updated);
+      return updated;
+    },
+    createStatusHistoryEntry: async (entry: { fromStatus: string | null; toStatus: string; source: string }) => {
+      statusHistory.push(entry);
+      return entry;
+    },
+    createPayerSubmission: async (submission: object) => ({ id: 1, ...submission }),
+    getServiceLinesByAuthorization: async (authorizationId: number) =>
+      serviceLines.filter(line => line.authorizationId === authorizationId),
+    updateServiceLine: async (id: number, updates: Partial<AuthorizationServiceLine>) => {
+      const index = serviceLines.findIndex(line => line.id === id);
+      serviceLines[index] = { ...serviceLines[index], ...updates };
+      return serviceLines[index];
+    },
+    getUnitApprovalsByAuthorization: async () => [],
+  },
+}));
+
+const { insuranceService } = await import("./insurance");
+const { payerAdapterRegistry, MockPayerAdapter } = await import("./payer-adapters");
+
+const provider = { id: 1, name: "Test Payer", code: "TESTPAYER" } as InsuranceProvider;
+const patient = { id: 1, firstName: "Pat", lastName: "Doe" } as Patient;
+
+function draftAuthorization(treatmentType: string): PriorAuthorization {
+  return {
+    id: 1,
+    authorizationId: "PA-TEST-1",
+    patientId: 1,
+    insuranceId: 1,
+    treatmentType,
+    cptCodes: ["97110"],
+    icd10Codes: ["M54.5"],
+    status: "draft",
+    submittedDate: null,
+    approvalDate: null,
+    authorizationNumber: null,
+    expirationDate: null,
+    denialReason: null,
+    appealDeadline: null,
+  } as PriorAuthorization;
+}
+
+function useAuthorization(authorization: PriorAuthorization) {
+  authorizations.set(authorization.id, authorization);
+  vi.spyOn(insuranceService, "loadSubmissionContext").mockResolvedValue({
+    authorization,
+    patient,
+    provider,
+    documents: [],
+    request: { diagnoses: [], serviceLines: [] },
+  });
+}
+
+describe("submitting a prior authorization", () => {
+  beforeEach(() => {
+    authorizations.clear();
+    serviceLines.length = 0;
+    statusHistory.length = 0;
+    payerAdapterRegistry.register(provider.code, new MockPayerAdapter(0));
+  });
+
+  it("moves a draft through submitted to approved when the payer approves immediately", async () => {
+    useAuthorization(draftAuthorization("Physical Therapy"));
+
+    const outcome = await insuranceService.submitPriorAuthorization(1, 7);
+
+    expect(outcome.result.status).toBe("approved");
+    expect(outcome.authorization.status).toBe("approved");
+    expect(outcome.authorization.authorizationNumber).toBe(outcome.result.authorizationNumber);
+    expect(outcome.authorization.approvalDate).toBeInstanceOf(Date);
+    expect(outcome.authorization.submittedDate).toBeInstanceOf(Date);
+    expect(statusHistory.map(entry => [entry.fromStatus, entry.toStatus, entry.source])).toEqual([
+      ["draft", "submitted", "user"],
+      ["submitted", "approved", "payer"],
+    ]);
+  });
+
+  it("moves a draft through submitted to denied when the payer denies immediately", async () => {
+    useAuthorization(draftAuthorization("Specialty Medication"));
+
+    const outcome = await insuranceService.submitPriorAuthorization(1, 7);
+
+    expect(outcome.authorization.status).toBe("denied");
+    expect(outcome.authorization.denialReason).toBe(outcome.result.denialReason);
+    expect(outcome.authorization.appealDeadline).toBeInstanceOf(Date);
+    expect(statusHistory.map(entry => entry.toStatus)).toEqual(["submitted", "denied"]);
+  });
+
+  it("leaves a pending submission as submitted", async () => {
+    useAuthorization(draftAuthorization("MRI"));
+
+    const outcome = await insuranceService.submitPriorAuthorization(1, 7);
+
+    expect(outcome.authorization.status).toBe("submitted");
+    expect(outcome.authorization.payerReferenceNumber).toBe(outcome.result.referenceNumber);
+    expect(statusHistory.map(entry => entry.toStatus)).toEqual(["submitted"]);
+  });
+
+  it("keeps the approval date when an approved authorization is polled again", async () => {
+    const approvalDate = new Date("2026-01-05T00:00:00Z");
+    useAuthorization({
+      ...draftAuthorization("Physical Therapy"),
+      status: "approved",
+      submittedDate: new Date("2026-01-01T00:00:00Z"),
+      approvalDate,
+      authorizationNumber: "AUTH-1",
+      expirationDate: new Date("2026-06-01T00:00:00Z"),
+      payerReferenceNumber: "REF-1",
+    });
+
+    const outcome = await insuranceService.recordPayerResponse(1, "mock", 7, {
+      status: "approved",
+      referenceNumber: "REF-1",
+      message: "Still approved",
+      authorizationNumber: "AUTH-1",
+      expirationDate: "2026-06-01T00:00:00Z",
+    });
+
+    expect(outcome.authorization.approvalDate).toEqual(approvalDate);
+    expect(statusHistory).toEqual([]);
+  });
+
+  it("records line-level decisions on the service lines and rolls them up to a partial approval", async () => {
+    useAuthorization({ ...draftAuthorization("Physical Therapy"), cptCodes: ["97110", "97140"] });
+    serviceLines.push(
+      { id: 11, authorizationId: 1, lineNumber: 1, cptCode: "97110", modifiers: [], units: 12, diagnosisPointers: [1], status: "requested", approvedUnits: null, denialReason: null } as unknown as AuthorizationServiceLine,
+      { id: 12, authorizationId: 1, lineNumber: 2, cptCode: "97140", modifiers: [], units: 4, diagnosisPointers: [1], status: "requested", approvedUnits: null, denialReason: null } as unknown as AuthorizationServiceLine,
+    );
+    const result: PayerAdapterResult = {
+      status: "approved",
+      referenceNumber: "REF-LINES",
+      message: "Certified - partial",
+      authorizationNumber: "AUTH-LINES",
+      expirationDate: "2026-12-31T00:00:00Z",
+      lineDecisions: [
+        { procedureCode: "97110", status: "partially_approved", approvedQuantity: 8, reasons: [] },
+        { procedureCode: "97140", status: "denied", reasons: ["Not medically necessary"] },
+      ],
+    };
+    const adapter = { name: "lines", submit: async () => result } as unknown as PayerAdapter;
+    payerAdapterRegistry.register(provider.code, adapter);
+
+    const outcome = await insuranceService.submitPriorAuthorization(1, 7);
+
+    expect(outcome.authorization.status).toBe("partially_approved");
+    expect(outcome.authorization.authorizationNumber).toBe("AUTH-LINES");
+    expect(serviceLines.map(line => [line.status, line.approvedUnits, line.denialReason])).toEqual([
+      ["approved", 8, null],
+      ["denied", null, "Not medically necessary"],
+    ]);
+    expect(statusHistory.map(entry => [entry.toStatus, entry.source])).toEqual([
+      ["submitted", "user"],
+      ["partially_approved", "payer"],
+    ]);
+  });
+});
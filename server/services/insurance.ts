@@ -1,45 +1,114 @@
-import { PatientInsurance, InsuranceProvider } from "@shared/schema";
-
-export interface InsuranceVerificationResult {
-  isValid: boolean;
-  isActive: boolean;
-  coverageDetails: {
-    deductible: number;
-    copay: number;
-    coinsurance: number;
-    outOfPocketMax: number;
-  };
-  priorAuthRequired: boolean;
-  effectiveDate: string;
-  expirationDate: string;
-  memberStatus: string;
-  message: string;
-}
+import {
+  Patient,
+  PatientInsurance,
+  InsuranceProvider,
+  PriorAuthorization,
+  InsertPriorAuthorization,
+  PayerSubmission,
+} from "@shared/schema";
+import { storage } from "../storage";
+import {
+  payerAdapterRegistry,
+  type PayerAdapterResult,
+  type PayerDecisionStatus,
+  type PayerOperation,
+  type PayerSubmissionContext,
+} from "./payer-adapters";
+import {
+  AvailityClient,
+  AvailityCoveragesClient,
+  AvailityEligibilityService,
+  availityPayerCodes,
+  loadAvailityConfig,
+  loadRequestingProvider,
+} from "./availity";
+import { X12EligibilityService, X12GatewayClient, loadX12GatewayConfig, x12PayerCodes } from "./x12";
+import { authorizationStatusService, StatusTransitionError } from "./authorization-status";
+import { appLogger } from "./app-logger";
+import { serviceLineService } from "./service-lines";
+import { rollUpServiceLines, type ServiceLineDecision } from "@shared/service-lines";
+import { normalizeAuthorizationStatus, type AuthorizationStatus, type StatusChangeSource } from "@shared/authorization-status";
+import { buildSubmissionRequest } from "@shared/authorization-request";
+import type { InsuranceVerificationResult } from "@shared/insurance-verification";
 
-export interface PriorAuthSubmission {
-  patientId: number;
-  insuranceId: number;
-  treatmentType: string;
-  cptCode: string;
-  icd10Code: string;
-  clinicalJustification: string;
-  requestedDate: string;
-  documents: string[];
+export interface PayerSubmissionOutcome {
+  authorization: PriorAuthorization;
+  submission: PayerSubmission;
+  result: PayerAdapterResult;
 }
 
-export interface PriorAuthResponse {
-  authorizationId: string;
-  status: 'pending' | 'approved' | 'denied';
-  referenceNumber: string;
-  message: string;
-  expirationDate?: string;
-  denialReason?: string;
-  appealDeadline?: string;
-}
+const availityConfig = loadAvailityConfig();
+const availityEligibility = availityConfig
+  ? new AvailityEligibilityService(new AvailityCoveragesClient(new AvailityClient(availityConfig)), loadRequestingProvider())
+  : null;
+
+const x12GatewayConfig = loadX12GatewayConfig();
+const x12Eligibility = x12GatewayConfig
+  ? new X12EligibilityService(new X12GatewayClient(x12GatewayConfig))
+  : null;
 
 class InsuranceService {
-  // Mock insurance verification - in production, this would integrate with real insurance APIs
-  async verifyInsurance(insurance: PatientInsurance, provider: InsuranceProvider): Promise<InsuranceVerificationResult> {
+  // Verify a patient's coverage and keep the normalized result on the patient_insurance record
+  async verifyPatientInsurance(insuranceId: number): Promise<{ insurance: PatientInsurance; result: InsuranceVerificationResult }> {
+    const insurance = await storage.getPatientInsuranceById(insuranceId);
+    if (!insurance) {
+      throw new Error('Insurance not found');
+    }
+
+    const patient = await storage.getPatient(insurance.patientId);
+    if (!patient) {
+      throw new Error('Patient not found');
+    }
+
+    const provider = await storage.getInsuranceProvider(insurance.insuranceProviderId);
+    if (!provider) {
+      throw new Error('Insurance provider not found');
+    }
+
+    let result: InsuranceVerificationResult;
+    try {
+      result = await this.verifyInsurance(insurance, provider, patient);
+    } catch (error) {
+      await storage.updatePatientInsurance(insurance.id, {
+        verificationStatus: 'error',
+        verificationResult: { message: (error as Error).message },
+        lastVerifiedAt: new Date(),
+      });
+      throw error;
+    }
+
+    const updated = await storage.updatePatientInsurance(insurance.id, {
+      verificationStatus: result.pending ? 'pending' : result.isActive ? 'active' : result.isValid ? 'inactive' : 'error',
+      verificationResult: result,
+      verificationReference: result.referenceNumber || null,
+      lastVerifiedAt: new Date(),
+    });
+
+    return { insurance: updated || insurance, result };
+  }
+
+  // Eligibility inquiry through the clearinghouse configured for the payer: Availity
+  // coverages or a 270/271 EDI gateway. An Availity inquiry left pending by a previous
+  // run is resumed rather than sent to the payer again.
+  async verifyInsurance(insurance: PatientInsurance, provider: InsuranceProvider, patient: Patient): Promise<InsuranceVerificationResult> {
+    if (availityEligibility && availityPayerCodes().includes(provider.code.toUpperCase())) {
+      const resumeReference = insurance.verificationStatus === 'pending' ? insurance.verificationReference : null;
+      return availityEligibility.verify({ patient, insurance, provider }, resumeReference);
+    }
+
+    if (x12Eligibility && x12PayerCodes().includes(provider.code.toUpperCase())) {
+      return x12Eligibility.verify({ patient, insurance, provider });
+    }
+
+    if (process.env.PAYER_ADAPTER_MODE === 'mock') {
+      return this.mockVerification(insurance, provider);
+    }
+
+    throw new Error(`No eligibility service is configured for ${provider.name}`);
+  }
+
+  // Canned verification results for local development (PAYER_ADAPTER_MODE=mock)
+  private async mockVerification(insurance: PatientInsurance, provider: InsuranceProvider): Promise<InsuranceVerificationResult> {
     // Simulate API call delay
     await new Promise(resolve => setTimeout(resolve, 1000));
 
@@ -92,66 +161,244 @@ class InsuranceService {
       ...response,
       effectiveDate: insurance.effectiveDate.toISOString(),
       expirationDate: insurance.expirationDate?.toISOString() || '',
+      source: 'mock',
+      verifiedAt: new Date().toISOString(),
     };
   }
 
-  // Mock prior authorization submission
-  async submitPriorAuthorization(submission: PriorAuthSubmission): Promise<PriorAuthResponse> {
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
+  // Submit a prior authorization through the adapter registered for its payer
+  async submitPriorAuthorization(authorizationId: number, userId: number): Promise<PayerSubmissionOutcome> {
+    const context = await this.loadSubmissionContext(authorizationId);
+    const adapter = payerAdapterRegistry.resolve(context.provider.code);
 
-    const referenceNumber = `PA-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Mock different responses based on treatment type
-    const mockResponses = {
-      'MRI': {
-        status: 'pending' as const,
-        message: 'Prior authorization request submitted successfully. Review in progress.',
-      },
-      'Physical Therapy': {
-        status: 'approved' as const,
-        message: 'Prior authorization approved. Valid for 90 days.',
-        expirationDate: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString(),
-      },
-      'Specialty Medication': {
-        status: 'denied' as const,
-        message: 'Prior authorization denied. Alternative treatment required.',
-        denialReason: 'Medical necessity not established. Please provide additional clinical documentation.',
-        appealDeadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-      },
-    };
+    return this.execute(context, adapter.name, 'submit', userId, () => adapter.submit(context));
+  }
 
-    const response = mockResponses[submission.treatmentType as keyof typeof mockResponses] || mockResponses['MRI'];
+  // Poll the payer for the latest decision on a submitted authorization
+  async checkAuthorizationStatus(authorizationId: number, userId: number): Promise<PayerSubmissionOutcome> {
+    const context = await this.loadSubmissionContext(authorizationId);
+    const referenceNumber = this.requireReferenceNumber(context.authorization);
+    const adapter = payerAdapterRegistry.resolve(context.provider.code);
 
-    return {
-      authorizationId: `AUTH-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      referenceNumber,
-      ...response,
-    };
+    return this.execute(context, adapter.name, 'check_status', userId, () => adapter.checkStatus(referenceNumber, context));
   }
 
-  // Mock status check
-  async checkAuthorizationStatus(authorizationId: string): Promise<PriorAuthResponse> {
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 500));
+  async cancelPriorAuthorization(authorizationId: number, userId: number, reason?: string): Promise<PayerSubmissionOutcome> {
+    const context = await this.loadSubmissionContext(authorizationId);
+    const referenceNumber = this.requireReferenceNumber(context.authorization);
+    const adapter = payerAdapterRegistry.resolve(context.provider.code);
 
-    // Mock status update
-    const statuses = ['pending', 'approved', 'denied'] as const;
-    const randomStatus = statuses[Math.floor(Math.random() * statuses.length)];
+    return this.execute(context, adapter.name, 'cancel', userId, () => adapter.cancel(referenceNumber, context, reason));
+  }
 
-    return {
-      authorizationId,
-      status: randomStatus,
-      referenceNumber: `PA-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      message: `Authorization status: ${randomStatus}`,
-      ...(randomStatus === 'approved' && {
-        expirationDate: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString(),
-      }),
-      ...(randomStatus === 'denied' && {
-        denialReason: 'Medical necessity not established',
-        appealDeadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-      }),
+  async attachDocuments(authorizationId: number, documentIds: number[], userId: number): Promise<PayerSubmissionOutcome> {
+    const context = await this.loadSubmissionContext(authorizationId);
+    const referenceNumber = this.requireReferenceNumber(context.authorization);
+    const documents = context.documents.filter(doc => documentIds.includes(doc.id));
+
+    if (documents.length !== documentIds.length) {
+      throw new Error('One or more documents are not attached to this authorization');
+    }
+
+    const adapter = payerAdapterRegistry.resolve(context.provider.code);
+    return this.execute(context, adapter.name, 'attach_documents', userId, () => adapter.attachDocuments(referenceNumber, context, documents));
+  }
+
+  // Apply a decision the payer delivered outside an adapter call, such as an
+  // uploaded FHIR PAS ClaimResponse, exactly as an adapter result would be applied
+  async recordPayerResponse(authorizationId: number, adapterName: string, userId: number, result: PayerAdapterResult): Promise<PayerSubmissionOutcome> {
+    const context = await this.loadSubmissionContext(authorizationId);
+    return this.execute(context, adapterName, 'ingest_response', userId, async () => result);
+  }
+
+  // Resolve the payer for an authorization. insuranceId normally references a
+  // patient_insurance row, but older records store the insurance provider id directly.
+  async resolveCoverage(authorization: Pick<PriorAuthorization, 'insuranceId' | 'patientId'>): Promise<{ patientInsurance?: PatientInsurance; provider?: InsuranceProvider }> {
+    const patientInsurance = await storage.getPatientInsuranceById(authorization.insuranceId);
+
+    if (patientInsurance && patientInsurance.patientId === authorization.patientId) {
+      const provider = await storage.getInsuranceProvider(patientInsurance.insuranceProviderId);
+      return { patientInsurance, provider };
+    }
+
+    const provider = await storage.getInsuranceProvider(authorization.insuranceId);
+    return { provider };
+  }
+
+  async loadSubmissionContext(authorizationId: number): Promise<PayerSubmissionContext> {
+    const authorization = await storage.getPriorAuthorization(authorizationId);
+    if (!authorization) {
+      throw new Error('Authorization not found');
+    }
+
+    const patient = await storage.getPatient(authorization.patientId);
+    if (!patient) {
+      throw new Error('Patient not found');
+    }
+
+    const { patientInsurance, provider } = await this.resolveCoverage(authorization);
+    if (!provider) {
+      throw new Error('Insurance provider not found');
+    }
+
+    const documents = await storage.getDocumentsByAuthorization(authorization.id);
+    const lines = await serviceLineService.forAuthorization(authorization);
+    const request = buildSubmissionRequest(authorization.icd10Codes, lines);
+
+    return { authorization, patient, patientInsurance, provider, documents, request };
+  }
+
+  private requireReferenceNumber(authorization: PriorAuthorization): string {
+    if (!authorization.payerReferenceNumber) {
+      throw new Error('Authorization has not been submitted to the payer');
+    }
+    return authorization.payerReferenceNumber;
+  }
+
+  // Run an adapter call, persist the exchange and apply the payer's decision to the authorization
+  private async execute(
+    context: PayerSubmissionContext,
+    adapterName: string,
+    operation: PayerOperation,
+    userId: number,
+    call: () => Promise<PayerAdapterResult>
+  ): Promise<PayerSubmissionOutcome> {
+    const { authorization, provider } = context;
+
+    let result: PayerAdapterResult;
+    try {
+      result = await call();
+    } catch (error) {
+      await storage.createPayerSubmission({
+        authorizationId: authorization.id,
+        payerCode: provider.code,
+        adapter: adapterName,
+        operation,
+        status: 'error',
+        referenceNumber: authorization.payerReferenceNumber,
+        errorMessage: (error as Error).message,
+        performedBy: userId,
+      });
+      throw error;
+    }
+
+    const submission = await storage.createPayerSubmission({
+      authorizationId: authorization.id,
+      payerCode: provider.code,
+      adapter: adapterName,
+      operation,
+      status: result.status,
+      referenceNumber: result.referenceNumber,
+      message: result.message,
+      requestPayload: result.requestPayload ?? null,
+      responsePayload: result.responsePayload ?? null,
+      performedBy: userId,
+    });
+
+    const updates: Partial<InsertPriorAuthorization> = {
+      payerReferenceNumber: result.referenceNumber,
     };
+
+    // A request leaves draft when it is sent, so a decision that comes back on the submit call
+    // itself (a real-time approval or denial) is applied from submitted like any later one
+    let current = authorization;
+    if (operation === 'submit') {
+      updates.submittedDate = new Date();
+      if (normalizeAuthorizationStatus(current.status, current.submittedDate) === 'draft') {
+        current = await authorizationStatusService.transition(authorization.id, 'submitted', {
+          userId,
+          source: 'user',
+          note: `Sent to ${provider.name}`,
+          updates,
+        });
+      }
+    }
+
+    // The payer's decision goes through the status lifecycle like any other change. A decision the
+    // lifecycle rejects (e.g. an approval without an authorization number) is kept on the submission
+    // record for staff to complete by hand; only the reference number is saved on the authorization.
+    let updated: PriorAuthorization | undefined;
+    try {
+      const decisionOptions = {
+        userId,
+        source: this.statusSource(operation),
+        note: result.message,
+        updates: { ...updates, ...this.decisionUpdates(result) },
+      };
+      // Line-level answers are recorded on the service lines; once every line is decided the status
+      // they add up to wins over the payer's overall one, so lines and authorization agree
+      let toStatus = this.statusFromPayer(result.status, current);
+      const lineDecisions = await this.lineDecisionsFor(current, result);
+      if (lineDecisions.length > 0) {
+        const decided = await serviceLineService.recordDecisions(authorization.id, lineDecisions, decisionOptions);
+        current = decided.authorization;
+        toStatus = rollUpServiceLines(decided.lines) || toStatus;
+      }
+      updated = await authorizationStatusService.transition(authorization.id, toStatus, decisionOptions);
+    } catch (error) {
+      if (!(error instanceof StatusTransitionError)) throw error;
+      appLogger.warn("Payer decision not applied to authorization status", {
+        authorizationId: authorization.id,
+        payerStatus: result.status,
+        reason: error.message,
+      }, 'INSURANCE');
+      updated = await storage.updatePriorAuthorization(authorization.id, updates);
+    }
+
+    return { authorization: updated || authorization, submission, result };
+  }
+
+  // Decision details saved with the payer's status. The approval date is set by the lifecycle when
+  // the authorization enters approved, so repeated polls of an approval leave it alone.
+  private decisionUpdates(result: PayerAdapterResult): Partial<InsertPriorAuthorization> {
+    const updates: Partial<InsertPriorAuthorization> = {};
+    if (result.status === 'approved' || result.status === 'partially_approved') {
+      if (result.authorizationNumber) updates.authorizationNumber = result.authorizationNumber;
+      if (result.expirationDate) updates.expirationDate = new Date(result.expirationDate);
+    }
+    if (result.status === 'denied') {
+      if (result.denialReason) updates.denialReason = result.denialReason;
+      if (result.appealDeadline) updates.appealDeadline = new Date(result.appealDeadline);
+    }
+    return updates;
+  }
+
+  // The payer's per-procedure answers as service line decisions. Each answer takes the first line
+  // with its CPT code not already matched; answers that are still open or match no line are skipped.
+  private async lineDecisionsFor(authorization: PriorAuthorization, result: PayerAdapterResult): Promise<ServiceLineDecision[]> {
+    if (!result.lineDecisions?.length) return [];
+
+    const lines = await serviceLineService.forAuthorization(authorization);
+    const decisions: ServiceLineDecision[] = [];
+    for (const answer of result.lineDecisions) {
+      const line = lines.find(item => item.cptCode === answer.procedureCode && !decisions.some(decision => decision.lineId === item.id));
+      if (!line) continue;
+
+      if (answer.status === 'approved' || answer.status === 'partially_approved') {
+        decisions.push({ lineId: line.id, status: 'approved', approvedUnits: answer.approvedQuantity });
+      } else if (answer.status === 'denied') {
+        decisions.push({ lineId: line.id, status: 'denied', denialReason: answer.reasons.join('; ') || 'Not certified by payer' });
+      } else if (answer.status === 'pended') {
+        decisions.push({ lineId: line.id, status: 'pended' });
+      }
+    }
+    return decisions;
+  }
+
+  // How a payer operation is recorded in the status history
+  private statusSource(operation: PayerOperation): StatusChangeSource {
+    if (operation === 'check_status') return 'payer-poll';
+    if (operation === 'ingest_response') return 'import';
+    return 'payer';
+  }
+
+  // 'pending' from a payer only means the request was received
+  private statusFromPayer(status: PayerDecisionStatus, authorization: PriorAuthorization): AuthorizationStatus {
+    if (status === 'pending') {
+      const current = normalizeAuthorizationStatus(authorization.status, authorization.submittedDate);
+      return current === 'draft' ? 'submitted' : current;
+    }
+    return status;
   }
 
   // Get supported insurance providers
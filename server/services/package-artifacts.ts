@@ -0,0 +1,275 @@
+import { createHash } from "crypto";
+import type { AuthorizationServiceLine, Document, PackageArtifact } from "@shared/schema";
+import type { GeneratePackageInput, PackageDocumentRef, PackageFormat } from "@shared/package-artifacts";
+import { describeServiceLine, SERVICE_LINE_STATUS_LABELS, type ServiceLineStatus } from "@shared/service-lines";
+import { storage } from "../storage";
+import { documentStorage } from "./document-storage";
+import { fhirPasService, type PasValidationIssue } from "./fhir-pas";
+import { insuranceService } from "./insurance";
+import type { PayerSubmissionContext } from "./payer-adapters/types";
+import { renderPriorAuthPackage } from "./pdf";
+import { practiceProfileService, type PracticeProfile } from "./practice-profile";
+import { serviceLineService } from "./service-lines";
+import { createNextVersion } from "./versioning";
+
+// Recorded on every artifact; bump it whenever the content of any format changes
+export const PACKAGE_GENERATOR_VERSION = '2.1.0';
+
+// Raised when a package cannot be generated or served; issues carry PAS validation results
+export class PackageArtifactError extends Error {
+  constructor(message: string, public readonly issues: PasValidationIssue[] = []) {
+    super(message);
+    this.name = 'PackageArtifactError';
+  }
+}
+
+export interface GeneratedPackage {
+  artifact: PackageArtifact;
+  // Practice details left blank in the package
+  missingPracticeFields: string[];
+  // Warnings from PAS validation; bundles with errors are not stored
+  validationIssues?: PasValidationIssue[];
+}
+
+interface RenderedPackage {
+  content: Buffer;
+  contentType: string;
+  fileName: string;
+  documents: Document[];
+  validationIssues?: PasValidationIssue[];
+}
+
+function toDocumentRef(document: Document): PackageDocumentRef {
+  return {
+    id: document.id,
+    fileName: document.fileName,
+    documentType: document.documentType,
+    fileSize: document.fileSize,
+  };
+}
+
+export class PackageArtifactService {
+  // Render the package, store it and record it as the authorization's next artifact version
+  async generate(input: GeneratePackageInput, userId: number): Promise<GeneratedPackage> {
+    const context = await insuranceService.loadSubmissionContext(input.authorizationId);
+    const lines = await serviceLineService.forAuthorization(context.authorization);
+    // Packages still generate without practice details, but the user is told what is blank
+    const practice = await practiceProfileService.load();
+    const missingPracticeFields = practiceProfileService.missingFields(practice);
+    const generatedAt = new Date();
+
+    const rendered = await this.render(input.format, context, lines, practice, input.customNotes, generatedAt);
+    const storagePath = await documentStorage.write('packages', rendered.fileName, rendered.content);
+
+    const artifact = await createNextVersion(() => storage.getLatestPackageArtifactVersion(context.authorization.id), version => storage.createPackageArtifact({
+      authorizationId: context.authorization.id,
+      version,
+      format: input.format,
+      fileName: rendered.fileName,
+      contentType: rendered.contentType,
+      fileSize: rendered.content.length,
+      contentHash: createHash('sha256').update(rendered.content).digest('hex'),
+      storagePath,
+      generatorVersion: PACKAGE_GENERATOR_VERSION,
+      includedDocuments: rendered.documents.map(toDocumentRef),
+      customNotes: input.customNotes || null,
+      missingPracticeFields,
+      generatedBy: userId,
+    }));
+
+    return { artifact, missingPracticeFields, validationIssues: rendered.validationIssues };
+  }
+
+  // The stored bytes, checked against the hash recorded when the artifact was generated
+  async read(artifact: PackageArtifact): Promise<Buffer> {
+    const content = await documentStorage.read(artifact.storagePath);
+    if (!content) {
+      throw new PackageArtifactError(`The file for package version ${artifact.version} is missing from storage`);
+    }
+    if (createHash('sha256').update(content).digest('hex') !== artifact.contentHash) {
+      throw new PackageArtifactError(`The file for package version ${artifact.version} does not match its recorded hash`);
+    }
+    return content;
+  }
+
+  private async render(
+    format: PackageFormat,
+    context: PayerSubmissionContext,
+    lines: AuthorizationServiceLine[],
+    practice: PracticeProfile,
+    customNotes: string | undefined,
+    generatedAt: Date,
+  ): Promise<RenderedPackage> {
+    const { authorization, provider, documents } = context;
+
+    switch (format) {
+      case 'pdf': {
+        const dateStr = generatedAt.toISOString().slice(0, 10); // YYYY-MM-DD
+        const timeStr = generatedAt.toTimeString().slice(0, 8).replace(/:/g, '-'); // HH-MM-SS
+        // Cover sheet, request form and the authorization's attached documents
+        return {
+          content: Buffer.from(await renderPriorAuthPackage({ context, lines, practice, customNotes, generatedAt })),
+          contentType: 'application/pdf',
+          fileName: `PA-Submission-${dateStr}_${timeStr}_${provider.name.replace(/[^a-zA-Z0-9]/g, '')}.pdf`,
+          documents,
+        };
+      }
+      case 'email':
+        return {
+          content: Buffer.from(generateEmailContent(context, lines, practice, generatedAt)),
+          contentType: 'message/rfc822',
+          fileName: `Prior_Authorization_Email_${authorization.id}.eml`,
+          documents: [],
+        };
+      case 'json':
+        return {
+          content: Buffer.from(generateJSONContent(context, lines, practice, generatedAt)),
+          contentType: 'application/json',
+          fileName: `Prior_Authorization_Data_${authorization.id}.json`,
+          documents,
+        };
+      case 'fhir-pas': {
+        // Bundles that fail validation are never stored, so every PAS artifact is one that could be sent
+        const { bundle, validation } = fhirPasService.buildBundleFor(context);
+        if (!validation.valid) {
+          throw new PackageArtifactError('FHIR PAS bundle failed validation', validation.issues);
+        }
+        return {
+          content: Buffer.from(JSON.stringify(bundle, null, 2)),
+          contentType: 'application/fhir+json',
+          fileName: `Prior_Authorization_PAS_${authorization.id}.json`,
+          documents,
+          validationIssues: validation.issues,
+        };
+      }
+    }
+  }
+}
+
+export const packageArtifactService = new PackageArtifactService();
+
+function generateEmailContent(context: PayerSubmissionContext, lines: AuthorizationServiceLine[], practice: PracticeProfile, generatedAt: Date): string {
+  const { authorization: auth, patient, patientInsurance, provider } = context;
+  const patientName = `${patient.firstName} ${patient.lastName}`;
+  const insuranceName = provider.name;
+  const requestedDate = new Date(auth.requestedDate).toLocaleDateString();
+
+  return `Subject: Prior Authorization Request - ${patientName} - ${auth.authorizationId}
+From: prior-auth@medicalcenter.com
+To: authorizations@${insuranceName.toLowerCase().replace(/\s+/g, '')}.com
+Date: ${generatedAt.toDateString()}
+
+Dear ${insuranceName} Authorization Team,
+
+I am submitting a prior authorization request for the following patient:
+
+PATIENT INFORMATION:
+Name: ${patientName}
+Date of Birth: ${new Date(patient.dateOfBirth).toLocaleDateString()}
+Member ID: ${patientInsurance?.memberId || 'N/A'}
+Group Number: ${patientInsurance?.groupNumber || 'N/A'}
+
+REQUESTED PROCEDURE/TREATMENT:
+Treatment Type: ${auth.treatmentType || 'N/A'}
+ICD-10 Code(s): ${auth.icd10Codes.map((code, index) => `${index + 1}. ${code}`).join(', ') || 'N/A'}
+Service Lines:
+${lines.map(line => `  ${line.lineNumber}. ${describeServiceLine(line)}`).join('\n') || '  N/A'}
+Requested Service Date: ${requestedDate}
+
+CLINICAL JUSTIFICATION:
+${auth.clinicalJustification || 'Clinical justification provided in attached documentation.'}
+
+PROVIDER INFORMATION:
+Provider Name: ${practice.providerName || 'N/A'}
+Practice: ${practice.practiceName || 'N/A'}
+NPI: ${practice.providerNpi || 'N/A'}
+Phone: ${practice.phone || 'N/A'}
+Fax: ${practice.fax || 'N/A'}
+
+Please process this request at your earliest convenience. All supporting clinical documentation is available upon request.
+
+Thank you for your prompt attention to this matter.
+
+Sincerely,
+${practice.providerName || practice.practiceName || 'N/A'}
+Authorization Request ID: ${auth.authorizationId}
+Date: ${generatedAt.toLocaleDateString()}`;
+}
+
+function generateJSONContent(context: PayerSubmissionContext, lines: AuthorizationServiceLine[], practice: PracticeProfile, generatedAt: Date): string {
+  const { authorization: auth, patient, patientInsurance, provider, documents } = context;
+  const jsonData = {
+    authorizationRequest: {
+      id: auth.authorizationId,
+      status: auth.status,
+      submissionDate: generatedAt.toISOString(),
+      requestedServiceDate: auth.requestedDate,
+
+      provider: {
+        name: practice.providerName || null,
+        practice: practice.practiceName || null,
+        npi: practice.providerNpi || null,
+        facilityNpi: practice.facilityNpi || null,
+        taxId: practice.taxId || null,
+        phone: practice.phone || null,
+        fax: practice.fax || null,
+        address: practice.address || null
+      },
+
+      patient: {
+        name: `${patient.firstName} ${patient.lastName}`,
+        dateOfBirth: patient.dateOfBirth,
+        gender: patient.gender || null,
+        address: patient.address || null,
+        phone: patient.phone || null,
+        email: patient.email || null
+      },
+
+      insurance: {
+        provider: provider.name,
+        memberId: patientInsurance?.memberId || 'N/A',
+        groupNumber: patientInsurance?.groupNumber || 'N/A',
+        isPrimary: patientInsurance?.isPrimary || false
+      },
+
+      clinical: {
+        treatmentType: auth.treatmentType,
+        cptCodes: auth.cptCodes,
+        icd10Codes: auth.icd10Codes,
+        serviceLines: lines.map(line => ({
+          lineNumber: line.lineNumber,
+          cptCode: line.cptCode,
+          modifiers: line.modifiers,
+          units: line.units,
+          diagnosisPointers: line.diagnosisPointers,
+          placeOfService: line.placeOfService,
+          status: SERVICE_LINE_STATUS_LABELS[line.status as ServiceLineStatus] || line.status,
+          approvedUnits: line.approvedUnits,
+          denialReason: line.denialReason,
+        })),
+        clinicalJustification: auth.clinicalJustification,
+        medicalNecessity: "Patient requires requested treatment based on clinical evaluation and medical standards"
+      },
+
+      attachments: documents.map(document => ({
+        fileName: document.fileName,
+        documentType: document.documentType,
+        fileType: document.fileType,
+      })),
+
+      metadata: {
+        systemVersion: "MedAuth Pro v2.0.0",
+        generatorVersion: PACKAGE_GENERATOR_VERSION,
+        exportDate: generatedAt.toISOString(),
+        hipaaCompliant: true,
+        auditTrail: {
+          createdBy: "System Administrator",
+          lastModified: auth.updatedAt || auth.createdAt,
+          reviewStatus: "Pending"
+        }
+      }
+    }
+  };
+
+  return JSON.stringify(jsonData, null, 2);
+}
@@ -0,0 +1,33 @@
+import { PayerAdapterRegistry } from "./registry";
+import { ManualSubmissionAdapter } from "./manual-adapter";
+import { MockPayerAdapter } from "./mock-adapter";
+import {
+  AvailityClient,
+  AvailityServiceReviewAdapter,
+  AvailityServiceReviewsClient,
+  availityPayerCodes,
+  loadAvailityConfig,
+  loadRequestingProvider,
+} from "../availity";
+
+export * from "./types";
+export { PayerAdapterRegistry } from "./registry";
+export { ManualSubmissionAdapter } from "./manual-adapter";
+export { MockPayerAdapter } from "./mock-adapter";
+
+export const payerAdapterRegistry = new PayerAdapterRegistry(new ManualSubmissionAdapter());
+
+if (process.env.PAYER_ADAPTER_MODE === 'mock') {
+  payerAdapterRegistry.setDefault(new MockPayerAdapter());
+}
+
+const availityConfig = loadAvailityConfig();
+if (availityConfig) {
+  const serviceReviewAdapter = new AvailityServiceReviewAdapter(
+    new AvailityServiceReviewsClient(new AvailityClient(availityConfig)),
+    loadRequestingProvider(),
+  );
+  for (const payerCode of availityPayerCodes()) {
+    payerAdapterRegistry.register(payerCode, serviceReviewAdapter);
+  }
+}
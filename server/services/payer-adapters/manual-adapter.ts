@@ -0,0 +1,57 @@
+import type { Document } from "@shared/schema";
+import type { PayerAdapter, PayerAdapterResult, PayerSubmissionContext } from "./types";
+
+// Default adapter for payers without an electronic channel. Nothing is transmitted;
+// the request is recorded as pending so staff can submit by phone, fax or portal
+// and track the outcome through the workflow.
+export class ManualSubmissionAdapter implements PayerAdapter {
+  readonly name = 'manual';
+
+  async submit(context: PayerSubmissionContext): Promise<PayerAdapterResult> {
+    const { authorization, provider } = context;
+    const channel = provider.priorAuthFax
+      ? `fax ${provider.priorAuthFax}`
+      : provider.priorAuthPhone
+        ? `phone ${provider.priorAuthPhone}`
+        : provider.priorAuthWebsite || 'the payer portal';
+
+    return {
+      status: 'pending',
+      referenceNumber: `MANUAL-${authorization.authorizationId}`,
+      message: `No electronic channel configured for ${provider.name}. Submit via ${channel}.`,
+      requestPayload: {
+        authorizationId: authorization.authorizationId,
+        payerCode: provider.code,
+        diagnoses: context.request.diagnoses,
+        serviceLines: context.request.serviceLines,
+        documentIds: context.documents.map(doc => doc.id),
+      },
+    };
+  }
+
+  async checkStatus(referenceNumber: string, context: PayerSubmissionContext): Promise<PayerAdapterResult> {
+    return {
+      status: context.authorization.status === 'in_review' ? 'in_review' : 'pending',
+      referenceNumber,
+      message: 'Status must be confirmed with the payer manually',
+    };
+  }
+
+  async cancel(referenceNumber: string, context: PayerSubmissionContext, reason?: string): Promise<PayerAdapterResult> {
+    return {
+      status: 'cancelled',
+      referenceNumber,
+      message: `Cancellation recorded. Notify ${context.provider.name} manually.`,
+      requestPayload: { reason: reason || null },
+    };
+  }
+
+  async attachDocuments(referenceNumber: string, context: PayerSubmissionContext, documents: Document[]): Promise<PayerAdapterResult> {
+    return {
+      status: 'pending',
+      referenceNumber,
+      message: `${documents.length} document(s) recorded for manual transmission to ${context.provider.name}`,
+      requestPayload: { documentIds: documents.map(doc => doc.id) },
+    };
+  }
+}
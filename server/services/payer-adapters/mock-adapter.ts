@@ -0,0 +1,97 @@
+import type { Document } from "@shared/schema";
+import type { PayerAdapter, PayerAdapterResult, PayerDecisionStatus, PayerSubmissionContext } from "./types";
+
+// Canned payer responses keyed on treatment type. Used for local development and
+// tests; enable it for every payer with PAYER_ADAPTER_MODE=mock.
+export class MockPayerAdapter implements PayerAdapter {
+  readonly name = 'mock';
+
+  constructor(private latencyMs = 2000) {}
+
+  async submit(context: PayerSubmissionContext): Promise<PayerAdapterResult> {
+    await this.delay();
+
+    const referenceNumber = `PA-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    // Mock different responses based on treatment type
+    const mockResponses = {
+      'MRI': {
+        status: 'pending' as const,
+        message: 'Prior authorization request submitted successfully. Review in progress.',
+      },
+      'Physical Therapy': {
+        status: 'approved' as const,
+        message: 'Prior authorization approved. Valid for 90 days.',
+        authorizationNumber: `AUTH-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        expirationDate: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+      'Specialty Medication': {
+        status: 'denied' as const,
+        message: 'Prior authorization denied. Alternative treatment required.',
+        denialReason: 'Medical necessity not established. Please provide additional clinical documentation.',
+        appealDeadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    };
+
+    const response = mockResponses[context.authorization.treatmentType as keyof typeof mockResponses] || mockResponses['MRI'];
+
+    return {
+      referenceNumber,
+      ...response,
+      requestPayload: {
+        authorizationId: context.authorization.authorizationId,
+        treatmentType: context.authorization.treatmentType,
+      },
+      responsePayload: { referenceNumber, ...response },
+    };
+  }
+
+  async checkStatus(referenceNumber: string): Promise<PayerAdapterResult> {
+    await this.delay();
+
+    // Mock status update
+    const statuses: PayerDecisionStatus[] = ['pending', 'approved', 'denied'];
+    const randomStatus = statuses[Math.floor(Math.random() * statuses.length)];
+
+    const response = {
+      status: randomStatus,
+      referenceNumber,
+      message: `Authorization status: ${randomStatus}`,
+      ...(randomStatus === 'approved' && {
+        authorizationNumber: `AUTH-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        expirationDate: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString(),
+      }),
+      ...(randomStatus === 'denied' && {
+        denialReason: 'Medical necessity not established',
+        appealDeadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+      }),
+    };
+
+    return { ...response, responsePayload: response };
+  }
+
+  async cancel(referenceNumber: string): Promise<PayerAdapterResult> {
+    await this.delay();
+    return {
+      status: 'cancelled',
+      referenceNumber,
+      message: 'Prior authorization request cancelled',
+    };
+  }
+
+  async attachDocuments(referenceNumber: string, context: PayerSubmissionContext, documents: Document[]): Promise<PayerAdapterResult> {
+    await this.delay();
+    return {
+      status: 'in_review',
+      referenceNumber,
+      message: `${documents.length} document(s) received`,
+      requestPayload: { documentIds: documents.map(doc => doc.id) },
+    };
+  }
+
+  private async delay(): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import type { PayerAdapter } from "./types";
+
+// Maps insuranceProviders.code to the adapter that talks to that payer.
+// Payers without a dedicated adapter fall back to the default adapter.
+export class PayerAdapterRegistry {
+  private adapters = new Map<string, PayerAdapter>();
+
+  constructor(private defaultAdapter: PayerAdapter) {}
+
+  register(payerCode: string, adapter: PayerAdapter): void {
+    this.adapters.set(this.normalize(payerCode), adapter);
+  }
+
+  unregister(payerCode: string): boolean {
+    return this.adapters.delete(this.normalize(payerCode));
+  }
+
+  setDefault(adapter: PayerAdapter): void {
+    this.defaultAdapter = adapter;
+  }
+
+  resolve(payerCode: string): PayerAdapter {
+    return this.adapters.get(this.normalize(payerCode)) || this.defaultAdapter;
+  }
+
+  list(): { payerCode: string; adapter: string }[] {
+    return Array.from(this.adapters.entries()).map(([payerCode, adapter]) => ({
+      payerCode,
+      adapter: adapter.name,
+    }));
+  }
+
+  private normalize(payerCode: string): string {
+    return payerCode.trim().toUpperCase();
+  }
+}
@@ -0,0 +1,59 @@
+import type {
+  PriorAuthorization,
+  Patient,
+  PatientInsurance,
+  InsuranceProvider,
+  Document,
+} from "@shared/schema";
+import type { SubmissionRequest } from "@shared/authorization-request";
+
+// Statuses a payer can report back for a prior authorization request
+export type PayerDecisionStatus = 'pending' | 'in_review' | 'pended' | 'approved' | 'partially_approved' | 'denied' | 'cancelled';
+
+// ingest_response records a decision the payer delivered outside an adapter call
+export type PayerOperation = 'submit' | 'check_status' | 'cancel' | 'attach_documents' | 'ingest_response';
+
+// Everything an adapter needs to build a payer-specific request
+export interface PayerSubmissionContext {
+  authorization: PriorAuthorization;
+  patient: Patient;
+  patientInsurance?: PatientInsurance;
+  provider: InsuranceProvider;
+  documents: Document[];
+  // Diagnoses and service lines every payer payload is built from
+  request: SubmissionRequest;
+}
+
+// The payer's decision on one requested procedure, matched to a service line by CPT code
+export interface PayerLineDecision {
+  procedureCode: string;
+  status: PayerDecisionStatus;
+  // Units the payer certified, when it said
+  approvedQuantity?: number;
+  reasons: string[];
+}
+
+export interface PayerAdapterResult {
+  status: PayerDecisionStatus;
+  referenceNumber: string;
+  message: string;
+  authorizationNumber?: string;
+  expirationDate?: string;
+  denialReason?: string;
+  appealDeadline?: string;
+  // Per-procedure decisions, for payers that answer line by line
+  lineDecisions?: PayerLineDecision[];
+  // Raw payloads exchanged with the payer, persisted for compliance and troubleshooting
+  requestPayload?: unknown;
+  responsePayload?: unknown;
+}
+
+// Transport for a single payer (or clearinghouse). Implementations are registered
+// against insuranceProviders.code in the PayerAdapterRegistry.
+export interface PayerAdapter {
+  readonly name: string;
+  submit(context: PayerSubmissionContext): Promise<PayerAdapterResult>;
+  checkStatus(referenceNumber: string, context: PayerSubmissionContext): Promise<PayerAdapterResult>;
+  cancel(referenceNumber: string, context: PayerSubmissionContext, reason?: string): Promise<PayerAdapterResult>;
+  attachDocuments(referenceNumber: string, context: PayerSubmissionContext, documents: Document[]): Promise<PayerAdapterResult>;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import type { Document } from "@shared/schema";
+import { appendAttachment, readDocumentContent } from "./attachments";
+import { PdfDocumentBuilder } from "./document-builder";
+
+const attachment = {
+  fileName: "mri-report.pdf",
+  fileType: "application/pdf",
+  fileSize: 2048,
+  documentType: "imaging_report",
+  createdAt: new Date("2026-01-05T00:00:00Z"),
+} as Document;
+
+async function pdfWithPages(count: number): Promise<Buffer> {
+  const source = await PDFDocument.create();
+  for (let index = 0; index < count; index++) source.addPage();
+  return Buffer.from(await source.save());
+}
+
+describe("appending a PDF attachment", () => {
+  it("copies its pages after the heading page without a trailing blank page", async () => {
+    const builder = await PdfDocumentBuilder.create("Package");
+
+    await appendAttachment(builder, attachment, 1, await pdfWithPages(2));
+
+    // The builder's first page, the attachment heading, then the two copied pages
+    expect(builder.pdf.getPageCount()).toBe(4);
+  });
+
+  it("starts a new page for text written after the copied pages", async () => {
+    const builder = await PdfDocumentBuilder.create("Package");
+    await appendAttachment(builder, attachment, 1, await pdfWithPages(2));
+
+    builder.text("Closing notes");
+
+    expect(builder.pdf.getPageCount()).toBe(5);
+    expect(builder.currentPage).toBe(builder.pdf.getPage(4));
+  });
+});
+
+describe("reading attachment files", () => {
+  it("does not read files recorded outside document storage", async () => {
+    expect(await readDocumentContent({ ...attachment, encryptedPath: "/etc/passwd" } as Document)).toBeNull();
+    expect(await readDocumentContent({ ...attachment, encryptedPath: "/secure/documents/1_../../../etc/passwd" } as Document)).toBeNull();
+  });
+});
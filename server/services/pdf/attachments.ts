@@ -0,0 +1,71 @@
+import { PDFDocument } from "pdf-lib";
+import type { Document } from "@shared/schema";
+import { documentStorage } from "../document-storage";
+import { CONTENT_WIDTH, MARGIN, PAGE_HEIGHT, type PdfDocumentBuilder } from "./document-builder";
+
+// Space left under an attachment's heading for a scaled image
+const IMAGE_TOP_OFFSET = 110;
+
+// Stored files live at their encryptedPath; records without a stored file, or whose path is outside
+// document storage, return null and are listed as unavailable
+export async function readDocumentContent(document: Document): Promise<Buffer | null> {
+  return documentStorage.readStored(document.encryptedPath);
+}
+
+function unavailable(builder: PdfDocumentBuilder, reason: string) {
+  builder.space(8);
+  builder.text(reason, { muted: true });
+}
+
+// Append one attached document after a heading page: PDF pages are copied in as they are, images
+// are scaled onto a page, and plain text is reflowed. Anything else is listed with a note.
+export async function appendAttachment(builder: PdfDocumentBuilder, document: Document, index: number, content: Buffer | null) {
+  builder.newPage();
+  builder.heading(`Attachment ${index}: ${document.fileName}`, 14);
+  builder.field('Document type:', document.documentType?.replace(/_/g, ' ') || 'Supporting documentation');
+  builder.field('File:', `${document.fileType}, ${Math.max(1, Math.round(document.fileSize / 1024))} KB`);
+  builder.field('Uploaded:', document.createdAt.toLocaleDateString());
+
+  if (!content) {
+    unavailable(builder, 'The file is not available in document storage. It is listed here as part of the submission and must be sent separately.');
+    return;
+  }
+
+  const fileType = document.fileType.toLowerCase();
+  if (fileType.includes('pdf')) {
+    try {
+      const source = await PDFDocument.load(content, { ignoreEncryption: true });
+      const pages = await builder.pdf.copyPages(source, source.getPageIndices());
+      builder.space(8);
+      builder.text(`${pages.length} page(s) follow.`, { muted: true });
+      builder.addPages(pages);
+    } catch {
+      unavailable(builder, 'The PDF could not be read and must be sent separately.');
+    }
+    return;
+  }
+
+  if (fileType.includes('jpeg') || fileType.includes('jpg') || fileType.includes('png')) {
+    try {
+      const image = fileType.includes('png') ? await builder.pdf.embedPng(content) : await builder.pdf.embedJpg(content);
+      const { width, height } = image.scaleToFit(CONTENT_WIDTH, PAGE_HEIGHT - MARGIN * 2 - IMAGE_TOP_OFFSET);
+      builder.currentPage.drawImage(image, {
+        x: MARGIN + (CONTENT_WIDTH - width) / 2,
+        y: builder.y - 12 - height,
+        width,
+        height,
+      });
+    } catch {
+      unavailable(builder, 'The image could not be read and must be sent separately.');
+    }
+    return;
+  }
+
+  if (fileType.startsWith('text/') || fileType.includes('txt')) {
+    builder.space(8);
+    builder.text(content.toString('utf8'), { size: 9 });
+    return;
+  }
+
+  unavailable(builder, `${document.fileType} files cannot be included in the PDF package and must be sent separately.`);
+}
@@ -0,0 +1,198 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+
+// US Letter, in points
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+export const MARGIN = 54;
+const FOOTER_HEIGHT = 30;
+export const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.75, 0.75, 0.75);
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  muted?: boolean;
+  indent?: number;
+  // Extra space after the block
+  spacing?: number;
+}
+
+const REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"',
+  '–': '-', '—': '-', '•': '*', '…': '...',
+  '≤': '<=', '≥': '>=', '\t': '    ',
+};
+
+// The standard fonts only carry WinAnsi glyphs; anything else is approximated or dropped
+export function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‘’“”–—•…≤≥\t]/g, char => REPLACEMENTS[char])
+    .replace(/\r/g, '')
+    .normalize('NFKC')
+    .replace(/[^\n\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+// Lays text out top to bottom across as many Letter pages as it needs, wrapping to the
+// content width. Page numbers are stamped on every page when the document is saved.
+export class PdfDocumentBuilder {
+  private page!: PDFPage;
+  private cursor = 0;
+
+  private constructor(readonly pdf: PDFDocument, readonly regular: PDFFont, readonly bold: PDFFont) {}
+
+  static async create(title: string): Promise<PdfDocumentBuilder> {
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(toWinAnsi(title));
+    pdf.setCreationDate(new Date());
+    const [regular, bold] = await Promise.all([
+      pdf.embedFont(StandardFonts.Helvetica),
+      pdf.embedFont(StandardFonts.HelveticaBold),
+    ]);
+    const builder = new PdfDocumentBuilder(pdf, regular, bold);
+    builder.newPage();
+    return builder;
+  }
+
+  get currentPage(): PDFPage {
+    return this.page;
+  }
+
+  get y(): number {
+    return this.cursor;
+  }
+
+  newPage(): PDFPage {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.cursor = PAGE_HEIGHT - MARGIN;
+    return this.page;
+  }
+
+  // Append pages made elsewhere, e.g. copied from another PDF. They count as full, so text written
+  // afterwards starts a new page after them; nothing more is drawn on the page before them.
+  addPages(pages: PDFPage[]) {
+    pages.forEach(page => this.pdf.addPage(page));
+    this.cursor = MARGIN + FOOTER_HEIGHT;
+  }
+
+  // Start a new page unless `height` points still fit above the footer
+  ensureSpace(height: number) {
+    if (this.cursor - height < MARGIN + FOOTER_HEIGHT) {
+      this.newPage();
+    }
+  }
+
+  space(height: number) {
+    this.cursor -= height;
+  }
+
+  wrap(text: string, size: number, font: PDFFont, width = CONTENT_WIDTH): string[] {
+    const lines: string[] = [];
+    for (const paragraph of toWinAnsi(text).split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/ +/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+        // Words wider than the column are broken wherever they run out of room
+        line = '';
+        for (const char of word) {
+          if (font.widthOfTextAtSize(line + char, size) > width && line) {
+            lines.push(line);
+            line = '';
+          }
+          line += char;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(text: string, options: TextOptions = {}) {
+    const size = options.size ?? 10;
+    const font = options.bold ? this.bold : this.regular;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * 1.35;
+
+    for (const line of this.wrap(text, size, font, CONTENT_WIDTH - indent)) {
+      this.ensureSpace(lineHeight);
+      this.cursor -= lineHeight;
+      if (line) {
+        this.page.drawText(line, {
+          x: MARGIN + indent,
+          y: this.cursor + (lineHeight - size),
+          size,
+          font,
+          color: options.muted ? MUTED_COLOR : TEXT_COLOR,
+        });
+      }
+    }
+    this.cursor -= options.spacing ?? 0;
+  }
+
+  heading(text: string, size = 12) {
+    // Keep a heading on the same page as at least two lines of what follows
+    this.ensureSpace(size * 1.35 + 30);
+    this.space(6);
+    this.text(text, { size, bold: true, spacing: 2 });
+    this.rule();
+  }
+
+  // "Label: value" pairs with the label in bold and the value wrapped beside it
+  field(label: string, value: string | null | undefined, labelWidth = 140) {
+    const size = 10;
+    const lineHeight = size * 1.35;
+    const lines = this.wrap(value || 'N/A', size, this.regular, CONTENT_WIDTH - labelWidth);
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(lineHeight);
+      this.cursor -= lineHeight;
+      const baseline = this.cursor + (lineHeight - size);
+      if (index === 0) {
+        this.page.drawText(toWinAnsi(label), { x: MARGIN, y: baseline, size, font: this.bold, color: TEXT_COLOR });
+      }
+      this.page.drawText(line, { x: MARGIN + labelWidth, y: baseline, size, font: this.regular, color: TEXT_COLOR });
+    });
+  }
+
+  list(items: string[], options: TextOptions = {}) {
+    items.forEach((item, index) => this.text(`${index + 1}. ${item}`, { indent: 12, ...options }));
+  }
+
+  rule() {
+    this.ensureSpace(8);
+    this.cursor -= 4;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.cursor },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.cursor },
+      thickness: 0.75,
+      color: RULE_COLOR,
+    });
+    this.cursor -= 6;
+  }
+
+  // Stamp "Page n of N" and a running label on every page, then serialize
+  async save(footerLabel: string): Promise<Uint8Array> {
+    const pages = this.pdf.getPages();
+    const label = toWinAnsi(footerLabel);
+    pages.forEach((page, index) => {
+      const { width } = page.getSize();
+      const pageLabel = `Page ${index + 1} of ${pages.length}`;
+      page.drawText(label, { x: MARGIN, y: MARGIN / 2, size: 8, font: this.regular, color: MUTED_COLOR });
+      page.drawText(pageLabel, {
+        x: width - MARGIN - this.regular.widthOfTextAtSize(pageLabel, 8),
+        y: MARGIN / 2,
+        size: 8,
+        font: this.regular,
+        color: MUTED_COLOR,
+      });
+    });
+    return this.pdf.save();
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./document-builder";
+export * from "./attachments";
+export { renderPriorAuthPackage, type PriorAuthPackageInput } from "./prior-auth-package";
@@ -0,0 +1,140 @@
+import type { AuthorizationServiceLine } from "@shared/schema";
+import { describeServiceLine } from "@shared/service-lines";
+import type { PayerSubmissionContext } from "../payer-adapters/types";
+import type { PracticeProfile } from "../practice-profile";
+import { appendAttachment, readDocumentContent } from "./attachments";
+import { MARGIN, PdfDocumentBuilder, toWinAnsi } from "./document-builder";
+
+export interface PriorAuthPackageInput {
+  context: PayerSubmissionContext;
+  lines: AuthorizationServiceLine[];
+  practice: PracticeProfile;
+  customNotes?: string;
+  generatedAt?: Date;
+}
+
+const NOT_CONFIGURED = 'Not configured';
+
+const CONFIDENTIALITY_NOTICE = 'This transmission contains protected health information that is confidential under HIPAA. ' +
+  'It is intended only for the payer named above. If you received it in error, notify the sender immediately and destroy all copies.';
+
+function formatDate(value: Date | string | null | undefined): string {
+  if (!value) return 'N/A';
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? 'N/A' : date.toLocaleDateString('en-US');
+}
+
+// Cover sheet, request form and every attached document, in that order
+export async function renderPriorAuthPackage(input: PriorAuthPackageInput): Promise<Uint8Array> {
+  const { lines, practice, customNotes } = input;
+  const { authorization, patient, patientInsurance, provider, documents, request } = input.context;
+  const generatedAt = input.generatedAt || new Date();
+  const patientName = `${patient.firstName} ${patient.lastName}`;
+
+  const builder = await PdfDocumentBuilder.create(`Prior Authorization Request ${authorization.authorizationId}`);
+  builder.pdf.setAuthor(toWinAnsi(practice.practiceName || practice.providerName || 'Prior authorization'));
+  builder.pdf.setSubject(toWinAnsi(`Prior authorization request for ${patientName}`));
+
+  // Cover sheet
+  builder.text('PRIOR AUTHORIZATION REQUEST', { size: 20, bold: true, spacing: 4 });
+  builder.text(authorization.urgentRequest ? 'URGENT - expedited review requested' : 'Standard review', {
+    size: 11,
+    bold: authorization.urgentRequest,
+    spacing: 12,
+  });
+
+  builder.heading('To');
+  builder.field('Payer:', provider.name);
+  builder.field('Prior auth fax:', provider.priorAuthFax);
+  builder.field('Prior auth phone:', provider.priorAuthPhone);
+
+  builder.heading('From');
+  builder.field('Practice:', practice.practiceName || NOT_CONFIGURED);
+  builder.field('Requesting provider:', practice.providerName || NOT_CONFIGURED);
+  builder.field('Phone:', practice.phone || NOT_CONFIGURED);
+  builder.field('Fax:', practice.fax || NOT_CONFIGURED);
+
+  builder.heading('Request');
+  builder.field('Request ID:', authorization.authorizationId);
+  builder.field('Patient:', patientName);
+  builder.field('Date sent:', formatDate(generatedAt));
+  // Left blank here and filled in once the attachments are in
+  const coverPage = builder.currentPage;
+  builder.field('Pages:', ' ');
+  const pageCountY = builder.y;
+
+  builder.heading('Contents');
+  builder.list(['Prior authorization request form', ...documents.map(doc => `Attachment: ${doc.fileName}`)]);
+
+  builder.space(16);
+  builder.text(CONFIDENTIALITY_NOTICE, { size: 8, muted: true });
+
+  // Request form
+  builder.newPage();
+  builder.text('PRIOR AUTHORIZATION REQUEST FORM', { size: 16, bold: true, spacing: 6 });
+
+  builder.heading('Requesting Provider');
+  builder.field('Provider name:', practice.providerName || NOT_CONFIGURED);
+  builder.field('Practice name:', practice.practiceName || NOT_CONFIGURED);
+  builder.field('Provider NPI:', practice.providerNpi || NOT_CONFIGURED);
+  builder.field('Facility NPI:', practice.facilityNpi || NOT_CONFIGURED);
+  builder.field('Tax ID:', practice.taxId || NOT_CONFIGURED);
+  builder.field('Phone:', practice.phone || NOT_CONFIGURED);
+  builder.field('Fax:', practice.fax || NOT_CONFIGURED);
+  builder.field('Address:', practice.address || NOT_CONFIGURED);
+
+  builder.heading('Patient Information');
+  builder.field('Name:', patientName);
+  builder.field('Date of birth:', formatDate(patient.dateOfBirth));
+  builder.field('Gender:', patient.gender);
+  builder.field('Insurance:', provider.name);
+  builder.field('Member ID:', patientInsurance?.memberId || patient.memberId);
+  builder.field('Group #:', patientInsurance?.groupNumber);
+
+  builder.heading('Services Requested');
+  builder.field('Treatment type:', authorization.treatmentType);
+  builder.field('Date of service:', formatDate(authorization.requestedDate));
+  builder.field('Review type:', authorization.urgentRequest ? 'Urgent' : 'Standard');
+
+  builder.space(6);
+  builder.text('Diagnoses (ICD-10):', { bold: true });
+  builder.list(request.diagnoses.map(diagnosis => diagnosis.primary ? `${diagnosis.code} (primary)` : diagnosis.code));
+
+  builder.space(6);
+  builder.text('Service lines:', { bold: true });
+  builder.list(lines.map(line => describeServiceLine(line)));
+
+  builder.heading('Clinical Justification / Medical Necessity');
+  builder.text(authorization.clinicalJustification || 'See attached clinical documentation.');
+
+  if (authorization.providerNotes || customNotes) {
+    builder.heading('Additional Notes');
+    if (authorization.providerNotes) builder.text(authorization.providerNotes, { spacing: 4 });
+    if (customNotes) builder.text(customNotes);
+  }
+
+  builder.heading('Attachments Included');
+  if (documents.length > 0) {
+    builder.list(documents.map(doc => doc.fileName));
+  } else {
+    builder.text('None', { muted: true });
+  }
+
+  builder.space(30);
+  builder.ensureSpace(40);
+  builder.text('Requesting Provider Signature: ________________________________', { spacing: 8 });
+  builder.text(`Date: ${formatDate(generatedAt)}`);
+
+  for (let index = 0; index < documents.length; index++) {
+    await appendAttachment(builder, documents[index], index + 1, await readDocumentContent(documents[index]));
+  }
+
+  coverPage.drawText(String(builder.pdf.getPageCount()), {
+    x: MARGIN + 140,
+    y: pageCountY + 3.5,
+    size: 10,
+    font: builder.regular,
+  });
+
+  return builder.save(`${authorization.authorizationId} - ${patientName}`);
+}
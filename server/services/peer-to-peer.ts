@@ -0,0 +1,134 @@
+import type { InsertPeerToPeerReview, PeerToPeerReview } from "@shared/schema";
+import {
+  PEER_TO_PEER_AUTHORIZATION_STATUSES,
+  type PeerToPeerNotes,
+  type PeerToPeerOutcome,
+  type PeerToPeerReminder,
+} from "@shared/peer-to-peer";
+import { AUTHORIZATION_STATUS_LABELS, normalizeAuthorizationStatus } from "@shared/authorization-status";
+import { storage } from "../storage";
+
+// Raised when a peer-to-peer review cannot be requested or moved on from its current state
+export class PeerToPeerStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PeerToPeerStateError';
+  }
+}
+
+export interface RequestPeerToPeerInput {
+  assignedDoctorId: number;
+  requestDeadline?: Date;
+  scheduledAt?: Date;
+  reviewerName?: string;
+  reviewerCredentials?: string;
+  reviewerPhone?: string;
+  reviewerEmail?: string;
+  notes?: PeerToPeerNotes;
+}
+
+export type PeerToPeerUpdates = Partial<RequestPeerToPeerInput>;
+
+const HOUR_MS = 60 * 60 * 1000;
+// How far ahead a deadline or scheduled call shows up in the assigned doctor's reminders
+const REMINDER_WINDOW_HOURS = parseInt(process.env.PEER_TO_PEER_REMINDER_HOURS || '48');
+
+export class PeerToPeerService {
+  async request(authorizationId: number, input: RequestPeerToPeerInput, userId: number): Promise<PeerToPeerReview> {
+    const authorization = await storage.getPriorAuthorization(authorizationId);
+    if (!authorization) {
+      throw new Error('Authorization not found');
+    }
+
+    const status = normalizeAuthorizationStatus(authorization.status, authorization.submittedDate);
+    if (!PEER_TO_PEER_AUTHORIZATION_STATUSES.includes(status)) {
+      throw new PeerToPeerStateError(`Peer-to-peer reviews are for pended or denied authorizations; this one is ${AUTHORIZATION_STATUS_LABELS[status]}`);
+    }
+
+    await this.requireDoctor(input.assignedDoctorId);
+
+    return storage.createPeerToPeerReview({
+      ...input,
+      authorizationId,
+      status: input.scheduledAt ? 'scheduled' : 'requested',
+      createdBy: userId,
+    });
+  }
+
+  // Update scheduling, reviewer contact or notes. Setting a call time marks the review scheduled.
+  async update(reviewId: number, updates: PeerToPeerUpdates): Promise<PeerToPeerReview> {
+    const review = await this.loadOpenReview(reviewId);
+    if (updates.assignedDoctorId !== undefined) {
+      await this.requireDoctor(updates.assignedDoctorId);
+    }
+
+    const changes: Partial<InsertPeerToPeerReview> = { ...updates };
+    if (updates.notes) {
+      changes.notes = { ...(review.notes as PeerToPeerNotes | null), ...updates.notes };
+    }
+    if (updates.scheduledAt) {
+      changes.status = 'scheduled';
+    }
+
+    return (await storage.updatePeerToPeerReview(reviewId, changes)) || review;
+  }
+
+  async recordOutcome(reviewId: number, outcome: PeerToPeerOutcome, notes?: PeerToPeerNotes): Promise<PeerToPeerReview> {
+    const review = await this.loadOpenReview(reviewId);
+    const changes: Partial<InsertPeerToPeerReview> = { status: 'completed', outcome, completedAt: new Date() };
+    if (notes) {
+      changes.notes = { ...(review.notes as PeerToPeerNotes | null), ...notes };
+    }
+    return (await storage.updatePeerToPeerReview(reviewId, changes)) || review;
+  }
+
+  async cancel(reviewId: number, reason: string): Promise<PeerToPeerReview> {
+    const review = await this.loadOpenReview(reviewId);
+    return (await storage.updatePeerToPeerReview(reviewId, {
+      status: 'cancelled',
+      cancellationReason: reason,
+    })) || review;
+  }
+
+  // Open reviews assigned to a doctor whose call or request deadline falls within the reminder window, soonest first
+  async remindersFor(doctorId: number, now: Date = new Date()): Promise<PeerToPeerReminder[]> {
+    const reviews = await storage.getOpenPeerToPeerReviewsByDoctor(doctorId);
+    const horizon = now.getTime() + REMINDER_WINDOW_HOURS * HOUR_MS;
+
+    const reminders = reviews.flatMap((review): PeerToPeerReminder[] => {
+      // A scheduled call supersedes the request deadline
+      const kind = review.status === 'scheduled' && review.scheduledAt ? 'call' : 'deadline';
+      const dueAt = kind === 'call' ? review.scheduledAt : review.requestDeadline;
+      if (!dueAt || dueAt.getTime() > horizon) return [];
+      return [{
+        reviewId: review.id,
+        authorizationId: review.authorizationId,
+        kind,
+        dueAt: dueAt.toISOString(),
+        overdue: dueAt.getTime() < now.getTime(),
+      }];
+    });
+
+    return reminders.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+  }
+
+  private async loadOpenReview(reviewId: number): Promise<PeerToPeerReview> {
+    const review = await storage.getPeerToPeerReview(reviewId);
+    if (!review) {
+      throw new Error('Peer-to-peer review not found');
+    }
+    if (review.status === 'completed' || review.status === 'cancelled') {
+      throw new PeerToPeerStateError(`This peer-to-peer review is already ${review.status}`);
+    }
+    return review;
+  }
+
+  private async requireDoctor(userId: number) {
+    const user = await storage.getUser(userId);
+    if (!user || user.role !== 'doctor' || !user.isActive) {
+      throw new PeerToPeerStateError('Peer-to-peer reviews must be assigned to an active doctor');
+    }
+  }
+}
+
+export const peerToPeerService = new PeerToPeerService();
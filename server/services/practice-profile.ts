@@ -0,0 +1,42 @@
+import { storage } from "../storage";
+
+// Practice and requesting-provider details printed on generated packages. Each field is a
+// system_config entry, editable through PUT /api/system-config/:key.
+export interface PracticeProfile {
+  practiceName: string;
+  providerName: string;
+  providerNpi: string;
+  facilityNpi: string;
+  taxId: string;
+  phone: string;
+  fax: string;
+  address: string;
+}
+
+export const PRACTICE_CONFIG_KEYS: Record<keyof PracticeProfile, string> = {
+  practiceName: 'client_name',
+  providerName: 'provider_name',
+  providerNpi: 'provider_npi',
+  facilityNpi: 'facility_npi',
+  taxId: 'practice_tax_id',
+  phone: 'practice_phone',
+  fax: 'practice_fax',
+  address: 'practice_address',
+};
+
+export class PracticeProfileService {
+  async load(): Promise<PracticeProfile> {
+    const entries = await Promise.all(Object.entries(PRACTICE_CONFIG_KEYS).map(async ([field, key]) => {
+      const config = await storage.getSystemConfig(key);
+      return [field, config?.value.trim() || ''] as const;
+    }));
+    return Object.fromEntries(entries) as unknown as PracticeProfile;
+  }
+
+  // Fields still blank, so packages can warn before they go to a payer
+  missingFields(profile: PracticeProfile): (keyof PracticeProfile)[] {
+    return (Object.keys(PRACTICE_CONFIG_KEYS) as (keyof PracticeProfile)[]).filter(field => !profile[field]);
+  }
+}
+
+export const practiceProfileService = new PracticeProfileService();
@@ -1,89 +1,99 @@
 import { storage } from "../storage";
 import { auditService } from "./audit";
-import { InsertPriorAuthWorkflowStep, PriorAuthorization } from "@shared/schema";
-
-// Prior Authorization Workflow Steps based on the comprehensive workflow document
-export const PRIOR_AUTH_WORKFLOW_STEPS = [
-  {
-    stepNumber: 1,
-    stepName: "Clinical Decision & Insurance Check",
-    description: "Determine medical necessity and verify PA requirements",
-    formFields: ["treatmentType", "cptCode", "icd10Code", "clinicalJustification"]
-  },
-  {
-    stepNumber: 2,
-    stepName: "Patient & Insurance Verification",
-    description: "Verify patient eligibility and insurance coverage",
-    formFields: ["patientId", "insuranceId", "memberId", "groupNumber"]
-  },
-  {
-    stepNumber: 3,
-    stepName: "Clinical Evidence Gathering",
-    description: "Collect provider notes, lab results, previous treatments",
-    formFields: ["clinicalEvidence", "previousTreatments", "providerNotes"]
-  },
-  {
-    stepNumber: 4,
-    stepName: "Documentation Preparation",
-    description: "Prepare clinical documentation and attestation",
-    formFields: ["documents", "attestation", "medicalNecessity"]
-  },
-  {
-    stepNumber: 5,
-    stepName: "Form Selection & Completion",
-    description: "Select state-specific forms and complete required fields",
-    formFields: ["stateFormTemplate", "formData", "procedureCodes"]
-  },
-  {
-    stepNumber: 6,
-    stepName: "Prior Authorization Submission",
-    description: "Submit PA request through appropriate channel",
-    formFields: ["submissionMethod", "submissionDate", "trackingNumber"]
-  },
-  {
-    stepNumber: 7,
-    stepName: "Tracking & Follow-up",
-    description: "Monitor submission status and respond to requests",
-    formFields: ["status", "reviewProgress", "additionalRequests"]
-  },
-  {
-    stepNumber: 8,
-    stepName: "Decision Processing",
-    description: "Process approval/denial and next steps",
-    formFields: ["decision", "authorizationNumber", "denialReason", "appealOptions"]
-  },
-  {
-    stepNumber: 9,
-    stepName: "Service Authorization",
-    description: "Authorize service delivery and claim submission",
-    formFields: ["serviceAuthorization", "expirationDate", "serviceDelivery"]
-  },
-  {
-    stepNumber: 10,
-    stepName: "Renewal & Monitoring",
-    description: "Track renewals and ongoing monitoring",
-    formFields: ["renewalTracking", "continuedNecessity", "outcomeMonitoring"]
-  }
-];
+import { documentationRequirementsService } from "./documentation-requirements";
+import { workflowDefinitionService } from "./workflow-definitions";
+import { InsertPriorAuthWorkflowStep, PriorAuthorization, PriorAuthWorkflowStep } from "@shared/schema";
+import type { DocumentationChecklist } from "@shared/payer-requirements";
+import {
+  fieldErrorsFrom,
+  hasReachedRole,
+  stepFormSchema,
+  stepSequence,
+  stepsForPath,
+  workflowPathFor,
+  type ResolvedWorkflowDefinition,
+  type WorkflowFieldError,
+  type WorkflowStepAction,
+  type WorkflowStepRole,
+  type WorkflowStepTransition,
+} from "@shared/workflow-definitions";
+
+// Raised when a step's completion criteria are not met; details explain what is missing
+export class WorkflowStepBlockedError extends Error {
+  constructor(message: string, public readonly details: unknown) {
+    super(message);
+    this.name = 'WorkflowStepBlockedError';
+  }
+}
+
+// Raised when the step cannot be completed yet, or no longer can
+export class WorkflowStepOrderError extends Error {
+  constructor(message: string, public readonly pendingSteps: number[] = []) {
+    super(message);
+    this.name = 'WorkflowStepOrderError';
+  }
+}
+
+// Raised when the submitted form data does not satisfy the step's declared fields
+export class WorkflowStepValidationError extends Error {
+  constructor(message: string, public readonly fieldErrors: WorkflowFieldError[]) {
+    super(message);
+    this.name = 'WorkflowStepValidationError';
+  }
+}
+
+// Step rows in these states no longer hold up later steps
+const SETTLED_STEP_STATUSES = ['completed', 'skipped'];
+
+export interface StepOverride {
+  reason: string;
+}
+
+// Step form data as saved once the documentation checklist has been evaluated
+export type DocumentationCheck = Record<string, unknown> & {
+  documentationChecklist: Pick<DocumentationChecklist, 'passed' | 'missing' | 'evaluatedAt'>;
+  documentationOverride?: {
+    reason: string;
+    overriddenBy: number;
+    overriddenAt: string;
+    missing: string[];
+  };
+};
 
 export class PriorAuthWorkflowService {
   
-  // Initialize workflow for new prior authorization
+  // Initialize workflow for new prior authorization, pinned to the payer's current definition
   async initializeWorkflow(authorizationId: number, userId: number): Promise<void> {
     try {
-      for (const step of PRIOR_AUTH_WORKFLOW_STEPS) {
+      const authorization = await storage.getPriorAuthorization(authorizationId);
+      if (!authorization) {
+        throw new Error('Authorization not found');
+      }
+
+      const definition = await workflowDefinitionService.selectForAuthorization(authorization);
+      const path = workflowPathFor(authorization.urgentRequest);
+      const steps = stepsForPath(definition.steps, path);
+      const firstStep = steps[0].stepNumber;
+
+      for (const step of steps) {
         const workflowStep: InsertPriorAuthWorkflowStep = {
           authorizationId,
           stepNumber: step.stepNumber,
           stepName: step.stepName,
-          status: step.stepNumber === 1 ? 'in_progress' : 'pending',
-          assignedTo: step.stepNumber === 1 ? userId : undefined,
+          status: step.stepNumber === firstStep ? 'in_progress' : 'pending',
+          assignedTo: step.stepNumber === firstStep ? userId : undefined,
           notes: step.description,
           formData: null,
         };
         
         await storage.createPriorAuthWorkflowStep(workflowStep);
       }
+
+      await storage.updatePriorAuthorization(authorizationId, {
+        workflowDefinitionId: definition.id,
+        currentStep: firstStep,
+        totalSteps: steps.length,
+      });
       
       // Log workflow initialization
       await auditService.logPriorAuthActivity(
@@ -92,7 +102,13 @@ export class PriorAuthWorkflowService {
         'WORKFLOW_INITIALIZED',
         'initialization',
         null,
-        { workflowSteps: PRIOR_AUTH_WORKFLOW_STEPS.length, status: 'started' },
+        {
+          workflowSteps: steps.length,
+          workflowDefinitionId: definition.id,
+          workflowDefinition: `${definition.key} v${definition.version}`,
+          path,
+          status: 'started',
+        },
         '',
         ''
       );
@@ -108,40 +124,38 @@ export class PriorAuthWorkflowService {
     stepNumber: number,
     formData: any,
     userId: number,
-    notes?: string
-  ): Promise<void> {
+    notes?: string,
+    override?: StepOverride
+  ): Promise<number> {
     try {
-      const step = await storage.getPriorAuthWorkflowStep(authorizationId, stepNumber);
-      if (!step) {
-        throw new Error(`Workflow step ${stepNumber} not found`);
+      const { definition, sequence, step } = await this.loadStep(authorizationId, stepNumber);
+      await this.checkStepOrder(authorizationId, stepNumber, step.status, sequence);
+
+      // Validate against the fields the definition declares for the step
+      const stepDefinition = definition.steps.find(candidate => candidate.stepNumber === stepNumber);
+      if (stepDefinition) {
+        const parsed = stepFormSchema(stepDefinition).safeParse(formData ?? {});
+        if (!parsed.success) {
+          throw new WorkflowStepValidationError(`${stepDefinition.stepName} is incomplete`, fieldErrorsFrom(parsed.error));
+        }
+        formData = parsed.data;
+      }
+
+      if (stepDefinition?.role === 'documentation') {
+        formData = await this.checkDocumentation(authorizationId, stepNumber, formData, userId, override);
       }
 
       const beforeData = { ...step };
       
       // Update step as completed
-      await storage.updatePriorAuthWorkflowStep(step.id, {
-        status: 'completed',
+      await this.transitionStep(step, 'completed', 'complete', userId, undefined, {
         completedBy: userId,
         completedAt: new Date(),
         formData,
         notes: notes || step.notes,
       });
 
-      // Move to next step if not final step
-      if (stepNumber < PRIOR_AUTH_WORKFLOW_STEPS.length) {
-        await storage.updatePriorAuthWorkflowStep(
-          await this.getStepId(authorizationId, stepNumber + 1),
-          {
-            status: 'in_progress',
-            assignedTo: userId,
-          }
-        );
-      }
-
-      // Update main authorization current step
-      await storage.updatePriorAuthorization(authorizationId, {
-        currentStep: stepNumber + 1,
-      });
+      const currentStep = await this.advance(authorizationId, sequence, userId);
 
       const afterData = { ...step, status: 'completed', completedBy: userId, formData };
 
@@ -157,12 +171,117 @@ export class PriorAuthWorkflowService {
         ''
       );
 
+      return currentStep;
     } catch (error) {
       console.error('Failed to complete workflow step:', error);
       throw error;
     }
   }
 
+  // Skip an optional step; it counts as settled so the workflow moves on
+  async skipStep(authorizationId: number, stepNumber: number, userId: number, reason: string): Promise<number> {
+    const { definition, sequence, step } = await this.loadStep(authorizationId, stepNumber);
+
+    const stepDefinition = definition.steps.find(candidate => candidate.stepNumber === stepNumber);
+    if (!stepDefinition?.skippable) {
+      throw new WorkflowStepOrderError(`Step ${stepNumber} cannot be skipped`);
+    }
+    await this.checkStepOrder(authorizationId, stepNumber, step.status, sequence);
+
+    await this.transitionStep(step, 'skipped', 'skip', userId, reason, {
+      completedBy: userId,
+      completedAt: new Date(),
+    });
+    const currentStep = await this.advance(authorizationId, sequence, userId);
+
+    await auditService.logPriorAuthActivity(
+      userId,
+      authorizationId,
+      'STEP_SKIPPED',
+      `step_${stepNumber}`,
+      { status: step.status },
+      { status: 'skipped', reason, currentStep },
+      '',
+      ''
+    );
+
+    return currentStep;
+  }
+
+  // Reopen a completed or skipped step, e.g. when the payer asks for more information.
+  // Later steps keep their state; completing the step again returns to where the workflow was.
+  async reopenStep(authorizationId: number, stepNumber: number, userId: number, reason: string): Promise<number> {
+    const { steps, step } = await this.loadStep(authorizationId, stepNumber);
+
+    if (!SETTLED_STEP_STATUSES.includes(step.status)) {
+      throw new WorkflowStepOrderError(`Step ${stepNumber} is not completed or skipped`);
+    }
+
+    // Only one step is worked on at a time
+    for (const active of steps.filter(candidate => candidate.status === 'in_progress')) {
+      await this.transitionStep(active, 'pending', 'reopen', userId, `Step ${stepNumber} reopened`);
+    }
+    await this.transitionStep(step, 'in_progress', 'reopen', userId, reason, {
+      assignedTo: userId,
+      completedBy: null,
+      completedAt: null,
+    });
+    await storage.updatePriorAuthorization(authorizationId, { currentStep: stepNumber });
+
+    await auditService.logPriorAuthActivity(
+      userId,
+      authorizationId,
+      'STEP_REOPENED',
+      `step_${stepNumber}`,
+      { status: step.status, completedBy: step.completedBy, completedAt: step.completedAt },
+      { status: 'in_progress', reason },
+      '',
+      ''
+    );
+
+    return stepNumber;
+  }
+
+  // Undo a mistaken completion: the step and every step after it on the path go back to be done again.
+  // Form data and the steps' transition history are kept.
+  async revertToStep(authorizationId: number, stepNumber: number, userId: number, reason: string): Promise<number> {
+    const { sequence, steps, step } = await this.loadStep(authorizationId, stepNumber);
+
+    if (!SETTLED_STEP_STATUSES.includes(step.status)) {
+      throw new WorkflowStepOrderError(`Step ${stepNumber} is not completed or skipped`);
+    }
+
+    const later = sequence.slice(sequence.indexOf(stepNumber) + 1)
+      .map(number => steps.find(candidate => candidate.stepNumber === number))
+      .filter((candidate): candidate is PriorAuthWorkflowStep => !!candidate && candidate.status !== 'pending');
+
+    for (const laterStep of later) {
+      await this.transitionStep(laterStep, 'pending', 'revert', userId, `Reverted to step ${stepNumber}`, {
+        completedBy: null,
+        completedAt: null,
+      });
+    }
+    await this.transitionStep(step, 'in_progress', 'revert', userId, reason, {
+      assignedTo: userId,
+      completedBy: null,
+      completedAt: null,
+    });
+    await storage.updatePriorAuthorization(authorizationId, { currentStep: stepNumber });
+
+    await auditService.logPriorAuthActivity(
+      userId,
+      authorizationId,
+      'WORKFLOW_REVERTED',
+      `step_${stepNumber}`,
+      { steps: [step, ...later].map(({ stepNumber, status }) => ({ stepNumber, status })) },
+      { currentStep: stepNumber, reason },
+      '',
+      ''
+    );
+
+    return stepNumber;
+  }
+
   // Get current step for authorization
   async getCurrentStep(authorizationId: number): Promise<any> {
     try {
@@ -187,60 +306,128 @@ export class PriorAuthWorkflowService {
     }
   }
 
-  // Generate state-specific form package
-  async generateFormPackage(authorizationId: number, state: string): Promise<string> {
-    try {
-      const authorization = await storage.getPriorAuthorization(authorizationId);
-      if (!authorization) {
-        throw new Error('Authorization not found');
-      }
+  // Whether the authorization's workflow has reached the step with the given role
+  async hasReachedStep(authorization: PriorAuthorization, role: WorkflowStepRole): Promise<boolean> {
+    const definition = await workflowDefinitionService.forAuthorization(authorization);
+    return hasReachedRole(definition.steps, workflowPathFor(authorization.urgentRequest), authorization.currentStep, role);
+  }
 
-      const workflowSteps = await this.getWorkflowSteps(authorizationId);
-      const patient = await storage.getPatient(authorization.patientId);
-      const insurance = await storage.getPatientInsurance(authorization.insuranceId);
+  private async loadStep(authorizationId: number, stepNumber: number): Promise<{
+    definition: ResolvedWorkflowDefinition;
+    sequence: number[];
+    steps: PriorAuthWorkflowStep[];
+    step: PriorAuthWorkflowStep;
+  }> {
+    const authorization = await storage.getPriorAuthorization(authorizationId);
+    if (!authorization) {
+      throw new Error('Authorization not found');
+    }
 
-      // Aggregate all form data from workflow steps
-      const aggregatedFormData = workflowSteps.reduce((acc, step) => {
-        if (step.formData) {
-          return { ...acc, ...step.formData };
-        }
-        return acc;
-      }, {});
+    const steps = await storage.getPriorAuthWorkflowSteps(authorizationId);
+    const step = steps.find(candidate => candidate.stepNumber === stepNumber);
+    if (!step) {
+      throw new Error(`Workflow step ${stepNumber} not found`);
+    }
 
-      // Get state form template
-      const template = await storage.getStateFormTemplate(state, 'prior_auth');
-      
-      if (!template) {
-        throw new Error(`No form template found for state: ${state}`);
-      }
+    const definition = await workflowDefinitionService.forAuthorization(authorization);
+    const sequence = stepSequence(definition.steps, workflowPathFor(authorization.urgentRequest));
+    return { definition, sequence, steps, step };
+  }
 
-      // Generate complete form package data
-      const formPackageData = {
-        authorization,
-        patient,
-        insurance,
-        workflowData: aggregatedFormData,
-        template,
-        generatedAt: new Date().toISOString(),
-        state,
-      };
-
-      // Store form package data in authorization record
-      const formPackagePath = `/forms/packages/${authorizationId}-${state}-${Date.now()}.json`;
-      await storage.updatePriorAuthorization(authorizationId, {
-        generatedFormData: formPackageData,
-      });
+  // Changes a step's status and appends the change to the step's transition history
+  private async transitionStep(
+    step: PriorAuthWorkflowStep,
+    toStatus: string,
+    action: WorkflowStepAction,
+    userId: number,
+    reason?: string,
+    updates: Partial<InsertPriorAuthWorkflowStep> = {}
+  ): Promise<void> {
+    const transition: WorkflowStepTransition = {
+      action,
+      fromStatus: step.status,
+      toStatus,
+      userId,
+      at: new Date().toISOString(),
+      ...(reason ? { reason } : {}),
+    };
+    const transitions = [...((step.transitions as WorkflowStepTransition[] | null) || []), transition];
 
-      return formPackagePath;
-    } catch (error) {
-      console.error('Failed to generate form package:', error);
-      throw error;
+    await storage.updatePriorAuthWorkflowStep(step.id, { ...updates, status: toStatus, transitions });
+  }
+
+  // Moves the workflow to the first step on the path that is not yet settled, which after a
+  // reopened step is completed again is the step the workflow had reached before
+  private async advance(authorizationId: number, sequence: number[], userId: number): Promise<number> {
+    const steps = await storage.getPriorAuthWorkflowSteps(authorizationId);
+    const nextStep = sequence.find(number =>
+      !steps.some(candidate => candidate.stepNumber === number && SETTLED_STEP_STATUSES.includes(candidate.status)));
+
+    const next = steps.find(candidate => candidate.stepNumber === nextStep);
+    if (next && next.status === 'pending') {
+      await this.transitionStep(next, 'in_progress', 'advance', userId, undefined, { assignedTo: userId });
     }
+
+    // Past the last step once the workflow is done
+    const currentStep = nextStep ?? sequence[sequence.length - 1] + 1;
+    await storage.updatePriorAuthorization(authorizationId, { currentStep });
+    return currentStep;
   }
 
-  private async getStepId(authorizationId: number, stepNumber: number): Promise<number> {
-    const step = await storage.getPriorAuthWorkflowStep(authorizationId, stepNumber);
-    return step?.id || 0;
+  // Steps complete once, in the order the definition walks them
+  private async checkStepOrder(authorizationId: number, stepNumber: number, status: string, sequence: number[]): Promise<void> {
+    if (status === 'completed') {
+      throw new WorkflowStepOrderError(`Step ${stepNumber} is already completed`);
+    }
+    if (status === 'skipped') {
+      throw new WorkflowStepOrderError(`Step ${stepNumber} was skipped`);
+    }
+
+    const position = sequence.indexOf(stepNumber);
+    if (position === -1) {
+      throw new WorkflowStepOrderError(`Step ${stepNumber} is not part of this authorization's workflow`);
+    }
+
+    const steps = await storage.getPriorAuthWorkflowSteps(authorizationId);
+    const pendingSteps = sequence.slice(0, position).filter(number =>
+      !steps.some(candidate => candidate.stepNumber === number && SETTLED_STEP_STATUSES.includes(candidate.status)));
+    if (pendingSteps.length > 0) {
+      throw new WorkflowStepOrderError(`Complete ${pendingSteps.length === 1 ? 'step' : 'steps'} ${pendingSteps.join(', ')} first`, pendingSteps);
+    }
+  }
+
+  // Documentation Preparation only completes once the payer's checklist passes,
+  // unless a supervisor overrides it with a reason
+  private async checkDocumentation(authorizationId: number, stepNumber: number, formData: Record<string, unknown>, userId: number, override?: StepOverride): Promise<DocumentationCheck> {
+    const checklist = await documentationRequirementsService.evaluate(authorizationId);
+    const summary: DocumentationCheck['documentationChecklist'] = { passed: checklist.passed, missing: checklist.missing, evaluatedAt: checklist.evaluatedAt };
+
+    if (checklist.passed) {
+      return { ...formData, documentationChecklist: summary };
+    }
+    if (!override) {
+      throw new WorkflowStepBlockedError('Documentation checklist is incomplete', checklist);
+    }
+
+    const documentationOverride: DocumentationCheck['documentationOverride'] = {
+      reason: override.reason,
+      overriddenBy: userId,
+      overriddenAt: new Date().toISOString(),
+      missing: checklist.missing,
+    };
+
+    await auditService.logPriorAuthActivity(
+      userId,
+      authorizationId,
+      'DOCUMENTATION_OVERRIDE',
+      `step_${stepNumber}`,
+      summary,
+      documentationOverride,
+      '',
+      ''
+    );
+
+    return { ...formData, documentationChecklist: summary, documentationOverride };
   }
 }
 
@@ -0,0 +1,191 @@
+import type { InsertPriorAuthorization, PriorAuthorization } from "@shared/schema";
+import {
+  DEFAULT_RENEWAL_WINDOWS,
+  RENEWABLE_STATUSES,
+  renewalWindowFor,
+  type ExpiringAuthorization,
+} from "@shared/renewals";
+import { AUTHORIZATION_STATUS_LABELS, normalizeAuthorizationStatus } from "@shared/authorization-status";
+import { storage } from "../storage";
+import { appLogger } from "./app-logger";
+import { authorizationStatusService, StatusTransitionError } from "./authorization-status";
+import { serviceLineService } from "./service-lines";
+
+// Raised when an authorization cannot be renewed
+export class RenewalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenewalError';
+  }
+}
+
+export interface RenewalScanResult {
+  flagged: number;
+  expired: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCAN_INTERVAL_MINUTES = parseInt(process.env.RENEWAL_SCAN_INTERVAL_MINUTES || '60');
+
+// RENEWAL_WINDOWS_DAYS is a comma-separated list, e.g. "30,14,7"
+function configuredWindows(): number[] {
+  const windows = (process.env.RENEWAL_WINDOWS_DAYS || '')
+    .split(',')
+    .map(value => parseInt(value.trim()))
+    .filter(value => value > 0);
+  return (windows.length > 0 ? windows : DEFAULT_RENEWAL_WINDOWS).sort((a, b) => b - a);
+}
+
+export class RenewalService {
+  private readonly windows = configuredWindows();
+  private timer: NodeJS.Timeout | null = null;
+
+  // Scan now and then every RENEWAL_SCAN_INTERVAL_MINUTES until stopped
+  start() {
+    if (this.timer) return;
+    const run = () => this.scan().catch(error =>
+      appLogger.error("Authorization expiration scan failed", {}, error as Error));
+    run();
+    this.timer = setInterval(run, SCAN_INTERVAL_MINUTES * 60 * 1000);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Flag authorizations entering a narrower renewal window and expire the ones past their expiration date
+  async scan(now: Date = new Date()): Promise<RenewalScanResult> {
+    const horizon = new Date(now.getTime() + this.windows[0] * DAY_MS);
+    const authorizations = await storage.getAuthorizationsExpiringBefore(horizon);
+    const result: RenewalScanResult = { flagged: 0, expired: 0 };
+
+    for (const authorization of authorizations) {
+      const expirationDate = authorization.expirationDate!;
+
+      if (expirationDate.getTime() <= now.getTime()) {
+        try {
+          await authorizationStatusService.transition(authorization.id, 'expired', {
+            source: 'system',
+            note: `Expired on ${expirationDate.toLocaleDateString()}`,
+          });
+          result.expired++;
+        } catch (error) {
+          if (!(error instanceof StatusTransitionError)) throw error;
+          appLogger.warn("Could not expire authorization", {
+            authorizationId: authorization.id,
+            reason: error.message,
+          }, 'RENEWALS');
+        }
+        continue;
+      }
+
+      const window = renewalWindowFor(this.daysUntil(expirationDate, now), this.windows);
+      if (window !== null && (authorization.expirationAlertWindow === null || window < authorization.expirationAlertWindow)) {
+        await storage.updatePriorAuthorization(authorization.id, { expirationAlertWindow: window });
+        appLogger.info("Authorization entered renewal window", {
+          authorizationId: authorization.id,
+          window,
+          expirationDate: expirationDate.toISOString(),
+        }, 'RENEWALS');
+        result.flagged++;
+      }
+    }
+
+    return result;
+  }
+
+  // Authorizations within the widest renewal window, soonest expiration first
+  async expiring(now: Date = new Date()): Promise<ExpiringAuthorization[]> {
+    const horizon = new Date(now.getTime() + this.windows[0] * DAY_MS);
+    const authorizations = await storage.getAuthorizationsExpiringBefore(horizon);
+
+    return Promise.all(authorizations.map(async authorization => {
+      const daysUntilExpiration = this.daysUntil(authorization.expirationDate!, now);
+      const renewal = await this.activeRenewal(authorization.id);
+      return {
+        id: authorization.id,
+        authorizationId: authorization.authorizationId,
+        patientId: authorization.patientId,
+        treatmentType: authorization.treatmentType,
+        status: authorization.status,
+        expirationDate: authorization.expirationDate!.toISOString(),
+        daysUntilExpiration,
+        window: renewalWindowFor(daysUntilExpiration, this.windows) ?? this.windows[this.windows.length - 1],
+        renewalId: renewal?.id ?? null,
+      };
+    }));
+  }
+
+  // Clone an authorization and its service lines into a draft renewal requested from the day the current approval runs out
+  async createRenewal(authorizationId: number, userId: number): Promise<PriorAuthorization> {
+    const authorization = await storage.getPriorAuthorization(authorizationId);
+    if (!authorization) {
+      throw new Error('Authorization not found');
+    }
+
+    const status = normalizeAuthorizationStatus(authorization.status, authorization.submittedDate);
+    if (!RENEWABLE_STATUSES.includes(status)) {
+      throw new RenewalError(`Only approved or expired authorizations can be renewed; this one is ${AUTHORIZATION_STATUS_LABELS[status]}`);
+    }
+
+    const existing = await this.activeRenewal(authorization.id);
+    if (existing) {
+      throw new RenewalError(`A renewal (${existing.authorizationId}) has already been started`);
+    }
+
+    const now = new Date();
+    const renewal: InsertPriorAuthorization = {
+      authorizationId: `AUTH-${now.getFullYear()}-${String(Date.now()).slice(-6)}`,
+      patientId: authorization.patientId,
+      insuranceId: authorization.insuranceId,
+      treatmentType: authorization.treatmentType,
+      cptCodes: authorization.cptCodes,
+      icd10Codes: authorization.icd10Codes,
+      clinicalJustification: authorization.clinicalJustification,
+      urgentRequest: authorization.urgentRequest,
+      previousTreatments: authorization.previousTreatments as InsertPriorAuthorization['previousTreatments'],
+      clinicalEvidence: authorization.clinicalEvidence as InsertPriorAuthorization['clinicalEvidence'],
+      providerNotes: authorization.providerNotes,
+      requestedDate: authorization.expirationDate && authorization.expirationDate > now ? authorization.expirationDate : now,
+      status: 'draft',
+      submittedBy: userId,
+      renewalOfId: authorization.id,
+    };
+
+    const created = await storage.createPriorAuthorization(renewal);
+    const lines = await serviceLineService.forAuthorization(authorization);
+    await serviceLineService.replace(created, lines.map(line => ({
+      cptCode: line.cptCode,
+      modifiers: line.modifiers,
+      units: line.units,
+      diagnosisPointers: line.diagnosisPointers,
+      placeOfService: line.placeOfService ?? undefined,
+    })));
+    await storage.createStatusHistoryEntry({
+      authorizationId: created.id,
+      fromStatus: null,
+      toStatus: created.status,
+      source: 'user',
+      note: `Renewal of ${authorization.authorizationId}`,
+      changedBy: userId,
+    });
+
+    return created;
+  }
+
+  // Latest renewal of an authorization that has not been cancelled
+  private async activeRenewal(authorizationId: number): Promise<PriorAuthorization | undefined> {
+    const renewals = await storage.getRenewalsOf(authorizationId);
+    return renewals.find(renewal => renewal.status !== 'cancelled');
+  }
+
+  private daysUntil(date: Date, now: Date): number {
+    return Math.ceil((date.getTime() - now.getTime()) / DAY_MS);
+  }
+}
+
+export const renewalService = new RenewalService();
@@ -0,0 +1,169 @@
+import type { AuthorizationServiceLine, InsertAuthorizationServiceLine, PriorAuthorization } from "@shared/schema";
+import {
+  MAX_DIAGNOSIS_POINTERS,
+  rollUpServiceLines,
+  type ServiceLineDecision,
+  type ServiceLineInput,
+} from "@shared/service-lines";
+import { normalizeAuthorizationStatus, type StatusChangeSource } from "@shared/authorization-status";
+import type { UnitType } from "@shared/utilization";
+import { storage } from "../storage";
+import { authorizationStatusService, type StatusChangeOptions } from "./authorization-status";
+import { utilizationService } from "./utilization";
+
+// Raised when service lines do not fit the authorization they are recorded on
+export class ServiceLineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServiceLineError';
+  }
+}
+
+export interface DecisionOptions {
+  userId: number;
+  // Defaults to user; payer responses decided line by line pass their own source
+  source?: StatusChangeSource;
+  note?: string;
+  // Authorization fields the resulting status needs, e.g. the authorization number on approval
+  updates?: StatusChangeOptions['updates'];
+}
+
+export class ServiceLineService {
+  // One line per CPT code, pointing at the first diagnoses; used for requests that only list codes.
+  // Authorizations saved without diagnoses get lines with no pointers rather than ones that point nowhere.
+  linesFromCodes(cptCodes: string[], icd10Codes: string[]): ServiceLineInput[] {
+    const pointers = icd10Codes.slice(0, MAX_DIAGNOSIS_POINTERS).map((_, index) => index + 1);
+    return cptCodes.map(cptCode => ({
+      cptCode,
+      modifiers: [],
+      units: 1,
+      diagnosisPointers: pointers,
+    }));
+  }
+
+  validate(lines: ServiceLineInput[], icd10Codes: string[]) {
+    if (lines.length === 0) {
+      throw new ServiceLineError('At least one service line is required');
+    }
+    lines.forEach((line, index) => {
+      const outOfRange = line.diagnosisPointers.filter(pointer => pointer > icd10Codes.length);
+      if (outOfRange.length > 0) {
+        throw new ServiceLineError(`Line ${index + 1} points at diagnosis ${outOfRange.join(', ')}, but only ${icd10Codes.length} ICD-10 code(s) are on the request`);
+      }
+    });
+  }
+
+  // Replace an authorization's lines and keep its cptCodes in step with them
+  async replace(authorization: PriorAuthorization, lines: ServiceLineInput[]): Promise<AuthorizationServiceLine[]> {
+    this.validate(lines, authorization.icd10Codes);
+
+    const saved = await storage.replaceServiceLines(authorization.id, lines.map((line, index): InsertAuthorizationServiceLine => ({
+      ...line,
+      authorizationId: authorization.id,
+      lineNumber: index + 1,
+      placeOfService: line.placeOfService ?? null,
+    })));
+
+    const cptCodes = Array.from(new Set(lines.map(line => line.cptCode)));
+    if (cptCodes.join(',') !== authorization.cptCodes.join(',')) {
+      await storage.updatePriorAuthorization(authorization.id, { cptCodes });
+    }
+
+    return saved;
+  }
+
+  // Lines for an authorization; authorizations created before service lines get one per CPT code
+  async forAuthorization(authorization: PriorAuthorization): Promise<AuthorizationServiceLine[]> {
+    const lines = await storage.getServiceLinesByAuthorization(authorization.id);
+    if (lines.length > 0 || authorization.cptCodes.length === 0) return lines;
+    return this.replace(authorization, this.linesFromCodes(authorization.cptCodes, authorization.icd10Codes));
+  }
+
+  // Authorizations with their lines, for lists that show line-level status
+  async attachTo(authorizations: PriorAuthorization[]): Promise<(PriorAuthorization & { serviceLines: AuthorizationServiceLine[] })[]> {
+    const lines = await storage.getServiceLinesByAuthorizations(authorizations.map(authorization => authorization.id));
+    return authorizations.map(authorization => ({
+      ...authorization,
+      serviceLines: lines.filter(line => line.authorizationId === authorization.id),
+    }));
+  }
+
+  // Record the payer's decision on each line. Once every line is decided the authorization moves to
+  // the status they add up to; approved units become the quantity services are tracked against.
+  async recordDecisions(authorizationId: number, decisions: ServiceLineDecision[], options: DecisionOptions): Promise<{ authorization: PriorAuthorization; lines: AuthorizationServiceLine[] }> {
+    let authorization = await storage.getPriorAuthorization(authorizationId);
+    if (!authorization) {
+      throw new Error('Authorization not found');
+    }
+
+    const lines = await this.forAuthorization(authorization);
+    const unknown = decisions.filter(decision => !lines.some(line => line.id === decision.lineId));
+    if (unknown.length > 0) {
+      throw new ServiceLineError(`Service line ${unknown.map(decision => decision.lineId).join(', ')} is not on this authorization`);
+    }
+
+    const decided = lines.map(line => {
+      const decision = decisions.find(item => item.lineId === line.id);
+      if (!decision) return line;
+      return {
+        ...line,
+        status: decision.status,
+        approvedUnits: decision.status === 'approved' ? decision.approvedUnits ?? line.units : null,
+        denialReason: decision.status === 'denied' ? decision.denialReason ?? null : null,
+      };
+    });
+
+    // Move the authorization first so a status the lines cannot reach leaves them untouched
+    const rolledUp = rollUpServiceLines(decided);
+    const current = normalizeAuthorizationStatus(authorization.status, authorization.submittedDate);
+    if (rolledUp && rolledUp !== current) {
+      const denialReasons = decided.filter(line => line.status === 'denied').map(line => `${line.cptCode}: ${line.denialReason}`);
+      authorization = await authorizationStatusService.transition(authorizationId, rolledUp, {
+        userId: options.userId,
+        source: options.source || 'user',
+        note: options.note,
+        updates: {
+          ...(rolledUp === 'denied' && denialReasons.length > 0 ? { denialReason: denialReasons.join('; ') } : {}),
+          ...options.updates,
+        },
+      });
+    }
+
+    const saved = await Promise.all(decided.map(async line => {
+      if (!decisions.some(decision => decision.lineId === line.id)) return line;
+      return (await storage.updateServiceLine(line.id, {
+        status: line.status,
+        approvedUnits: line.approvedUnits,
+        denialReason: line.denialReason,
+      })) || line;
+    }));
+
+    await this.syncUnitApprovals(authorization, saved, options.userId);
+
+    return { authorization, lines: saved };
+  }
+
+  // Approved units per CPT code, summed across lines, so utilization tracking draws from what the payer approved
+  private async syncUnitApprovals(authorization: PriorAuthorization, lines: AuthorizationServiceLine[], userId: number) {
+    const approvedUnits = new Map<string, number>();
+    for (const line of lines) {
+      if (line.status !== 'approved' || !line.approvedUnits) continue;
+      approvedUnits.set(line.cptCode, (approvedUnits.get(line.cptCode) || 0) + line.approvedUnits);
+    }
+    if (approvedUnits.size === 0) return;
+
+    const existing = await storage.getUnitApprovalsByAuthorization(authorization.id);
+    await utilizationService.setApprovals(authorization.id, Array.from(approvedUnits, ([cptCode, approvedQuantity]) => {
+      const current = existing.find(approval => approval.cptCode === cptCode);
+      return {
+        cptCode,
+        approvedQuantity,
+        unitType: (current?.unitType as UnitType | undefined) || 'units',
+        startDate: current?.startDate ?? undefined,
+        endDate: current?.endDate ?? undefined,
+      };
+    }), userId);
+  }
+}
+
+export const serviceLineService = new ServiceLineService();
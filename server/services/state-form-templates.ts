@@ -0,0 +1,119 @@
+import {
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFTextField,
+  type PDFField,
+} from "pdf-lib";
+import type { StateFormTemplate } from "@shared/schema";
+import type { DiscoveredFormField, StateFormField, StateFormTemplateInput } from "@shared/state-forms";
+import { storage } from "../storage";
+import { documentStorage } from "./document-storage";
+import { StateFormError, stateFormService } from "./state-forms";
+import { createNextVersion } from "./versioning";
+
+export interface StateFormTemplateUpload {
+  templatePath: string;
+  fields: DiscoveredFormField[];
+}
+
+export interface StateFormPreview {
+  authorizationId: number;
+  pdf: Uint8Array;
+  values: Record<string, string>;
+  warnings: string[];
+}
+
+function describeField(field: PDFField): DiscoveredFormField {
+  const name = field.getName();
+  if (field instanceof PDFTextField) return { name, type: 'text' };
+  if (field instanceof PDFCheckBox) return { name, type: 'checkbox' };
+  if (field instanceof PDFDropdown) return { name, type: 'dropdown', options: field.getOptions() };
+  if (field instanceof PDFOptionList) return { name, type: 'optionlist', options: field.getOptions() };
+  if (field instanceof PDFRadioGroup) return { name, type: 'radio', options: field.getOptions() };
+  return { name, type: 'other' };
+}
+
+export class StateFormTemplateService {
+  // The fillable fields of a template PDF, in document order
+  async discoverFields(content: Uint8Array, fileName = 'The template'): Promise<DiscoveredFormField[]> {
+    try {
+      const pdf = await PDFDocument.load(content);
+      return pdf.getForm().getFields().map(describeField);
+    } catch {
+      throw new StateFormError(`${fileName} is not a readable PDF`);
+    }
+  }
+
+  async discoverTemplateFields(template: StateFormTemplate): Promise<DiscoveredFormField[]> {
+    return this.discoverFields(await this.readTemplate(template.templatePath), template.formName);
+  }
+
+  // Keep an uploaded template PDF; only PDFs with fillable fields are accepted
+  async upload(fileName: string, content: Buffer): Promise<StateFormTemplateUpload> {
+    const fields = await this.discoverFields(content, fileName);
+    if (fields.length === 0) {
+      throw new StateFormError(`${fileName} has no fillable form fields`);
+    }
+    const templatePath = await documentStorage.write('state-form-templates', fileName, content);
+    return { templatePath, fields };
+  }
+
+  // Versions are append-only: saving a template for a state and form type creates its next version,
+  // which generation picks up; forms already filled keep the template version they recorded
+  async createVersion(input: StateFormTemplateInput): Promise<StateFormTemplate> {
+    const pdfFields = await this.discoverFields(await this.readTemplate(input.templatePath), input.formName);
+    const names = new Set(pdfFields.map(field => field.name));
+    const unknown = input.fields.filter(field => !names.has(field.name));
+    if (unknown.length > 0) {
+      throw new StateFormError('Mapped fields are not in the template PDF', unknown.map(field => field.name));
+    }
+
+    return await createNextVersion(() => this.latestVersion(input.state, input.formType), version => storage.createStateFormTemplate({
+      state: input.state,
+      formType: input.formType,
+      formName: input.formName,
+      templatePath: input.templatePath,
+      fields: input.fields,
+      isActive: true,
+      version: `${version}.0`,
+    }));
+  }
+
+  // Fill a template with an authorization's data without filing anything; unsaved mappings from the
+  // editor can be passed in place of the template's own. Without an authorization the newest one is used.
+  async preview(template: StateFormTemplate, authorizationId?: number, fields?: StateFormField[]): Promise<StateFormPreview> {
+    const authorization = authorizationId
+      ? await storage.getPriorAuthorization(authorizationId)
+      : (await storage.getPriorAuthorizations(1))[0];
+    if (!authorization) {
+      throw new Error(authorizationId ? 'Authorization not found' : 'No authorization found to preview with');
+    }
+
+    const data = await stateFormService.loadFormData(authorization);
+    const { bytes, values, warnings } = await stateFormService.fill(
+      fields ? { ...template, fields } : template,
+      data,
+      { preview: true },
+    );
+    return { authorizationId: authorization.id, pdf: bytes, values, warnings };
+  }
+
+  private async readTemplate(templatePath: string): Promise<Buffer> {
+    const content = await documentStorage.read(stateFormService.resolveTemplatePath(templatePath));
+    if (!content) {
+      throw new StateFormError('The template PDF was not found', [templatePath]);
+    }
+    return content;
+  }
+
+  // Versions are stored as "N.0"; seeded templates may carry minor versions, which count as their major
+  private async latestVersion(state: string, formType: string): Promise<number> {
+    const versions = await storage.getStateFormTemplateVersions(state, formType);
+    return versions.reduce((latest, template) => Math.max(latest, Math.floor(parseFloat(template.version)) || 0), 0);
+  }
+}
+
+export const stateFormTemplateService = new StateFormTemplateService();
@@ -0,0 +1,29 @@
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {} }));
+vi.mock("../storage", () => ({ storage: {} }));
+vi.mock("./insurance", () => ({ insuranceService: {} }));
+vi.mock("./practice-profile", () => ({ practiceProfileService: {} }));
+
+const { StateFormError, stateFormService } = await import("./state-forms");
+
+const templateDir = path.resolve(process.cwd(), "forms", "templates");
+const storageDir = path.resolve(process.cwd(), "storage", "documents");
+
+describe("resolving state form template paths", () => {
+  it("resolves relative paths inside the template directory", () => {
+    expect(stateFormService.resolveTemplatePath("ca/prior-auth.pdf")).toBe(path.join(templateDir, "ca", "prior-auth.pdf"));
+  });
+
+  it("accepts uploads kept in document storage", () => {
+    const upload = path.join(storageDir, "state-form-templates", "1_form.pdf");
+    expect(stateFormService.resolveTemplatePath(upload)).toBe(upload);
+  });
+
+  it("refuses paths that escape both directories", () => {
+    for (const escape of ["../../package.json", "/etc/passwd", path.join(storageDir, "..", "secrets.pdf")]) {
+      expect(() => stateFormService.resolveTemplatePath(escape)).toThrow(StateFormError);
+    }
+  });
+});
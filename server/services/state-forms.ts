@@ -0,0 +1,189 @@
+import path from "path";
+import {
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFTextField,
+  type PDFForm,
+} from "pdf-lib";
+import type { Document, PriorAuthorization, StateFormTemplate } from "@shared/schema";
+import { parseStateFormFields, resolveFormFieldValue, type FormDataSource } from "@shared/state-forms";
+import { storage } from "../storage";
+import { documentStorage, isWithin } from "./document-storage";
+import { insuranceService } from "./insurance";
+import { toWinAnsi } from "./pdf";
+import { practiceProfileService } from "./practice-profile";
+
+// Raised when a state form cannot be produced; issues name the fields or files at fault
+export class StateFormError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'StateFormError';
+  }
+}
+
+export interface StateFormOptions {
+  // Flattened forms print as filled but can no longer be edited
+  flatten?: boolean;
+  // Previews report missing required values as warnings instead of failing
+  preview?: boolean;
+}
+
+export interface StateFormResult {
+  document: Document;
+  template: StateFormTemplate;
+  values: Record<string, string>;
+  // Mapped fields the PDF does not have, or could not take the value
+  warnings: string[];
+}
+
+export class StateFormService {
+  // Template paths are relative to STATE_FORM_TEMPLATE_DIR, or absolute for uploads kept in document
+  // storage; a path resolving anywhere else is refused so a template record cannot read arbitrary files
+  resolveTemplatePath(templatePath: string): string {
+    const templateDir = path.resolve(process.env.STATE_FORM_TEMPLATE_DIR || path.resolve(process.cwd(), 'forms', 'templates'));
+    const resolved = path.resolve(templateDir, templatePath);
+    if (!isWithin(templateDir, resolved) && !documentStorage.contains(resolved)) {
+      throw new StateFormError('The template path is outside the template directories', [templatePath]);
+    }
+    return resolved;
+  }
+
+  // Everything a field mapping can read, keyed by FORM_DATA_SOURCES root
+  async loadFormData(authorization: PriorAuthorization): Promise<Record<FormDataSource, unknown>> {
+    const [context, practice, steps] = await Promise.all([
+      insuranceService.loadSubmissionContext(authorization.id),
+      practiceProfileService.load(),
+      storage.getPriorAuthWorkflowSteps(authorization.id),
+    ]);
+    const workflow = steps.reduce<Record<string, unknown>>((data, step) => ({ ...data, ...((step.formData as Record<string, unknown> | null) || {}) }), {});
+
+    return {
+      authorization: context.authorization,
+      patient: context.patient,
+      insurance: context.patientInsurance || {},
+      payer: context.provider,
+      practice,
+      workflow,
+      diagnoses: context.request.diagnoses,
+      serviceLines: context.request.serviceLines,
+      today: new Date(),
+    };
+  }
+
+  async fill(template: StateFormTemplate, data: Record<FormDataSource, unknown>, options: StateFormOptions = {}): Promise<{ bytes: Uint8Array; values: Record<string, string>; warnings: string[] }> {
+    const fields = parseStateFormFields(template.fields);
+    const values = Object.fromEntries(fields.map(field => [field.name, resolveFormFieldValue(field, data)]));
+
+    const warnings: string[] = [];
+    const missing = fields.filter(field => field.required && (!values[field.name] || values[field.name] === 'false'));
+    if (missing.length > 0 && options.preview) {
+      warnings.push(...missing.map(field => `${field.name}: required value from ${field.source} is missing`));
+    } else if (missing.length > 0) {
+      throw new StateFormError(
+        `${template.formName} is missing required values`,
+        missing.map(field => `${field.label || field.name} (${field.source})`),
+      );
+    }
+
+    const source = await documentStorage.read(this.resolveTemplatePath(template.templatePath));
+    if (!source) {
+      throw new StateFormError(`The template PDF for ${template.formName} was not found`, [template.templatePath]);
+    }
+
+    let pdf: PDFDocument;
+    let form: PDFForm;
+    try {
+      pdf = await PDFDocument.load(source);
+      form = pdf.getForm();
+    } catch {
+      throw new StateFormError(`The template PDF for ${template.formName} could not be read`, [template.templatePath]);
+    }
+
+    for (const field of fields) {
+      const value = values[field.name];
+      const target = form.getFieldMaybe(field.name);
+      if (!target) {
+        warnings.push(`${field.name}: not a field in the template PDF`);
+        continue;
+      }
+
+      try {
+        if (target instanceof PDFTextField) {
+          target.setText(toWinAnsi(value));
+        } else if (target instanceof PDFCheckBox) {
+          if (value === 'true') target.check();
+          else target.uncheck();
+        } else if (target instanceof PDFDropdown || target instanceof PDFOptionList) {
+          if (value) target.select(value);
+        } else if (target instanceof PDFRadioGroup) {
+          if (value) target.select(value);
+        } else {
+          warnings.push(`${field.name}: field type cannot be filled`);
+        }
+      } catch (error) {
+        warnings.push(`${field.name}: ${(error as Error).message}`);
+      }
+    }
+
+    if (options.flatten) {
+      form.flatten();
+    }
+    return { bytes: await pdf.save(), values, warnings };
+  }
+
+  // Fill the state's prior auth form for an authorization and file it as a payer form document
+  async generate(authorizationId: number, state: string | undefined, userId: number, options: StateFormOptions = {}): Promise<StateFormResult> {
+    const authorization = await storage.getPriorAuthorization(authorizationId);
+    if (!authorization) {
+      throw new Error('Authorization not found');
+    }
+
+    const data = await this.loadFormData(authorization);
+    const formState = (state || (data.patient as { state?: string | null }).state || '').toUpperCase();
+    if (!formState) {
+      throw new StateFormError('The patient has no state on file; choose the state form to use');
+    }
+
+    const template = await storage.getStateFormTemplate(formState, 'prior_auth');
+    if (!template) {
+      throw new StateFormError(`No form template found for state: ${formState}`);
+    }
+
+    const { bytes, values, warnings } = await this.fill(template, data, options);
+
+    const fileName = `${template.formName.replace(/\s+/g, '_')}_${authorization.authorizationId}.pdf`;
+    const filePath = await documentStorage.write('state-forms', fileName, bytes);
+    const document = await storage.createDocument({
+      fileName,
+      fileType: 'application/pdf',
+      fileSize: bytes.length,
+      documentType: 'payer_form',
+      encryptedPath: filePath,
+      uploadedBy: userId,
+      patientId: authorization.patientId,
+      authorizationId: authorization.id,
+    });
+
+    await storage.updatePriorAuthorization(authorization.id, {
+      stateFormTemplateId: template.id,
+      generatedFormData: {
+        state: template.state,
+        templateId: template.id,
+        templateVersion: template.version,
+        documentId: document.id,
+        flattened: !!options.flatten,
+        values,
+        warnings,
+        generatedAt: new Date().toISOString(),
+      },
+      formPackagePath: filePath,
+    });
+
+    return { document, template, values, warnings };
+  }
+}
+
+export const stateFormService = new StateFormService();
@@ -0,0 +1,204 @@
+import type { AuthorizationUnitApproval, PriorAuthorization, ServiceUtilization } from "@shared/schema";
+import {
+  LOW_BALANCE_RATIO,
+  UNIT_TYPE_LABELS,
+  UTILIZATION_AUTHORIZATION_STATUSES,
+  type UnitBalance,
+  type UnitType,
+  type UtilizationCheck,
+  type UtilizationWarning,
+} from "@shared/utilization";
+import { AUTHORIZATION_STATUS_LABELS, normalizeAuthorizationStatus } from "@shared/authorization-status";
+import { storage } from "../storage";
+
+// Raised when an approved quantity or service cannot be recorded against an authorization
+export class UtilizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UtilizationError';
+  }
+}
+
+export interface UnitApprovalInput {
+  cptCode: string;
+  unitType: UnitType;
+  approvedQuantity: number;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface PlannedService {
+  cptCode: string;
+  serviceDate: Date;
+  units: number;
+}
+
+export interface RecordServiceInput extends PlannedService {
+  encounterId?: string;
+  notes?: string;
+}
+
+export interface AuthorizationUtilization {
+  balances: UnitBalance[];
+  entries: ServiceUtilization[];
+}
+
+export class UtilizationService {
+  // Set the approved quantity for each CPT code, replacing what was recorded before for the same code
+  async setApprovals(authorizationId: number, approvals: UnitApprovalInput[], userId: number): Promise<AuthorizationUnitApproval[]> {
+    const authorization = await this.loadAuthorization(authorizationId);
+
+    const unknown = approvals.filter(approval => !authorization.cptCodes.includes(approval.cptCode));
+    if (unknown.length > 0) {
+      throw new UtilizationError(`CPT ${unknown.map(approval => approval.cptCode).join(', ')} is not on this authorization`);
+    }
+
+    const existing = await storage.getUnitApprovalsByAuthorization(authorizationId);
+    for (const approval of approvals) {
+      const current = existing.find(item => item.cptCode === approval.cptCode);
+      if (current) {
+        await storage.updateUnitApproval(current.id, {
+          ...approval,
+          startDate: approval.startDate ?? null,
+          endDate: approval.endDate ?? null,
+        });
+      } else {
+        await storage.createUnitApproval({ ...approval, authorizationId, createdBy: userId });
+      }
+    }
+
+    return storage.getUnitApprovalsByAuthorization(authorizationId);
+  }
+
+  async forAuthorization(authorizationId: number): Promise<AuthorizationUtilization> {
+    const authorization = await this.loadAuthorization(authorizationId);
+    const [approvals, entries] = await Promise.all([
+      storage.getUnitApprovalsByAuthorization(authorizationId),
+      storage.getServiceUtilizationsByAuthorization(authorizationId),
+    ]);
+
+    return {
+      balances: approvals.map(approval => this.balance(authorization, approval, entries)),
+      entries,
+    };
+  }
+
+  // Whether a planned service fits within what is left of the approval, without recording it
+  async check(authorizationId: number, planned: PlannedService): Promise<UtilizationCheck> {
+    const authorization = await this.loadAuthorization(authorizationId);
+    const [approvals, entries] = await Promise.all([
+      storage.getUnitApprovalsByAuthorization(authorizationId),
+      storage.getServiceUtilizationsByAuthorization(authorizationId),
+    ]);
+    const approval = approvals.find(item => item.cptCode === planned.cptCode);
+    const balance = approval ? this.balance(authorization, approval, entries) : null;
+
+    return {
+      cptCode: planned.cptCode,
+      serviceDate: planned.serviceDate.toISOString(),
+      units: planned.units,
+      balance,
+      warnings: this.warnings(authorization, balance, planned),
+    };
+  }
+
+  // Log a delivered service. Services outside the approval are still recorded so the log matches
+  // what was billed; the warnings tell the caller what went over.
+  async record(authorizationId: number, input: RecordServiceInput, userId: number): Promise<{ utilization: ServiceUtilization; check: UtilizationCheck }> {
+    const check = await this.check(authorizationId, input);
+    if (!check.balance) {
+      throw new UtilizationError(`No approved quantity has been recorded for CPT ${input.cptCode}`);
+    }
+
+    const utilization = await storage.createServiceUtilization({
+      authorizationId,
+      unitApprovalId: check.balance.approvalId,
+      serviceDate: input.serviceDate,
+      unitsUsed: input.units,
+      encounterId: input.encounterId,
+      notes: input.notes,
+      recordedBy: userId,
+    });
+
+    return { utilization, check };
+  }
+
+  async remove(authorizationId: number, utilizationId: number): Promise<ServiceUtilization> {
+    const utilization = await storage.getServiceUtilization(utilizationId);
+    if (!utilization || utilization.authorizationId !== authorizationId) {
+      throw new Error('Service utilization not found');
+    }
+    await storage.deleteServiceUtilization(utilizationId);
+    return utilization;
+  }
+
+  private balance(authorization: PriorAuthorization, approval: AuthorizationUnitApproval, entries: ServiceUtilization[]): UnitBalance {
+    const usedQuantity = entries
+      .filter(entry => entry.unitApprovalId === approval.id)
+      .reduce((total, entry) => total + entry.unitsUsed, 0);
+    const remainingQuantity = approval.approvedQuantity - usedQuantity;
+    const startDate = approval.startDate ?? authorization.approvalDate;
+    const endDate = approval.endDate ?? authorization.expirationDate;
+
+    return {
+      approvalId: approval.id,
+      cptCode: approval.cptCode,
+      unitType: approval.unitType as UnitType,
+      approvedQuantity: approval.approvedQuantity,
+      usedQuantity,
+      remainingQuantity,
+      startDate: startDate?.toISOString() ?? null,
+      endDate: endDate?.toISOString() ?? null,
+      lowBalance: remainingQuantity <= approval.approvedQuantity * LOW_BALANCE_RATIO,
+    };
+  }
+
+  private warnings(authorization: PriorAuthorization, balance: UnitBalance | null, planned: PlannedService): UtilizationWarning[] {
+    const warnings: UtilizationWarning[] = [];
+
+    const status = normalizeAuthorizationStatus(authorization.status, authorization.submittedDate);
+    if (!UTILIZATION_AUTHORIZATION_STATUSES.includes(status)) {
+      warnings.push({
+        kind: 'authorization_inactive',
+        message: `The authorization is ${AUTHORIZATION_STATUS_LABELS[status]}, not approved`,
+      });
+    }
+
+    if (!balance) {
+      warnings.push({ kind: 'no_approval', message: `No approved quantity has been recorded for CPT ${planned.cptCode}` });
+      return warnings;
+    }
+
+    const unitLabel = UNIT_TYPE_LABELS[balance.unitType].toLowerCase();
+    if (planned.units > balance.remainingQuantity) {
+      warnings.push({
+        kind: 'exceeds_quantity',
+        message: `${planned.units} ${unitLabel} requested but only ${Math.max(balance.remainingQuantity, 0)} of ${balance.approvedQuantity} remain for CPT ${balance.cptCode}`,
+      });
+    }
+    if (balance.startDate && planned.serviceDate < new Date(balance.startDate)) {
+      warnings.push({
+        kind: 'before_start',
+        message: `The date of service is before the approval starts on ${new Date(balance.startDate).toLocaleDateString()}`,
+      });
+    }
+    if (balance.endDate && planned.serviceDate > new Date(balance.endDate)) {
+      warnings.push({
+        kind: 'after_end',
+        message: `The date of service is after the approval ends on ${new Date(balance.endDate).toLocaleDateString()}`,
+      });
+    }
+
+    return warnings;
+  }
+
+  private async loadAuthorization(authorizationId: number): Promise<PriorAuthorization> {
+    const authorization = await storage.getPriorAuthorization(authorizationId);
+    if (!authorization) {
+      throw new Error('Authorization not found');
+    }
+    return authorization;
+  }
+}
+
+export const utilizationService = new UtilizationService();
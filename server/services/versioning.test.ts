@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { createNextVersion } from "./versioning";
+
+function uniqueViolation() {
+  return Object.assign(new Error("duplicate key value violates unique constraint"), { code: "23505" });
+}
+
+describe("createNextVersion", () => {
+  it("retries with the next number when another save took the version first", async () => {
+    const taken = new Set([1]);
+    let latest = 0;
+
+    const version = await createNextVersion(async () => latest, async candidate => {
+      if (taken.has(candidate)) {
+        latest = candidate; // the other writer's row is visible on the next read
+        throw uniqueViolation();
+      }
+      return candidate;
+    });
+
+    expect(version).toBe(2);
+  });
+
+  it("gives up after repeated conflicts", async () => {
+    await expect(createNextVersion(async () => 0, async () => { throw uniqueViolation(); }))
+      .rejects.toThrow(/duplicate key/);
+  });
+
+  it("does not retry other errors", async () => {
+    let attempts = 0;
+    await expect(createNextVersion(async () => 0, async () => {
+      attempts++;
+      throw new Error("connection lost");
+    })).rejects.toThrow("connection lost");
+    expect(attempts).toBe(1);
+  });
+});
@@ -0,0 +1,20 @@
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+const MAX_ATTEMPTS = 5;
+
+export function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === UNIQUE_VIOLATION;
+}
+
+// Inserts the next version of a record numbered per key. Two saves can read the same latest version;
+// the unique index on (key, version) turns the second insert away and it retries with the next number.
+export async function createNextVersion<T>(latestVersion: () => Promise<number>, create: (version: number) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const version = (await latestVersion()) + 1;
+    try {
+      return await create(version);
+    } catch (error) {
+      if (!isUniqueViolation(error) || attempt >= MAX_ATTEMPTS) throw error;
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import type { PriorAuthorization, WorkflowDefinition } from "@shared/schema";
+import {
+  DEFAULT_WORKFLOW_KEY,
+  DEFAULT_WORKFLOW_STEPS,
+  withDefaultRoles,
+  workflowDefinitionStepsSchema,
+  type ResolvedWorkflowDefinition,
+  type WorkflowDefinitionInput,
+} from "@shared/workflow-definitions";
+import { storage } from "../storage";
+import { appLogger } from "./app-logger";
+import { insuranceService } from "./insurance";
+import { createNextVersion } from "./versioning";
+
+const BUILT_IN_DEFINITION: ResolvedWorkflowDefinition = {
+  id: null,
+  key: DEFAULT_WORKFLOW_KEY,
+  version: 0,
+  name: "Standard prior authorization (built-in)",
+  steps: DEFAULT_WORKFLOW_STEPS,
+};
+
+export class WorkflowDefinitionService {
+  // Definition a new workflow starts on: the payer's own, else the shared one, else the built-in steps
+  async selectForAuthorization(authorization: PriorAuthorization): Promise<ResolvedWorkflowDefinition> {
+    const { provider } = await insuranceService.resolveCoverage(authorization);
+
+    const definition = (provider && await storage.getActiveWorkflowDefinition(provider.id))
+      || await storage.getActiveWorkflowDefinition(null);
+
+    return (definition && this.toResolved(definition)) || BUILT_IN_DEFINITION;
+  }
+
+  // Definition an existing workflow runs on; authorizations stay on the version they started with
+  async forAuthorization(authorization: PriorAuthorization): Promise<ResolvedWorkflowDefinition> {
+    if (!authorization.workflowDefinitionId) return BUILT_IN_DEFINITION;
+
+    const definition = await storage.getWorkflowDefinition(authorization.workflowDefinitionId);
+    if (!definition) {
+      appLogger.warn("Pinned workflow definition is missing, using the built-in steps", {
+        authorizationId: authorization.id,
+        workflowDefinitionId: authorization.workflowDefinitionId,
+      }, 'WORKFLOW_DEFINITIONS');
+      return BUILT_IN_DEFINITION;
+    }
+    return this.toResolved(definition) || BUILT_IN_DEFINITION;
+  }
+
+  // Versions are append-only: saving a definition under an existing key creates the next version
+  async createVersion(input: WorkflowDefinitionInput, userId: number): Promise<WorkflowDefinition> {
+    return await createNextVersion(() => storage.getLatestWorkflowDefinitionVersion(input.key), version => storage.createWorkflowDefinition({
+      key: input.key,
+      version,
+      name: input.name,
+      insuranceProviderId: input.insuranceProviderId ?? null,
+      steps: input.steps,
+      isActive: true,
+      createdBy: userId,
+    }));
+  }
+
+  private toResolved(definition: WorkflowDefinition): ResolvedWorkflowDefinition | null {
+    const parsed = workflowDefinitionStepsSchema.safeParse(definition.steps);
+    if (!parsed.success) {
+      appLogger.warn("Ignoring invalid workflow definition", {
+        workflowDefinitionId: definition.id,
+        issues: parsed.error.errors.length,
+      }, 'WORKFLOW_DEFINITIONS');
+      return null;
+    }
+    return {
+      id: definition.id,
+      key: definition.key,
+      version: definition.version,
+      name: definition.name,
+      steps: withDefaultRoles(parsed.data),
+    };
+  }
+}
+
+export const workflowDefinitionService = new WorkflowDefinitionService();
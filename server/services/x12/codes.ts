@@ -0,0 +1,124 @@
+import type { PayerDecisionStatus } from "../payer-adapters/types";
+
+// X12 service type codes for the treatment types offered in the authorization form
+const SERVICE_TYPE_CODES: Record<string, string> = {
+  'MRI': '62',
+  'CT Scan': '62',
+  'Physical Therapy': 'PT',
+  'Specialty Medication': '88',
+  'Surgery': '2',
+  'Mohs Surgery': '2',
+};
+const DEFAULT_SERVICE_TYPE_CODE = '1'; // Medical Care
+
+export function serviceTypeCodeFor(treatmentType: string): string {
+  return SERVICE_TYPE_CODES[treatmentType] || DEFAULT_SERVICE_TYPE_CODE;
+}
+
+// HCR01 certification action codes
+export const CERTIFICATION_ACTION_STATUS: Record<string, PayerDecisionStatus> = {
+  'A1': 'approved',           // Certified in total
+  'A2': 'partially_approved', // Certified - partial
+  'A6': 'partially_approved', // Modified
+  'NA': 'approved',           // No action required
+  'A3': 'denied',             // Not certified
+  'A4': 'pended',             // Pended
+  'CT': 'in_review',          // Contact payer
+  'C': 'cancelled',           // Cancelled
+};
+
+export const CERTIFICATION_ACTION_LABELS: Record<string, string> = {
+  'A1': 'Certified in total',
+  'A2': 'Certified - partial',
+  'A3': 'Not certified',
+  'A4': 'Pended',
+  'A6': 'Modified',
+  'C': 'Cancelled',
+  'CT': 'Contact payer',
+  'NA': 'No action required',
+};
+
+// AAA03 request validation reject reasons used in 278 and 271 responses
+export const REJECT_REASON_LABELS: Record<string, string> = {
+  '04': 'Authorized quantity exceeded',
+  '15': 'Required application data missing',
+  '33': 'Input errors',
+  '35': 'Out of network',
+  '41': 'Authorization/access restrictions',
+  '42': 'Unable to respond at current time',
+  '43': 'Invalid/missing provider identification',
+  '44': 'Invalid/missing provider name',
+  '45': 'Invalid/missing provider specialty',
+  '47': 'Invalid/missing provider state',
+  '51': 'Provider not on file',
+  '52': 'Service dates not within provider plan enrollment',
+  '56': 'Inappropriate date',
+  '57': 'Invalid/missing date(s) of service',
+  '58': 'Invalid/missing date of birth',
+  '60': 'Date of birth follows date(s) of service',
+  '62': 'Date of death precedes date(s) of service',
+  '64': 'Invalid/missing patient ID',
+  '65': 'Invalid/missing patient name',
+  '66': 'Invalid/missing patient gender code',
+  '67': 'Patient not found',
+  '71': 'Patient birth date does not match that for the patient on the database',
+  '72': 'Invalid/missing subscriber/insured ID',
+  '73': 'Invalid/missing subscriber/insured name',
+  '75': 'Subscriber/insured not found',
+  '76': 'Duplicate subscriber/insured ID number',
+  '79': 'Invalid participant identification',
+  'T4': 'Payer name or identifier missing',
+};
+
+// AAA04 follow-up action codes
+export const FOLLOW_UP_ACTION_LABELS: Record<string, string> = {
+  'C': 'Please correct and resubmit',
+  'N': 'Resubmission not allowed',
+  'P': 'Please resubmit original transaction',
+  'R': 'Resubmission allowed',
+  'S': 'Do not resubmit; inquiry initiated to a third party',
+  'W': 'Please wait 30 days and resubmit',
+  'X': 'Please wait 10 days and resubmit',
+  'Y': 'Do not resubmit; we will hand deliver the response',
+};
+
+export function genderCode(gender: string | null): string {
+  const normalized = (gender || '').trim().toUpperCase();
+  if (normalized.startsWith('M')) return 'M';
+  if (normalized.startsWith('F')) return 'F';
+  return 'U';
+}
+
+// EB03 / EQ01 service type codes we display by name
+export const SERVICE_TYPE_LABELS: Record<string, string> = {
+  '1': 'Medical Care',
+  '2': 'Surgical',
+  '30': 'Health Benefit Plan Coverage',
+  '33': 'Chiropractic',
+  '35': 'Dental Care',
+  '47': 'Hospital',
+  '48': 'Hospital - Inpatient',
+  '50': 'Hospital - Outpatient',
+  '62': 'MRI/CAT Scan',
+  '86': 'Emergency Services',
+  '88': 'Pharmacy',
+  '98': 'Professional (Physician) Visit - Office',
+  'AL': 'Vision (Optometry)',
+  'MH': 'Mental Health',
+  'PT': 'Physical Therapy',
+  'UC': 'Urgent Care',
+};
+
+// EB04 insurance type codes
+export const INSURANCE_TYPE_LABELS: Record<string, string> = {
+  'C1': 'Commercial',
+  'EP': 'Exclusive Provider Organization (EPO)',
+  'HM': 'Health Maintenance Organization (HMO)',
+  'HN': 'HMO - Medicare Risk',
+  'MA': 'Medicare Part A',
+  'MB': 'Medicare Part B',
+  'MC': 'Medicaid',
+  'PR': 'Preferred Provider Organization (PPO)',
+  'PS': 'Point of Service (POS)',
+  'QM': 'Qualified Medicare Beneficiary',
+};
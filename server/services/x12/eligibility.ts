@@ -0,0 +1,35 @@
+import type { InsuranceProvider, Patient, PatientInsurance } from "@shared/schema";
+import type { InsuranceVerificationResult } from "@shared/insurance-verification";
+import { X12GatewayClient, X12GatewayError } from "./gateway";
+import { build270Request } from "./x270-request";
+import { normalize271, parse271Response } from "./x271-response";
+
+export interface X12EligibilityInquiry {
+  patient: Patient;
+  insurance: PatientInsurance;
+  provider: InsuranceProvider;
+  serviceTypes?: string[];
+}
+
+// Real-time 270/271 eligibility through a clearinghouse EDI gateway. Unlike the
+// Availity coverages API the gateway answers synchronously, so there is nothing to resume.
+export class X12EligibilityService {
+  constructor(private gateway: X12GatewayClient) {}
+
+  async verify(inquiry: X12EligibilityInquiry): Promise<InsuranceVerificationResult> {
+    const { config } = this.gateway;
+    const request = build270Request({ ...inquiry, requester: config.requester }, {
+      sender: config.sender,
+      receiver: config.receiver,
+      usageIndicator: config.usageIndicator,
+      interchangeControlNumber: this.gateway.nextControlNumber(),
+    });
+
+    const response = parse271Response(await this.gateway.send(request.edi));
+    if (response.traceNumbers.length > 0 && !response.traceNumbers.includes(request.traceNumber)) {
+      throw new X12GatewayError(`271 trace numbers ${response.traceNumbers.join(', ')} do not match inquiry ${request.traceNumber}`);
+    }
+
+    return normalize271(response, request.traceNumber);
+  }
+}
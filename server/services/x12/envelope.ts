@@ -0,0 +1,342 @@
+// X12 005010 interchange handling: ISA/IEA, GS/GE and ST/SE envelopes, delimiter
+// detection and control number validation. Transaction-specific builders and
+// parsers (278, 270/271) work on the segment lists produced here.
+
+export interface X12Delimiters {
+  element: string;
+  component: string;
+  repetition: string;
+  segment: string;
+}
+
+export const DEFAULT_DELIMITERS: X12Delimiters = {
+  element: '*',
+  component: ':',
+  repetition: '^',
+  segment: '~',
+};
+
+// elements[0] holds the first data element, so NM1-03 is elements[2]
+export interface X12Segment {
+  id: string;
+  elements: string[];
+}
+
+export interface X12Party {
+  qualifier: string; // ISA05/ISA07, e.g. ZZ (mutually defined) or 30 (federal tax id)
+  id: string;
+}
+
+export interface X12Transaction {
+  setId: string;                   // ST01, e.g. 278
+  controlNumber: string;           // ST02
+  implementationReference?: string; // ST03, e.g. 005010X217
+  segments: X12Segment[];          // Everything between ST and SE
+}
+
+export interface X12FunctionalGroup {
+  functionalIdCode: string; // GS01, e.g. HI for 278
+  senderCode: string;
+  receiverCode: string;
+  date: string;             // CCYYMMDD
+  time: string;             // HHMM
+  controlNumber: string;    // GS06
+  version: string;          // GS08, e.g. 005010X217
+  transactions: X12Transaction[];
+}
+
+export interface X12Interchange {
+  delimiters: X12Delimiters;
+  sender: X12Party;
+  receiver: X12Party;
+  date: string;          // YYMMDD
+  time: string;          // HHMM
+  controlNumber: string; // ISA13
+  versionNumber: string; // ISA12
+  acknowledgmentRequested: boolean;
+  usageIndicator: 'T' | 'P';
+  groups: X12FunctionalGroup[];
+}
+
+export interface X12EnvelopeOptions {
+  sender: X12Party;
+  receiver: X12Party;
+  interchangeControlNumber: number;
+  groupControlNumber?: number;
+  usageIndicator?: 'T' | 'P';
+  acknowledgmentRequested?: boolean;
+  date?: Date;
+}
+
+export interface X12SerializeOptions {
+  // Break lines after each segment terminator; accepted by most gateways and easier to read
+  lineBreaks?: boolean;
+}
+
+export class X12ParseError extends Error {
+  constructor(message: string, public segmentIndex?: number) {
+    super(segmentIndex !== undefined ? `${message} (segment ${segmentIndex + 1})` : message);
+    this.name = 'X12ParseError';
+  }
+}
+
+const ISA_LENGTH = 106;
+const INTERCHANGE_VERSION = '00501';
+
+// Builds a segment, dropping trailing empty elements as X12 requires
+export function segment(id: string, ...elements: (string | number | null | undefined)[]): X12Segment {
+  const values = elements.map(value => (value === null || value === undefined ? '' : String(value)));
+  while (values.length > 0 && values[values.length - 1] === '') {
+    values.pop();
+  }
+  return { id, elements: values };
+}
+
+// 1-based element accessor matching X12 notation (element(nm1, 3) is NM1-03)
+export function element(seg: X12Segment | undefined, position: number): string {
+  return seg?.elements[position - 1] || '';
+}
+
+export function components(value: string, delimiters: X12Delimiters = DEFAULT_DELIMITERS): string[] {
+  return value ? value.split(delimiters.component) : [];
+}
+
+export function composite(...parts: (string | undefined)[]): string {
+  const values = parts.map(part => part || '');
+  while (values.length > 0 && values[values.length - 1] === '') {
+    values.pop();
+  }
+  return values.join(DEFAULT_DELIMITERS.component);
+}
+
+// Strips delimiter characters and line breaks from free text before it goes into an element
+export function sanitize(value: string | null | undefined, maxLength?: number): string {
+  if (!value) return '';
+  const cleaned = value.replace(/[*:^~\r\n]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return maxLength ? cleaned.slice(0, maxLength).trim() : cleaned;
+}
+
+export function formatControlNumber(value: number | string, width = 9): string {
+  return String(value).padStart(width, '0').slice(-width);
+}
+
+export function x12Date(date: Date, format: 'CCYYMMDD' | 'YYMMDD' = 'CCYYMMDD'): string {
+  const iso = date.toISOString();
+  const full = iso.slice(0, 10).replace(/-/g, '');
+  return format === 'YYMMDD' ? full.slice(2) : full;
+}
+
+export function x12Time(date: Date): string {
+  return date.toISOString().slice(11, 16).replace(':', '');
+}
+
+// CCYYMMDD -> YYYY-MM-DD
+export function isoDate(value: string): string | undefined {
+  return /^\d{8}$/.test(value) ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` : undefined;
+}
+
+// Wraps a single transaction set in GS/GE and ISA/IEA envelopes
+export function createInterchange(
+  transaction: X12Transaction,
+  functionalIdCode: string,
+  options: X12EnvelopeOptions
+): X12Interchange {
+  const date = options.date || new Date();
+  const groupControlNumber = String(options.groupControlNumber ?? options.interchangeControlNumber);
+
+  return {
+    delimiters: DEFAULT_DELIMITERS,
+    sender: options.sender,
+    receiver: options.receiver,
+    date: x12Date(date, 'YYMMDD'),
+    time: x12Time(date),
+    controlNumber: formatControlNumber(options.interchangeControlNumber),
+    versionNumber: INTERCHANGE_VERSION,
+    acknowledgmentRequested: options.acknowledgmentRequested ?? false,
+    usageIndicator: options.usageIndicator || 'T',
+    groups: [{
+      functionalIdCode,
+      senderCode: options.sender.id,
+      receiverCode: options.receiver.id,
+      date: x12Date(date),
+      time: x12Time(date),
+      controlNumber: groupControlNumber,
+      version: transaction.implementationReference || '',
+      transactions: [transaction],
+    }],
+  };
+}
+
+function isaSegment(interchange: X12Interchange): X12Segment {
+  const { delimiters } = interchange;
+  return {
+    id: 'ISA',
+    elements: [
+      '00', ''.padEnd(10),                    // No authorization information
+      '00', ''.padEnd(10),                    // No security information
+      interchange.sender.qualifier.padEnd(2), interchange.sender.id.padEnd(15).slice(0, 15),
+      interchange.receiver.qualifier.padEnd(2), interchange.receiver.id.padEnd(15).slice(0, 15),
+      interchange.date,
+      interchange.time,
+      delimiters.repetition,
+      interchange.versionNumber,
+      interchange.controlNumber,
+      interchange.acknowledgmentRequested ? '1' : '0',
+      interchange.usageIndicator,
+      delimiters.component,
+    ],
+  };
+}
+
+export function serializeSegment(seg: X12Segment, delimiters: X12Delimiters = DEFAULT_DELIMITERS): string {
+  return [seg.id, ...seg.elements].join(delimiters.element) + delimiters.segment;
+}
+
+export function serializeInterchange(interchange: X12Interchange, options: X12SerializeOptions = {}): string {
+  const segments: X12Segment[] = [isaSegment(interchange)];
+
+  for (const group of interchange.groups) {
+    segments.push(segment('GS', group.functionalIdCode, group.senderCode, group.receiverCode, group.date, group.time, group.controlNumber, 'X', group.version));
+    for (const transaction of group.transactions) {
+      segments.push(segment('ST', transaction.setId, transaction.controlNumber, transaction.implementationReference));
+      segments.push(...transaction.segments);
+      // SE01 counts every segment in the set, including ST and SE
+      segments.push(segment('SE', transaction.segments.length + 2, transaction.controlNumber));
+    }
+    segments.push(segment('GE', group.transactions.length, group.controlNumber));
+  }
+  segments.push(segment('IEA', interchange.groups.length, interchange.controlNumber));
+
+  const separator = options.lineBreaks ? '\n' : '';
+  return segments.map(seg => serializeSegment(seg, interchange.delimiters)).join(separator) + separator;
+}
+
+function detectDelimiters(edi: string): X12Delimiters {
+  if (!edi.startsWith('ISA') || edi.length < ISA_LENGTH) {
+    throw new X12ParseError('Interchange must start with a complete ISA segment');
+  }
+  return {
+    element: edi[3],
+    repetition: edi[82],
+    component: edi[104],
+    segment: edi[105],
+  };
+}
+
+export function parseInterchange(raw: string): X12Interchange {
+  const edi = raw.replace(/^\uFEFF/, '').trimStart();
+  const delimiters = detectDelimiters(edi);
+  const segments = edi
+    .split(delimiters.segment)
+    .map(text => text.replace(/^[\r\n]+|[\r\n]+$/g, ''))
+    .filter(text => text.length > 0)
+    .map(text => {
+      const [id, ...elements] = text.split(delimiters.element);
+      return { id: id.trim(), elements };
+    });
+
+  const isa = segments[0];
+  const interchange: X12Interchange = {
+    delimiters,
+    sender: { qualifier: element(isa, 5).trim(), id: element(isa, 6).trim() },
+    receiver: { qualifier: element(isa, 7).trim(), id: element(isa, 8).trim() },
+    date: element(isa, 9),
+    time: element(isa, 10),
+    versionNumber: element(isa, 12),
+    controlNumber: element(isa, 13),
+    acknowledgmentRequested: element(isa, 14) === '1',
+    usageIndicator: element(isa, 15) === 'P' ? 'P' : 'T',
+    groups: [],
+  };
+
+  let group: X12FunctionalGroup | null = null;
+  let transaction: X12Transaction | null = null;
+  let closed = false;
+
+  for (let index = 1; index < segments.length; index++) {
+    const seg = segments[index];
+    if (closed) {
+      throw new X12ParseError(`Unexpected ${seg.id} after IEA`, index);
+    }
+
+    switch (seg.id) {
+      case 'GS':
+        if (group) throw new X12ParseError('GS found before the previous group was closed', index);
+        group = {
+          functionalIdCode: element(seg, 1),
+          senderCode: element(seg, 2),
+          receiverCode: element(seg, 3),
+          date: element(seg, 4),
+          time: element(seg, 5),
+          controlNumber: element(seg, 6),
+          version: element(seg, 8),
+          transactions: [],
+        };
+        break;
+
+      case 'ST':
+        if (!group) throw new X12ParseError('ST found outside a functional group', index);
+        if (transaction) throw new X12ParseError('ST found before the previous transaction was closed', index);
+        transaction = {
+          setId: element(seg, 1),
+          controlNumber: element(seg, 2),
+          implementationReference: element(seg, 3) || undefined,
+          segments: [],
+        };
+        break;
+
+      case 'SE':
+        if (!group || !transaction) throw new X12ParseError('SE found without a matching ST', index);
+        if (element(seg, 2) !== transaction.controlNumber) {
+          throw new X12ParseError(`SE02 ${element(seg, 2)} does not match ST02 ${transaction.controlNumber}`, index);
+        }
+        if (parseInt(element(seg, 1), 10) !== transaction.segments.length + 2) {
+          throw new X12ParseError(`SE01 reports ${element(seg, 1)} segments but the transaction has ${transaction.segments.length + 2}`, index);
+        }
+        group.transactions.push(transaction);
+        transaction = null;
+        break;
+
+      case 'GE':
+        if (!group || transaction) throw new X12ParseError('GE found without a matching GS', index);
+        if (element(seg, 2) !== group.controlNumber) {
+          throw new X12ParseError(`GE02 ${element(seg, 2)} does not match GS06 ${group.controlNumber}`, index);
+        }
+        if (parseInt(element(seg, 1), 10) !== group.transactions.length) {
+          throw new X12ParseError(`GE01 reports ${element(seg, 1)} transactions but the group has ${group.transactions.length}`, index);
+        }
+        interchange.groups.push(group);
+        group = null;
+        break;
+
+      case 'IEA':
+        if (group) throw new X12ParseError('IEA found before the functional group was closed', index);
+        if (element(seg, 2) !== interchange.controlNumber) {
+          throw new X12ParseError(`IEA02 ${element(seg, 2)} does not match ISA13 ${interchange.controlNumber}`, index);
+        }
+        if (parseInt(element(seg, 1), 10) !== interchange.groups.length) {
+          throw new X12ParseError(`IEA01 reports ${element(seg, 1)} groups but the interchange has ${interchange.groups.length}`, index);
+        }
+        closed = true;
+        break;
+
+      default:
+        if (!transaction) throw new X12ParseError(`${seg.id} found outside a transaction set`, index);
+        transaction.segments.push(seg);
+    }
+  }
+
+  if (!closed) {
+    throw new X12ParseError('Interchange is missing its IEA trailer');
+  }
+  return interchange;
+}
+
+// Returns the first transaction of the expected type; real-time 278/271 responses carry exactly one
+export function singleTransaction(interchange: X12Interchange, setId: string): X12Transaction {
+  const transactions = interchange.groups.flatMap(group => group.transactions).filter(tx => tx.setId === setId);
+  if (transactions.length === 0) {
+    throw new X12ParseError(`Interchange does not contain a ${setId} transaction`);
+  }
+  return transactions[0];
+}
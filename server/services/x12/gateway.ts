@@ -0,0 +1,95 @@
+import type { X12Party } from "./envelope";
+import type { X12Provider } from "./parties";
+
+// Real-time EDI gateway transport: the X12 interchange is POSTed as the request
+// body and the gateway answers with the payer's response interchange (271, 278)
+// or a 999 acknowledgment when the request was rejected at the gateway.
+
+export interface X12GatewayConfig {
+  url: string;
+  username?: string;
+  password?: string;
+  sender: X12Party;
+  receiver: X12Party;
+  usageIndicator: 'T' | 'P';
+  requester: X12Provider;
+  timeoutMs: number;
+}
+
+export class X12GatewayError extends Error {
+  constructor(message: string, public readonly httpStatus?: number) {
+    super(message);
+    this.name = 'X12GatewayError';
+  }
+}
+
+export function loadX12GatewayConfig(env: NodeJS.ProcessEnv = process.env): X12GatewayConfig | null {
+  if (!env.X12_GATEWAY_URL || !env.X12_SENDER_ID || !env.X12_RECEIVER_ID) {
+    return null;
+  }
+
+  return {
+    url: env.X12_GATEWAY_URL,
+    username: env.X12_GATEWAY_USERNAME,
+    password: env.X12_GATEWAY_PASSWORD,
+    sender: { qualifier: env.X12_SENDER_QUALIFIER || 'ZZ', id: env.X12_SENDER_ID },
+    receiver: { qualifier: env.X12_RECEIVER_QUALIFIER || 'ZZ', id: env.X12_RECEIVER_ID },
+    usageIndicator: env.X12_USAGE_INDICATOR === 'P' ? 'P' : 'T',
+    requester: {
+      organizationName: env.X12_PROVIDER_ORGANIZATION,
+      lastName: env.X12_PROVIDER_LAST_NAME,
+      firstName: env.X12_PROVIDER_FIRST_NAME,
+      npi: env.X12_PROVIDER_NPI || '',
+      taxId: env.X12_PROVIDER_TAX_ID,
+    },
+    timeoutMs: parseInt(env.X12_GATEWAY_TIMEOUT_MS || '60000', 10),
+  };
+}
+
+// Insurance provider codes routed through the EDI gateway, e.g. X12_PAYER_CODES=CIGNA,UNITED
+export function x12PayerCodes(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.X12_PAYER_CODES || '')
+    .split(',')
+    .map(code => code.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+export class X12GatewayClient {
+  private sequence = 0;
+
+  constructor(readonly config: X12GatewayConfig) {}
+
+  // ISA13 must be unique per sender; seconds since epoch plus an in-process counter keeps it moving
+  nextControlNumber(): number {
+    this.sequence = (this.sequence + 1) % 1000;
+    return (Math.floor(Date.now() / 1000) * 1000 + this.sequence) % 1_000_000_000;
+  }
+
+  async send(edi: string): Promise<string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/EDI-X12',
+      Accept: 'application/EDI-X12',
+    };
+    if (this.config.username) {
+      headers.Authorization = `Basic ${Buffer.from(`${this.config.username}:${this.config.password || ''}`).toString('base64')}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.url, {
+        method: 'POST',
+        headers,
+        body: edi,
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+    } catch (error) {
+      throw new X12GatewayError(`EDI gateway request failed: ${(error as Error).message}`);
+    }
+
+    const body = await response.text();
+    if (!response.ok) {
+      throw new X12GatewayError(`EDI gateway returned ${response.status}: ${body.slice(0, 200) || response.statusText}`, response.status);
+    }
+    return body;
+  }
+}
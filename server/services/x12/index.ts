@@ -0,0 +1,9 @@
+export * from "./envelope";
+export * from "./codes";
+export * from "./parties";
+export * from "./gateway";
+export * from "./x278-request";
+export * from "./x278-response";
+export * from "./x270-request";
+export * from "./x271-response";
+export { X12EligibilityService, type X12EligibilityInquiry } from "./eligibility";
@@ -0,0 +1,43 @@
+import type { InsuranceProvider } from "@shared/schema";
+import { sanitize, segment, type X12Segment } from "./envelope";
+
+// The provider requesting a review or eligibility inquiry (and rendering the service)
+export interface X12Provider {
+  organizationName?: string;
+  lastName?: string;
+  firstName?: string;
+  npi: string;
+  taxId?: string;
+}
+
+// Payer ids on EDI gateways rarely match our provider codes; contactInfo.x12PayerId wins when present
+export function x12PayerId(provider: InsuranceProvider): string {
+  const contactInfo = (provider.contactInfo || {}) as Record<string, unknown>;
+  return typeof contactInfo.x12PayerId === 'string' && contactInfo.x12PayerId
+    ? contactInfo.x12PayerId
+    : provider.code;
+}
+
+// NM1 for a provider, as a person when only a name is configured and as an organization otherwise
+export function providerName(requester: X12Provider, entityCode: string): X12Segment {
+  const isPerson = !requester.organizationName && !!requester.lastName;
+  return segment(
+    'NM1', entityCode, isPerson ? '1' : '2',
+    sanitize(isPerson ? requester.lastName : requester.organizationName, 60),
+    isPerson ? sanitize(requester.firstName, 35) : undefined,
+    undefined, undefined, undefined,
+    'XX', requester.npi,
+  );
+}
+
+// TRN03 identifies who assigned the trace: "1" + EIN, or "9" + a user-assigned id
+export function traceAssigner(requester: X12Provider): string {
+  const taxId = (requester.taxId || '').replace(/\D/g, '');
+  return taxId.length === 9 ? `1${taxId}` : `9${requester.npi.slice(-9)}`;
+}
+
+export function requireNpi(requester: X12Provider, transaction: string): void {
+  if (!/^\d{10}$/.test(requester.npi || '')) {
+    throw new Error(`A 10-digit requesting provider NPI is required to build a ${transaction} request`);
+  }
+}
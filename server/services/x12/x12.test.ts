@@ -0,0 +1,188 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import type { InsuranceProvider, Patient, PatientInsurance, PriorAuthorization } from "@shared/schema";
+import { element, parseInterchange, singleTransaction, type X12EnvelopeOptions, type X12Segment } from "./envelope";
+import { parse271Response, normalize271 } from "./x271-response";
+import { parse278Response, map278Result } from "./x278-response";
+import { build270Request } from "./x270-request";
+import { build278Request } from "./x278-request";
+import type { X12Provider } from "./parties";
+
+function sample(name: string): string {
+  return readFileSync(new URL(`./samples/${name}`, import.meta.url), "utf8");
+}
+
+function find(segments: X12Segment[], id: string, qualifier?: string): X12Segment | undefined {
+  return segments.find(seg => seg.id === id && (qualifier === undefined || element(seg, 1) === qualifier));
+}
+
+// The envelope and parties the sample requests were built with
+const envelopeAt = (interchangeControlNumber: number): X12EnvelopeOptions => ({
+  sender: { qualifier: "ZZ", id: "PRIORAUTHPRO" },
+  receiver: { qualifier: "ZZ", id: "CLEARINGHOUSE" },
+  interchangeControlNumber,
+  date: new Date("2025-03-10T14:30:00Z"),
+});
+const patient = { firstName: "Jane", lastName: "Doe", dateOfBirth: "1980-05-02", gender: "Female", memberId: null } as unknown as Patient;
+const insurance = { memberId: "XYZ123456789", groupNumber: "GRP100200" } as PatientInsurance;
+
+describe("parsing sample 278 responses", () => {
+  it("reads an approval with its certification number and dates", () => {
+    const response = parse278Response(sample("278-response-approved.x12"));
+
+    expect(response.status).toBe("approved");
+    expect(response.actionCode).toBe("A1");
+    expect(response.certificationNumber).toBe("AUTH778812");
+    expect(response.effectiveDate).toBe("2025-03-17");
+    expect(response.expirationDate).toBe("2025-06-16");
+    expect(response.payerId).toBe("00310");
+    expect(response.memberId).toBe("XYZ123456789");
+    expect(response.traceNumbers).toEqual(["PA-2025-0042", "PA-2025-0042-1"]);
+    expect(response.services).toEqual([
+      { actionCode: "A1", status: "approved", certificationNumber: "AUTH778812", procedureCode: "72148", quantity: "1" },
+    ]);
+    expect(response.controlNumbers).toEqual({ interchange: "000002001", group: "2001", transaction: "0001" });
+
+    const result = map278Result(response, "PA-2025-0042");
+    expect(result.authorizationNumber).toBe("AUTH778812");
+    expect(result.expirationDate).toBe("2025-06-16");
+    expect(result.lineDecisions).toEqual([{ procedureCode: "72148", status: "approved", approvedQuantity: 1, reasons: [] }]);
+  });
+
+  it("reads a denial with its reason", () => {
+    const response = parse278Response(sample("278-response-denied.x12"));
+
+    expect(response.status).toBe("denied");
+    expect(response.rejected).toBe(false);
+    expect(response.reasons.map(reason => reason.source)).toEqual(["HCR", "MSG"]);
+    expect(map278Result(response, "PA-2025-0042").denialReason)
+      .toBe("Not certified: reason 0U; Conservative therapy of at least 6 weeks not documented");
+  });
+
+  it("reads a pend as pended", () => {
+    const response = parse278Response(sample("278-response-pended.x12"));
+
+    expect(response.status).toBe("pended");
+    expect(response.certificationNumber).toBe("REF55120");
+    expect(response.reasons[0].description).toContain("Additional clinical information requested");
+  });
+
+  it("reads a rejected request as denied", () => {
+    const response = parse278Response(sample("278-response-rejected.x12"));
+
+    expect(response.rejected).toBe(true);
+    expect(response.status).toBe("denied");
+    expect(response.reasons).toHaveLength(1);
+    expect(response.reasons[0]).toMatchObject({ loop: "subscriber", source: "AAA", code: "75" });
+  });
+
+  it("refuses a 278 request in place of a response", () => {
+    expect(() => parse278Response(sample("278-request.x12"))).toThrow(/Expected a 278 response/);
+  });
+});
+
+describe("parsing sample 271 responses", () => {
+  it("reads an active plan and its benefits", () => {
+    const response = parse271Response(sample("271-response-active.x12"));
+
+    expect(response.rejected).toBe(false);
+    expect(response.payerName).toBe("CIGNA");
+    expect(response.memberId).toBe("XYZ123456789");
+    expect(response.groupNumber).toBe("GRP100200");
+    expect(response.eligibilityBeginDate).toBe("2025-01-01");
+    expect(response.eligibilityEndDate).toBe("2025-12-31");
+    expect(response.benefits).toHaveLength(9);
+    expect(response.controlNumbers).toEqual({ interchange: "000004001", group: "4001", transaction: "0001" });
+
+    const result = normalize271(response, "EL3001");
+    expect(result.isActive).toBe(true);
+    expect(result.coverageDetails).toEqual({ deductible: 1500, copay: 30, coinsurance: 20, outOfPocketMax: 6000 });
+    expect(result.priorAuthRequired).toBe(true);
+    expect(result.planName).toBe("OPEN ACCESS PLUS");
+  });
+
+  it("reads a rejected inquiry", () => {
+    const response = parse271Response(sample("271-response-rejected.x12"));
+
+    expect(response.rejected).toBe(true);
+    expect(normalize271(response, "EL3001").memberStatus).toBe("Rejected");
+  });
+});
+
+describe("building and parsing back requests", () => {
+  it("round-trips a 278 request", () => {
+    const requester: X12Provider = { lastName: "Smith", firstName: "Alan", npi: "1234567893", taxId: "12-3456789" };
+    const built = build278Request({
+      authorization: {
+        authorizationId: "PA-2025-0042",
+        requestedDate: new Date("2025-03-17T00:00:00Z"),
+        treatmentType: "MRI",
+        urgentRequest: true,
+        clinicalJustification: "Persistent low back pain with radiculopathy after 6 weeks of PT",
+      } as PriorAuthorization,
+      patient,
+      patientInsurance: insurance,
+      provider: { name: "Blue Cross Blue Shield", code: "BCBS", contactInfo: { x12PayerId: "00310" } } as InsuranceProvider,
+      request: {
+        diagnoses: [{ sequence: 1, code: "M54.5", primary: true }, { sequence: 2, code: "M51.26", primary: false }],
+        serviceLines: [{ lineNumber: 1, cptCode: "72148", modifiers: [], units: 1, diagnosisPointers: [1], placeOfService: "11" }],
+      },
+      requester,
+    }, envelopeAt(1001), { lineBreaks: true });
+
+    expect(built.edi).toBe(sample("278-request.x12"));
+    expect(built.traceNumber).toBe("PA-2025-0042");
+
+    const parsed = parseInterchange(built.edi);
+    expect(parsed.controlNumber).toBe("000001001");
+    expect(parsed.groups).toHaveLength(1);
+    expect(parsed.groups[0]).toMatchObject({ functionalIdCode: "HI", controlNumber: "1001", version: "005010X217" });
+
+    const transaction = singleTransaction(parsed, "278");
+    expect(transaction.controlNumber).toBe("0001");
+    // SE01 counts ST and SE around the body
+    expect(transaction.segments).toHaveLength(20);
+    expect(built.edi).toContain("SE*22*0001~");
+
+    const { segments } = transaction;
+    expect(element(find(segments, "NM1", "X3"), 9)).toBe("00310");
+    expect(element(find(segments, "NM1", "IL"), 9)).toBe("XYZ123456789");
+    expect(element(find(segments, "TRN"), 2)).toBe("PA-2025-0042");
+    expect(element(find(segments, "HI"), 1)).toBe("ABK:M545");
+    expect(element(find(segments, "HI"), 2)).toBe("ABF:M5126");
+    expect(element(find(segments, "SV1"), 1)).toBe("HC:72148");
+  });
+
+  it("round-trips a 270 request", () => {
+    const built = build270Request({
+      patient,
+      insurance,
+      provider: { name: "Cigna", code: "CIGNA", contactInfo: { x12PayerId: "62308" } } as InsuranceProvider,
+      requester: { organizationName: "Riverside Dermatology", npi: "1234567893", taxId: "123456789" },
+      asOfDate: new Date("2025-03-10T00:00:00Z"),
+    }, envelopeAt(3001), { lineBreaks: true });
+
+    expect(built.edi).toBe(sample("270-request.x12"));
+    expect(built.traceNumber).toBe("EL3001");
+
+    const parsed = parseInterchange(built.edi);
+    expect(parsed.controlNumber).toBe("000003001");
+    expect(parsed.groups[0]).toMatchObject({ functionalIdCode: "HS", controlNumber: "3001", version: "005010X279A1" });
+
+    const transaction = singleTransaction(parsed, "270");
+    expect(transaction.segments).toHaveLength(12);
+    expect(built.edi).toContain("SE*14*0001~");
+
+    const { segments } = transaction;
+    expect(element(find(segments, "NM1", "PR"), 9)).toBe("62308");
+    expect(element(find(segments, "NM1", "IL"), 9)).toBe("XYZ123456789");
+    expect(element(find(segments, "REF", "6P"), 2)).toBe("GRP100200");
+    expect(element(find(segments, "TRN"), 2)).toBe("EL3001");
+    expect(element(find(segments, "EQ"), 1)).toBe("30");
+  });
+
+  it("rejects an interchange whose SE count does not match its segments", () => {
+    const tampered = sample("270-request.x12").replace("SE*14*0001~", "SE*13*0001~");
+    expect(() => parseInterchange(tampered)).toThrow(/SE01 reports 13 segments but the transaction has 14/);
+  });
+});
@@ -0,0 +1,86 @@
+import type { InsuranceProvider, Patient, PatientInsurance } from "@shared/schema";
+import { genderCode } from "./codes";
+import { providerName, requireNpi, traceAssigner, x12PayerId, type X12Provider } from "./parties";
+import {
+  createInterchange,
+  sanitize,
+  segment,
+  serializeInterchange,
+  x12Date,
+  x12Time,
+  type X12EnvelopeOptions,
+  type X12Interchange,
+  type X12SerializeOptions,
+  type X12Transaction,
+} from "./envelope";
+
+export const X270_IMPLEMENTATION = '005010X279A1';
+const FUNCTIONAL_ID_270 = 'HS'; // Eligibility, coverage or benefit inquiry
+
+export interface X270RequestInput {
+  patient: Patient;
+  insurance: PatientInsurance;
+  provider: InsuranceProvider;
+  requester: X12Provider;
+  serviceTypes?: string[];
+  asOfDate?: Date;
+}
+
+export interface X270Request {
+  edi: string;
+  interchange: X12Interchange;
+  // TRN02 echoed back by the payer in the 271 response
+  traceNumber: string;
+}
+
+const DEFAULT_SERVICE_TYPE = '30'; // Health benefit plan coverage
+
+// Builds the ST..SE body of a 005010X279A1 270 eligibility inquiry for one member
+export function build270Transaction(input: X270RequestInput, traceNumber: string, controlNumber = '0001', now = new Date()): X12Transaction {
+  const { patient, insurance, provider, requester } = input;
+  if (!insurance.memberId) {
+    throw new Error('A member ID is required to build a 270 request');
+  }
+  requireNpi(requester, '270');
+
+  const serviceTypes = input.serviceTypes?.length ? input.serviceTypes : [DEFAULT_SERVICE_TYPE];
+
+  return {
+    setId: '270',
+    controlNumber,
+    implementationReference: X270_IMPLEMENTATION,
+    segments: [
+      segment('BHT', '0022', '13', traceNumber, x12Date(now), x12Time(now)), // Request
+
+      // 2000A Information source (payer)
+      segment('HL', 1, undefined, '20', 1),
+      segment('NM1', 'PR', '2', sanitize(provider.name, 60), undefined, undefined, undefined, undefined, 'PI', x12PayerId(provider)),
+
+      // 2000B Information receiver
+      segment('HL', 2, 1, '21', 1),
+      providerName(requester, '1P'),
+
+      // 2000C Subscriber - dependents are not tracked on patient_insurance, so the patient is the subscriber
+      segment('HL', 3, 2, '22', 0),
+      segment('TRN', '1', traceNumber, traceAssigner(requester)),
+      segment('NM1', 'IL', '1', sanitize(patient.lastName, 60), sanitize(patient.firstName, 35), undefined, undefined, sanitize(patient.suffix, 10), 'MI', sanitize(insurance.memberId, 80)),
+      ...(insurance.groupNumber ? [segment('REF', '6P', sanitize(insurance.groupNumber, 50))] : []),
+      segment('DMG', 'D8', x12Date(new Date(patient.dateOfBirth)), genderCode(patient.gender)),
+      segment('DTP', '291', 'D8', x12Date(input.asOfDate || now)), // Plan date of the inquiry
+      ...serviceTypes.map(serviceType => segment('EQ', serviceType)),
+    ],
+  };
+}
+
+// Serializes an eligibility inquiry into a complete 270 interchange ready for an EDI gateway
+export function build270Request(input: X270RequestInput, envelope: X12EnvelopeOptions, options: X12SerializeOptions = {}): X270Request {
+  // Control numbers are unique per sender, which makes them a usable trace number too
+  const traceNumber = `EL${envelope.interchangeControlNumber}`;
+  const transaction = build270Transaction(input, traceNumber, '0001', envelope.date);
+  const interchange = createInterchange(transaction, FUNCTIONAL_ID_270, envelope);
+  return {
+    edi: serializeInterchange(interchange, options),
+    interchange,
+    traceNumber,
+  };
+}
@@ -0,0 +1,320 @@
+import type { InsuranceVerificationResult, VerifiedBenefit } from "@shared/insurance-verification";
+import {
+  FOLLOW_UP_ACTION_LABELS,
+  INSURANCE_TYPE_LABELS,
+  REJECT_REASON_LABELS,
+  SERVICE_TYPE_LABELS,
+} from "./codes";
+import {
+  element,
+  isoDate,
+  parseInterchange,
+  singleTransaction,
+  X12ParseError,
+  type X12Delimiters,
+  type X12Interchange,
+  type X12Segment,
+} from "./envelope";
+
+export type X271Loop = 'source' | 'receiver' | 'subscriber' | 'dependent';
+
+export interface X271Reason {
+  loop: X271Loop;
+  code?: string;
+  description: string;
+  followUpAction?: string;
+}
+
+// One EB segment (loop 2110C) with the messages that follow it
+export interface X271Benefit {
+  informationCode: string;   // EB01: 1-5 active coverage, 6 inactive, A coinsurance, B copay, C deductible, G out of pocket
+  coverageLevel?: string;    // EB02: IND, FAM, ...
+  serviceTypes: string[];    // EB03
+  insuranceType?: string;    // EB04
+  planDescription?: string;  // EB05
+  timePeriod?: string;       // EB06: 23 calendar year, 29 remaining, ...
+  amount?: number;           // EB07
+  percent?: number;          // EB08, as a fraction
+  quantity?: number;         // EB10
+  authorizationRequired?: boolean; // EB11
+  inNetwork?: boolean;       // EB12: Y / N; W (not applicable) is left undefined
+  messages: string[];
+}
+
+export interface X271Response {
+  rejected: boolean;
+  reasons: X271Reason[];
+  traceNumbers: string[];
+  payerName?: string;
+  payerId?: string;
+  memberId?: string;
+  groupNumber?: string;
+  groupName?: string;
+  planNumber?: string;
+  planBeginDate?: string;
+  planEndDate?: string;
+  eligibilityBeginDate?: string;
+  eligibilityEndDate?: string;
+  benefits: X271Benefit[];
+  controlNumbers: { interchange: string; group: string; transaction: string };
+}
+
+const LOOPS: Record<string, X271Loop> = {
+  '20': 'source',
+  '21': 'receiver',
+  '22': 'subscriber',
+  '23': 'dependent',
+};
+
+const ACTIVE_COVERAGE_CODES = ['1', '2', '3', '4', '5'];
+const INACTIVE_COVERAGE_CODE = '6';
+const REMAINING_TIME_PERIOD = '29';
+
+function optionalNumber(value: string): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function yesNo(value: string): boolean | undefined {
+  if (value === 'Y') return true;
+  if (value === 'N') return false;
+  return undefined;
+}
+
+// Subscriber-level DTP qualifiers
+function applyDate(response: X271Response, seg: X12Segment): void {
+  const [from, to] = element(seg, 3).split('-');
+  const begin = isoDate(from);
+  const end = element(seg, 2) === 'RD8' ? isoDate(to || '') : undefined;
+
+  switch (element(seg, 1)) {
+    case '346': response.planBeginDate = begin; break;
+    case '347': response.planEndDate = begin; break;
+    case '356': response.eligibilityBeginDate = begin; break;
+    case '357': response.eligibilityEndDate = begin; break;
+    case '291': // Plan
+      response.planBeginDate = response.planBeginDate || begin;
+      response.planEndDate = response.planEndDate || end;
+      break;
+    case '307': // Eligibility
+      response.eligibilityBeginDate = response.eligibilityBeginDate || begin;
+      response.eligibilityEndDate = response.eligibilityEndDate || end;
+      break;
+  }
+}
+
+function readBenefit(seg: X12Segment, delimiters: X12Delimiters): X271Benefit {
+  return {
+    informationCode: element(seg, 1),
+    coverageLevel: element(seg, 2) || undefined,
+    serviceTypes: element(seg, 3) ? element(seg, 3).split(delimiters.repetition) : [],
+    insuranceType: element(seg, 4) || undefined,
+    planDescription: element(seg, 5) || undefined,
+    timePeriod: element(seg, 6) || undefined,
+    amount: optionalNumber(element(seg, 7)),
+    percent: optionalNumber(element(seg, 8)),
+    quantity: optionalNumber(element(seg, 10)),
+    authorizationRequired: yesNo(element(seg, 11)),
+    inNetwork: yesNo(element(seg, 12)),
+    messages: [],
+  };
+}
+
+// A gateway that rejects the 270 outright answers with a 999 instead of a 271
+function acknowledgmentError(interchange: X12Interchange): X12ParseError | null {
+  const transactions = interchange.groups.flatMap(group => group.transactions);
+  if (transactions.some(tx => tx.setId === '271')) return null;
+
+  const ack = transactions.find(tx => tx.setId === '999');
+  if (!ack) return null;
+  const ik5 = ack.segments.find(seg => seg.id === 'IK5');
+  const errors = ack.segments.filter(seg => seg.id === 'IK3' || seg.id === 'IK4').map(seg => `${seg.id}*${seg.elements.join('*')}`);
+  return new X12ParseError(`Gateway rejected the eligibility inquiry (999 status ${element(ik5, 1) || 'unknown'}${errors.length ? `: ${errors.join(', ')}` : ''})`);
+}
+
+// Parses a 005010X279A1 271 eligibility response interchange
+export function parse271Response(edi: string): X271Response {
+  const interchange = parseInterchange(edi);
+  const rejection = acknowledgmentError(interchange);
+  if (rejection) throw rejection;
+
+  const transaction = singleTransaction(interchange, '271');
+  const group = interchange.groups.find(item => item.transactions.includes(transaction))!;
+  const { delimiters } = interchange;
+
+  const response: X271Response = {
+    rejected: false,
+    reasons: [],
+    traceNumbers: [],
+    benefits: [],
+    controlNumbers: {
+      interchange: interchange.controlNumber,
+      group: group.controlNumber,
+      transaction: transaction.controlNumber,
+    },
+  };
+
+  let loop: X271Loop = 'source';
+  let benefit: X271Benefit | undefined;
+
+  for (const seg of transaction.segments) {
+    switch (seg.id) {
+      case 'HL':
+        loop = LOOPS[element(seg, 3)] || loop;
+        benefit = undefined;
+        break;
+
+      case 'NM1':
+        if (element(seg, 1) === 'PR') {
+          response.payerName = element(seg, 3) || undefined;
+          response.payerId = element(seg, 9) || undefined;
+        } else if (element(seg, 1) === 'IL' && !benefit) {
+          response.memberId = element(seg, 9) || undefined;
+        }
+        break;
+
+      case 'TRN':
+        if (element(seg, 2)) response.traceNumbers.push(element(seg, 2));
+        break;
+
+      case 'REF':
+        if (benefit) break;
+        if (element(seg, 1) === '6P') {
+          response.groupNumber = element(seg, 2) || undefined;
+          response.groupName = element(seg, 3) || undefined;
+        } else if (element(seg, 1) === '18') {
+          response.planNumber = element(seg, 2) || undefined;
+        }
+        break;
+
+      case 'DTP':
+        // Dates inside a benefit loop qualify that benefit, not the member's coverage
+        if (!benefit) applyDate(response, seg);
+        break;
+
+      case 'AAA': {
+        // AAA01 "N" means the inquiry was not valid and was not processed
+        if (element(seg, 1) === 'N') response.rejected = true;
+        const code = element(seg, 3);
+        response.reasons.push({
+          loop,
+          code: code || undefined,
+          description: REJECT_REASON_LABELS[code] || (code ? `Inquiry rejected (reason ${code})` : 'Inquiry rejected'),
+          followUpAction: FOLLOW_UP_ACTION_LABELS[element(seg, 4)],
+        });
+        break;
+      }
+
+      case 'EB':
+        benefit = readBenefit(seg, delimiters);
+        response.benefits.push(benefit);
+        break;
+
+      case 'MSG':
+        if (benefit && element(seg, 1)) benefit.messages.push(element(seg, 1));
+        break;
+    }
+  }
+
+  return response;
+}
+
+// Picks the amount the practice cares about: in-network, individual, plan-wide, not the remaining balance
+function pickBenefit(benefits: X271Benefit[], informationCode: string, value: (benefit: X271Benefit) => number | undefined): number {
+  const candidates = benefits.filter(benefit =>
+    benefit.informationCode === informationCode
+    && benefit.timePeriod !== REMAINING_TIME_PERIOD
+    && value(benefit) !== undefined
+  );
+  const score = (benefit: X271Benefit) =>
+    (benefit.inNetwork === true ? 4 : benefit.inNetwork === undefined ? 2 : 0)
+    + ((benefit.coverageLevel || 'IND') === 'IND' ? 2 : 0)
+    + (benefit.serviceTypes.length === 0 || benefit.serviceTypes.includes('30') ? 1 : 0);
+
+  const best = candidates.sort((a, b) => score(b) - score(a))[0];
+  return best ? value(best)! : 0;
+}
+
+function verifiedBenefits(benefits: X271Benefit[], planActive: boolean): VerifiedBenefit[] {
+  const byServiceType = new Map<string, VerifiedBenefit>();
+
+  for (const benefit of benefits) {
+    for (const serviceType of benefit.serviceTypes) {
+      let entry = byServiceType.get(serviceType);
+      if (!entry) {
+        entry = {
+          serviceTypeCode: serviceType,
+          name: SERVICE_TYPE_LABELS[serviceType] || `Service type ${serviceType}`,
+          status: planActive ? 'Active Coverage' : 'Inactive',
+        };
+        byServiceType.set(serviceType, entry);
+      }
+
+      if (ACTIVE_COVERAGE_CODES.includes(benefit.informationCode)) entry.status = 'Active Coverage';
+      if (benefit.informationCode === INACTIVE_COVERAGE_CODE) entry.status = 'Inactive';
+      if (benefit.authorizationRequired === true) entry.priorAuthRequired = true;
+      if (benefit.authorizationRequired === false && entry.priorAuthRequired === undefined) entry.priorAuthRequired = false;
+    }
+  }
+
+  return Array.from(byServiceType.values());
+}
+
+// Normalizes a 271 into the same shape the REST eligibility channels produce
+export function normalize271(response: X271Response, referenceNumber: string): InsuranceVerificationResult {
+  const verifiedAt = new Date().toISOString();
+
+  if (response.rejected) {
+    const reasons = response.reasons.map(reason =>
+      reason.followUpAction ? `${reason.description} (${reason.followUpAction})` : reason.description);
+    return {
+      isValid: false,
+      isActive: false,
+      coverageDetails: { deductible: 0, copay: 0, coinsurance: 0, outOfPocketMax: 0 },
+      priorAuthRequired: false,
+      effectiveDate: '',
+      expirationDate: '',
+      memberStatus: 'Rejected',
+      message: reasons.length > 0 ? reasons.join('; ') : 'Eligibility inquiry rejected by payer',
+      source: 'x12',
+      referenceNumber,
+      verifiedAt,
+    };
+  }
+
+  const { benefits } = response;
+  const activePlan = benefits.find(benefit => ACTIVE_COVERAGE_CODES.includes(benefit.informationCode));
+  const inactivePlan = benefits.find(benefit => benefit.informationCode === INACTIVE_COVERAGE_CODE);
+  const isActive = !!activePlan;
+  const planBenefit = activePlan || inactivePlan;
+  const serviceBenefits = verifiedBenefits(benefits, isActive);
+
+  return {
+    isValid: !!planBenefit,
+    isActive,
+    coverageDetails: {
+      deductible: pickBenefit(benefits, 'C', benefit => benefit.amount),
+      copay: pickBenefit(benefits, 'B', benefit => benefit.amount),
+      // EB08 is a fraction ("0.2"); we store percentages
+      coinsurance: Math.round(pickBenefit(benefits, 'A', benefit => benefit.percent) * 100),
+      outOfPocketMax: pickBenefit(benefits, 'G', benefit => benefit.amount),
+    },
+    priorAuthRequired: benefits.some(benefit => benefit.authorizationRequired === true),
+    effectiveDate: response.eligibilityBeginDate || response.planBeginDate || '',
+    expirationDate: response.eligibilityEndDate || response.planEndDate || '',
+    memberStatus: isActive ? 'Active Coverage' : inactivePlan ? 'Inactive' : 'Unknown',
+    message: isActive
+      ? 'Coverage verified successfully'
+      : inactivePlan ? 'Coverage is not active' : 'Eligibility response did not include plan coverage',
+    source: 'x12',
+    referenceNumber,
+    planName: planBenefit?.planDescription || response.groupName,
+    groupNumber: response.groupNumber,
+    insuranceType: planBenefit?.insuranceType
+      ? INSURANCE_TYPE_LABELS[planBenefit.insuranceType] || planBenefit.insuranceType
+      : undefined,
+    benefits: serviceBenefits,
+    verifiedAt,
+  };
+}
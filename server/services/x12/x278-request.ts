@@ -0,0 +1,119 @@
+import type { InsuranceProvider, Patient, PatientInsurance, PriorAuthorization } from "@shared/schema";
+import type { SubmissionRequest } from "@shared/authorization-request";
+import { genderCode, serviceTypeCodeFor } from "./codes";
+import { providerName, requireNpi, traceAssigner, x12PayerId, type X12Provider } from "./parties";
+import {
+  composite,
+  createInterchange,
+  sanitize,
+  segment,
+  serializeInterchange,
+  x12Date,
+  x12Time,
+  type X12EnvelopeOptions,
+  type X12Interchange,
+  type X12Segment,
+  type X12SerializeOptions,
+  type X12Transaction,
+} from "./envelope";
+
+export const X278_IMPLEMENTATION = '005010X217';
+const FUNCTIONAL_ID_278 = 'HI'; // Health care services review information
+
+export interface X278RequestInput {
+  authorization: PriorAuthorization;
+  patient: Patient;
+  patientInsurance?: PatientInsurance;
+  provider: InsuranceProvider;
+  request: SubmissionRequest;
+  requester: X12Provider;
+  // Event-level place of service; defaults to the first service line's
+  placeOfServiceCode?: string;
+}
+
+export interface X278Request {
+  edi: string;
+  interchange: X12Interchange;
+  // TRN02 echoed back by the payer in the 278 response
+  traceNumber: string;
+}
+
+const MAX_DIAGNOSES = 12; // HI01-HI12
+
+// Builds the ST..SE body of a 005010X217 278 request for one authorization
+export function build278Transaction(input: X278RequestInput, controlNumber = '0001', now = new Date()): { transaction: X12Transaction; traceNumber: string } {
+  const { authorization, patient, patientInsurance, provider, request, requester } = input;
+  const memberId = patientInsurance?.memberId || patient.memberId;
+  if (!memberId) {
+    throw new Error('A member ID is required to build a 278 request');
+  }
+  requireNpi(requester, '278');
+
+  const traceNumber = sanitize(authorization.authorizationId, 50);
+  const serviceDate = x12Date(new Date(authorization.requestedDate));
+  const serviceTypeCode = serviceTypeCodeFor(authorization.treatmentType);
+  const facility = composite(input.placeOfServiceCode || request.serviceLines[0]?.placeOfService || '11', 'B'); // Place of service (office by default)
+  const levelOfService = authorization.urgentRequest ? 'U' : 'E';   // Urgent / Elective
+
+  const segments: X12Segment[] = [
+    segment('BHT', '0007', '13', traceNumber, x12Date(now), x12Time(now)), // Request
+
+    // 2000A Utilization management organization (payer)
+    segment('HL', 1, undefined, '20', 1),
+    segment('NM1', 'X3', '2', sanitize(provider.name, 60), undefined, undefined, undefined, undefined, 'PI', x12PayerId(provider)),
+
+    // 2000B Requester
+    segment('HL', 2, 1, '21', 1),
+    providerName(requester, '1P'),
+
+    // 2000C Subscriber - dependents are not tracked on patient_insurance, so the patient is the subscriber
+    segment('HL', 3, 2, '22', 1),
+    segment('NM1', 'IL', '1', sanitize(patient.lastName, 60), sanitize(patient.firstName, 35), undefined, undefined, sanitize(patient.suffix, 10), 'MI', sanitize(memberId, 80)),
+    segment('DMG', 'D8', x12Date(new Date(patient.dateOfBirth)), genderCode(patient.gender)),
+
+    // 2000E Patient event
+    segment('HL', 4, 3, 'EV', 1),
+    segment('TRN', '1', traceNumber, traceAssigner(requester)),
+    segment('UM', 'HS', 'I', serviceTypeCode, facility, undefined, levelOfService),
+    segment('DTP', 'AAH', 'D8', serviceDate),
+    segment('HI', ...request.diagnoses.slice(0, MAX_DIAGNOSES).map(diagnosis =>
+      composite(diagnosis.primary ? 'ABK' : 'ABF', diagnosis.code.replace('.', '').toUpperCase()))),
+  ];
+
+  if (authorization.clinicalJustification) {
+    segments.push(segment('MSG', sanitize(authorization.clinicalJustification, 264)));
+  }
+  segments.push(providerName(requester, 'SJ')); // 2010EA Service provider
+
+  // 2000F Service - one loop per service line
+  request.serviceLines.forEach((line, index) => {
+    segments.push(
+      segment('HL', 5 + index, 4, 'SS', 0),
+      segment('TRN', '1', `${traceNumber}-${line.lineNumber}`, traceAssigner(requester)),
+      segment('UM', 'HS', 'I', serviceTypeCode, composite(line.placeOfService, 'B'), undefined, levelOfService),
+      segment('DTP', '472', 'D8', serviceDate),
+      segment('SV1', composite('HC', sanitize(line.cptCode, 48), ...line.modifiers), '0', 'UN', line.units),
+    );
+  });
+
+  return {
+    transaction: {
+      setId: '278',
+      controlNumber,
+      implementationReference: X278_IMPLEMENTATION,
+      segments,
+    },
+    traceNumber,
+  };
+}
+
+// Serializes an authorization into a complete 278 interchange ready for an EDI gateway
+export function build278Request(input: X278RequestInput, envelope: X12EnvelopeOptions, options: X12SerializeOptions = {}): X278Request {
+  const { transaction, traceNumber } = build278Transaction(input, '0001', envelope.date);
+  const interchange = createInterchange(transaction, FUNCTIONAL_ID_278, envelope);
+  return {
+    edi: serializeInterchange(interchange, options),
+    interchange,
+    traceNumber,
+  };
+}
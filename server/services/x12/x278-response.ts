@@ -0,0 +1,293 @@
+import type { PayerAdapterResult, PayerDecisionStatus, PayerLineDecision } from "../payer-adapters/types";
+import {
+  CERTIFICATION_ACTION_LABELS,
+  CERTIFICATION_ACTION_STATUS,
+  FOLLOW_UP_ACTION_LABELS,
+  REJECT_REASON_LABELS,
+} from "./codes";
+import {
+  components,
+  element,
+  isoDate,
+  parseInterchange,
+  singleTransaction,
+  X12ParseError,
+  type X12Delimiters,
+  type X12Interchange,
+  type X12Segment,
+} from "./envelope";
+
+export type X278Loop = 'payer' | 'requester' | 'subscriber' | 'dependent' | 'event' | 'service';
+
+// A reason the payer attached to its decision or to a rejected request
+export interface X278Reason {
+  loop: X278Loop;
+  source: 'AAA' | 'HCR' | 'MSG';
+  code?: string;
+  description: string;
+  followUpAction?: string;
+}
+
+export interface X278ServiceDecision {
+  procedureCode?: string;
+  actionCode?: string;
+  status?: PayerDecisionStatus;
+  certificationNumber?: string;
+  reasonCode?: string;
+  quantity?: string;
+}
+
+export interface X278Response {
+  status: PayerDecisionStatus;
+  actionCode?: string;
+  certificationNumber?: string;
+  // True when the payer rejected the request itself (AAA) rather than deciding it
+  rejected: boolean;
+  traceNumbers: string[];
+  effectiveDate?: string;
+  expirationDate?: string;
+  payerName?: string;
+  payerId?: string;
+  memberId?: string;
+  reasons: X278Reason[];
+  services: X278ServiceDecision[];
+  controlNumbers: { interchange: string; group: string; transaction: string };
+}
+
+// HL03 hierarchical level codes used by 005010X217
+const LOOPS: Record<string, X278Loop> = {
+  '20': 'payer',
+  '21': 'requester',
+  '22': 'subscriber',
+  '23': 'dependent',
+  'EV': 'event',
+  'SS': 'service',
+};
+
+// DTP01 qualifiers on the patient event and service levels
+const CERTIFICATION_EFFECTIVE = '007';
+const CERTIFICATION_EXPIRATION = '036';
+
+function dateRange(seg: X12Segment): { from?: string; to?: string } {
+  const [from, to] = element(seg, 3).split('-');
+  return element(seg, 2) === 'RD8'
+    ? { from: isoDate(from), to: isoDate(to || '') }
+    : { from: isoDate(from), to: isoDate(from) };
+}
+
+function isCertified(status: PayerDecisionStatus | undefined): boolean {
+  return status === 'approved' || status === 'partially_approved';
+}
+
+function decisionStatus(actionCode: string): PayerDecisionStatus | undefined {
+  return CERTIFICATION_ACTION_STATUS[actionCode.toUpperCase()];
+}
+
+// Combines service-level decisions when the payer only answered per procedure
+function overallServiceStatus(services: X278ServiceDecision[]): PayerDecisionStatus {
+  const statuses = services.map(service => service.status).filter(Boolean);
+  // A procedure still open keeps the whole request open
+  if (statuses.includes('pended')) return 'pended';
+  if (statuses.includes('in_review')) return 'in_review';
+
+  const decided = statuses.filter(status => status === 'approved' || status === 'partially_approved' || status === 'denied');
+  if (decided.length > 0) {
+    if (decided.every(status => status === 'approved')) return 'approved';
+    if (decided.every(status => status === 'denied')) return 'denied';
+    return 'partially_approved';
+  }
+  if (statuses.length > 0 && statuses.every(status => status === 'cancelled')) return 'cancelled';
+  return 'pending';
+}
+
+function readTransaction(segments: X12Segment[], delimiters: X12Delimiters): Omit<X278Response, 'controlNumbers'> {
+  const response: Omit<X278Response, 'controlNumbers'> = {
+    status: 'pending',
+    rejected: false,
+    traceNumbers: [],
+    reasons: [],
+    services: [],
+  };
+
+  let loop: X278Loop | undefined;
+  let eventActionCode: string | undefined;
+  let service: X278ServiceDecision | undefined;
+
+  for (const seg of segments) {
+    switch (seg.id) {
+      case 'HL':
+        loop = LOOPS[element(seg, 3)];
+        if (loop === 'service') {
+          service = {};
+          response.services.push(service);
+        }
+        break;
+
+      case 'NM1':
+        if (element(seg, 1) === 'X3') {
+          response.payerName = element(seg, 3) || undefined;
+          response.payerId = element(seg, 9) || undefined;
+        } else if (element(seg, 1) === 'IL') {
+          response.memberId = element(seg, 9) || undefined;
+        }
+        break;
+
+      case 'TRN':
+        if (element(seg, 2)) response.traceNumbers.push(element(seg, 2));
+        break;
+
+      case 'AAA': {
+        // AAA01 "N" means the request was not valid and was not processed
+        if (element(seg, 1) === 'N') response.rejected = true;
+        const code = element(seg, 3);
+        const followUp = element(seg, 4);
+        response.reasons.push({
+          loop: loop || 'payer',
+          source: 'AAA',
+          code: code || undefined,
+          description: REJECT_REASON_LABELS[code] || (code ? `Request rejected (reason ${code})` : 'Request rejected'),
+          followUpAction: FOLLOW_UP_ACTION_LABELS[followUp],
+        });
+        break;
+      }
+
+      case 'HCR': {
+        const actionCode = element(seg, 1);
+        const certificationNumber = element(seg, 2) || undefined;
+        const reasonCode = element(seg, 3) || undefined;
+
+        if (loop === 'service' && service) {
+          service.actionCode = actionCode;
+          service.status = decisionStatus(actionCode);
+          service.certificationNumber = certificationNumber;
+          service.reasonCode = reasonCode;
+        } else {
+          eventActionCode = actionCode;
+          response.certificationNumber = certificationNumber;
+        }
+        if (reasonCode) {
+          response.reasons.push({
+            loop: loop || 'event',
+            source: 'HCR',
+            code: reasonCode,
+            description: `${CERTIFICATION_ACTION_LABELS[actionCode] || actionCode}: reason ${reasonCode}`,
+          });
+        }
+        break;
+      }
+
+      case 'DTP': {
+        const qualifier = element(seg, 1);
+        const { from, to } = dateRange(seg);
+        if (qualifier === CERTIFICATION_EFFECTIVE) {
+          response.effectiveDate = response.effectiveDate || from;
+          // A ranged effective date doubles as the expiration when DTP*036 is absent
+          if (element(seg, 2) === 'RD8') response.expirationDate = response.expirationDate || to;
+        } else if (qualifier === CERTIFICATION_EXPIRATION) {
+          response.expirationDate = from;
+        }
+        break;
+      }
+
+      case 'SV1':
+      case 'SV2':
+      case 'SV3':
+        if (service) {
+          // SV1-01 / SV3-01 are qualifier:code composites; SV2-01 is a revenue code with SV2-02 the procedure
+          const procedure = seg.id === 'SV2' ? element(seg, 2) : element(seg, 1);
+          service.procedureCode = components(procedure, delimiters)[1] || procedure || undefined;
+          service.quantity = (seg.id === 'SV1' ? element(seg, 4) : seg.id === 'SV2' ? element(seg, 5) : element(seg, 6)) || undefined;
+        }
+        break;
+
+      case 'MSG':
+        if (element(seg, 1)) {
+          response.reasons.push({ loop: loop || 'event', source: 'MSG', description: element(seg, 1) });
+        }
+        break;
+    }
+  }
+
+  if (eventActionCode) {
+    response.actionCode = eventActionCode;
+    response.status = decisionStatus(eventActionCode) || 'pending';
+  } else if (response.services.length > 0) {
+    response.status = overallServiceStatus(response.services);
+  }
+  if (!response.certificationNumber && isCertified(response.status)) {
+    response.certificationNumber = response.services.find(item => item.certificationNumber)?.certificationNumber;
+  }
+  if (response.rejected && !eventActionCode) {
+    response.status = 'denied';
+  }
+
+  return response;
+}
+
+// Parses a 005010X217 278 response interchange into the payer's decision
+export function parse278Response(edi: string): X278Response {
+  const interchange: X12Interchange = parseInterchange(edi);
+  const transaction = singleTransaction(interchange, '278');
+  const group = interchange.groups.find(item => item.transactions.includes(transaction))!;
+
+  const bht = transaction.segments.find(seg => seg.id === 'BHT');
+  if (!bht) {
+    throw new X12ParseError('278 transaction is missing its BHT segment');
+  }
+  // BHT02 "11" is a response; "13" would be a request sent back to us
+  if (element(bht, 2) !== '11') {
+    throw new X12ParseError(`Expected a 278 response (BHT02 11) but found BHT02 ${element(bht, 2) || 'empty'}`);
+  }
+
+  return {
+    ...readTransaction(transaction.segments, interchange.delimiters),
+    controlNumbers: {
+      interchange: interchange.controlNumber,
+      group: group.controlNumber,
+      transaction: transaction.controlNumber,
+    },
+  };
+}
+
+// Maps a parsed 278 response onto the fields we track on prior_authorizations
+export function map278Result(response: X278Response, referenceNumber: string): PayerAdapterResult {
+  const reasonText = Array.from(new Set(response.reasons.map(reason => reason.description)));
+  const label = response.rejected
+    ? 'Request rejected by payer'
+    : CERTIFICATION_ACTION_LABELS[response.actionCode || ''] || `Review ${response.status}`;
+
+  const result: PayerAdapterResult = {
+    status: response.status,
+    referenceNumber,
+    message: [label, ...reasonText].join(' - '),
+    responsePayload: response,
+  };
+
+  const lineDecisions = response.services
+    .filter(service => service.procedureCode && service.status)
+    .map((service): PayerLineDecision => {
+      const quantity = parseInt(service.quantity || '');
+      return {
+        procedureCode: service.procedureCode!,
+        status: service.status!,
+        // SV quantities on a certified service are the units the payer certified
+        approvedQuantity: isCertified(service.status) && !isNaN(quantity) ? quantity : undefined,
+        reasons: service.reasonCode
+          ? [`${CERTIFICATION_ACTION_LABELS[service.actionCode || ''] || service.actionCode}: reason ${service.reasonCode}`]
+          : [],
+      };
+    });
+  if (lineDecisions.length > 0) {
+    result.lineDecisions = lineDecisions;
+  }
+
+  if (isCertified(response.status)) {
+    result.authorizationNumber = response.certificationNumber;
+    result.expirationDate = response.expirationDate;
+  }
+  if (response.status === 'denied') {
+    result.denialReason = reasonText.length > 0 ? reasonText.join('; ') : 'Not certified by payer';
+  }
+
+  return result;
+}
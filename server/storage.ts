@@ -1,22 +1,39 @@
 import { 
   medicalSpecialties, users, patients, insuranceProviders, patientInsurance, 
   priorAuthorizations, documents, auditLogs, systemConfig, procedureCodes,
-  priorAuthWorkflowSteps, stateFormTemplates, icd10Codes,
+  priorAuthWorkflowSteps, stateFormTemplates, icd10Codes, payerSubmissions,
+  claimStatusRecords, workflowDefinitions, priorAuthStatusHistory, appeals,
+  peerToPeerReviews, authorizationUnitApprovals, serviceUtilizations, authorizationServiceLines, packageArtifacts,
   type MedicalSpecialty, type InsertMedicalSpecialty,
   type User, type InsertUser, type Patient, type InsertPatient,
   type InsuranceProvider, type InsertInsuranceProvider,
   type PatientInsurance, type InsertPatientInsurance,
   type PriorAuthorization, type InsertPriorAuthorization,
+  type AuthorizationServiceLine, type InsertAuthorizationServiceLine,
   type Document, type InsertDocument,
+  type PackageArtifact, type InsertPackageArtifact,
+  type PayerSubmission, type InsertPayerSubmission,
+  type PriorAuthStatusHistory, type InsertPriorAuthStatusHistory,
+  type Appeal, type InsertAppeal,
+  type PeerToPeerReview, type InsertPeerToPeerReview,
+  type AuthorizationUnitApproval, type InsertAuthorizationUnitApproval,
+  type ServiceUtilization, type InsertServiceUtilization,
+  type ClaimStatusRecord, type InsertClaimStatusRecord,
   type AuditLog, type InsertAuditLog,
   type SystemConfig, type InsertSystemConfig,
   type ProcedureCode, type InsertProcedureCode,
   type Icd10Code, type InsertIcd10Code,
   type PriorAuthWorkflowStep, type InsertPriorAuthWorkflowStep,
+  type WorkflowDefinition, type InsertWorkflowDefinition,
   type StateFormTemplate, type InsertStateFormTemplate
 } from "@shared/schema";
+import { DEFAULT_WORKFLOW_KEY, DEFAULT_WORKFLOW_STEPS } from "@shared/workflow-definitions";
+import { OPEN_STATUSES } from "@shared/authorization-status";
+import { OPEN_APPEAL_STATUSES } from "@shared/appeals";
+import { OPEN_PEER_TO_PEER_STATUSES } from "@shared/peer-to-peer";
+import { MONITORED_STATUSES } from "@shared/renewals";
 import { db } from "./db";
-import { eq, desc, and, or, like, count, sql } from "drizzle-orm";
+import { eq, desc, and, or, like, count, sql, isNull, inArray, lte, ne } from "drizzle-orm";
 
 export interface IStorage {
   // Medical Specialties
@@ -30,6 +47,7 @@ export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsersByRole(role: string): Promise<User[]>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined>;
@@ -54,6 +72,7 @@ export interface IStorage {
   
   // Patient Insurance
   getPatientInsurance(patientId: number): Promise<PatientInsurance[]>;
+  getPatientInsuranceById(id: number): Promise<PatientInsurance | undefined>;
   createPatientInsurance(insurance: InsertPatientInsurance): Promise<PatientInsurance>;
   updatePatientInsurance(id: number, updates: Partial<InsertPatientInsurance>): Promise<PatientInsurance | undefined>;
   
@@ -65,7 +84,14 @@ export interface IStorage {
   getPriorAuthorizationsByStatus(status: string): Promise<PriorAuthorization[]>;
   createPriorAuthorization(authorization: InsertPriorAuthorization): Promise<PriorAuthorization>;
   updatePriorAuthorization(id: number, updates: Partial<InsertPriorAuthorization>): Promise<PriorAuthorization | undefined>;
-  updatePriorAuthorizationStatus(id: number, status: string): Promise<boolean>;
+  getAuthorizationsExpiringBefore(date: Date): Promise<PriorAuthorization[]>;
+  getRenewalsOf(authorizationId: number): Promise<PriorAuthorization[]>;
+
+  // Service Lines
+  getServiceLinesByAuthorization(authorizationId: number): Promise<AuthorizationServiceLine[]>;
+  getServiceLinesByAuthorizations(authorizationIds: number[]): Promise<AuthorizationServiceLine[]>;
+  replaceServiceLines(authorizationId: number, lines: InsertAuthorizationServiceLine[]): Promise<AuthorizationServiceLine[]>;
+  updateServiceLine(id: number, updates: Partial<InsertAuthorizationServiceLine>): Promise<AuthorizationServiceLine | undefined>;
   getAuthorizationStats(): Promise<{
     pending: number;
     approved: number;
@@ -73,12 +99,56 @@ export interface IStorage {
     total: number;
   }>;
   
+  // Status History
+  getStatusHistoryByAuthorization(authorizationId: number): Promise<PriorAuthStatusHistory[]>;
+  createStatusHistoryEntry(entry: InsertPriorAuthStatusHistory): Promise<PriorAuthStatusHistory>;
+
+  // Appeals
+  getAppeal(id: number): Promise<Appeal | undefined>;
+  getAppealsByAuthorization(authorizationId: number): Promise<Appeal[]>;
+  getOpenAppeals(): Promise<Appeal[]>;
+  createAppeal(appeal: InsertAppeal): Promise<Appeal>;
+  updateAppeal(id: number, updates: Partial<InsertAppeal>): Promise<Appeal | undefined>;
+
+  // Peer-to-Peer Reviews
+  getPeerToPeerReview(id: number): Promise<PeerToPeerReview | undefined>;
+  getPeerToPeerReviewsByAuthorization(authorizationId: number): Promise<PeerToPeerReview[]>;
+  getOpenPeerToPeerReviewsByDoctor(doctorId: number): Promise<PeerToPeerReview[]>;
+  createPeerToPeerReview(review: InsertPeerToPeerReview): Promise<PeerToPeerReview>;
+  updatePeerToPeerReview(id: number, updates: Partial<InsertPeerToPeerReview>): Promise<PeerToPeerReview | undefined>;
+
+  // Unit Approvals & Service Utilization
+  getUnitApprovalsByAuthorization(authorizationId: number): Promise<AuthorizationUnitApproval[]>;
+  createUnitApproval(approval: InsertAuthorizationUnitApproval): Promise<AuthorizationUnitApproval>;
+  updateUnitApproval(id: number, updates: Partial<InsertAuthorizationUnitApproval>): Promise<AuthorizationUnitApproval | undefined>;
+  getServiceUtilization(id: number): Promise<ServiceUtilization | undefined>;
+  getServiceUtilizationsByAuthorization(authorizationId: number): Promise<ServiceUtilization[]>;
+  createServiceUtilization(utilization: InsertServiceUtilization): Promise<ServiceUtilization>;
+  deleteServiceUtilization(id: number): Promise<boolean>;
+
+  // Package Artifacts
+  getPackageArtifact(id: number): Promise<PackageArtifact | undefined>;
+  getPackageArtifactsByAuthorization(authorizationId: number): Promise<PackageArtifact[]>;
+  getLatestPackageArtifact(authorizationId: number, format: string): Promise<PackageArtifact | undefined>;
+  getLatestPackageArtifactVersion(authorizationId: number): Promise<number>;
+  createPackageArtifact(artifact: InsertPackageArtifact): Promise<PackageArtifact>;
+
+  // Payer Submissions
+  getPayerSubmissionsByAuthorization(authorizationId: number): Promise<PayerSubmission[]>;
+  createPayerSubmission(submission: InsertPayerSubmission): Promise<PayerSubmission>;
+
+  // Claim Statuses
+  getClaimStatusRecordsByAuthorization(authorizationId: number): Promise<ClaimStatusRecord[]>;
+  createClaimStatusRecord(record: InsertClaimStatusRecord): Promise<ClaimStatusRecord>;
+  
   // Documents
   getDocument(id: number): Promise<Document | undefined>;
   getAllDocuments(): Promise<Document[]>;
   getDocumentsByAuthorization(authId: number): Promise<Document[]>;
   getDocumentsByPatient(patientId: number): Promise<Document[]>;
+  getDocumentsByAppeal(appealId: number): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
+  assignDocumentsToAppeal(documentIds: number[], appealId: number): Promise<Document[]>;
   deleteDocument(id: number): Promise<boolean>;
   
   // Audit Logs
@@ -110,11 +180,23 @@ export interface IStorage {
   createPriorAuthWorkflowStep(step: InsertPriorAuthWorkflowStep): Promise<PriorAuthWorkflowStep>;
   updatePriorAuthWorkflowStep(id: number, updates: Partial<InsertPriorAuthWorkflowStep>): Promise<PriorAuthWorkflowStep | undefined>;
 
+  // Workflow Definitions
+  getWorkflowDefinition(id: number): Promise<WorkflowDefinition | undefined>;
+  getWorkflowDefinitions(): Promise<WorkflowDefinition[]>;
+  getActiveWorkflowDefinition(insuranceProviderId: number | null): Promise<WorkflowDefinition | undefined>;
+  getLatestWorkflowDefinitionVersion(key: string): Promise<number>;
+  createWorkflowDefinition(definition: InsertWorkflowDefinition): Promise<WorkflowDefinition>;
+  setWorkflowDefinitionActive(id: number, isActive: boolean): Promise<WorkflowDefinition | undefined>;
+  seedWorkflowDefinitions(): Promise<void>;
+
   // State Form Templates
   getStateFormTemplate(state: string, formType: string): Promise<StateFormTemplate | undefined>;
+  getStateFormTemplateById(id: number): Promise<StateFormTemplate | undefined>;
   getStateFormTemplates(): Promise<StateFormTemplate[]>;
+  getStateFormTemplateVersions(state: string, formType: string): Promise<StateFormTemplate[]>;
   createStateFormTemplate(template: InsertStateFormTemplate): Promise<StateFormTemplate>;
   updateStateFormTemplate(id: number, updates: Partial<InsertStateFormTemplate>): Promise<StateFormTemplate | undefined>;
+  activateStateFormTemplate(id: number): Promise<StateFormTemplate | undefined>;
   
   // ICD-10 Codes
   getIcd10Codes(limit?: number): Promise<Icd10Code[]>;
@@ -306,6 +388,61 @@ export class DatabaseStorage implements IStorage {
           priorAuthPhone: "1-855-240-0546",
           averageProcessingDays: 5,
           urgentProcessingDays: 2,
+          coverageRules: [
+            {
+              id: "aetna-advanced-imaging",
+              name: "Advanced imaging",
+              rules: [
+                {
+                  id: "imaging-oncology-exempt",
+                  description: "Imaging for active cancer treatment does not require prior authorization",
+                  requirement: "not_required",
+                  cptRanges: [{ from: "70010", to: "79999" }],
+                  icd10Codes: ["C"],
+                },
+                {
+                  id: "imaging-mri-ct",
+                  description: "Outpatient CT and MRI require prior authorization",
+                  requirement: "required",
+                  cptRanges: [{ from: "70450", to: "74178" }, { from: "70540", to: "73723" }],
+                  documentation: ["Clinical notes from the last 60 days", "Prior imaging reports", "Conservative treatment history"],
+                },
+              ],
+            },
+            {
+              id: "aetna-physical-therapy",
+              name: "Physical therapy",
+              rules: [
+                {
+                  id: "pt-visit-limit",
+                  description: "Physical therapy beyond 12 visits requires prior authorization",
+                  requirement: "required",
+                  cptRanges: [{ from: "97110", to: "97546" }],
+                  unitsAbove: 12,
+                  documentation: ["Initial evaluation", "Functional progress notes"],
+                },
+                {
+                  id: "pt-initial",
+                  description: "The first 12 physical therapy visits do not require prior authorization",
+                  requirement: "not_required",
+                  cptRanges: [{ from: "97110", to: "97546" }],
+                },
+              ],
+            },
+          ],
+          priorAuthRequirements: {
+            attachments: [
+              { id: "clinical-notes", label: "Clinical notes from the last 60 days", documentType: "clinical_notes", minCount: 1 },
+              { id: "imaging-history", label: "Prior imaging report", documentType: "imaging_report", minCount: 1, treatmentTypes: ["MRI", "CT Scan"] },
+            ],
+            clinicalFields: [
+              { id: "justification", label: "Clinical justification", field: "clinicalJustification", minLength: 50 },
+            ],
+            stepTherapy: [
+              { id: "specialty-step-therapy", label: "Two formulary alternatives tried for 30 days", minTrials: 2, minDurationDays: 30, treatmentTypes: ["Specialty Medication"] },
+            ],
+            forms: [],
+          },
           isActive: true
         },
         {
@@ -384,6 +521,31 @@ export class DatabaseStorage implements IStorage {
           priorAuthPhone: "1-800-Medicare",
           averageProcessingDays: 10,
           urgentProcessingDays: 3,
+          coverageRules: [
+            {
+              id: "medicare-opd",
+              name: "Hospital outpatient department services",
+              rules: [
+                {
+                  id: "opd-site-of-service",
+                  description: "Selected procedures in a hospital outpatient department require prior authorization",
+                  requirement: "required",
+                  cptCodes: ["15820", "15821", "15822", "15823", "64612", "64615", "63650", "67900"],
+                  placesOfService: ["19", "22"],
+                  documentation: ["Documentation of functional impairment", "Photographs where applicable"],
+                },
+                {
+                  id: "injection-frequency",
+                  description: "Repeat epidural injections within 6 months are reviewed for medical necessity",
+                  requirement: "conditional",
+                  cptCodes: ["64483", "64484"],
+                  frequency: { count: 2, periodDays: 180 },
+                  conditions: ["At least 50% pain relief documented after the prior injection"],
+                  documentation: ["Pain scores before and after the prior injection"],
+                },
+              ],
+            },
+          ],
           isActive: true
         },
         {
@@ -397,6 +559,22 @@ export class DatabaseStorage implements IStorage {
           priorAuthPhone: "1-800-538-9295",
           averageProcessingDays: 14,
           urgentProcessingDays: 5,
+          priorAuthRequirements: {
+            attachments: [
+              { id: "clinical-notes", label: "Clinical notes supporting medical necessity", documentType: "clinical_notes", minCount: 1 },
+              { id: "lmn", label: "Letter of medical necessity", documentType: "letter_of_medical_necessity", minCount: 1 },
+            ],
+            clinicalFields: [
+              { id: "justification", label: "Clinical justification", field: "clinicalJustification", minLength: 50 },
+              { id: "evidence", label: "Supporting clinical evidence", field: "clinicalEvidence", minLength: 1 },
+            ],
+            stepTherapy: [
+              { id: "step-therapy", label: "Preferred drug list alternative tried", minTrials: 1, treatmentTypes: ["Specialty Medication"] },
+            ],
+            forms: [
+              { id: "state-pa-form", label: "State prior authorization request form", formId: "PA-1" },
+            ],
+          },
           isActive: true
         }
       ];
@@ -416,6 +594,12 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUsersByRole(role: string): Promise<User[]> {
+    return await db.select().from(users)
+      .where(and(eq(users.role, role), eq(users.isActive, true)))
+      .orderBy(users.lastName, users.firstName);
+  }
+
   async getUserByEmail(email: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.email, email));
     return user || undefined;
@@ -546,6 +730,11 @@ export class DatabaseStorage implements IStorage {
     );
   }
 
+  async getPatientInsuranceById(id: number): Promise<PatientInsurance | undefined> {
+    const [insurance] = await db.select().from(patientInsurance).where(eq(patientInsurance.id, id));
+    return insurance || undefined;
+  }
+
   async createPatientInsurance(insertInsurance: InsertPatientInsurance): Promise<PatientInsurance> {
     const [insurance] = await db.insert(patientInsurance).values(insertInsurance).returning();
     return insurance;
@@ -594,16 +783,56 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
-  async updatePriorAuthorizationStatus(id: number, status: string): Promise<boolean> {
-    const result = await db.update(priorAuthorizations)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(priorAuthorizations.id, id));
-    return (result.rowCount || 0) > 0;
+  // Approved authorizations the expiration monitor watches, soonest expiration first
+  async getAuthorizationsExpiringBefore(date: Date): Promise<PriorAuthorization[]> {
+    return await db.select().from(priorAuthorizations)
+      .where(and(
+        inArray(priorAuthorizations.status, MONITORED_STATUSES),
+        lte(priorAuthorizations.expirationDate, date)
+      ))
+      .orderBy(priorAuthorizations.expirationDate);
+  }
+
+  async getRenewalsOf(authorizationId: number): Promise<PriorAuthorization[]> {
+    return await db.select().from(priorAuthorizations)
+      .where(eq(priorAuthorizations.renewalOfId, authorizationId))
+      .orderBy(desc(priorAuthorizations.createdAt));
+  }
+
+  // Service Lines
+  async getServiceLinesByAuthorization(authorizationId: number): Promise<AuthorizationServiceLine[]> {
+    return await db.select().from(authorizationServiceLines)
+      .where(eq(authorizationServiceLines.authorizationId, authorizationId))
+      .orderBy(authorizationServiceLines.lineNumber);
+  }
+
+  async getServiceLinesByAuthorizations(authorizationIds: number[]): Promise<AuthorizationServiceLine[]> {
+    if (authorizationIds.length === 0) return [];
+    return await db.select().from(authorizationServiceLines)
+      .where(inArray(authorizationServiceLines.authorizationId, authorizationIds))
+      .orderBy(authorizationServiceLines.authorizationId, authorizationServiceLines.lineNumber);
+  }
+
+  async replaceServiceLines(authorizationId: number, lines: InsertAuthorizationServiceLine[]): Promise<AuthorizationServiceLine[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(authorizationServiceLines).where(eq(authorizationServiceLines.authorizationId, authorizationId));
+      if (lines.length === 0) return [];
+      return await tx.insert(authorizationServiceLines).values(lines).returning();
+    });
+  }
+
+  async updateServiceLine(id: number, updates: Partial<InsertAuthorizationServiceLine>): Promise<AuthorizationServiceLine | undefined> {
+    const [line] = await db.update(authorizationServiceLines)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(authorizationServiceLines.id, id))
+      .returning();
+    return line || undefined;
   }
 
   async getAuthorizationStats(): Promise<{ pending: number; approved: number; denied: number; total: number; }> {
-    const [pendingCount] = await db.select({ count: count() }).from(priorAuthorizations).where(eq(priorAuthorizations.status, 'pending'));
-    const [approvedCount] = await db.select({ count: count() }).from(priorAuthorizations).where(eq(priorAuthorizations.status, 'approved'));
+    // Pending counts every request still waiting on a decision, including rows from before the status lifecycle
+    const [pendingCount] = await db.select({ count: count() }).from(priorAuthorizations).where(inArray(priorAuthorizations.status, [...OPEN_STATUSES, 'pending']));
+    const [approvedCount] = await db.select({ count: count() }).from(priorAuthorizations).where(inArray(priorAuthorizations.status, ['approved', 'partially_approved']));
     const [deniedCount] = await db.select({ count: count() }).from(priorAuthorizations).where(eq(priorAuthorizations.status, 'denied'));
     const [totalCount] = await db.select({ count: count() }).from(priorAuthorizations);
 
@@ -615,6 +844,179 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Status History
+  async getStatusHistoryByAuthorization(authorizationId: number): Promise<PriorAuthStatusHistory[]> {
+    return await db.select().from(priorAuthStatusHistory)
+      .where(eq(priorAuthStatusHistory.authorizationId, authorizationId))
+      .orderBy(priorAuthStatusHistory.createdAt, priorAuthStatusHistory.id);
+  }
+
+  async createStatusHistoryEntry(insertEntry: InsertPriorAuthStatusHistory): Promise<PriorAuthStatusHistory> {
+    const [entry] = await db.insert(priorAuthStatusHistory).values(insertEntry).returning();
+    return entry;
+  }
+
+  // Appeals
+  async getAppeal(id: number): Promise<Appeal | undefined> {
+    const [appeal] = await db.select().from(appeals).where(eq(appeals.id, id));
+    return appeal || undefined;
+  }
+
+  async getAppealsByAuthorization(authorizationId: number): Promise<Appeal[]> {
+    return await db.select().from(appeals)
+      .where(eq(appeals.authorizationId, authorizationId))
+      .orderBy(desc(appeals.createdAt));
+  }
+
+  async getOpenAppeals(): Promise<Appeal[]> {
+    return await db.select().from(appeals)
+      .where(inArray(appeals.status, OPEN_APPEAL_STATUSES))
+      .orderBy(appeals.filingDeadline);
+  }
+
+  async createAppeal(insertAppeal: InsertAppeal): Promise<Appeal> {
+    const [appeal] = await db.insert(appeals).values(insertAppeal).returning();
+    return appeal;
+  }
+
+  async updateAppeal(id: number, updates: Partial<InsertAppeal>): Promise<Appeal | undefined> {
+    const [appeal] = await db.update(appeals)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(appeals.id, id))
+      .returning();
+    return appeal || undefined;
+  }
+
+  // Peer-to-Peer Reviews
+  async getPeerToPeerReview(id: number): Promise<PeerToPeerReview | undefined> {
+    const [review] = await db.select().from(peerToPeerReviews).where(eq(peerToPeerReviews.id, id));
+    return review || undefined;
+  }
+
+  async getPeerToPeerReviewsByAuthorization(authorizationId: number): Promise<PeerToPeerReview[]> {
+    return await db.select().from(peerToPeerReviews)
+      .where(eq(peerToPeerReviews.authorizationId, authorizationId))
+      .orderBy(desc(peerToPeerReviews.createdAt));
+  }
+
+  async getOpenPeerToPeerReviewsByDoctor(doctorId: number): Promise<PeerToPeerReview[]> {
+    return await db.select().from(peerToPeerReviews)
+      .where(and(
+        eq(peerToPeerReviews.assignedDoctorId, doctorId),
+        inArray(peerToPeerReviews.status, OPEN_PEER_TO_PEER_STATUSES)
+      ));
+  }
+
+  async createPeerToPeerReview(insertReview: InsertPeerToPeerReview): Promise<PeerToPeerReview> {
+    const [review] = await db.insert(peerToPeerReviews).values(insertReview).returning();
+    return review;
+  }
+
+  async updatePeerToPeerReview(id: number, updates: Partial<InsertPeerToPeerReview>): Promise<PeerToPeerReview | undefined> {
+    const [review] = await db.update(peerToPeerReviews)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(peerToPeerReviews.id, id))
+      .returning();
+    return review || undefined;
+  }
+
+  // Unit Approvals & Service Utilization
+  async getUnitApprovalsByAuthorization(authorizationId: number): Promise<AuthorizationUnitApproval[]> {
+    return await db.select().from(authorizationUnitApprovals)
+      .where(eq(authorizationUnitApprovals.authorizationId, authorizationId))
+      .orderBy(authorizationUnitApprovals.cptCode);
+  }
+
+  async createUnitApproval(insertApproval: InsertAuthorizationUnitApproval): Promise<AuthorizationUnitApproval> {
+    const [approval] = await db.insert(authorizationUnitApprovals).values(insertApproval).returning();
+    return approval;
+  }
+
+  async updateUnitApproval(id: number, updates: Partial<InsertAuthorizationUnitApproval>): Promise<AuthorizationUnitApproval | undefined> {
+    const [approval] = await db.update(authorizationUnitApprovals)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(authorizationUnitApprovals.id, id))
+      .returning();
+    return approval || undefined;
+  }
+
+  async getServiceUtilization(id: number): Promise<ServiceUtilization | undefined> {
+    const [utilization] = await db.select().from(serviceUtilizations).where(eq(serviceUtilizations.id, id));
+    return utilization || undefined;
+  }
+
+  async getServiceUtilizationsByAuthorization(authorizationId: number): Promise<ServiceUtilization[]> {
+    return await db.select().from(serviceUtilizations)
+      .where(eq(serviceUtilizations.authorizationId, authorizationId))
+      .orderBy(desc(serviceUtilizations.serviceDate));
+  }
+
+  async createServiceUtilization(insertUtilization: InsertServiceUtilization): Promise<ServiceUtilization> {
+    const [utilization] = await db.insert(serviceUtilizations).values(insertUtilization).returning();
+    return utilization;
+  }
+
+  async deleteServiceUtilization(id: number): Promise<boolean> {
+    const result = await db.delete(serviceUtilizations).where(eq(serviceUtilizations.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // Package Artifacts
+  async getPackageArtifact(id: number): Promise<PackageArtifact | undefined> {
+    const [artifact] = await db.select().from(packageArtifacts).where(eq(packageArtifacts.id, id));
+    return artifact || undefined;
+  }
+
+  async getPackageArtifactsByAuthorization(authorizationId: number): Promise<PackageArtifact[]> {
+    return await db.select().from(packageArtifacts)
+      .where(eq(packageArtifacts.authorizationId, authorizationId))
+      .orderBy(desc(packageArtifacts.version));
+  }
+
+  async getLatestPackageArtifact(authorizationId: number, format: string): Promise<PackageArtifact | undefined> {
+    const [artifact] = await db.select().from(packageArtifacts)
+      .where(and(eq(packageArtifacts.authorizationId, authorizationId), eq(packageArtifacts.format, format)))
+      .orderBy(desc(packageArtifacts.version))
+      .limit(1);
+    return artifact || undefined;
+  }
+
+  async getLatestPackageArtifactVersion(authorizationId: number): Promise<number> {
+    const [result] = await db.select({ version: sql<number>`coalesce(max(${packageArtifacts.version}), 0)` })
+      .from(packageArtifacts)
+      .where(eq(packageArtifacts.authorizationId, authorizationId));
+    return Number(result?.version || 0);
+  }
+
+  async createPackageArtifact(insertArtifact: InsertPackageArtifact): Promise<PackageArtifact> {
+    const [artifact] = await db.insert(packageArtifacts).values(insertArtifact).returning();
+    return artifact;
+  }
+
+  // Payer Submissions
+  async getPayerSubmissionsByAuthorization(authorizationId: number): Promise<PayerSubmission[]> {
+    return await db.select().from(payerSubmissions)
+      .where(eq(payerSubmissions.authorizationId, authorizationId))
+      .orderBy(desc(payerSubmissions.createdAt));
+  }
+
+  async createPayerSubmission(insertSubmission: InsertPayerSubmission): Promise<PayerSubmission> {
+    const [submission] = await db.insert(payerSubmissions).values(insertSubmission).returning();
+    return submission;
+  }
+
+  // Claim Statuses
+  async getClaimStatusRecordsByAuthorization(authorizationId: number): Promise<ClaimStatusRecord[]> {
+    return await db.select().from(claimStatusRecords)
+      .where(eq(claimStatusRecords.authorizationId, authorizationId))
+      .orderBy(desc(claimStatusRecords.createdAt));
+  }
+
+  async createClaimStatusRecord(insertRecord: InsertClaimStatusRecord): Promise<ClaimStatusRecord> {
+    const [record] = await db.insert(claimStatusRecords).values(insertRecord).returning();
+    return record;
+  }
+
   // Documents
   async getDocument(id: number): Promise<Document | undefined> {
     const [document] = await db.select().from(documents).where(eq(documents.id, id));
@@ -633,11 +1035,23 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(documents).where(eq(documents.patientId, patientId));
   }
 
+  async getDocumentsByAppeal(appealId: number): Promise<Document[]> {
+    return await db.select().from(documents).where(eq(documents.appealId, appealId));
+  }
+
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
     const [document] = await db.insert(documents).values(insertDocument).returning();
     return document;
   }
 
+  async assignDocumentsToAppeal(documentIds: number[], appealId: number): Promise<Document[]> {
+    if (documentIds.length === 0) return [];
+    return await db.update(documents)
+      .set({ appealId })
+      .where(inArray(documents.id, documentIds))
+      .returning();
+  }
+
   async deleteDocument(id: number): Promise<boolean> {
     const result = await db.delete(documents).where(eq(documents.id, id));
     return (result.rowCount || 0) > 0;
@@ -722,6 +1136,42 @@ export class DatabaseStorage implements IStorage {
         key: "admin_email",
         value: "admin@example.com",
         description: "System administrator email address"
+      },
+      // Practice and provider details printed on prior authorization packages
+      {
+        key: "provider_name",
+        value: "",
+        description: "Requesting provider name and credentials, e.g. Jane Smith, MD"
+      },
+      {
+        key: "provider_npi",
+        value: "",
+        description: "Requesting provider individual NPI"
+      },
+      {
+        key: "facility_npi",
+        value: "",
+        description: "Practice (organization) NPI where services are performed"
+      },
+      {
+        key: "practice_tax_id",
+        value: "",
+        description: "Practice tax identification number"
+      },
+      {
+        key: "practice_phone",
+        value: "",
+        description: "Practice phone number for payer correspondence"
+      },
+      {
+        key: "practice_fax",
+        value: "",
+        description: "Practice fax number for payer correspondence"
+      },
+      {
+        key: "practice_address",
+        value: "",
+        description: "Practice street address, city, state and ZIP"
       }
     ];
 
@@ -1075,7 +1525,69 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  // Workflow Definitions Implementation
+  async getWorkflowDefinition(id: number): Promise<WorkflowDefinition | undefined> {
+    const [definition] = await db.select().from(workflowDefinitions).where(eq(workflowDefinitions.id, id));
+    return definition || undefined;
+  }
+
+  async getWorkflowDefinitions(): Promise<WorkflowDefinition[]> {
+    return await db.select().from(workflowDefinitions)
+      .orderBy(workflowDefinitions.key, desc(workflowDefinitions.version));
+  }
+
+  // Latest active version for the payer, or for payers without their own definition when null
+  async getActiveWorkflowDefinition(insuranceProviderId: number | null): Promise<WorkflowDefinition | undefined> {
+    const [definition] = await db.select().from(workflowDefinitions)
+      .where(
+        and(
+          insuranceProviderId === null
+            ? isNull(workflowDefinitions.insuranceProviderId)
+            : eq(workflowDefinitions.insuranceProviderId, insuranceProviderId),
+          eq(workflowDefinitions.isActive, true)
+        )
+      )
+      .orderBy(desc(workflowDefinitions.createdAt), desc(workflowDefinitions.id))
+      .limit(1);
+    return definition || undefined;
+  }
+
+  async getLatestWorkflowDefinitionVersion(key: string): Promise<number> {
+    const [result] = await db.select({ version: sql<number>`coalesce(max(${workflowDefinitions.version}), 0)` })
+      .from(workflowDefinitions)
+      .where(eq(workflowDefinitions.key, key));
+    return Number(result?.version || 0);
+  }
+
+  async createWorkflowDefinition(definition: InsertWorkflowDefinition): Promise<WorkflowDefinition> {
+    const [newDefinition] = await db.insert(workflowDefinitions).values(definition).returning();
+    return newDefinition;
+  }
+
+  async setWorkflowDefinitionActive(id: number, isActive: boolean): Promise<WorkflowDefinition | undefined> {
+    const [updated] = await db.update(workflowDefinitions)
+      .set({ isActive })
+      .where(eq(workflowDefinitions.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async seedWorkflowDefinitions(): Promise<void> {
+    const existing = await db.select().from(workflowDefinitions).limit(1);
+    if (existing.length === 0) {
+      await this.createWorkflowDefinition({
+        key: DEFAULT_WORKFLOW_KEY,
+        version: 1,
+        name: "Standard prior authorization",
+        insuranceProviderId: null,
+        steps: DEFAULT_WORKFLOW_STEPS,
+        isActive: true,
+      });
+    }
+  }
+
   // State Form Templates Implementation
+  // Latest active version of the state's form
   async getStateFormTemplate(state: string, formType: string): Promise<StateFormTemplate | undefined> {
     const [template] = await db.select().from(stateFormTemplates)
       .where(
@@ -1084,13 +1596,27 @@ export class DatabaseStorage implements IStorage {
           eq(stateFormTemplates.formType, formType),
           eq(stateFormTemplates.isActive, true)
         )
-      );
+      )
+      .orderBy(desc(stateFormTemplates.createdAt), desc(stateFormTemplates.id))
+      .limit(1);
+    return template || undefined;
+  }
+
+  async getStateFormTemplateById(id: number): Promise<StateFormTemplate | undefined> {
+    const [template] = await db.select().from(stateFormTemplates).where(eq(stateFormTemplates.id, id));
     return template || undefined;
   }
 
+  // Every version, active or retired
   async getStateFormTemplates(): Promise<StateFormTemplate[]> {
     return await db.select().from(stateFormTemplates)
-      .where(eq(stateFormTemplates.isActive, true));
+      .orderBy(stateFormTemplates.state, stateFormTemplates.formType, desc(stateFormTemplates.createdAt));
+  }
+
+  async getStateFormTemplateVersions(state: string, formType: string): Promise<StateFormTemplate[]> {
+    return await db.select().from(stateFormTemplates)
+      .where(and(eq(stateFormTemplates.state, state), eq(stateFormTemplates.formType, formType)))
+      .orderBy(desc(stateFormTemplates.createdAt), desc(stateFormTemplates.id));
   }
 
   async createStateFormTemplate(template: InsertStateFormTemplate): Promise<StateFormTemplate> {
@@ -1106,6 +1632,29 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  // Make this the only active version of its state and form type, so generation uses it even when
+  // newer versions exist
+  async activateStateFormTemplate(id: number): Promise<StateFormTemplate | undefined> {
+    return await db.transaction(async (tx) => {
+      const [template] = await tx.select().from(stateFormTemplates).where(eq(stateFormTemplates.id, id));
+      if (!template) return undefined;
+
+      await tx.update(stateFormTemplates)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(and(
+          eq(stateFormTemplates.state, template.state),
+          eq(stateFormTemplates.formType, template.formType),
+          ne(stateFormTemplates.id, id),
+          eq(stateFormTemplates.isActive, true)
+        ));
+      const [activated] = await tx.update(stateFormTemplates)
+        .set({ isActive: true, updatedAt: new Date() })
+        .where(eq(stateFormTemplates.id, id))
+        .returning();
+      return activated;
+    });
+  }
+
   constructor() {
     this.seedSampleData();
   }
@@ -1115,6 +1664,7 @@ export class DatabaseStorage implements IStorage {
     await this.seedDefaultUsers();
     await this.seedInsuranceProviders();
     await this.seedSystemConfig();
+    await this.seedWorkflowDefinitions();
     // Disabled sample data creation for production
     // await this.seedSamplePatients();
     // await this.seedSampleAuthorizations();
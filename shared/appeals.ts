@@ -0,0 +1,45 @@
+// Appeals of denied or partially approved authorizations. An appeal is worked as a draft,
+// submitted to the payer (which moves the authorization to 'appealed') and closed with the
+// payer's outcome, which moves the authorization to its final decision.
+
+export const APPEAL_LEVELS = ['first_level', 'second_level', 'external_review', 'peer_to_peer'] as const;
+export type AppealLevel = typeof APPEAL_LEVELS[number];
+
+export const APPEAL_LEVEL_LABELS: Record<AppealLevel, string> = {
+  first_level: 'First-Level Appeal',
+  second_level: 'Second-Level Appeal',
+  external_review: 'External Review',
+  peer_to_peer: 'Peer-to-Peer Review',
+};
+
+export const APPEAL_STATUSES = ['draft', 'submitted', 'decided', 'withdrawn'] as const;
+export type AppealStatus = typeof APPEAL_STATUSES[number];
+
+// Appeals still being worked; an authorization has at most one at a time
+export const OPEN_APPEAL_STATUSES: AppealStatus[] = ['draft', 'submitted'];
+
+export const APPEAL_OUTCOMES = ['overturned', 'partially_overturned', 'upheld'] as const;
+export type AppealOutcome = typeof APPEAL_OUTCOMES[number];
+
+export const APPEAL_OUTCOME_LABELS: Record<AppealOutcome, string> = {
+  overturned: 'Overturned',
+  partially_overturned: 'Partially Overturned',
+  upheld: 'Denial Upheld',
+};
+
+// Authorization status each outcome leaves the authorization in
+export const APPEAL_OUTCOME_STATUS = {
+  overturned: 'approved',
+  partially_overturned: 'partially_approved',
+  upheld: 'denied',
+} as const satisfies Record<AppealOutcome, string>;
+
+// Days the payer has to decide once an appeal is submitted
+export const APPEAL_RESPONSE_DAYS = {
+  standard: 30,
+  expedited: 3,
+};
+
+export function isAppealOpen(status: string): boolean {
+  return OPEN_APPEAL_STATUSES.includes(status as AppealStatus);
+}
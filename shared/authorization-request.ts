@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { DEFAULT_PLACE_OF_SERVICE, MAX_DIAGNOSES, serviceLineInputSchema, type ServiceLineInput } from "./service-lines";
+
+// The one shape used to create and update an authorization request, and the structure every payer
+// payload (manual, Availity, X12 278, FHIR PAS) is built from. The first ICD-10 code is the primary
+// diagnosis; service lines point at diagnoses by their 1-based position.
+
+const icd10CodeSchema = z.string().trim().min(3).transform(code => code.toUpperCase());
+
+const requestFieldsSchema = z.object({
+  patientId: z.number().int().positive(),
+  insuranceId: z.number().int().positive(),
+  treatmentType: z.string().trim().min(1),
+  requestedDate: z.coerce.date().optional(),
+  urgentRequest: z.boolean().optional(),
+  clinicalJustification: z.string().trim().min(10, "Clinical justification is required (minimum 10 characters)"),
+  providerNotes: z.string().trim().optional(),
+  icd10Codes: z.array(icd10CodeSchema).min(1, "At least one ICD-10 code is required").max(MAX_DIAGNOSES),
+  // Defaults to the first code; moved to the front, with line pointers renumbered to match
+  primaryIcd10Code: icd10CodeSchema.optional(),
+  serviceLines: z.array(serviceLineInputSchema).min(1, "At least one service line is required"),
+});
+
+type RequestFields = z.infer<typeof requestFieldsSchema>;
+
+// Checks that need both the diagnoses and the lines; skipped when an update leaves either out
+function checkDiagnoses(data: Partial<RequestFields>, ctx: z.RefinementCtx) {
+  const { icd10Codes, primaryIcd10Code, serviceLines } = data;
+  if (icd10Codes) {
+    if (new Set(icd10Codes).size !== icd10Codes.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "ICD-10 codes must not repeat", path: ["icd10Codes"] });
+    }
+    if (primaryIcd10Code && !icd10Codes.includes(primaryIcd10Code)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The primary diagnosis must be one of the ICD-10 codes", path: ["primaryIcd10Code"] });
+    }
+  } else if (primaryIcd10Code) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Send the ICD-10 codes with the primary diagnosis", path: ["icd10Codes"] });
+  }
+  if (icd10Codes && serviceLines) {
+    serviceLines.forEach((line, index) => {
+      if (line.diagnosisPointers.some(pointer => pointer > icd10Codes.length)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Line ${index + 1} points at a diagnosis that is not on the request`,
+          path: ["serviceLines", index, "diagnosisPointers"],
+        });
+      }
+    });
+  }
+}
+
+export const authorizationRequestSchema = requestFieldsSchema.superRefine(checkDiagnoses);
+export type AuthorizationRequestInput = z.infer<typeof authorizationRequestSchema>;
+
+// Status is changed through the status lifecycle, never through an update
+export const authorizationUpdateSchema = requestFieldsSchema.partial().superRefine(checkDiagnoses);
+export type AuthorizationUpdateInput = z.infer<typeof authorizationUpdateSchema>;
+
+// Put the primary diagnosis first and renumber the lines' pointers to follow it
+export function orderDiagnoses(icd10Codes: string[], serviceLines: ServiceLineInput[], primaryIcd10Code?: string): { icd10Codes: string[]; serviceLines: ServiceLineInput[] } {
+  const primaryIndex = primaryIcd10Code ? icd10Codes.indexOf(primaryIcd10Code) : 0;
+  if (primaryIndex <= 0) return { icd10Codes, serviceLines };
+
+  const ordered = [icd10Codes[primaryIndex], ...icd10Codes.filter((_, index) => index !== primaryIndex)];
+  const position = (pointer: number) => ordered.indexOf(icd10Codes[pointer - 1]) + 1;
+  return {
+    icd10Codes: ordered,
+    serviceLines: serviceLines.map(line => ({ ...line, diagnosisPointers: line.diagnosisPointers.map(position) })),
+  };
+}
+
+// Carry lines' pointers over to a new list of ICD-10 codes by code, so reordering or removing codes
+// keeps each line on the diagnoses it named; pointers at removed codes are dropped
+export function remapDiagnosisPointers(fromCodes: string[], toCodes: string[], serviceLines: ServiceLineInput[]): ServiceLineInput[] {
+  return serviceLines.map(line => ({
+    ...line,
+    diagnosisPointers: line.diagnosisPointers
+      .map(pointer => toCodes.indexOf(fromCodes[pointer - 1]) + 1)
+      .filter(pointer => pointer > 0),
+  }));
+}
+
+export interface SubmissionDiagnosis {
+  sequence: number;
+  code: string;
+  primary: boolean;
+}
+
+export interface SubmissionServiceLine {
+  lineNumber: number;
+  cptCode: string;
+  modifiers: string[];
+  units: number;
+  diagnosisPointers: number[];
+  placeOfService: string;
+}
+
+// Diagnoses and service lines as sent to the payer
+export interface SubmissionRequest {
+  diagnoses: SubmissionDiagnosis[];
+  serviceLines: SubmissionServiceLine[];
+}
+
+export function buildSubmissionRequest(
+  icd10Codes: string[],
+  lines: { lineNumber: number; cptCode: string; modifiers: string[]; units: number; diagnosisPointers: number[]; placeOfService: string | null }[],
+): SubmissionRequest {
+  return {
+    diagnoses: icd10Codes.map((code, index) => ({ sequence: index + 1, code, primary: index === 0 })),
+    serviceLines: lines.map(line => ({
+      lineNumber: line.lineNumber,
+      cptCode: line.cptCode,
+      modifiers: line.modifiers,
+      units: line.units,
+      diagnosisPointers: line.diagnosisPointers,
+      placeOfService: line.placeOfService || DEFAULT_PLACE_OF_SERVICE,
+    })),
+  };
+}
@@ -0,0 +1,84 @@
+// Prior authorization status lifecycle. Every status change goes through
+// server/services/authorization-status.ts, which enforces these transitions and guards.
+
+export const AUTHORIZATION_STATUSES = [
+  'draft',
+  'submitted',
+  'in_review',
+  'pended',
+  'approved',
+  'partially_approved',
+  'denied',
+  'appealed',
+  'expired',
+  'cancelled',
+] as const;
+export type AuthorizationStatus = typeof AUTHORIZATION_STATUSES[number];
+
+export const AUTHORIZATION_STATUS_LABELS: Record<AuthorizationStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  in_review: 'In Review',
+  pended: 'More Info Requested',
+  approved: 'Approved',
+  partially_approved: 'Partially Approved',
+  denied: 'Denied',
+  appealed: 'Appealed',
+  expired: 'Expired',
+  cancelled: 'Cancelled',
+};
+
+// Statuses each status may move to. Expired and cancelled are final; a renewal is a new authorization.
+export const STATUS_TRANSITIONS: Record<AuthorizationStatus, AuthorizationStatus[]> = {
+  draft: ['submitted', 'cancelled'],
+  submitted: ['in_review', 'pended', 'approved', 'partially_approved', 'denied', 'cancelled'],
+  in_review: ['pended', 'approved', 'partially_approved', 'denied', 'cancelled'],
+  pended: ['in_review', 'approved', 'partially_approved', 'denied', 'cancelled'],
+  approved: ['expired', 'cancelled'],
+  partially_approved: ['appealed', 'expired', 'cancelled'],
+  denied: ['appealed', 'cancelled'],
+  appealed: ['in_review', 'approved', 'partially_approved', 'denied', 'cancelled'],
+  expired: [],
+  cancelled: [],
+};
+
+// Still waiting on a payer decision
+export const OPEN_STATUSES: AuthorizationStatus[] = ['draft', 'submitted', 'in_review', 'pended', 'appealed'];
+
+// Authorization fields a status needs before an authorization can enter it
+export const STATUS_REQUIRED_FIELDS: Partial<Record<AuthorizationStatus, ('authorizationNumber' | 'expirationDate' | 'denialReason')[]>> = {
+  approved: ['authorizationNumber', 'expirationDate'],
+  partially_approved: ['authorizationNumber', 'expirationDate'],
+  denied: ['denialReason'],
+};
+
+// Where a status change came from: a user, a payer response to a submission or cancel, a status
+// poll, an imported payer response (e.g. an uploaded FHIR ClaimResponse), or the system itself
+export const STATUS_CHANGE_SOURCES = ['user', 'payer', 'payer-poll', 'import', 'system'] as const;
+export type StatusChangeSource = typeof STATUS_CHANGE_SOURCES[number];
+
+export const STATUS_CHANGE_SOURCE_LABELS: Record<StatusChangeSource, string> = {
+  user: 'User',
+  payer: 'Payer',
+  'payer-poll': 'Payer status check',
+  import: 'Imported response',
+  system: 'System',
+};
+
+// Statuses that need a note explaining the change when set by a user
+export const STATUS_NOTE_REQUIRED: AuthorizationStatus[] = ['pended', 'cancelled'];
+
+export function isAuthorizationStatus(value: string): value is AuthorizationStatus {
+  return (AUTHORIZATION_STATUSES as readonly string[]).includes(value);
+}
+
+// Rows written before the lifecycle existed use 'pending' for both unsent and sent requests
+export function normalizeAuthorizationStatus(status: string, submittedDate?: Date | string | null): AuthorizationStatus {
+  if (isAuthorizationStatus(status)) return status;
+  if (status === 'pending') return submittedDate ? 'submitted' : 'draft';
+  return 'draft';
+}
+
+export function allowedTransitions(status: string, submittedDate?: Date | string | null): AuthorizationStatus[] {
+  return STATUS_TRANSITIONS[normalizeAuthorizationStatus(status, submittedDate)];
+}
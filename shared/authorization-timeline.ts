@@ -0,0 +1,19 @@
+// One chronological feed of everything that happened to an authorization, built by
+// server/services/authorization-timeline.ts from the records each part of the system keeps
+
+export type TimelineEventKind = 'status' | 'workflow_step' | 'document' | 'payer_message' | 'peer_to_peer';
+
+export interface TimelineActor {
+  id: number;
+  name: string;
+}
+
+export interface TimelineEvent {
+  id: string; // Unique within one timeline, e.g. "status-12"
+  kind: TimelineEventKind;
+  at: string; // ISO timestamp
+  title: string;
+  detail?: string;
+  source?: string; // Who or what reported the event when it did not come from a user
+  actor: TimelineActor | null;
+}
@@ -0,0 +1,85 @@
+// Payer coverage requirement rules ("does this service need prior auth?")
+// Stored per insurance provider in insurance_providers.coverage_rules and evaluated
+// by server/services/coverage-requirements.ts in the spirit of Da Vinci CRD.
+
+import { z } from "zod";
+
+export const COVERAGE_REQUIREMENTS = ['required', 'not_required', 'conditional'] as const;
+export type CoverageRequirement = typeof COVERAGE_REQUIREMENTS[number];
+
+const cptRangeSchema = z.object({
+  from: z.string().trim().min(1),
+  to: z.string().trim().min(1),
+});
+
+// A rule applies when every condition it declares matches; the first applicable rule wins
+export const coverageRuleSchema = z.object({
+  id: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  requirement: z.enum(COVERAGE_REQUIREMENTS),
+  cptCodes: z.array(z.string().trim().min(1)).optional(),
+  cptRanges: z.array(cptRangeSchema).optional(),
+  // ICD-10 prefixes ("C", "M54.5"); the rule only applies when one of the diagnoses matches
+  icd10Codes: z.array(z.string().trim().min(1)).optional(),
+  // ICD-10 prefixes that exempt the request from this rule
+  icd10Exclusions: z.array(z.string().trim().min(1)).optional(),
+  // CMS place of service codes (11 office, 22 outpatient hospital, 24 ASC, ...)
+  placesOfService: z.array(z.string().trim().min(1)).optional(),
+  // Applies only when more than this many units are requested
+  unitsAbove: z.number().int().min(0).optional(),
+  // Applies only when the patient already had this many requests for the code within the window
+  frequency: z.object({
+    count: z.number().int().min(1),
+    periodDays: z.number().int().min(1),
+  }).optional(),
+  conditions: z.array(z.string().trim().min(1)).optional(),
+  documentation: z.array(z.string().trim().min(1)).optional(),
+});
+
+export const coverageRuleSetSchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  // Plan names or group numbers this set is limited to; omitted means every plan
+  plans: z.array(z.string().trim().min(1)).optional(),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  effectiveTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  rules: z.array(coverageRuleSchema),
+});
+
+export const coverageRuleSetsSchema = z.array(coverageRuleSetSchema);
+
+export type CoverageRule = z.infer<typeof coverageRuleSchema>;
+export type CoverageRuleSet = z.infer<typeof coverageRuleSetSchema>;
+
+export interface CoverageCodeRequirement {
+  cptCode: string;
+  description: string;
+  requirement: CoverageRequirement;
+  reasons: string[];
+  conditions: string[];
+  documentation: string[];
+  // Which rule decided the outcome; "default" when the procedure code table decided
+  source: { type: 'rule' | 'default'; ruleSetId?: string; ruleId?: string };
+}
+
+export interface CoverageRequirementsResult {
+  payerCode?: string;
+  payerName?: string;
+  requirement: CoverageRequirement;
+  codes: CoverageCodeRequirement[];
+  documentation: string[];
+  checkedAt: string;
+}
+
+// CPT/HCPCS codes are 5 characters, so same-length string comparison orders them
+export function cptInRange(code: string, range: { from: string; to: string }): boolean {
+  const normalized = code.trim().toUpperCase();
+  return normalized.length === range.from.length
+    && normalized >= range.from.toUpperCase()
+    && normalized <= range.to.toUpperCase();
+}
+
+export function icd10Matches(code: string, prefix: string): boolean {
+  const compact = (value: string) => value.replace('.', '').trim().toUpperCase();
+  return compact(code).startsWith(compact(prefix));
+}
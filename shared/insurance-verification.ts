@@ -0,0 +1,34 @@
+// Normalized eligibility results, whichever source answered (mock, X12 271 or Availity coverages).
+// Stored in patient_insurance.verification_result.
+
+export interface InsuranceVerificationResult {
+  isValid: boolean;
+  isActive: boolean;
+  coverageDetails: {
+    deductible: number;
+    copay: number;
+    coinsurance: number;
+    outOfPocketMax: number;
+  };
+  priorAuthRequired: boolean;
+  effectiveDate: string;
+  expirationDate: string;
+  memberStatus: string;
+  message: string;
+  // Populated when the result comes from a real eligibility inquiry
+  pending?: boolean;
+  source?: string;
+  referenceNumber?: string;
+  planName?: string;
+  groupNumber?: string;
+  insuranceType?: string;
+  benefits?: VerifiedBenefit[];
+  verifiedAt?: string;
+}
+
+export interface VerifiedBenefit {
+  serviceTypeCode?: string;
+  name: string;
+  status: string;
+  priorAuthRequired?: boolean;
+}
@@ -0,0 +1,29 @@
+// Prior authorization packages are stored as immutable artifacts (package_artifacts) when they are
+// generated, so what was sent to the payer can be downloaded again byte for byte.
+
+import { z } from "zod";
+
+export const PACKAGE_FORMATS = ['pdf', 'email', 'json', 'fhir-pas'] as const;
+export type PackageFormat = typeof PACKAGE_FORMATS[number];
+
+export const PACKAGE_FORMAT_LABELS: Record<PackageFormat, string> = {
+  pdf: 'PDF Document',
+  email: 'Pre-written Email',
+  json: 'JSON Format',
+  'fhir-pas': 'Da Vinci PAS (FHIR)',
+};
+
+// A document as it was when the package was generated
+export interface PackageDocumentRef {
+  id: number;
+  fileName: string;
+  documentType: string | null;
+  fileSize: number;
+}
+
+export const generatePackageSchema = z.object({
+  authorizationId: z.coerce.number().int().positive(),
+  format: z.enum(PACKAGE_FORMATS),
+  customNotes: z.string().trim().optional(),
+});
+export type GeneratePackageInput = z.infer<typeof generatePackageSchema>;
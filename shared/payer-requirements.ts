@@ -0,0 +1,116 @@
+// Payer documentation requirements, stored in insurance_providers.prior_auth_requirements
+// and checked by server/services/documentation-requirements.ts before a request is prepared.
+
+import { z } from "zod";
+
+export const DOCUMENT_TYPES = [
+  'clinical_notes',
+  'imaging_report',
+  'lab_results',
+  'letter_of_medical_necessity',
+  'prescription',
+  'step_therapy_record',
+  'referral',
+  'payer_form',
+  'other',
+] as const;
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  clinical_notes: 'Clinical notes',
+  imaging_report: 'Imaging report',
+  lab_results: 'Lab results',
+  letter_of_medical_necessity: 'Letter of medical necessity',
+  prescription: 'Prescription',
+  step_therapy_record: 'Step therapy record',
+  referral: 'Referral',
+  payer_form: 'Payer form',
+  other: 'Other',
+};
+
+// Authorization fields a payer can insist on; step data from the workflow counts as well
+export const CLINICAL_FIELDS = ['clinicalJustification', 'providerNotes', 'clinicalEvidence', 'previousTreatments'] as const;
+export type ClinicalField = typeof CLINICAL_FIELDS[number];
+
+// Limits a requirement to some requests; omitted means every request to the payer.
+// Optional requirements are listed on the checklist but never hold up completion.
+const requirementBaseSchema = z.object({
+  cptCodes: z.array(z.string().trim().min(1)).optional(),
+  treatmentTypes: z.array(z.string().trim().min(1)).optional(),
+  optional: z.boolean().default(false),
+});
+
+export const attachmentRequirementSchema = requirementBaseSchema.extend({
+  id: z.string().trim().min(1),
+  label: z.string().trim().min(1),
+  documentType: z.enum(DOCUMENT_TYPES),
+  minCount: z.number().int().min(1).default(1),
+});
+
+export const clinicalFieldRequirementSchema = requirementBaseSchema.extend({
+  id: z.string().trim().min(1),
+  label: z.string().trim().min(1),
+  field: z.enum(CLINICAL_FIELDS),
+  minLength: z.number().int().min(1).default(1),
+});
+
+export const stepTherapyRequirementSchema = requirementBaseSchema.extend({
+  id: z.string().trim().min(1),
+  label: z.string().trim().min(1),
+  minTrials: z.number().int().min(1).default(1),
+  // Only structured trials with start and end dates can prove a duration
+  minDurationDays: z.number().int().min(1).optional(),
+});
+
+export const formRequirementSchema = requirementBaseSchema.extend({
+  id: z.string().trim().min(1),
+  label: z.string().trim().min(1),
+  formId: z.string().trim().min(1),
+});
+
+export const payerRequirementsSchema = z.object({
+  attachments: z.array(attachmentRequirementSchema).default([]),
+  clinicalFields: z.array(clinicalFieldRequirementSchema).default([]),
+  stepTherapy: z.array(stepTherapyRequirementSchema).default([]),
+  forms: z.array(formRequirementSchema).default([]),
+});
+
+export type PayerRequirements = z.infer<typeof payerRequirementsSchema>;
+
+// A structured step therapy entry in previousTreatments
+export interface StepTherapyTrial {
+  treatment: string;
+  startDate?: string;
+  endDate?: string;
+  outcome?: string;
+}
+
+export type ChecklistItemKind = 'attachment' | 'clinical_field' | 'step_therapy' | 'form';
+
+export interface DocumentationChecklistItem {
+  id: string;
+  kind: ChecklistItemKind;
+  label: string;
+  satisfied: boolean;
+  optional: boolean;
+  detail: string;
+  documentType?: DocumentType;
+  documentIds?: number[];
+}
+
+export interface DocumentationChecklist {
+  authorizationId: number;
+  payerCode?: string;
+  passed: boolean;
+  items: DocumentationChecklistItem[];
+  // Labels of the required items not yet satisfied
+  missing: string[];
+  evaluatedAt: string;
+}
+
+// Roles allowed to complete Documentation Preparation with an incomplete checklist
+export const DOCUMENTATION_OVERRIDE_ROLES = ['admin'];
+
+export function canOverrideDocumentation(role: string | undefined): boolean {
+  return !!role && DOCUMENTATION_OVERRIDE_ROLES.includes(role);
+}
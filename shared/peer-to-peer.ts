@@ -0,0 +1,54 @@
+import { z } from "zod";
+
+// Peer-to-peer reviews: a call between the ordering doctor and the payer's medical reviewer,
+// usually requested after a payer pends or denies an authorization
+
+export const PEER_TO_PEER_STATUSES = ['requested', 'scheduled', 'completed', 'cancelled'] as const;
+export type PeerToPeerStatus = typeof PEER_TO_PEER_STATUSES[number];
+
+export const OPEN_PEER_TO_PEER_STATUSES: PeerToPeerStatus[] = ['requested', 'scheduled'];
+
+export const PEER_TO_PEER_STATUS_LABELS: Record<PeerToPeerStatus, string> = {
+  requested: 'Requested',
+  scheduled: 'Scheduled',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const PEER_TO_PEER_OUTCOMES = ['overturned', 'partially_overturned', 'upheld', 'more_info_requested'] as const;
+export type PeerToPeerOutcome = typeof PEER_TO_PEER_OUTCOMES[number];
+
+export const PEER_TO_PEER_OUTCOME_LABELS: Record<PeerToPeerOutcome, string> = {
+  overturned: 'Decision Overturned',
+  partially_overturned: 'Partially Overturned',
+  upheld: 'Decision Upheld',
+  more_info_requested: 'More Information Requested',
+};
+
+// Authorization statuses a peer-to-peer review can be requested for
+export const PEER_TO_PEER_AUTHORIZATION_STATUSES = ['pended', 'denied', 'partially_approved'];
+
+// Structured call notes, filled in as the review is prepared and held
+export const peerToPeerNotesSchema = z.object({
+  talkingPoints: z.string().trim().optional(), // Prepared before the call
+  reviewerConcerns: z.string().trim().optional(),
+  evidenceDiscussed: z.string().trim().optional(),
+  agreedNextSteps: z.string().trim().optional(),
+});
+export type PeerToPeerNotes = z.infer<typeof peerToPeerNotesSchema>;
+
+export const PEER_TO_PEER_NOTE_LABELS: Record<keyof PeerToPeerNotes, string> = {
+  talkingPoints: 'Talking points',
+  reviewerConcerns: 'Reviewer concerns',
+  evidenceDiscussed: 'Evidence discussed',
+  agreedNextSteps: 'Agreed next steps',
+};
+
+// A review the assigned doctor should act on soon: the payer's deadline to hold the call, or the call itself
+export interface PeerToPeerReminder {
+  reviewId: number;
+  authorizationId: number;
+  kind: 'deadline' | 'call';
+  dueAt: string; // ISO timestamp
+  overdue: boolean;
+}
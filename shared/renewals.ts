@@ -0,0 +1,30 @@
+// Expiration monitoring for approved authorizations. The server scans on a timer, flags
+// authorizations as they enter each renewal window, expires the ones past their date and
+// can clone an authorization into a draft renewal linked back to it.
+
+// Days before expiration at which an authorization is flagged for renewal, widest first
+export const DEFAULT_RENEWAL_WINDOWS = [30, 14, 7];
+
+// Authorization statuses the expiration monitor watches
+export const MONITORED_STATUSES = ['approved', 'partially_approved'];
+
+// Authorization statuses a renewal can be created from
+export const RENEWABLE_STATUSES = ['approved', 'partially_approved', 'expired'];
+
+// Narrowest configured window the remaining days fall within, or null when outside every window
+export function renewalWindowFor(daysUntilExpiration: number, windows: number[]): number | null {
+  const matching = windows.filter(window => daysUntilExpiration <= window);
+  return matching.length > 0 ? Math.min(...matching) : null;
+}
+
+export interface ExpiringAuthorization {
+  id: number;
+  authorizationId: string;
+  patientId: number;
+  treatmentType: string;
+  status: string;
+  expirationDate: string; // ISO timestamp
+  daysUntilExpiration: number;
+  window: number;
+  renewalId: number | null; // Renewal already started for this authorization, if any
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, varchar, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, varchar, date, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -79,7 +79,8 @@ export const insuranceProviders = pgTable("insurance_providers", {
   contactInfo: json("contact_info"),
   // Prior authorization workflow steps
   priorAuthSteps: json("prior_auth_steps"), // Array of step definitions
-  priorAuthRequirements: json("prior_auth_requirements"), // Special requirements
+  priorAuthRequirements: json("prior_auth_requirements"), // PayerRequirements from shared/payer-requirements.ts
+  coverageRules: json("coverage_rules"), // CoverageRuleSet[] from shared/coverage-rules.ts
   // Contact details for prior auth
   priorAuthPhone: text("prior_auth_phone"),
   priorAuthFax: text("prior_auth_fax"),
@@ -105,6 +106,11 @@ export const patientInsurance = pgTable("patient_insurance", {
   expirationDate: timestamp("expiration_date"),
   isPrimary: boolean("is_primary").notNull().default(true),
   isActive: boolean("is_active").notNull().default(true),
+  // Last eligibility verification
+  verificationStatus: text("verification_status"), // active, inactive, pending, error
+  verificationResult: json("verification_result"), // Normalized InsuranceVerificationResult
+  verificationReference: text("verification_reference"), // Clearinghouse inquiry id, used to resume polling
+  lastVerifiedAt: timestamp("last_verified_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -115,15 +121,16 @@ export const priorAuthorizations = pgTable("prior_authorizations", {
   patientId: integer("patient_id").notNull(),
   insuranceId: integer("insurance_id").notNull(),
   treatmentType: text("treatment_type").notNull(),
-  cptCodes: text("cpt_codes").array().notNull(), // Array of CPT codes
+  cptCodes: text("cpt_codes").array().notNull(), // CPT codes of the service lines, kept in sync by the service line service
   icd10Codes: text("icd10_codes").array().notNull(), // Array of ICD-10 codes
   clinicalJustification: text("clinical_justification").notNull(),
   // Enhanced workflow fields
   requestedDate: timestamp("requested_date").notNull(),
   submittedDate: timestamp("submitted_date"),
-  status: text("status").notNull().default("pending"), // pending, in_review, approved, denied, appealed, expired
+  status: text("status").notNull().default("draft"), // AuthorizationStatus from shared/authorization-status.ts
   currentStep: integer("current_step").notNull().default(1),
   totalSteps: integer("total_steps").notNull().default(10),
+  workflowDefinitionId: integer("workflow_definition_id"), // Definition version the workflow started on; null for the built-in default
   // Prior auth specific fields
   urgentRequest: boolean("urgent_request").notNull().default(false),
   previousTreatments: json("previous_treatments"), // Step therapy documentation
@@ -135,10 +142,15 @@ export const priorAuthorizations = pgTable("prior_authorizations", {
   authorizationNumber: text("authorization_number"),
   expirationDate: timestamp("expiration_date"),
   appealDeadline: timestamp("appeal_deadline"),
+  // Renewal tracking
+  renewalOfId: integer("renewal_of_id"), // Authorization this one renews
+  expirationAlertWindow: integer("expiration_alert_window"), // Narrowest renewal window (days) the expiration monitor has flagged
   // State form generation
   stateFormTemplateId: integer("state_form_template_id"),
   generatedFormData: json("generated_form_data"),
   formPackagePath: text("form_package_path"), // Path to generated form package
+  // Payer submission tracking
+  payerReferenceNumber: text("payer_reference_number"),
   // Assignment and tracking
   submittedBy: integer("submitted_by").notNull(),
   assignedTo: integer("assigned_to"),
@@ -146,6 +158,149 @@ export const priorAuthorizations = pgTable("prior_authorizations", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Requested CPT services on an authorization, each decided by the payer on its own; see shared/service-lines.ts
+export const authorizationServiceLines = pgTable("authorization_service_lines", {
+  id: serial("id").primaryKey(),
+  authorizationId: integer("authorization_id").notNull(),
+  lineNumber: integer("line_number").notNull(),
+  cptCode: text("cpt_code").notNull(),
+  modifiers: text("modifiers").array().notNull().default([]),
+  units: integer("units").notNull().default(1),
+  diagnosisPointers: integer("diagnosis_pointers").array().notNull(), // 1-based positions in the authorization's icd10Codes
+  placeOfService: text("place_of_service"), // CMS place of service code, e.g. 11 office
+  status: text("status").notNull().default("requested"), // ServiceLineStatus from shared/service-lines.ts
+  approvedUnits: integer("approved_units"),
+  denialReason: text("denial_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Every status an authorization has moved through, oldest first
+export const priorAuthStatusHistory = pgTable("prior_auth_status_history", {
+  id: serial("id").primaryKey(),
+  authorizationId: integer("authorization_id").notNull(),
+  fromStatus: text("from_status"), // null for the status an authorization was created with
+  toStatus: text("to_status").notNull(),
+  source: text("source").notNull(), // StatusChangeSource from shared/authorization-status.ts
+  note: text("note"),
+  changedBy: integer("changed_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Appeals of denied or partially approved authorizations; see shared/appeals.ts
+export const appeals = pgTable("appeals", {
+  id: serial("id").primaryKey(),
+  authorizationId: integer("authorization_id").notNull(),
+  level: text("level").notNull(), // AppealLevel from shared/appeals.ts
+  status: text("status").notNull().default("draft"), // draft, submitted, decided, withdrawn
+  expedited: boolean("expedited").notNull().default(false),
+  filingDeadline: timestamp("filing_deadline"), // Last day to file, from the authorization's appeal deadline
+  responseDueDate: timestamp("response_due_date"), // When the payer owes a decision, set on submission
+  letter: text("letter"), // Appeal letter, generated from the denial and clinical justification and editable while draft
+  stateFormTemplateId: integer("state_form_template_id"), // State 'appeal' form the appeal is filed on, if the state has one
+  formData: json("form_data"), // Values for the state form's fields
+  submittedDate: timestamp("submitted_date"),
+  payerReferenceNumber: text("payer_reference_number"),
+  outcome: text("outcome"), // AppealOutcome from shared/appeals.ts
+  outcomeDate: timestamp("outcome_date"),
+  outcomeNotes: text("outcome_notes"),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Peer-to-peer calls between the assigned doctor and the payer's reviewer; see shared/peer-to-peer.ts
+export const peerToPeerReviews = pgTable("peer_to_peer_reviews", {
+  id: serial("id").primaryKey(),
+  authorizationId: integer("authorization_id").notNull(),
+  status: text("status").notNull().default("requested"), // PeerToPeerStatus from shared/peer-to-peer.ts
+  assignedDoctorId: integer("assigned_doctor_id").notNull(),
+  requestedAt: timestamp("requested_at").defaultNow().notNull(),
+  requestDeadline: timestamp("request_deadline"), // Last moment the payer will hold the call
+  scheduledAt: timestamp("scheduled_at"),
+  reviewerName: text("reviewer_name"),
+  reviewerCredentials: text("reviewer_credentials"), // e.g. "MD, Orthopedic Surgery"
+  reviewerPhone: text("reviewer_phone"),
+  reviewerEmail: text("reviewer_email"),
+  outcome: text("outcome"), // PeerToPeerOutcome from shared/peer-to-peer.ts
+  notes: json("notes"), // PeerToPeerNotes from shared/peer-to-peer.ts
+  completedAt: timestamp("completed_at"),
+  cancellationReason: text("cancellation_reason"),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Quantity the payer approved for a CPT code on an authorization; see shared/utilization.ts
+export const authorizationUnitApprovals = pgTable("authorization_unit_approvals", {
+  id: serial("id").primaryKey(),
+  authorizationId: integer("authorization_id").notNull(),
+  cptCode: text("cpt_code").notNull(),
+  unitType: text("unit_type").notNull().default("visits"), // UnitType from shared/utilization.ts
+  approvedQuantity: integer("approved_quantity").notNull(),
+  startDate: timestamp("start_date"), // Approved date span; falls back to the authorization's approval and expiration dates
+  endDate: timestamp("end_date"),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Services delivered against an approved quantity, one row per date of service
+export const serviceUtilizations = pgTable("service_utilizations", {
+  id: serial("id").primaryKey(),
+  authorizationId: integer("authorization_id").notNull(),
+  unitApprovalId: integer("unit_approval_id").notNull(),
+  serviceDate: timestamp("service_date").notNull(),
+  unitsUsed: integer("units_used").notNull(),
+  encounterId: text("encounter_id"), // Encounter or appointment id in the practice's EHR
+  notes: text("notes"),
+  recordedBy: integer("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every request/response exchanged with a payer through a PayerAdapter
+export const payerSubmissions = pgTable("payer_submissions", {
+  id: serial("id").primaryKey(),
+  authorizationId: integer("authorization_id").notNull(),
+  payerCode: text("payer_code").notNull(),
+  adapter: text("adapter").notNull(), // Name of the PayerAdapter that handled the call
+  operation: text("operation").notNull(), // submit, check_status, cancel, attach_documents, ingest_response
+  status: text("status").notNull(), // Status reported by the payer
+  referenceNumber: text("reference_number"),
+  message: text("message"),
+  requestPayload: json("request_payload"),
+  responsePayload: json("response_payload"),
+  errorMessage: text("error_message"),
+  performedBy: integer("performed_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Claim statuses returned by the payer for services delivered under an authorization
+export const claimStatusRecords = pgTable("claim_status_records", {
+  id: serial("id").primaryKey(),
+  authorizationId: integer("authorization_id").notNull(),
+  payerCode: text("payer_code").notNull(),
+  source: text("source").notNull(), // availity, mock
+  inquiryReference: text("inquiry_reference"), // Clearinghouse claim status id
+  claimNumber: text("claim_number"), // Payer claim control number
+  patientControlNumber: text("patient_control_number"),
+  serviceFromDate: timestamp("service_from_date"),
+  serviceToDate: timestamp("service_to_date"),
+  categoryCode: text("category_code"), // 277 claim status category, e.g. F1 paid, F2 denied, P1 pending
+  category: text("category"),
+  statusCode: text("status_code"),
+  status: text("status"),
+  claimAmount: text("claim_amount"),
+  paymentAmount: text("payment_amount"),
+  finalizedDate: timestamp("finalized_date"),
+  serviceLines: json("service_lines"),
+  authorizationNumber: text("authorization_number"), // Authorization number we held when the status was recorded
+  noAuthorizationDenial: boolean("no_authorization_denial").notNull().default(false),
+  responsePayload: json("response_payload"),
+  checkedBy: integer("checked_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
   authorizationId: integer("authorization_id"),
@@ -153,11 +308,34 @@ export const documents = pgTable("documents", {
   fileName: text("file_name").notNull(),
   fileType: text("file_type").notNull(),
   fileSize: integer("file_size").notNull(),
+  documentType: text("document_type"), // DocumentType from shared/payer-requirements.ts
+  appealId: integer("appeal_id"), // Set when the document is filed with an appeal
   encryptedPath: text("encrypted_path").notNull(),
   uploadedBy: integer("uploaded_by").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Prior authorization packages exactly as generated; rows and their stored files are never changed
+export const packageArtifacts = pgTable("package_artifacts", {
+  id: serial("id").primaryKey(),
+  authorizationId: integer("authorization_id").notNull(),
+  version: integer("version").notNull(), // 1, 2, ... across all formats generated for the authorization
+  format: text("format").notNull(), // PackageFormat from shared/package-artifacts.ts
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  fileSize: integer("file_size").notNull(),
+  contentHash: text("content_hash").notNull(), // SHA-256 of the stored file, hex
+  storagePath: text("storage_path").notNull(),
+  generatorVersion: text("generator_version").notNull(), // PACKAGE_GENERATOR_VERSION the content was rendered with
+  includedDocuments: json("included_documents").notNull(), // PackageDocumentRef[] of the documents in the package
+  customNotes: text("custom_notes"),
+  missingPracticeFields: text("missing_practice_fields").array().notNull().default([]),
+  generatedBy: integer("generated_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("package_artifacts_authorization_version_idx").on(table.authorizationId, table.version),
+]);
+
 // Enhanced audit logs with before/after data tracking
 export const auditLogs = pgTable("audit_logs", {
   id: serial("id").primaryKey(),
@@ -220,10 +398,26 @@ export const priorAuthWorkflowSteps = pgTable("prior_auth_workflow_steps", {
   completedAt: timestamp("completed_at"),
   notes: text("notes"),
   formData: json("form_data"), // Store form responses for this step
+  transitions: json("transitions"), // WorkflowStepTransition[] from shared/workflow-definitions.ts, oldest first
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Versioned prior auth workflow definitions; a version is never edited once authorizations can be pinned to it
+export const workflowDefinitions = pgTable("workflow_definitions", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull(), // Shared by every version of a definition
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  insuranceProviderId: integer("insurance_provider_id"), // null for the definition used by payers without their own
+  steps: json("steps").notNull(), // WorkflowStepDefinition[] from shared/workflow-definitions.ts
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("workflow_definitions_key_version_idx").on(table.key, table.version),
+]);
+
 // State-specific form templates for prior authorization
 export const stateFormTemplates = pgTable("state_form_templates", {
   id: serial("id").primaryKey(),
@@ -236,7 +430,9 @@ export const stateFormTemplates = pgTable("state_form_templates", {
   version: text("version").notNull().default("1.0"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  uniqueIndex("state_form_templates_state_form_type_version_idx").on(table.state, table.formType, table.version),
+]);
 
 export const appEventLogs = pgTable("app_event_logs", {
   id: serial("id").primaryKey(),
@@ -319,8 +515,128 @@ export const priorAuthorizationsRelations = relations(priorAuthorizations, ({ on
     fields: [priorAuthorizations.stateFormTemplateId],
     references: [stateFormTemplates.id],
   }),
+  workflowDefinition: one(workflowDefinitions, {
+    fields: [priorAuthorizations.workflowDefinitionId],
+    references: [workflowDefinitions.id],
+  }),
   documents: many(documents),
   workflowSteps: many(priorAuthWorkflowSteps),
+  payerSubmissions: many(payerSubmissions),
+  claimStatusRecords: many(claimStatusRecords),
+  statusHistory: many(priorAuthStatusHistory),
+  serviceLines: many(authorizationServiceLines),
+  appeals: many(appeals),
+  peerToPeerReviews: many(peerToPeerReviews),
+  unitApprovals: many(authorizationUnitApprovals),
+  serviceUtilizations: many(serviceUtilizations),
+  packageArtifacts: many(packageArtifacts),
+  renewalOf: one(priorAuthorizations, {
+    fields: [priorAuthorizations.renewalOfId],
+    references: [priorAuthorizations.id],
+    relationName: "renewals",
+  }),
+  renewals: many(priorAuthorizations, { relationName: "renewals" }),
+}));
+
+export const authorizationServiceLinesRelations = relations(authorizationServiceLines, ({ one }) => ({
+  authorization: one(priorAuthorizations, {
+    fields: [authorizationServiceLines.authorizationId],
+    references: [priorAuthorizations.id],
+  }),
+}));
+
+export const priorAuthStatusHistoryRelations = relations(priorAuthStatusHistory, ({ one }) => ({
+  authorization: one(priorAuthorizations, {
+    fields: [priorAuthStatusHistory.authorizationId],
+    references: [priorAuthorizations.id],
+  }),
+  changedByUser: one(users, {
+    fields: [priorAuthStatusHistory.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const appealsRelations = relations(appeals, ({ one, many }) => ({
+  authorization: one(priorAuthorizations, {
+    fields: [appeals.authorizationId],
+    references: [priorAuthorizations.id],
+  }),
+  stateFormTemplate: one(stateFormTemplates, {
+    fields: [appeals.stateFormTemplateId],
+    references: [stateFormTemplates.id],
+  }),
+  createdByUser: one(users, {
+    fields: [appeals.createdBy],
+    references: [users.id],
+  }),
+  documents: many(documents),
+}));
+
+export const peerToPeerReviewsRelations = relations(peerToPeerReviews, ({ one }) => ({
+  authorization: one(priorAuthorizations, {
+    fields: [peerToPeerReviews.authorizationId],
+    references: [priorAuthorizations.id],
+  }),
+  assignedDoctor: one(users, {
+    fields: [peerToPeerReviews.assignedDoctorId],
+    references: [users.id],
+  }),
+}));
+
+export const authorizationUnitApprovalsRelations = relations(authorizationUnitApprovals, ({ one, many }) => ({
+  authorization: one(priorAuthorizations, {
+    fields: [authorizationUnitApprovals.authorizationId],
+    references: [priorAuthorizations.id],
+  }),
+  utilizations: many(serviceUtilizations),
+}));
+
+export const serviceUtilizationsRelations = relations(serviceUtilizations, ({ one }) => ({
+  authorization: one(priorAuthorizations, {
+    fields: [serviceUtilizations.authorizationId],
+    references: [priorAuthorizations.id],
+  }),
+  unitApproval: one(authorizationUnitApprovals, {
+    fields: [serviceUtilizations.unitApprovalId],
+    references: [authorizationUnitApprovals.id],
+  }),
+  recordedByUser: one(users, {
+    fields: [serviceUtilizations.recordedBy],
+    references: [users.id],
+  }),
+}));
+
+export const payerSubmissionsRelations = relations(payerSubmissions, ({ one }) => ({
+  authorization: one(priorAuthorizations, {
+    fields: [payerSubmissions.authorizationId],
+    references: [priorAuthorizations.id],
+  }),
+  performedByUser: one(users, {
+    fields: [payerSubmissions.performedBy],
+    references: [users.id],
+  }),
+}));
+
+export const claimStatusRecordsRelations = relations(claimStatusRecords, ({ one }) => ({
+  authorization: one(priorAuthorizations, {
+    fields: [claimStatusRecords.authorizationId],
+    references: [priorAuthorizations.id],
+  }),
+  checkedByUser: one(users, {
+    fields: [claimStatusRecords.checkedBy],
+    references: [users.id],
+  }),
+}));
+
+export const packageArtifactsRelations = relations(packageArtifacts, ({ one }) => ({
+  authorization: one(priorAuthorizations, {
+    fields: [packageArtifacts.authorizationId],
+    references: [priorAuthorizations.id],
+  }),
+  generatedByUser: one(users, {
+    fields: [packageArtifacts.generatedBy],
+    references: [users.id],
+  }),
 }));
 
 export const documentsRelations = relations(documents, ({ one }) => ({
@@ -336,6 +652,10 @@ export const documentsRelations = relations(documents, ({ one }) => ({
     fields: [documents.uploadedBy],
     references: [users.id],
   }),
+  appeal: one(appeals, {
+    fields: [documents.appealId],
+    references: [appeals.id],
+  }),
 }));
 
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
@@ -421,11 +741,60 @@ export const insertPriorAuthorizationSchema = createInsertSchema(priorAuthorizat
   updatedAt: true,
 });
 
+export const insertAuthorizationServiceLineSchema = createInsertSchema(authorizationServiceLines).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPriorAuthStatusHistorySchema = createInsertSchema(priorAuthStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAppealSchema = createInsertSchema(appeals).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPeerToPeerReviewSchema = createInsertSchema(peerToPeerReviews).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAuthorizationUnitApprovalSchema = createInsertSchema(authorizationUnitApprovals).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertServiceUtilizationSchema = createInsertSchema(serviceUtilizations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPayerSubmissionSchema = createInsertSchema(payerSubmissions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertClaimStatusRecordSchema = createInsertSchema(claimStatusRecords).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertPackageArtifactSchema = createInsertSchema(packageArtifacts).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
   timestamp: true,
@@ -443,6 +812,11 @@ export const insertPriorAuthWorkflowStepSchema = createInsertSchema(priorAuthWor
   updatedAt: true,
 });
 
+export const insertWorkflowDefinitionSchema = createInsertSchema(workflowDefinitions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertStateFormTemplateSchema = createInsertSchema(stateFormTemplates).omit({
   id: true,
   createdAt: true,
@@ -473,8 +847,26 @@ export type PatientInsurance = typeof patientInsurance.$inferSelect;
 export type InsertPatientInsurance = z.infer<typeof insertPatientInsuranceSchema>;
 export type PriorAuthorization = typeof priorAuthorizations.$inferSelect;
 export type InsertPriorAuthorization = z.infer<typeof insertPriorAuthorizationSchema>;
+export type AuthorizationServiceLine = typeof authorizationServiceLines.$inferSelect;
+export type InsertAuthorizationServiceLine = z.infer<typeof insertAuthorizationServiceLineSchema>;
+export type PriorAuthStatusHistory = typeof priorAuthStatusHistory.$inferSelect;
+export type InsertPriorAuthStatusHistory = z.infer<typeof insertPriorAuthStatusHistorySchema>;
+export type Appeal = typeof appeals.$inferSelect;
+export type InsertAppeal = z.infer<typeof insertAppealSchema>;
+export type PeerToPeerReview = typeof peerToPeerReviews.$inferSelect;
+export type InsertPeerToPeerReview = z.infer<typeof insertPeerToPeerReviewSchema>;
+export type AuthorizationUnitApproval = typeof authorizationUnitApprovals.$inferSelect;
+export type InsertAuthorizationUnitApproval = z.infer<typeof insertAuthorizationUnitApprovalSchema>;
+export type ServiceUtilization = typeof serviceUtilizations.$inferSelect;
+export type InsertServiceUtilization = z.infer<typeof insertServiceUtilizationSchema>;
+export type PayerSubmission = typeof payerSubmissions.$inferSelect;
+export type InsertPayerSubmission = z.infer<typeof insertPayerSubmissionSchema>;
+export type ClaimStatusRecord = typeof claimStatusRecords.$inferSelect;
+export type InsertClaimStatusRecord = z.infer<typeof insertClaimStatusRecordSchema>;
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
+export type PackageArtifact = typeof packageArtifacts.$inferSelect;
+export type InsertPackageArtifact = z.infer<typeof insertPackageArtifactSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type AppEventLog = typeof appEventLogs.$inferSelect;
@@ -496,5 +888,7 @@ export type Icd10Code = typeof icd10Codes.$inferSelect;
 export type InsertIcd10Code = z.infer<typeof insertIcd10CodeSchema>;
 export type PriorAuthWorkflowStep = typeof priorAuthWorkflowSteps.$inferSelect;
 export type InsertPriorAuthWorkflowStep = z.infer<typeof insertPriorAuthWorkflowStepSchema>;
+export type WorkflowDefinition = typeof workflowDefinitions.$inferSelect;
+export type InsertWorkflowDefinition = z.infer<typeof insertWorkflowDefinitionSchema>;
 export type StateFormTemplate = typeof stateFormTemplates.$inferSelect;
 export type InsertStateFormTemplate = z.infer<typeof insertStateFormTemplateSchema>;
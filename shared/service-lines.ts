@@ -0,0 +1,69 @@
+import { z } from "zod";
+import type { AuthorizationStatus } from "./authorization-status";
+
+// Service lines: one requested CPT service on an authorization. Payers decide each line on its
+// own, so an authorization can have some lines approved and others denied.
+
+export const SERVICE_LINE_STATUSES = ['requested', 'pended', 'approved', 'denied'] as const;
+export type ServiceLineStatus = typeof SERVICE_LINE_STATUSES[number];
+
+export const SERVICE_LINE_STATUS_LABELS: Record<ServiceLineStatus, string> = {
+  requested: 'Requested',
+  pended: 'More Info Requested',
+  approved: 'Approved',
+  denied: 'Denied',
+};
+
+// Claim forms carry up to 12 diagnoses and point each line at up to 4 of them
+export const MAX_DIAGNOSES = 12;
+export const MAX_DIAGNOSIS_POINTERS = 4;
+export const MAX_MODIFIERS = 4;
+
+// Office, used when a line does not name a place of service
+export const DEFAULT_PLACE_OF_SERVICE = '11';
+
+export const serviceLineInputSchema = z.object({
+  cptCode: z.string().trim().min(1),
+  modifiers: z.array(z.string().trim().regex(/^[A-Z0-9]{2}$/i, "Modifiers are two characters")).max(MAX_MODIFIERS).default([]),
+  units: z.number().int().positive().default(1),
+  // 1-based positions in the authorization's ICD-10 codes
+  diagnosisPointers: z.array(z.number().int().min(1).max(MAX_DIAGNOSES)).min(1).max(MAX_DIAGNOSIS_POINTERS),
+  placeOfService: z.string().trim().regex(/^\d{2}$/, "Place of service is a two-digit code").optional(),
+});
+export type ServiceLineInput = z.infer<typeof serviceLineInputSchema>;
+
+export const serviceLineDecisionSchema = z.object({
+  lineId: z.number().int().positive(),
+  status: z.enum(['pended', 'approved', 'denied']),
+  approvedUnits: z.number().int().min(0).optional(),
+  denialReason: z.string().trim().min(1).optional(),
+}).refine(data => data.status !== 'denied' || !!data.denialReason, {
+  message: "A denied line needs a denial reason",
+  path: ["denialReason"],
+});
+export type ServiceLineDecision = z.infer<typeof serviceLineDecisionSchema>;
+
+interface DecidedLine {
+  status: string;
+  units: number;
+  approvedUnits: number | null;
+}
+
+// The authorization status the line decisions add up to, or null while any line is undecided
+export function rollUpServiceLines(lines: DecidedLine[]): AuthorizationStatus | null {
+  if (lines.length === 0 || lines.some(line => line.status === 'requested')) return null;
+  if (lines.some(line => line.status === 'pended')) return 'pended';
+
+  const approved = lines.filter(line => line.status === 'approved');
+  if (approved.length === 0) return 'denied';
+
+  const reduced = approved.some(line => line.approvedUnits !== null && line.approvedUnits < line.units);
+  return approved.length === lines.length && !reduced ? 'approved' : 'partially_approved';
+}
+
+// e.g. "97110-GP x12 (Dx 1,2; POS 11)"
+export function describeServiceLine(line: { cptCode: string; modifiers: string[]; units: number; diagnosisPointers: number[]; placeOfService: string | null }): string {
+  const code = [line.cptCode, ...line.modifiers].join('-');
+  const pointers = line.diagnosisPointers.length > 0 ? line.diagnosisPointers.join(',') : 'none';
+  return `${code} x${line.units} (Dx ${pointers}; POS ${line.placeOfService || DEFAULT_PLACE_OF_SERVICE})`;
+}
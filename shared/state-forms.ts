@@ -0,0 +1,145 @@
+import { z } from "zod";
+
+// State prior authorization forms are fillable (AcroForm) PDFs. A template's `fields` maps each
+// form field to a value in the authorization's data, so a new state form needs no code changes.
+
+// Roots a field's `source` path can start from
+export const FORM_DATA_SOURCES = {
+  authorization: 'The prior authorization row',
+  patient: 'The patient',
+  insurance: 'The patient insurance policy (member ID, group number)',
+  payer: 'The insurance provider',
+  practice: 'Practice and requesting provider details from system configuration',
+  workflow: 'Form data entered across the workflow steps',
+  diagnoses: 'Diagnoses in order, the primary first ({ sequence, code, primary })',
+  serviceLines: 'Service lines ({ lineNumber, cptCode, modifiers, units, diagnosisPointers, placeOfService })',
+  today: 'The date the form is generated',
+} as const;
+export type FormDataSource = keyof typeof FORM_DATA_SOURCES;
+
+// Common paths offered by the template mapping editor; any dotted path from a source root works
+export const FORM_DATA_PATH_SUGGESTIONS = [
+  'patient.firstName', 'patient.lastName', 'patient.dateOfBirth', 'patient.gender', 'patient.phone',
+  'patient.address', 'patient.city', 'patient.state', 'patient.zipCode',
+  'insurance.memberId', 'insurance.groupNumber', 'insurance.effectiveDate',
+  'payer.name', 'payer.priorAuthPhone', 'payer.priorAuthFax',
+  'practice.practiceName', 'practice.providerName', 'practice.providerNpi', 'practice.facilityNpi',
+  'practice.taxId', 'practice.phone', 'practice.fax', 'practice.address',
+  'authorization.authorizationId', 'authorization.treatmentType', 'authorization.requestedDate',
+  'authorization.clinicalJustification', 'authorization.urgentRequest', 'authorization.icd10Codes', 'authorization.cptCodes',
+  'diagnoses.0.code', 'serviceLines.0.cptCode', 'serviceLines.0.units', 'today',
+] as const;
+
+export const FORM_FIELD_FORMATS = ['text', 'uppercase', 'digits', 'date', 'checkbox'] as const;
+export type FormFieldFormat = typeof FORM_FIELD_FORMATS[number];
+
+export const stateFormFieldSchema = z.object({
+  // Fully qualified AcroForm field name in the template PDF
+  name: z.string().trim().min(1),
+  label: z.string().trim().optional(),
+  // Dotted path from one of FORM_DATA_SOURCES, e.g. "patient.lastName" or "serviceLines.0.cptCode"
+  source: z.string().trim().min(1).optional(),
+  // Arrays are joined with ", ". uppercase: upper-cased text; digits: digits only (NPIs, phone and
+  // tax IDs in comb fields); date: MM/DD/YYYY; checkbox: checked when the value is truthy, or equal
+  // to checkedWhen when that is set
+  format: z.enum(FORM_FIELD_FORMATS).default('text'),
+  checkedWhen: z.string().optional(),
+  // Used when the source resolves to nothing
+  defaultValue: z.string().optional(),
+  required: z.boolean().default(false),
+});
+export type StateFormField = z.infer<typeof stateFormFieldSchema>;
+
+// Field kinds pdf-lib reports for an AcroForm; "other" covers buttons and signatures, which are not filled
+export const PDF_FORM_FIELD_TYPES = ['text', 'checkbox', 'dropdown', 'optionlist', 'radio', 'other'] as const;
+export type PdfFormFieldType = typeof PDF_FORM_FIELD_TYPES[number];
+
+export interface DiscoveredFormField {
+  name: string;
+  type: PdfFormFieldType;
+  // Choices of dropdown, option list and radio fields
+  options?: string[];
+}
+
+export function isFormDataPath(source: string): boolean {
+  return source.split('.')[0] in FORM_DATA_SOURCES;
+}
+
+// A template version as saved from the admin editor; every mapping needs a source under a known root
+export const stateFormTemplateInputSchema = z.object({
+  state: z.string().trim().length(2).transform(state => state.toUpperCase()),
+  formType: z.string().trim().min(1).regex(/^[a-z_]+$/, "Form types may only contain lowercase letters and underscores"),
+  formName: z.string().trim().min(1),
+  // Path returned by the template upload, or one relative to STATE_FORM_TEMPLATE_DIR
+  templatePath: z.string().trim().min(1),
+  fields: z.array(stateFormFieldSchema).superRefine((fields, ctx) => {
+    const names = fields.map(field => field.name);
+    fields.forEach((field, index) => {
+      if (names.indexOf(field.name) !== index) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'name'], message: `${field.name} is mapped more than once` });
+      }
+      if (!field.source) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'source'], message: `${field.name} has no data path` });
+      } else if (!isFormDataPath(field.source)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'source'], message: `${field.source} does not start with a known data source` });
+      }
+    });
+  }),
+});
+export type StateFormTemplateInput = z.infer<typeof stateFormTemplateInputSchema>;
+
+// Field definitions written before mappings existed are a list of names or a name-keyed object;
+// those names are looked up as workflow form data
+export function parseStateFormFields(fields: unknown): StateFormField[] {
+  const definitions = Array.isArray(fields)
+    ? fields
+    : Object.keys((fields as Record<string, unknown>) || {}).map(name => ({ name }));
+
+  return definitions.flatMap(definition => {
+    const candidate = typeof definition === 'string' ? { name: definition } : definition;
+    const parsed = stateFormFieldSchema.safeParse(candidate);
+    if (!parsed.success) return [];
+    return [{ ...parsed.data, source: parsed.data.source || `workflow.${parsed.data.name}` }];
+  });
+}
+
+function lookup(data: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, data);
+}
+
+function formatDate(value: unknown): string {
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (isNaN(date.getTime())) return String(value);
+  return `${String(date.getUTCMonth() + 1).padStart(2, '0')}/${String(date.getUTCDate()).padStart(2, '0')}/${date.getUTCFullYear()}`;
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDate(value);
+  if (Array.isArray(value)) return value.map(stringify).filter(Boolean).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim();
+}
+
+// The text a field is filled with; checkboxes resolve to "true" or "false"
+export function resolveFormFieldValue(field: StateFormField, data: Partial<Record<FormDataSource, unknown>>): string {
+  const raw = field.source ? lookup(data, field.source) : undefined;
+  const value = stringify(raw) || field.defaultValue || '';
+
+  switch (field.format) {
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'digits':
+      return value.replace(/\D/g, '');
+    case 'date':
+      return value ? formatDate(raw instanceof Date ? raw : value) : '';
+    case 'checkbox':
+      if (field.checkedWhen !== undefined) return String(value === field.checkedWhen);
+      return String(!!value && !['false', 'no', '0'].includes(value.toLowerCase()));
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,50 @@
+// Unit and visit consumption: therapy, infusion and similar approvals are for a number of
+// visits or units per CPT code within a date span, and each date of service draws it down
+
+export const UNIT_TYPES = ['visits', 'units'] as const;
+export type UnitType = typeof UNIT_TYPES[number];
+
+export const UNIT_TYPE_LABELS: Record<UnitType, string> = {
+  visits: 'Visits',
+  units: 'Units',
+};
+
+// Authorization statuses services can be logged against
+export const UTILIZATION_AUTHORIZATION_STATUSES = ['approved', 'partially_approved'];
+
+// Balances at or below this share of the approved quantity are flagged as running low
+export const LOW_BALANCE_RATIO = 0.2;
+
+export type UtilizationWarningKind =
+  | 'exceeds_quantity'
+  | 'before_start'
+  | 'after_end'
+  | 'no_approval'
+  | 'authorization_inactive';
+
+export interface UtilizationWarning {
+  kind: UtilizationWarningKind;
+  message: string;
+}
+
+// What is left of one approved quantity
+export interface UnitBalance {
+  approvalId: number;
+  cptCode: string;
+  unitType: UnitType;
+  approvedQuantity: number;
+  usedQuantity: number;
+  remainingQuantity: number;
+  startDate: string | null; // ISO timestamps of the effective date span
+  endDate: string | null;
+  lowBalance: boolean;
+}
+
+// A planned or delivered service checked against the approved quantity and date span
+export interface UtilizationCheck {
+  cptCode: string;
+  serviceDate: string;
+  units: number;
+  balance: UnitBalance | null;
+  warnings: UtilizationWarning[];
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_WORKFLOW_STEPS,
+  hasReachedRole,
+  stepSequence,
+  withDefaultRoles,
+  workflowDefinitionStepsSchema,
+  type WorkflowStepDefinition,
+} from "./workflow-definitions";
+
+function step(stepNumber: number, extra: Partial<WorkflowStepDefinition> = {}): WorkflowStepDefinition {
+  return { stepNumber, stepName: `Step ${stepNumber}`, description: "", fields: [], skippable: false, ...extra };
+}
+
+describe("workflow step order", () => {
+  it("follows next when the target is on the path and falls back to step order otherwise", () => {
+    const steps = [
+      step(1, { next: 3 }),
+      step(2),
+      step(3, { next: 5 }),
+      step(4),
+      step(5, { paths: ["standard"] }),
+      step(6),
+    ];
+
+    expect(stepSequence(steps, "standard")).toEqual([1, 3, 5, 6]);
+    expect(stepSequence(steps, "urgent")).toEqual([1, 3, 4, 6]);
+  });
+
+  it("keeps the first entry of a next list saved by older definitions", () => {
+    const parsed = workflowDefinitionStepsSchema.parse([step(1, { next: [3, 2] as unknown as number }), step(2), step(3)]);
+
+    expect(parsed[0].next).toBe(3);
+  });
+});
+
+describe("workflow step roles", () => {
+  it("finds a renumbered role by its position on the path", () => {
+    const steps = [
+      step(10, { role: "documentation" }),
+      step(20, { role: "service_authorization" }),
+      step(30, { role: "renewal" }),
+    ];
+
+    expect(hasReachedRole(steps, "standard", 10, "service_authorization")).toBe(false);
+    expect(hasReachedRole(steps, "standard", 20, "service_authorization")).toBe(true);
+    expect(hasReachedRole(steps, "standard", 31, "service_authorization")).toBe(true);
+  });
+
+  it("treats a role missing from the definition as reached only at the end", () => {
+    const steps = [step(1), step(2)];
+
+    expect(hasReachedRole(steps, "standard", 2, "service_authorization")).toBe(false);
+    expect(hasReachedRole(steps, "standard", 3, "service_authorization")).toBe(true);
+  });
+
+  it("rejects a role used on two steps", () => {
+    const result = workflowDefinitionStepsSchema.safeParse([step(1, { role: "documentation" }), step(2, { role: "documentation" })]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0].message).toBe("Only one step can have the documentation role");
+  });
+
+  it("gives definitions saved before roles the default roles by step number", () => {
+    const legacy = DEFAULT_WORKFLOW_STEPS.map(({ role: _role, ...rest }) => rest);
+
+    expect(withDefaultRoles(legacy).map(item => item.role)).toEqual(DEFAULT_WORKFLOW_STEPS.map(item => item.role));
+  });
+});
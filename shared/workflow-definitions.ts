@@ -0,0 +1,347 @@
+// Prior authorization workflow definitions, stored versioned in workflow_definitions and
+// selected per payer by server/services/workflow-definitions.ts when a workflow starts.
+
+import { z } from "zod";
+
+export const WORKFLOW_FIELD_TYPES = ['text', 'textarea', 'number', 'date', 'boolean', 'select'] as const;
+export type WorkflowFieldType = typeof WORKFLOW_FIELD_TYPES[number];
+
+// Urgent requests follow the expedited path, everything else the standard one
+export const WORKFLOW_PATHS = ['urgent', 'standard'] as const;
+export type WorkflowPath = typeof WORKFLOW_PATHS[number];
+
+// What a step is for. The server and UI find steps by role, never by number, so a payer's definition
+// can renumber or reorder steps and keep the documentation gate, claim tracking and the step panels.
+export const WORKFLOW_STEP_ROLES = [
+  'clinical_decision',
+  'eligibility',
+  'clinical_evidence',
+  'documentation',
+  'forms',
+  'submission',
+  'tracking',
+  'decision',
+  'service_authorization',
+  'renewal',
+] as const;
+export type WorkflowStepRole = typeof WORKFLOW_STEP_ROLES[number];
+
+export const workflowFieldSchema = z.object({
+  name: z.string().trim().min(1),
+  label: z.string().trim().min(1),
+  type: z.enum(WORKFLOW_FIELD_TYPES).default('text'),
+  required: z.boolean().default(false),
+  options: z.array(z.string().trim().min(1)).optional(),
+});
+
+export const workflowStepDefinitionSchema = z.object({
+  stepNumber: z.number().int().min(1),
+  stepName: z.string().trim().min(1),
+  // Steps without a role are plain checklist steps with no behaviour attached
+  role: z.enum(WORKFLOW_STEP_ROLES).optional(),
+  description: z.string().trim().default(''),
+  fields: z.array(workflowFieldSchema).default([]),
+  // Optional steps can be skipped without completing them
+  skippable: z.boolean().default(false),
+  // Limits the step to one path; omitted means both
+  paths: z.array(z.enum(WORKFLOW_PATHS)).min(1).optional(),
+  // Step this one advances to; omitted, or not on the authorization's path, means the next step by number.
+  // Definitions saved while this was a list keep their first entry.
+  next: z.preprocess(
+    value => (Array.isArray(value) ? value[0] : value),
+    z.number().int().min(1).optional(),
+  ),
+});
+
+export const workflowDefinitionStepsSchema = z.array(workflowStepDefinitionSchema).min(1).superRefine((steps, ctx) => {
+  const numbers = steps.map(step => step.stepNumber);
+  const roles = steps.map(step => step.role);
+  steps.forEach((step, index) => {
+    if (numbers.indexOf(step.stepNumber) !== index) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'stepNumber'], message: `Step ${step.stepNumber} is defined more than once` });
+    }
+    if (step.role && roles.indexOf(step.role) !== index) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'role'], message: `Only one step can have the ${step.role} role` });
+    }
+    if (step.next !== undefined) {
+      if (!numbers.includes(step.next)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'next'], message: `Step ${step.next} does not exist` });
+      } else if (step.next <= step.stepNumber) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'next'], message: 'Transitions must move forward' });
+      }
+    }
+  });
+  for (const path of WORKFLOW_PATHS) {
+    if (!steps.some(step => !step.paths || step.paths.includes(path))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [], message: `No steps apply to ${path} requests` });
+    }
+  }
+});
+
+export const workflowDefinitionInputSchema = z.object({
+  key: z.string().trim().min(1).regex(/^[a-z0-9-]+$/, "Keys may only contain lowercase letters, digits and dashes"),
+  name: z.string().trim().min(1),
+  insuranceProviderId: z.number().int().positive().nullable().optional(),
+  steps: workflowDefinitionStepsSchema,
+});
+
+export type WorkflowField = z.infer<typeof workflowFieldSchema>;
+export type WorkflowStepDefinition = z.infer<typeof workflowStepDefinitionSchema>;
+export type WorkflowDefinitionInput = z.infer<typeof workflowDefinitionInputSchema>;
+
+// The definition a workflow runs on; id is null for the built-in default
+export interface ResolvedWorkflowDefinition {
+  id: number | null;
+  key: string;
+  version: number;
+  name: string;
+  steps: WorkflowStepDefinition[];
+}
+
+export const DEFAULT_WORKFLOW_KEY = 'standard';
+
+// Seeded as version 1 of the default definition and used when none is stored
+export const DEFAULT_WORKFLOW_STEPS: WorkflowStepDefinition[] = [
+  {
+    stepNumber: 1,
+    stepName: "Clinical Decision & Insurance Check",
+    role: 'clinical_decision',
+    description: "Determine medical necessity and verify PA requirements",
+    fields: [
+      { name: "treatmentType", label: "Treatment type", type: "text", required: true },
+      { name: "cptCode", label: "CPT code", type: "text", required: true },
+      { name: "icd10Code", label: "ICD-10 code", type: "text", required: false },
+      { name: "clinicalJustification", label: "Clinical justification", type: "textarea", required: false },
+    ],
+    skippable: false,
+  },
+  {
+    stepNumber: 2,
+    stepName: "Patient & Insurance Verification",
+    role: 'eligibility',
+    description: "Verify patient eligibility and insurance coverage",
+    fields: [
+      { name: "patientId", label: "Patient", type: "number", required: false },
+      { name: "insuranceId", label: "Insurance", type: "number", required: false },
+      { name: "memberId", label: "Member ID", type: "text", required: false },
+      { name: "groupNumber", label: "Group number", type: "text", required: false },
+    ],
+    skippable: false,
+  },
+  {
+    stepNumber: 3,
+    stepName: "Clinical Evidence Gathering",
+    role: 'clinical_evidence',
+    description: "Collect provider notes, lab results, previous treatments",
+    fields: [
+      { name: "clinicalEvidence", label: "Clinical evidence", type: "textarea", required: true },
+      { name: "previousTreatments", label: "Previous treatments", type: "textarea", required: false },
+      { name: "providerNotes", label: "Provider notes", type: "textarea", required: false },
+    ],
+    skippable: false,
+  },
+  {
+    stepNumber: 4,
+    stepName: "Documentation Preparation",
+    role: 'documentation',
+    description: "Prepare clinical documentation and attestation",
+    fields: [
+      { name: "attestation", label: "Attestation", type: "boolean", required: false },
+      { name: "medicalNecessity", label: "Medical necessity statement", type: "textarea", required: false },
+    ],
+    skippable: false,
+  },
+  {
+    stepNumber: 5,
+    stepName: "Form Selection & Completion",
+    role: 'forms',
+    description: "Select state-specific forms and complete required fields",
+    fields: [
+      { name: "stateFormTemplate", label: "State form", type: "text", required: false },
+      { name: "procedureCodes", label: "Procedure codes", type: "text", required: false },
+    ],
+    skippable: false,
+  },
+  {
+    stepNumber: 6,
+    stepName: "Prior Authorization Submission",
+    role: 'submission',
+    description: "Submit PA request through appropriate channel",
+    fields: [
+      { name: "submissionMethod", label: "Submission method", type: "select", required: false, options: ["portal", "fax", "phone", "electronic"] },
+      { name: "submissionDate", label: "Submission date", type: "date", required: false },
+      { name: "trackingNumber", label: "Tracking number", type: "text", required: false },
+    ],
+    skippable: false,
+  },
+  {
+    stepNumber: 7,
+    stepName: "Tracking & Follow-up",
+    role: 'tracking',
+    description: "Monitor submission status and respond to requests",
+    fields: [
+      { name: "reviewProgress", label: "Review progress", type: "textarea", required: false },
+      { name: "additionalRequests", label: "Additional payer requests", type: "textarea", required: false },
+    ],
+    skippable: false,
+  },
+  {
+    stepNumber: 8,
+    stepName: "Decision Processing",
+    role: 'decision',
+    description: "Process approval/denial and next steps",
+    fields: [
+      { name: "decision", label: "Decision", type: "select", required: false, options: ["approved", "denied", "partial"] },
+      { name: "authorizationNumber", label: "Authorization number", type: "text", required: false },
+      { name: "denialReason", label: "Denial reason", type: "textarea", required: false },
+      { name: "appealOptions", label: "Appeal options", type: "textarea", required: false },
+    ],
+    skippable: false,
+  },
+  {
+    stepNumber: 9,
+    stepName: "Service Authorization",
+    role: 'service_authorization',
+    description: "Authorize service delivery and claim submission",
+    fields: [
+      { name: "serviceAuthorization", label: "Service authorization", type: "textarea", required: false },
+      { name: "expirationDate", label: "Expiration date", type: "date", required: false },
+      { name: "serviceDelivery", label: "Service delivery", type: "textarea", required: false },
+    ],
+    skippable: false,
+  },
+  {
+    stepNumber: 10,
+    stepName: "Renewal & Monitoring",
+    role: 'renewal',
+    description: "Track renewals and ongoing monitoring",
+    fields: [
+      { name: "renewalTracking", label: "Renewal tracking", type: "textarea", required: false },
+      { name: "continuedNecessity", label: "Continued necessity", type: "textarea", required: false },
+      { name: "outcomeMonitoring", label: "Outcome monitoring", type: "textarea", required: false },
+    ],
+    skippable: true,
+  },
+];
+
+export function workflowPathFor(urgentRequest: boolean): WorkflowPath {
+  return urgentRequest ? 'urgent' : 'standard';
+}
+
+// Steps an authorization on the given path goes through, in order
+export function stepsForPath(steps: WorkflowStepDefinition[], path: WorkflowPath): WorkflowStepDefinition[] {
+  return steps
+    .filter(step => !step.paths || step.paths.includes(path))
+    .sort((a, b) => a.stepNumber - b.stepNumber);
+}
+
+// The step that follows stepNumber on the given path, or null once the workflow is done
+export function nextStepNumber(steps: WorkflowStepDefinition[], stepNumber: number, path: WorkflowPath): number | null {
+  const pathSteps = stepsForPath(steps, path);
+  const target = pathSteps.find(step => step.stepNumber === stepNumber)?.next;
+  if (target !== undefined && pathSteps.some(step => step.stepNumber === target)) {
+    return target;
+  }
+  return pathSteps.find(step => step.stepNumber > stepNumber)?.stepNumber ?? null;
+}
+
+// Steps in the order an authorization on the given path walks through them
+export function stepSequence(steps: WorkflowStepDefinition[], path: WorkflowPath): number[] {
+  const sequence: number[] = [];
+  let stepNumber: number | null = stepsForPath(steps, path)[0]?.stepNumber ?? null;
+  while (stepNumber !== null) {
+    sequence.push(stepNumber);
+    stepNumber = nextStepNumber(steps, stepNumber, path);
+  }
+  return sequence;
+}
+
+export function stepWithRole(steps: WorkflowStepDefinition[], role: WorkflowStepRole): WorkflowStepDefinition | undefined {
+  return steps.find(step => step.role === role);
+}
+
+// Whether a workflow at currentStep has reached the step with the given role on its path. A workflow
+// past its last step has reached every step; a path without the role is only reached at the end.
+export function hasReachedRole(steps: WorkflowStepDefinition[], path: WorkflowPath, currentStep: number, role: WorkflowStepRole): boolean {
+  const sequence = stepSequence(steps, path);
+  const position = (stepNumber: number | undefined) => {
+    const index = stepNumber === undefined ? -1 : sequence.indexOf(stepNumber);
+    return index === -1 ? sequence.length : index;
+  };
+  return position(currentStep) >= position(stepWithRole(steps, role)?.stepNumber);
+}
+
+// Definitions saved before steps had roles followed the default numbering, so they take its roles
+export function withDefaultRoles(steps: WorkflowStepDefinition[]): WorkflowStepDefinition[] {
+  if (steps.some(step => step.role)) return steps;
+  return steps.map(step => ({
+    ...step,
+    role: DEFAULT_WORKFLOW_STEPS.find(candidate => candidate.stepNumber === step.stepNumber)?.role,
+  }));
+}
+
+export type WorkflowStepAction = 'complete' | 'skip' | 'reopen' | 'revert' | 'advance';
+
+// One status change of a workflow step, kept on the step so reopened and reverted work stays visible
+export interface WorkflowStepTransition {
+  action: WorkflowStepAction;
+  fromStatus: string;
+  toStatus: string;
+  userId: number;
+  at: string;
+  reason?: string;
+}
+
+export interface WorkflowFieldError {
+  field: string;
+  message: string;
+}
+
+function fieldSchema(field: WorkflowField): z.ZodTypeAny {
+  const requiredError = `${field.label} is required`;
+  let schema: z.ZodTypeAny;
+
+  switch (field.type) {
+    case 'number':
+      schema = z.number({ required_error: requiredError, invalid_type_error: `${field.label} must be a number` });
+      break;
+    case 'date':
+      schema = z.string({ required_error: requiredError })
+        .regex(/^\d{4}-\d{2}-\d{2}$/, `${field.label} must be a date (YYYY-MM-DD)`);
+      break;
+    case 'boolean':
+      schema = field.required
+        ? z.boolean({ required_error: requiredError }).refine(value => value, `${field.label} must be confirmed`)
+        : z.boolean();
+      break;
+    case 'select':
+      schema = field.options?.length
+        ? z.enum(field.options as [string, ...string[]], {
+          errorMap: (_issue, ctx) => ({
+            message: ctx.data === undefined ? requiredError : `${field.label} must be one of ${field.options!.join(', ')}`,
+          }),
+        })
+        : z.string({ required_error: requiredError }).trim().min(1, requiredError);
+      break;
+    default:
+      schema = z.string({ required_error: requiredError, invalid_type_error: `${field.label} must be text` })
+        .trim()
+        .min(field.required ? 1 : 0, requiredError);
+  }
+
+  // Blank inputs count as not provided; numeric fields also accept numeric strings
+  return z.preprocess(value => {
+    if (value === '' || value === null) return undefined;
+    if (field.type === 'number' && typeof value === 'string' && !isNaN(Number(value))) return Number(value);
+    return value;
+  }, field.required ? schema : schema.optional());
+}
+
+// Validates the form data submitted for a step; keys the step does not declare pass through
+export function stepFormSchema(step: WorkflowStepDefinition) {
+  return z.object(Object.fromEntries(step.fields.map(field => [field.name, fieldSchema(field)]))).passthrough();
+}
+
+export function fieldErrorsFrom(error: z.ZodError): WorkflowFieldError[] {
+  return error.errors.map(issue => ({ field: issue.path.join('.'), message: issue.message }));
+}